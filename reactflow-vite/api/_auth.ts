@@ -0,0 +1,172 @@
+// Shared helpers for the Vercel serverless functions
+// ===================================================
+// Server configuration, CORS and caller authentication.
+// Files prefixed with "_" are not exposed as routes by Vercel.
+//
+// Environment variables:
+//   NOTION_API_SECRET  Notion integration token (required)
+//   APP_ACCESS_KEYS    Comma-separated "user:key" pairs allowed to use the API
+//   SESSION_SECRET     Secret used to sign session cookies
+//   ALLOWED_ORIGINS    Comma-separated origins allowed to call the API cross-origin
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+
+export const NOTION_API_BASE = 'https://api.notion.com/v1';
+export const NOTION_API_VERSION = '2022-06-28';
+
+export const SESSION_COOKIE = 'cinaps_session';
+const SESSION_DURATION = 30 * 24 * 60 * 60; // 30 days, in seconds
+
+// ============================================
+// Configuration
+// ============================================
+
+function readList(name: string): string[] {
+  return (process.env[name] || '')
+    .split(',')
+    .map(item => item.trim())
+    .filter(Boolean);
+}
+
+/**
+ * The Notion token, from server configuration only
+ */
+export function getNotionSecret(): string {
+  const secret = process.env.NOTION_API_SECRET;
+  if (!secret) {
+    throw new Error('NOTION_API_SECRET is not configured');
+  }
+  return secret;
+}
+
+// access key -> user id
+function getAccessKeys(): Map<string, string> {
+  const keys = new Map<string, string>();
+  readList('APP_ACCESS_KEYS').forEach(entry => {
+    const separator = entry.indexOf(':');
+    if (separator > 0) {
+      keys.set(entry.slice(separator + 1), entry.slice(0, separator));
+    }
+  });
+  return keys;
+}
+
+function getSessionSecret(): string {
+  const secret = process.env.SESSION_SECRET;
+  if (!secret) {
+    throw new Error('SESSION_SECRET is not configured');
+  }
+  return secret;
+}
+
+// ============================================
+// CORS
+// ============================================
+
+/**
+ * Only origins listed in ALLOWED_ORIGINS get CORS headers; same-origin calls need none
+ */
+export function applyCors(req: VercelRequest, res: VercelResponse, methods: string): void {
+  res.setHeader('Vary', 'Origin');
+  const origin = req.headers.origin;
+  if (origin && readList('ALLOWED_ORIGINS').includes(origin)) {
+    res.setHeader('Access-Control-Allow-Origin', origin);
+    res.setHeader('Access-Control-Allow-Credentials', 'true');
+    res.setHeader('Access-Control-Allow-Methods', `${methods}, OPTIONS`);
+    res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+  }
+}
+
+// ============================================
+// Sessions
+// ============================================
+
+function safeEqual(a: string, b: string): boolean {
+  const bufA = Buffer.from(a);
+  const bufB = Buffer.from(b);
+  return bufA.length === bufB.length && timingSafeEqual(bufA, bufB);
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getSessionSecret()).update(payload).digest('base64url');
+}
+
+/**
+ * Resolve an access key to its user id
+ */
+export function findUserByAccessKey(accessKey: string): string | null {
+  for (const [key, userId] of getAccessKeys()) {
+    if (safeEqual(key, accessKey)) return userId;
+  }
+  return null;
+}
+
+/**
+ * Cookie header value that signs the user in
+ */
+export function createSessionCookie(userId: string): string {
+  const expires = Math.floor(Date.now() / 1000) + SESSION_DURATION;
+  const payload = `${Buffer.from(userId).toString('base64url')}.${expires}`;
+  const token = `${payload}.${sign(payload)}`;
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=${SESSION_DURATION}`;
+}
+
+/**
+ * Cookie header value that signs the user out
+ */
+export function clearSessionCookie(): string {
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; Secure; SameSite=Lax; Max-Age=0`;
+}
+
+function readSessionCookie(req: VercelRequest): string | null {
+  const cookies = req.headers.cookie || '';
+  for (const part of cookies.split(';')) {
+    const [name, ...rest] = part.trim().split('=');
+    if (name === SESSION_COOKIE) return rest.join('=');
+  }
+  return null;
+}
+
+function verifySessionToken(token: string): string | null {
+  const [encodedUser, expires, signature] = token.split('.');
+  if (!encodedUser || !expires || !signature) return null;
+  if (!safeEqual(sign(`${encodedUser}.${expires}`), signature)) return null;
+  if (Number(expires) < Date.now() / 1000) return null;
+  return Buffer.from(encodedUser, 'base64url').toString();
+}
+
+// ============================================
+// Authentication
+// ============================================
+
+/**
+ * Identify the caller from an "Authorization: Bearer <access key>" header
+ * (for scripts) or the session cookie set by /api/session (for the app)
+ */
+export function authenticate(req: VercelRequest): string | null {
+  const authorization = req.headers.authorization;
+  if (authorization?.startsWith('Bearer ')) {
+    return findUserByAccessKey(authorization.slice('Bearer '.length).trim());
+  }
+  const token = readSessionCookie(req);
+  return token ? verifySessionToken(token) : null;
+}
+
+/**
+ * Reject unauthenticated requests; returns the user id when the caller may proceed
+ */
+export function requireUser(req: VercelRequest, res: VercelResponse): string | null {
+  try {
+    const userId = authenticate(req);
+    if (!userId) {
+      res.status(401).json({ error: 'Unauthorized', message: 'Sign in to continue' });
+      return null;
+    }
+    return userId;
+  } catch (error) {
+    console.error('[Auth] Error:', error);
+    res.status(500).json({ error: 'Server misconfigured' });
+    return null;
+  }
+}
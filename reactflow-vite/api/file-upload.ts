@@ -4,10 +4,13 @@
 // Supports multipart/form-data file uploads
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
-
-const NOTION_API_SECRET = 'ntn_Y4956693031esIvt8ydLIJtlx7QozKmnTq7sBV4YO4c2XJ';
-const NOTION_API_BASE = 'https://api.notion.com/v1';
-const NOTION_API_VERSION = '2022-06-28';
+import {
+  NOTION_API_BASE,
+  NOTION_API_VERSION,
+  applyCors,
+  getNotionSecret,
+  requireUser,
+} from './_auth.js';
 
 // Disable body parsing - we need raw form data
 export const config = {
@@ -16,13 +19,6 @@ export const config = {
   },
 };
 
-// Helper to set CORS headers
-function setCorsHeaders(res: VercelResponse): void {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'POST, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type');
-}
-
 // Parse multipart form data manually
 async function parseMultipartFormData(req: VercelRequest): Promise<{ file: Buffer; filename: string; contentType: string } | null> {
   return new Promise((resolve, reject) => {
@@ -149,7 +145,7 @@ function splitBuffer(buffer: Buffer, boundary: Buffer): Buffer[] {
 }
 
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  setCorsHeaders(res);
+  applyCors(req, res, 'POST');
   
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -161,11 +157,13 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     res.status(405).json({ error: 'Method not allowed' });
     return;
   }
+
+  if (!requireUser(req, res)) return;
   
   try {
     const { fileUploadId } = req.query;
     
-    if (!fileUploadId || typeof fileUploadId !== 'string') {
+    if (!fileUploadId || typeof fileUploadId !== 'string' || !/^[0-9a-fA-F-]{32,36}$/.test(fileUploadId)) {
       res.status(400).json({ error: 'Missing fileUploadId parameter' });
       return;
     }
@@ -196,7 +194,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       {
         method: 'POST',
         headers: {
-          'Authorization': `Bearer ${NOTION_API_SECRET}`,
+          'Authorization': `Bearer ${getNotionSecret()}`,
           'Notion-Version': NOTION_API_VERSION,
         },
         body: formData,
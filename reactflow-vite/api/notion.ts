@@ -1,24 +1,263 @@
 // Vercel Serverless Function - Notion API Proxy
 // ==============================================
 // This function proxies requests to the Notion API to avoid CORS issues
-// The Notion API secret is kept server-side for security
+// The Notion API secret is read from server configuration and never sent to the browser
+// Only signed-in users may call it, and only for the endpoints and databases the app uses
+// Paths, node-path notes and folders are private to the user who owns them
 
 import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  NOTION_API_BASE,
+  NOTION_API_VERSION,
+  applyCors,
+  getNotionSecret,
+  requireUser,
+} from './_auth.js';
+import { NOTION_CONFIG } from '../src/services/notion/config.js';
 
-const NOTION_API_SECRET = 'ntn_Y4956693031esIvt8ydLIJtlx7QozKmnTq7sBV4YO4c2XJ';
-const NOTION_API_BASE = 'https://api.notion.com/v1';
-const NOTION_API_VERSION = '2022-06-28';
+// ============================================
+// Allow-list
+// ============================================
 
-// Helper to set CORS headers
-function setCorsHeaders(res: VercelResponse): void {
-  res.setHeader('Access-Control-Allow-Origin', '*');
-  res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PATCH, DELETE, OPTIONS');
-  res.setHeader('Access-Control-Allow-Headers', 'Content-Type, Authorization');
+// Notion accepts IDs with or without dashes
+function normalizeId(id: unknown): string {
+  return typeof id === 'string' ? id.replace(/-/g, '').toLowerCase() : '';
 }
 
+const ALLOWED_DATABASES = new Set(Object.values(NOTION_CONFIG.DATABASES).map(normalizeId));
+
+function isAllowedDatabase(id: unknown): boolean {
+  return ALLOWED_DATABASES.has(normalizeId(id));
+}
+
+// ============================================
+// Ownership
+// ============================================
+
+// Databases whose pages belong to a single user (nodes are shared by everyone)
+const OWNED_DATABASES = new Set([
+  NOTION_CONFIG.DATABASES.PATHS,
+  NOTION_CONFIG.DATABASES.NODE_PATH,
+  NOTION_CONFIG.DATABASES.CATEGORIES,
+].map(normalizeId));
+
+interface PageSummary {
+  object?: string;
+  parent?: { type?: string; database_id?: string };
+  properties?: Record<string, { rich_text?: Array<{ plain_text?: string }> }>;
+}
+
+function pageOwner(page: PageSummary): string {
+  return (page.properties?.owner?.rich_text || []).map(t => t.plain_text || '').join('');
+}
+
+// Pages without an owner predate accounts and are visible to everyone
+function isVisibleTo(page: PageSummary, userId: string): boolean {
+  if (page.parent?.type !== 'database_id') return true;
+  if (!OWNED_DATABASES.has(normalizeId(page.parent.database_id))) return true;
+  const owner = pageOwner(page);
+  return !owner || owner === userId;
+}
+
+async function notionGet<T>(path: string): Promise<T | null> {
+  const response = await fetch(`${NOTION_API_BASE}${path}`, {
+    headers: {
+      'Authorization': `Bearer ${getNotionSecret()}`,
+      'Notion-Version': NOTION_API_VERSION,
+    },
+  });
+  return response.ok ? await response.json() as T : null;
+}
+
+// Reading or saving a note touches many blocks of one page, so what the checks
+// learn is kept while the function instance is warm: each page's parent and
+// owner (which the proxy never lets change), and the page each block is in
+const PAGE_CACHE_TTL = 5 * 60 * 1000;
+const MAX_CACHED = 10000;
+
+const pageSummaries = new Map<string, { page: PageSummary; fetchedAt: number }>();
+const blockPages = new Map<string, string>(); // block id -> page id
+
+function remember<T>(map: Map<string, T>, key: string, value: T): void {
+  if (map.size >= MAX_CACHED) map.clear();
+  map.set(normalizeId(key), value);
+}
+
+async function getPageSummary(pageId: string): Promise<PageSummary | null> {
+  const cached = pageSummaries.get(normalizeId(pageId));
+  if (cached && Date.now() - cached.fetchedAt < PAGE_CACHE_TTL) return cached.page;
+  const page = await notionGet<PageSummary>(`/pages/${pageId}`);
+  if (page) remember(pageSummaries, pageId, { page, fetchedAt: Date.now() });
+  return page;
+}
+
+// Pages may only be modified if they belong to one of the app's databases and to the caller
+async function canModifyPage(pageId: string, userId: string): Promise<boolean> {
+  const page = await getPageSummary(pageId);
+  return !!page
+    && page.parent?.type === 'database_id'
+    && isAllowedDatabase(page.parent.database_id)
+    && isVisibleTo(page, userId);
+}
+
+interface BlockSummary {
+  type?: string;
+  parent?: { type?: string; page_id?: string; block_id?: string };
+}
+
+// The page whose body holds a block; notes nest only a few levels deep
+async function owningPageId(blockId: string): Promise<string | null> {
+  const walked: string[] = [];
+  let id = blockId;
+  let pageId: string | null = null;
+  for (let depth = 0; depth < 4 && !pageId; depth++) {
+    const known = blockPages.get(normalizeId(id));
+    if (known) {
+      pageId = known;
+      break;
+    }
+    const block = await notionGet<BlockSummary>(`/blocks/${id}`);
+    if (!block) return null;
+    walked.push(id);
+    if (block.type === 'child_page') pageId = id;
+    else if (block.parent?.type === 'page_id' && block.parent.page_id) pageId = block.parent.page_id;
+    else if (block.parent?.type === 'block_id' && block.parent.block_id) id = block.parent.block_id;
+    else return null;
+  }
+  if (pageId) walked.forEach(walkedId => remember(blockPages, walkedId, pageId as string));
+  return pageId;
+}
+
+// Blocks may only be deleted from the body of a page the caller may modify
+async function canModifyBlock(blockId: string, userId: string): Promise<boolean> {
+  const pageId = await owningPageId(blockId);
+  return !!pageId && canModifyPage(pageId, userId);
+}
+
+// Page bodies hold notes, so they are as private as the page
+async function canReadBlockChildren(blockId: string, userId: string): Promise<boolean> {
+  const page = await getPageSummary(blockPages.get(normalizeId(blockId)) ?? blockId)
+    ?? await owningPageId(blockId).then(pageId => pageId ? getPageSummary(pageId) : null);
+  return !!page && isVisibleTo(page, userId);
+}
+
+// Drop pages the caller may not see from a page or list response
+function filterResponse(data: unknown, userId: string): { data: unknown; hidden: boolean } {
+  const response = data as PageSummary & { results?: PageSummary[] };
+  if (response?.object === 'list' && Array.isArray(response.results)) {
+    return { data: { ...response, results: response.results.filter(p => isVisibleTo(p, userId)) }, hidden: false };
+  }
+  if (response?.object === 'page' && !isVisibleTo(response, userId)) {
+    return { data: { object: 'error', status: 404, code: 'object_not_found', message: 'Page not found' }, hidden: true };
+  }
+  return { data, hidden: false };
+}
+
+const ID = '([0-9a-fA-F-]{32,36})';
+
+// Blocks listed or added under a checked page or block are in the same page;
+// child pages are pages of their own
+function rememberChildren(path: string, data: unknown): void {
+  const match = path.match(new RegExp(`^/blocks/${ID}/children`));
+  const results = (data as { results?: Array<{ id?: string; type?: string }> } | null)?.results;
+  if (!match || !Array.isArray(results)) return;
+  const parentId = normalizeId(match[1]);
+  const pageId = blockPages.get(parentId) ?? (pageSummaries.has(parentId) ? parentId : null);
+  if (!pageId) return;
+  results.forEach(child => {
+    if (child.id && child.type !== 'child_page') remember(blockPages, child.id, pageId);
+  });
+}
+
+interface AllowedRoute {
+  method: string;
+  pattern: RegExp;
+  check?: (
+    match: RegExpMatchArray,
+    body: Record<string, unknown> | undefined,
+    userId: string
+  ) => boolean | Promise<boolean>;
+}
+
+const ALLOWED_ROUTES: AllowedRoute[] = [
+  {
+    method: 'POST',
+    pattern: new RegExp(`^/databases/${ID}/query$`),
+    check: match => isAllowedDatabase(match[1]),
+  },
+  {
+    method: 'POST',
+    pattern: /^\/pages$/,
+    check: (_match, body) => isAllowedDatabase((body?.parent as { database_id?: string } | undefined)?.database_id),
+  },
+  { method: 'GET', pattern: new RegExp(`^/pages/${ID}$`) },
+  {
+    method: 'PATCH',
+    pattern: new RegExp(`^/pages/${ID}$`),
+    check: (match, _body, userId) => canModifyPage(match[1], userId),
+  },
+  {
+    method: 'GET',
+    pattern: new RegExp(`^/blocks/${ID}/children(\\?start_cursor=[\\w-]+)?$`),
+    check: (match, _body, userId) => canReadBlockChildren(match[1], userId),
+  },
+  {
+    method: 'PATCH',
+    pattern: new RegExp(`^/blocks/${ID}/children$`),
+    check: (match, _body, userId) => canModifyPage(match[1], userId),
+  },
+  {
+    method: 'DELETE',
+    pattern: new RegExp(`^/blocks/${ID}$`),
+    check: (match, _body, userId) => canModifyBlock(match[1], userId),
+  },
+  { method: 'POST', pattern: /^\/search$/ },
+  { method: 'POST', pattern: /^\/file_uploads$/ },
+];
+
+async function isAllowedRequest(
+  method: string,
+  path: string,
+  body: Record<string, unknown> | undefined,
+  userId: string
+): Promise<boolean> {
+  for (const route of ALLOWED_ROUTES) {
+    if (route.method !== method) continue;
+    const match = path.match(route.pattern);
+    if (!match) continue;
+    return route.check ? route.check(match, body, userId) : true;
+  }
+  return false;
+}
+
+// New pages in owned databases always belong to the caller; ownership can't be reassigned
+function applyOwnership(
+  method: string,
+  path: string,
+  body: Record<string, unknown> | undefined,
+  userId: string
+): Record<string, unknown> | undefined {
+  const properties = body?.properties as Record<string, unknown> | undefined;
+  if (!body || !properties) return body;
+
+  const rest = { ...properties };
+  delete rest.owner;
+  const databaseId = (body.parent as { database_id?: string } | undefined)?.database_id;
+  if (method === 'POST' && path === '/pages' && OWNED_DATABASES.has(normalizeId(databaseId))) {
+    return {
+      ...body,
+      properties: { ...rest, owner: { rich_text: [{ text: { content: userId } }] } },
+    };
+  }
+  return { ...body, properties: rest };
+}
+
+// ============================================
+// Handler
+// ============================================
+
 export default async function handler(req: VercelRequest, res: VercelResponse) {
-  // Set CORS headers for all responses
-  setCorsHeaders(res);
+  applyCors(req, res, 'GET, POST');
   
   // Handle CORS preflight
   if (req.method === 'OPTIONS') {
@@ -26,6 +265,9 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     return;
   }
 
+  const userId = requireUser(req, res);
+  if (!userId) return;
+
   // Get the Notion API path from query parameter
   const { path } = req.query;
   
@@ -38,29 +280,38 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
   }
 
   try {
-    const notionUrl = `${NOTION_API_BASE}${path.startsWith('/') ? path : '/' + path}`;
+    const notionPath = path.startsWith('/') ? path : '/' + path;
+    const notionUrl = `${NOTION_API_BASE}${notionPath}`;
     
     console.log('[Notion Proxy] URL:', notionUrl);
     console.log('[Notion Proxy] Request method:', req.method);
-    console.log('[Notion Proxy] Request body:', JSON.stringify(req.body));
     
     // Determine the actual HTTP method
     // For GET requests, use GET
     // For other requests, the method is sent in the body
     let actualMethod = req.method || 'GET';
-    let notionBody: string | undefined;
+    let requestBody: Record<string, unknown> | undefined;
     
     if (req.method === 'POST' && req.body) {
       // Check if this is a proxied request with method in body
       if (req.body.method && typeof req.body.method === 'string') {
-        actualMethod = req.body.method;
-        notionBody = req.body.body ? JSON.stringify(req.body.body) : undefined;
+        actualMethod = req.body.method.toUpperCase();
+        requestBody = req.body.body;
       } else {
         // Direct POST request
-        notionBody = JSON.stringify(req.body);
+        requestBody = req.body;
       }
     }
 
+    if (!(await isAllowedRequest(actualMethod, notionPath, requestBody, userId))) {
+      console.warn('[Notion Proxy] Blocked:', userId, actualMethod, notionPath);
+      res.status(403).json({ error: 'Forbidden', message: `${actualMethod} ${notionPath} is not allowed` });
+      return;
+    }
+    requestBody = applyOwnership(actualMethod, notionPath, requestBody, userId);
+
+    let notionBody = requestBody ? JSON.stringify(requestBody) : undefined;
+
     // GET and HEAD requests must NOT have a body
     if (actualMethod === 'GET' || actualMethod === 'HEAD') {
       notionBody = undefined;
@@ -72,7 +323,7 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     const notionResponse = await fetch(notionUrl, {
       method: actualMethod,
       headers: {
-        'Authorization': `Bearer ${NOTION_API_SECRET}`,
+        'Authorization': `Bearer ${getNotionSecret()}`,
         'Notion-Version': NOTION_API_VERSION,
         'Content-Type': 'application/json',
       },
@@ -93,8 +344,16 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
       responseData = { raw: responseText };
     }
 
-    // Forward the response
-    res.status(notionResponse.status).json(responseData);
+    if (notionResponse.ok) rememberChildren(notionPath, responseData);
+
+    // Forward the response, without pages that belong to other users
+    const filtered = notionResponse.ok
+      ? filterResponse(responseData, userId)
+      : { data: responseData, hidden: false };
+    // The client paces its retries by Retry-After when Notion rate-limits us
+    const retryAfter = notionResponse.headers.get('retry-after');
+    if (retryAfter) res.setHeader('Retry-After', retryAfter);
+    res.status(filtered.hidden ? 404 : notionResponse.status).json(filtered.data);
       
   } catch (error) {
     console.error('[Notion Proxy] Error:', error);
@@ -102,7 +361,6 @@ export default async function handler(req: VercelRequest, res: VercelResponse) {
     res.status(500).json({
       error: 'Proxy error',
       message: error instanceof Error ? error.message : 'Unknown error',
-      stack: error instanceof Error ? error.stack : undefined,
     });
   }
 }
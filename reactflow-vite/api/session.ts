@@ -0,0 +1,54 @@
+// Vercel Serverless Function - Session
+// =====================================
+// GET    -> who is signed in
+// POST   -> sign in with an access key ({ accessKey })
+// DELETE -> sign out
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  applyCors,
+  authenticate,
+  findUserByAccessKey,
+  createSessionCookie,
+  clearSessionCookie,
+} from './_auth.js';
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  applyCors(req, res, 'GET, POST, DELETE');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  try {
+    if (req.method === 'GET') {
+      const userId = authenticate(req);
+      res.status(200).json({ authenticated: Boolean(userId), userId });
+      return;
+    }
+
+    if (req.method === 'POST') {
+      const accessKey = req.body?.accessKey;
+      const userId = typeof accessKey === 'string' ? findUserByAccessKey(accessKey) : null;
+      if (!userId) {
+        res.status(401).json({ error: 'Unauthorized', message: 'Invalid access key' });
+        return;
+      }
+      res.setHeader('Set-Cookie', createSessionCookie(userId));
+      res.status(200).json({ authenticated: true, userId });
+      return;
+    }
+
+    if (req.method === 'DELETE') {
+      res.setHeader('Set-Cookie', clearSessionCookie());
+      res.status(200).json({ authenticated: false, userId: null });
+      return;
+    }
+
+    res.status(405).json({ error: 'Method not allowed' });
+  } catch (error) {
+    console.error('[Session] Error:', error);
+    res.status(500).json({ error: 'Session error' });
+  }
+}
@@ -0,0 +1,100 @@
+// Vercel Serverless Function - Shared Paths
+// ==========================================
+// GET ?pathId=...&token=... -> read-only view of a shared path
+// No session required: the share token stored on the path is the credential.
+
+import type { VercelRequest, VercelResponse } from '@vercel/node';
+import {
+  NOTION_API_BASE,
+  NOTION_API_VERSION,
+  applyCors,
+  getNotionSecret,
+} from './_auth.js';
+import { loadSharedPath } from '../src/services/share/loader.js';
+import type { NotionBlock, NotionPage, NotionQueryResponse } from '../src/services/notion/types.js';
+
+async function queryPages(databaseId: string, filter?: Record<string, unknown>): Promise<NotionPage[]> {
+  const pages: NotionPage[] = [];
+  let startCursor: string | undefined;
+
+  do {
+    const response = await fetch(`${NOTION_API_BASE}/databases/${databaseId}/query`, {
+      method: 'POST',
+      headers: {
+        'Authorization': `Bearer ${getNotionSecret()}`,
+        'Notion-Version': NOTION_API_VERSION,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({
+        page_size: 100,
+        ...(filter ? { filter } : {}),
+        ...(startCursor ? { start_cursor: startCursor } : {}),
+      }),
+    });
+    if (!response.ok) {
+      throw new Error(`Notion query failed with HTTP ${response.status}`);
+    }
+    const data = await response.json() as NotionQueryResponse;
+    pages.push(...data.results);
+    startCursor = data.has_more ? (data.next_cursor ?? undefined) : undefined;
+  } while (startCursor);
+
+  return pages;
+}
+
+async function listBlocks(blockId: string): Promise<NotionBlock[]> {
+  const blocks: NotionBlock[] = [];
+  let startCursor: string | undefined;
+
+  do {
+    const qs = startCursor ? `?start_cursor=${startCursor}` : '';
+    const response = await fetch(`${NOTION_API_BASE}/blocks/${blockId}/children${qs}`, {
+      headers: {
+        'Authorization': `Bearer ${getNotionSecret()}`,
+        'Notion-Version': NOTION_API_VERSION,
+      },
+    });
+    if (!response.ok) {
+      throw new Error(`Notion block read failed with HTTP ${response.status}`);
+    }
+    const data = await response.json() as { results: NotionBlock[]; has_more: boolean; next_cursor: string | null };
+    blocks.push(...data.results);
+    startCursor = data.has_more ? (data.next_cursor ?? undefined) : undefined;
+  } while (startCursor);
+
+  return blocks;
+}
+
+export default async function handler(req: VercelRequest, res: VercelResponse) {
+  applyCors(req, res, 'GET');
+
+  if (req.method === 'OPTIONS') {
+    res.status(200).end();
+    return;
+  }
+
+  if (req.method !== 'GET') {
+    res.status(405).json({ error: 'Method not allowed' });
+    return;
+  }
+
+  const { pathId, token } = req.query;
+  if (typeof pathId !== 'string' || typeof token !== 'string' || !pathId || !token) {
+    res.status(400).json({ error: 'Missing pathId or token' });
+    return;
+  }
+
+  try {
+    const shared = await loadSharedPath(queryPages, listBlocks, pathId, token);
+    if (!shared) {
+      // Same answer for unknown paths and wrong tokens
+      res.status(404).json({ error: 'Not found' });
+      return;
+    }
+    res.setHeader('Cache-Control', 'no-store');
+    res.status(200).json(shared);
+  } catch (error) {
+    console.error('[Share] Error:', error);
+    res.status(500).json({ error: 'Failed to load shared path' });
+  }
+}
@@ -20,21 +20,21 @@ function buildCategoryTree(categories: CategoryRecord[]): CategoryTreeNode[] {
   });
   return roots;
 }
-import dagre from 'dagre';
 import type { Node as FlowNode, Edge as FlowEdge } from '@xyflow/react';
 
-// Import Notion service
+// Import data backend (storage-agnostic) and Notion helpers
+import { dataBackend } from './services/backend';
+import { addAuthRequiredListener, getCachedUserId, getSession, isSessionRequired, signOut } from './services/auth';
 import {
-  DATA_SOURCE,
-  notionService,
   addSyncStatusListener,
   type SyncStatus,
   type PathRecord,
+  type PathLayout,
   type CategoryRecord,
-  saveNodePathAudioNote,
-  savePathAudioNote,
+  buildNodePathMap,
   buildNodePathAudioMap,
   buildPathAudioMap,
+  type PendingChange,
 } from './services/notion';
 
 // Import FolderTree component for unified folder/path navigation
@@ -46,468 +46,102 @@ import { AudioRecorder } from './components/AudioRecorder';
 // Import NotionPageRenderer for documentation panel
 import NotionPageRenderer from './components/NotionPageRenderer';
 
-// Dagre layout helper
-const dagreGraph = new dagre.graphlib.Graph();
-dagreGraph.setDefaultEdgeLabel(() => ({}));
-const nodeWidth = 240;
-const nodeHeight = 80;
+// Import SyncOutboxPanel for reviewing unsynced changes
+import SyncOutboxPanel from './components/SyncOutboxPanel';
 
-// ============================================
-// Layout Types and Functions
-// ============================================
-
-type LayoutType = 
-  | 'default'           // Standard dagre hierarchy (TB)
-  | 'centered'          // Centered horizontally per rank
-  | 'horizontal'        // Left-to-right hierarchy
-  | 'horizontal-row'    // All nodes in single horizontal row
-  | 'vertical-column'   // All nodes in single vertical column
-  | 'diagonal'          // Nodes arranged diagonally
-  | 'circle'            // Nodes in a circle
-  | 'spiral'            // Nodes in a spiral pattern
-  | 'grid'              // Grid layout
-  | 'radial'            // Radial/sunburst from center
-  | 'tree-centered'     // Centered tree layout
-  | 'inverted'          // Bottom-to-top hierarchy
-  | 'wave'              // Sine wave pattern
-  | 'diamond'           // Diamond shape
-  | 'hexagonal'         // Hexagonal grid
-  | 'zigzag'            // Alternating left-right
-  | 'scattered'         // Artistic scattered
-  | 'concentric'        // Concentric circles by depth
-  | 'columns-by-depth'  // Vertical columns per depth level
-  | 'cascade';          // Cascading waterfall
-
-const LAYOUT_LABELS: Record<LayoutType, string> = {
-  'default': 'Hierarchy',
-  'centered': 'Centered',
-  'horizontal': 'Horizontal Tree',
-  'horizontal-row': 'Single Row',
-  'vertical-column': 'Single Column',
-  'diagonal': 'Diagonal',
-  'circle': 'Circle',
-  'spiral': 'Spiral',
-  'grid': 'Grid',
-  'radial': 'Radial',
-  'tree-centered': 'Centered Tree',
-  'inverted': 'Inverted',
-  'wave': 'Wave',
-  'diamond': 'Diamond',
-  'hexagonal': 'Hexagonal',
-  'zigzag': 'Zigzag',
-  'scattered': 'Scattered',
-  'concentric': 'Concentric',
-  'columns-by-depth': 'Depth Columns',
-  'cascade': 'Cascade',
-};
+// Import SignInDialog for the deployed API's session check
+import SignInDialog from './components/SignInDialog';
 
-const LAYOUT_ORDER: LayoutType[] = [
-  'centered', 'default', 'horizontal', 'tree-centered', 'inverted',
-  'horizontal-row', 'vertical-column', 'diagonal', 'zigzag', 'cascade',
-  'circle', 'spiral', 'radial', 'concentric',
-  'grid', 'hexagonal', 'diamond', 'wave', 'columns-by-depth', 'scattered'
-];
-
-// Helper to calculate node depth from edges
-function calculateNodeDepths(nodes: FlowNode[], edges: FlowEdge[]): Map<string, number> {
-  const depths = new Map<string, number>();
-  const childToParents = new Map<string, string[]>();
-  
-  edges.forEach(edge => {
-    const parents = childToParents.get(edge.target) || [];
-    parents.push(edge.source);
-    childToParents.set(edge.target, parents);
-  });
-  
-  // Find roots (nodes with no parents)
-  const nodeIds = new Set(nodes.map(n => n.id));
-  const hasParent = new Set(edges.map(e => e.target));
-  const roots = nodes.filter(n => !hasParent.has(n.id)).map(n => n.id);
-  
-  // BFS to calculate depths
-  const queue = roots.map(id => ({ id, depth: 0 }));
-  while (queue.length > 0) {
-    const { id, depth } = queue.shift()!;
-    if (depths.has(id) && depths.get(id)! <= depth) continue;
-    depths.set(id, depth);
-    
-    // Find children
-    edges.forEach(edge => {
-      if (edge.source === id && nodeIds.has(edge.target)) {
-        queue.push({ id: edge.target, depth: depth + 1 });
-      }
-    });
-  }
-  
-  // Assign depth 0 to any disconnected nodes
-  nodes.forEach(n => {
-    if (!depths.has(n.id)) depths.set(n.id, 0);
-  });
-  
-  return depths;
-}
+// Import PathHistoryPanel for browsing and restoring path revisions
+import PathHistoryPanel from './components/PathHistoryPanel';
+import type { NoteSaveFailure, PathRevision } from './services/backend';
 
-// Apply different layout algorithms
-function applyLayout(
-  nodes: FlowNode[],
-  edges: FlowEdge[],
-  layoutType: LayoutType
-): FlowNode[] {
-  if (nodes.length === 0) return nodes;
-  
-  const spacing = { x: nodeWidth + 60, y: nodeHeight + 50 };
-  const depths = calculateNodeDepths(nodes, edges);
-  void depths; // Used in multiple layout cases
-  
-  switch (layoutType) {
-    case 'default': {
-      // Standard dagre top-to-bottom (wider spacing, left-aligned — visually distinct from centered)
-      dagreGraph.setGraph({ rankdir: 'TB', nodesep: 30, ranksep: 90, align: 'UL' });
-      nodes.forEach(node => dagreGraph.setNode(node.id, { width: nodeWidth, height: nodeHeight }));
-      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
-      dagre.layout(dagreGraph);
-      return nodes.map(node => {
-        const pos = dagreGraph.node(node.id);
-        return { ...node, position: { x: pos.x - nodeWidth / 2, y: pos.y - nodeHeight / 2 } };
-      });
-    }
-    
-    case 'centered': {
-      // Dagre layout, then center each rank horizontally
-      dagreGraph.setGraph({ rankdir: 'TB', nodesep: 50, ranksep: 70 });
-      nodes.forEach(node => dagreGraph.setNode(node.id, { width: nodeWidth, height: nodeHeight }));
-      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
-      dagre.layout(dagreGraph);
-      
-      const positioned = nodes.map(node => {
-        const pos = dagreGraph.node(node.id);
-        return { ...node, position: { x: pos.x - nodeWidth / 2, y: pos.y - nodeHeight / 2 } };
-      });
-      
-      // Group by Y position (rank) and center each rank
-      const ranks = new Map<number, FlowNode[]>();
-      positioned.forEach(node => {
-        const y = Math.round(node.position.y / 10) * 10; // Round to avoid float issues
-        const rank = ranks.get(y) || [];
-        rank.push(node);
-        ranks.set(y, rank);
-      });
-      
-      let globalMinX = Infinity, globalMaxX = -Infinity;
-      positioned.forEach(n => {
-        globalMinX = Math.min(globalMinX, n.position.x);
-        globalMaxX = Math.max(globalMaxX, n.position.x + nodeWidth);
-      });
-      const centerX = (globalMinX + globalMaxX) / 2;
-      
-      ranks.forEach(rankNodes => {
-        const minX = Math.min(...rankNodes.map(n => n.position.x));
-        const maxX = Math.max(...rankNodes.map(n => n.position.x + nodeWidth));
-        const rankCenter = (minX + maxX) / 2;
-        const offset = centerX - rankCenter;
-        rankNodes.forEach(n => { n.position.x += offset; });
-      });
-      
-      return positioned;
-    }
-    
-    case 'horizontal': {
-      // Left-to-right hierarchy
-      dagreGraph.setGraph({ rankdir: 'LR', nodesep: 40, ranksep: 80 });
-      nodes.forEach(node => dagreGraph.setNode(node.id, { width: nodeWidth, height: nodeHeight }));
-      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
-      dagre.layout(dagreGraph);
-      return nodes.map(node => {
-        const pos = dagreGraph.node(node.id);
-        return { ...node, position: { x: pos.x - nodeWidth / 2, y: pos.y - nodeHeight / 2 } };
-      });
-    }
-    
-    case 'horizontal-row': {
-      // All nodes in a single horizontal row
-      return nodes.map((node, i) => ({
-        ...node,
-        position: { x: i * spacing.x, y: 0 }
-      }));
-    }
-    
-    case 'vertical-column': {
-      // All nodes in a single vertical column
-      return nodes.map((node, i) => ({
-        ...node,
-        position: { x: 0, y: i * spacing.y }
-      }));
-    }
-    
-    case 'diagonal': {
-      // Nodes arranged diagonally
-      return nodes.map((node, i) => ({
-        ...node,
-        position: { x: i * spacing.x * 0.7, y: i * spacing.y * 0.7 }
-      }));
-    }
-    
-    case 'circle': {
-      // Nodes arranged in a circle
-      const n = nodes.length;
-      const radius = Math.max(150, n * 40);
-      return nodes.map((node, i) => {
-        const angle = (2 * Math.PI * i) / n - Math.PI / 2;
-        return {
-          ...node,
-          position: {
-            x: radius * Math.cos(angle) + radius,
-            y: radius * Math.sin(angle) + radius
-          }
-        };
-      });
-    }
-    
-    case 'spiral': {
-      // Nodes in a spiral pattern
-      const a = 20; // Spiral tightness
-      return nodes.map((node, i) => {
-        const angle = i * 0.5;
-        const r = a * angle;
-        return {
-          ...node,
-          position: {
-            x: r * Math.cos(angle) + 500,
-            y: r * Math.sin(angle) + 500
-          }
-        };
-      });
-    }
-    
-    case 'grid': {
-      // Nodes in a grid
-      const cols = Math.ceil(Math.sqrt(nodes.length));
-      return nodes.map((node, i) => ({
-        ...node,
-        position: {
-          x: (i % cols) * spacing.x,
-          y: Math.floor(i / cols) * spacing.y
-        }
-      }));
-    }
-    
-    case 'radial': {
-      // Radial layout from center based on depth
-      const depthNodes = new Map<number, FlowNode[]>();
-      nodes.forEach(node => {
-        const d = depths.get(node.id) || 0;
-        const arr = depthNodes.get(d) || [];
-        arr.push(node);
-        depthNodes.set(d, arr);
-      });
-      
-      const result: FlowNode[] = [];
-      depthNodes.forEach((nodesAtDepth, depth) => {
-        const radius = depth === 0 ? 0 : 150 + depth * 120;
-        const n = nodesAtDepth.length;
-        nodesAtDepth.forEach((node, i) => {
-          const angle = n === 1 ? 0 : (2 * Math.PI * i) / n - Math.PI / 2;
-          result.push({
-            ...node,
-            position: {
-              x: radius * Math.cos(angle) + 500,
-              y: radius * Math.sin(angle) + 400
-            }
-          });
-        });
-      });
-      return result;
-    }
-    
-    case 'tree-centered': {
-      // Centered tree - dagre with center alignment
-      dagreGraph.setGraph({ rankdir: 'TB', nodesep: 60, ranksep: 80, align: 'UL' });
-      nodes.forEach(node => dagreGraph.setNode(node.id, { width: nodeWidth, height: nodeHeight }));
-      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
-      dagre.layout(dagreGraph);
-      
-      const positioned = nodes.map(node => {
-        const pos = dagreGraph.node(node.id);
-        return { ...node, position: { x: pos.x - nodeWidth / 2, y: pos.y - nodeHeight / 2 } };
-      });
-      
-      // Center the entire tree
-      const minX = Math.min(...positioned.map(n => n.position.x));
-      const maxX = Math.max(...positioned.map(n => n.position.x + nodeWidth));
-      const offsetX = -minX + (500 - (maxX - minX) / 2);
-      positioned.forEach(n => { n.position.x += offsetX; });
-      
-      return positioned;
-    }
-    
-    case 'inverted': {
-      // Bottom-to-top hierarchy
-      dagreGraph.setGraph({ rankdir: 'BT', nodesep: 50, ranksep: 70 });
-      nodes.forEach(node => dagreGraph.setNode(node.id, { width: nodeWidth, height: nodeHeight }));
-      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
-      dagre.layout(dagreGraph);
-      return nodes.map(node => {
-        const pos = dagreGraph.node(node.id);
-        return { ...node, position: { x: pos.x - nodeWidth / 2, y: pos.y - nodeHeight / 2 } };
-      });
-    }
-    
-    case 'wave': {
-      // Sine wave pattern
-      const amplitude = 100;
-      const wavelength = 3;
-      return nodes.map((node, i) => ({
-        ...node,
-        position: {
-          x: i * spacing.x * 0.6,
-          y: amplitude * Math.sin((i / wavelength) * Math.PI) + 300
-        }
-      }));
-    }
-    
-    case 'diamond': {
-      // Diamond shape arrangement
-      const n = nodes.length;
-      const half = Math.ceil(n / 2);
-      return nodes.map((node, i) => {
-        const row = i < half ? i : n - 1 - i;
-        const col = i < half ? i : i - half;
-        return {
-          ...node,
-          position: {
-            x: row * spacing.x * 0.5 + 200,
-            y: col * spacing.y + (i >= half ? half * spacing.y : 0)
-          }
-        };
-      });
-    }
-    
-    case 'hexagonal': {
-      // Hexagonal grid pattern
-      const cols = Math.ceil(Math.sqrt(nodes.length * 1.5));
-      return nodes.map((node, i) => {
-        const row = Math.floor(i / cols);
-        const col = i % cols;
-        const offsetX = row % 2 === 1 ? spacing.x * 0.5 : 0;
-        return {
-          ...node,
-          position: {
-            x: col * spacing.x + offsetX,
-            y: row * spacing.y * 0.85
-          }
-        };
-      });
-    }
-    
-    case 'zigzag': {
-      // Alternating left-right pattern
-      return nodes.map((node, i) => ({
-        ...node,
-        position: {
-          x: (i % 2 === 0 ? 0 : spacing.x * 1.5),
-          y: i * spacing.y * 0.6
-        }
-      }));
-    }
-    
-    case 'scattered': {
-      // Artistic scattered with some structure based on depth
-      const seededRandom = (seed: number) => {
-        const x = Math.sin(seed * 9999) * 10000;
-        return x - Math.floor(x);
-      };
-      
-      return nodes.map((node, i) => {
-        const depth = depths.get(node.id) || 0;
-        const baseY = depth * spacing.y * 1.2;
-        const randomOffsetX = (seededRandom(i * 17) - 0.5) * 300;
-        const randomOffsetY = (seededRandom(i * 31) - 0.5) * 80;
-        return {
-          ...node,
-          position: {
-            x: 400 + randomOffsetX + (i % 3 - 1) * 150,
-            y: baseY + randomOffsetY
-          }
-        };
-      });
-    }
-    
-    case 'concentric': {
-      // Concentric circles by depth level
-      const depthNodes = new Map<number, FlowNode[]>();
-      nodes.forEach(node => {
-        const d = depths.get(node.id) || 0;
-        const arr = depthNodes.get(d) || [];
-        arr.push(node);
-        depthNodes.set(d, arr);
-      });
-      
-      const result: FlowNode[] = [];
-      const centerX = 500, centerY = 400;
-      
-      depthNodes.forEach((nodesAtDepth, depth) => {
-        const radius = 80 + depth * 140;
-        const n = nodesAtDepth.length;
-        const startAngle = -Math.PI / 2;
-        
-        nodesAtDepth.forEach((node, i) => {
-          const angle = startAngle + (2 * Math.PI * i) / Math.max(n, 1);
-          result.push({
-            ...node,
-            position: {
-              x: centerX + radius * Math.cos(angle) - nodeWidth / 2,
-              y: centerY + radius * Math.sin(angle) - nodeHeight / 2
-            }
-          });
-        });
-      });
-      return result;
-    }
-    
-    case 'columns-by-depth': {
-      // Vertical columns, one per depth level
-      const depthNodes = new Map<number, FlowNode[]>();
-      nodes.forEach(node => {
-        const d = depths.get(node.id) || 0;
-        const arr = depthNodes.get(d) || [];
-        arr.push(node);
-        depthNodes.set(d, arr);
-      });
-      
-      const result: FlowNode[] = [];
-      depthNodes.forEach((nodesAtDepth, depth) => {
-        nodesAtDepth.forEach((node, i) => {
-          result.push({
-            ...node,
-            position: {
-              x: depth * spacing.x,
-              y: i * spacing.y
-            }
-          });
-        });
-      });
-      return result;
-    }
-    
-    case 'cascade': {
-      // Cascading waterfall effect
-      return nodes.map((node, i) => ({
-        ...node,
-        position: {
-          x: (i % 5) * spacing.x * 0.3 + i * 30,
-          y: i * spacing.y * 0.5
-        }
-      }));
-    }
-    
-    default:
-      return nodes;
-  }
-}
+// Import WorkspaceBackupPanel for whole-workspace JSON export and import
+import WorkspaceBackupPanel from './components/WorkspaceBackupPanel';
 
-// ============================================
-// End Layout Functions
-// ============================================
+// Read-only share links for single paths
+import {
+  createShareToken,
+  fetchSharedPath,
+  getShareUrl,
+  parseShareUrl,
+  sanitizeNoteHtml,
+  type SharedPath,
+} from './services/share';
+
+// Diagram export (SVG / PNG)
+import DiagramExportPanel from './components/DiagramExportPanel';
+import { GROUP_OVERLAY_CLASS } from './services/diagramExport';
+
+// In-app node graph editing
+import NodeEditMenu from './components/NodeEditMenu';
+import NodePropertyEditor from './components/NodePropertyEditor';
+import {
+  addParent,
+  createNodeRecord,
+  detachChildren,
+  removeParent,
+  wouldCreateCycle,
+} from './services/graphEdit';
+import type { NodeRecord, NodePathRecord } from './services/notion/types';
+
+// Graph and path integrity report
+import IntegrityReportPanel from './components/IntegrityReportPanel';
+import TrashPanel from './components/TrashPanel';
+import NoteSaveNotice from './components/NoteSaveNotice';
+import PathBulkActionBar, { type PathBulkReport } from './components/PathBulkActionBar';
+import PathComparePanel from './components/PathComparePanel';
+import {
+  applyIntegrityFix,
+  checkIntegrity,
+  loadIntegrityData,
+  type IntegrityData,
+  type IntegrityFix,
+  type IntegrityIssue,
+} from './services/integrity';
+
+// Path study documents (PDF / Markdown)
+import {
+  buildPathDocument,
+  captureDiagram,
+  pathDocumentFileName,
+  renderMarkdown,
+  renderPdf,
+} from './services/pathExport';
+
+// Full-text search over node content, notes and page bodies
+import {
+  buildSearchDocuments,
+  buildSearchIndex,
+  searchIndex,
+  type SearchDocumentKind,
+  type SearchHit,
+} from './services/search';
+import {
+  NODE_WIDTH,
+  LAYOUT_LABELS,
+  LAYOUT_ORDER,
+  LAYOUT_ANIMATION_MS,
+  applyLayout,
+  isLayoutType,
+  layoutForPath,
+  layoutIncrementally,
+  animatePositions,
+  countChildren,
+  collapseSubtrees,
+  type LayoutType,
+} from './services/layout';
+import { comparePaths, MEMBERSHIP_COLORS, type PathMembership } from './services/pathCompare';
+import { buildPathCopy, copyPathName, type PathCopy } from './services/pathTemplates';
+import { runBulk, awaitQueuedWrites, type BulkFailure } from './services/bulk';
+
+// Badge shown next to each full-text search result
+const SEARCH_KIND_LABELS: Record<SearchDocumentKind, string> = {
+  node: 'Node',
+  page: 'Page',
+  path: 'Path notes',
+  nodeNote: 'Note',
+};
 
 // Premium glass theme - Light mode (clean whites and subtle accents)
 const LIGHT_THEME = {
@@ -1035,10 +669,10 @@ const DIAGRAM_THEME_ORDER: DiagramThemeId[] = [
 const getTheme = (darkMode: boolean) => darkMode ? DARK_THEME : LIGHT_THEME;
 
 import React, { useCallback, useEffect, useState, useRef, useMemo } from 'react';
-import Papa from 'papaparse';
 import {
   ReactFlow,
   Controls,
+  Panel,
   Handle,
   Position,
   useNodesState,
@@ -1048,6 +682,7 @@ import {
   useReactFlow,
   useViewport,
   ReactFlowProvider,
+  type Connection,
 } from '@xyflow/react';
 import '@xyflow/react/dist/style.css';
 
@@ -1081,48 +716,6 @@ type NodeData = {
   grouping?: string;
 };
 
-type SheetRow = {
-  id?: string;
-  parentId?: string;
-  parentIds?: string;
-  label?: string;
-  category?: string;
-  color?: string;
-  wikiUrl?: string;
-  description?: string;
-  details?: string;
-  longDescription?: string;
-  externalLinks?: string;
-  images?: string;
-  video?: string;
-  hidden_by_default?: string | boolean;
-  grouping?: string;
-};
-
-// Helper to format nodeIds for Google Sheets - adds trailing comma for single nodes
-// to prevent Google Sheets from interpreting it as a number (which breaks gviz API)
-function formatNodeIdsForSheet(nodeIds: string[] | Set<string>): string {
-  const arr = Array.isArray(nodeIds) ? nodeIds : Array.from(nodeIds);
-  const joined = arr.join(', ');
-  // Add trailing comma if only one node to force text format
-  return arr.length === 1 ? joined + ',' : joined;
-}
-
-// Helper to force text format for any value written to Google Sheets
-// Prefix with single quote to prevent date/number interpretation
-function forceTextForSheet(value: string): string {
-  if (!value) return value;
-  // Prefix with single quote to force text format in Google Sheets
-  return "'" + value;
-}
-
-const SHEET_TSV_URL =
-  'https://docs.google.com/spreadsheets/d/1q8s_0uDQen16KD9bqDJJ_CzKQRB5vcBxI5V1dbNhWnQ/export?format=tsv';
-const PATHS_CSV_URL =
-  'https://docs.google.com/spreadsheets/d/1q8s_0uDQen16KD9bqDJJ_CzKQRB5vcBxI5V1dbNhWnQ/gviz/tq?sheet=paths&tqx=out:csv';
-const NODE_PATH_GVIZ_URL =
-  'https://docs.google.com/spreadsheets/d/1q8s_0uDQen16KD9bqDJJ_CzKQRB5vcBxI5V1dbNhWnQ/gviz/tq?sheet=node-path&tqx=out:json';
-
 // ============================================
 // Rich Text Helper Functions
 // ============================================
@@ -1295,8 +888,15 @@ function MethodNode(props: any) {
     onStopEditNote?: () => void;
     darkMode?: boolean;
     diagramTheme?: DiagramThemeId;
+    graphEditable?: boolean;
+    childCount?: number;
+    collapsed?: boolean;
+    hiddenDescendants?: number;
+    onToggleCollapse?: (nodeId: string) => void;
+    compareMembership?: PathMembership;
   };
   const isHighlighted = data.isHighlighted === true;
+  const isGraphEditable = data.graphEditable === true;
   const isEditing = data.editingNoteNodeId === props.id;
   const isDark = data.darkMode === true;
   const theme = getTheme(isDark);
@@ -1359,6 +959,14 @@ function MethodNode(props: any) {
     }
   };
 
+  // Collapse button hides or reveals the node's descendants
+  const handleCollapseClick = (e: React.MouseEvent) => {
+    e.stopPropagation();
+    if (data.onToggleCollapse) {
+      data.onToggleCollapse(props.id);
+    }
+  };
+
   // Note area click does nothing special — clicks bubble up to the outer div which opens focus mode
 
   // Get first line for preview - strip HTML and get plain text
@@ -1373,6 +981,11 @@ function MethodNode(props: any) {
   const firstLine = getPlainTextPreview(data.nodeNote || '');
   const hasNote = !!(data.nodeNote && data.nodeNote.trim());
 
+  // Handles are only visible (and connectable) while editing the graph
+  const handleStyle: React.CSSProperties = isGraphEditable
+    ? { background: theme.highlightColor, width: 10, height: 10, border: '2px solid #ffffff' }
+    : { background: '#555', opacity: 0, width: 0, height: 0 };
+
   return (
     <div
       onClick={handleNodeBodyClick}
@@ -1382,7 +995,7 @@ function MethodNode(props: any) {
         borderRadius: 14,
         background,
         color: textColor,
-        border: borderStyle,
+        border: data.compareMembership ? `2px solid ${MEMBERSHIP_COLORS[data.compareMembership]}` : borderStyle,
         minWidth: 160,
         maxWidth: 220,
         boxShadow: shadow,
@@ -1394,8 +1007,8 @@ function MethodNode(props: any) {
       <Handle
         type="target"
         position={Position.Top}
-        style={{ background: '#555', opacity: 0, width: 0, height: 0 }}
-        isConnectable={false}
+        style={handleStyle}
+        isConnectable={isGraphEditable}
       />
       {/* Toggle selection button (was "i" info button) */}
       <button
@@ -1460,6 +1073,20 @@ function MethodNode(props: any) {
         }}
         title="Click to open notes editor"
       >
+        {/* Node colour, shown while editing the graph */}
+        {isGraphEditable && (
+          <span
+            style={{
+              display: 'inline-block',
+              width: 8,
+              height: 8,
+              borderRadius: '50%',
+              background: data.color || '#3b82f6',
+              marginRight: 6,
+              verticalAlign: 'middle',
+            }}
+          />
+        )}
         {data.label}
       </div>
       
@@ -1525,11 +1152,65 @@ function MethodNode(props: any) {
         </div>
       )}
       
+      {/* Which of the compared paths this node belongs to */}
+      {data.compareMembership && (
+        <span
+          style={{
+            position: 'absolute',
+            top: -8,
+            left: 10,
+            padding: '1px 6px',
+            borderRadius: 8,
+            background: MEMBERSHIP_COLORS[data.compareMembership],
+            color: '#ffffff',
+            fontSize: 9,
+            fontWeight: 700,
+            lineHeight: '14px',
+          }}
+        >
+          {data.compareMembership === 'both' ? 'A+B' : data.compareMembership.toUpperCase()}
+        </span>
+      )}
+      {/* Collapse / expand subtree, with a count of hidden descendants */}
+      {(data.childCount ?? 0) > 0 && (
+        <button
+          onClick={handleCollapseClick}
+          style={{
+            position: 'absolute',
+            bottom: -9,
+            left: '50%',
+            transform: 'translateX(-50%)',
+            height: 18,
+            minWidth: 18,
+            padding: data.collapsed ? '0 6px' : 0,
+            borderRadius: 9,
+            border: isDark ? '1px solid rgba(148, 163, 184, 0.3)' : '1px solid rgba(100, 116, 139, 0.2)',
+            background: data.collapsed ? theme.highlightColor : (isDark ? '#1e293b' : '#ffffff'),
+            color: data.collapsed ? '#ffffff' : theme.textSecondary,
+            fontSize: 9,
+            fontWeight: 600,
+            cursor: 'pointer',
+            display: 'flex',
+            alignItems: 'center',
+            justifyContent: 'center',
+            gap: 3,
+            lineHeight: 1,
+            zIndex: 1,
+          }}
+          title={data.collapsed
+            ? `Expand (${data.hiddenDescendants ?? 0} hidden)`
+            : 'Collapse descendants'}
+        >
+          {data.collapsed ? '▸' : '▾'}
+          {data.collapsed && (data.hiddenDescendants ?? 0) > 0 && <span>{data.hiddenDescendants}</span>}
+        </button>
+      )}
+      
       <Handle
         type="source"
         position={Position.Bottom}
-        style={{ background: '#555', opacity: 0, width: 0, height: 0 }}
-        isConnectable={false}
+        style={handleStyle}
+        isConnectable={isGraphEditable}
       />
     </div>
   );
@@ -1671,7 +1352,7 @@ function NodeGroupingOverlay({ nodes, diagramTheme, darkMode }: { nodes: Node[];
       
       // Use consistent node dimensions matching the dagre layout
       // Add extra height buffer for nodes with content (like notes)
-      const nodeW = 240;
+      const nodeW = NODE_WIDTH;
       const nodeH = 100; // Increased to account for potential notes/content
       
       if (!groups[grouping]) {
@@ -1800,6 +1481,7 @@ function NodeGroupingOverlay({ nodes, diagramTheme, darkMode }: { nodes: Node[];
   
   return (
     <svg
+      className={GROUP_OVERLAY_CLASS}
       style={{
         position: 'absolute',
         top: 0,
@@ -1912,6 +1594,69 @@ function NodeGroupingOverlay({ nodes, diagramTheme, darkMode }: { nodes: Node[];
 
 const nodeTypes = { method: MethodNode, personalizedNode: PersonalizedNode };
 
+// Diagram nodes, parent -> child edges and hidden root ids for a set of node records
+function buildGraphFromRecords(records: NodeRecord[]): { nodes: Node[]; edges: Edge[]; roots: string[] } {
+  const ids = new Set(records.map((n) => n.id));
+
+  const nodes: Node[] = records.map((n) => ({
+    id: n.id,
+    type: 'method',
+    position: { x: 0, y: 0 },
+    data: {
+      label: n.label,
+      color: n.color || '#3b82f6',
+      category: n.category,
+      notionPageId: n.notionPageId,
+      description: n.description,
+      details: n.details,
+      longDescription: n.longDescription,
+      externalLinks: n.externalLinks,
+      images: n.images,
+      video: n.video,
+      hidden_by_default: n.hidden_by_default,
+      wikiUrl: n.wikiUrl,
+      grouping: n.grouping,
+    } as NodeData,
+    hidden: n.hidden_by_default,
+  }));
+
+  // Build edges from parentIds
+  const edges: Edge[] = records.flatMap((n) =>
+    n.parentIds
+      .filter((pid) => pid && ids.has(pid))
+      .map((parentId) => ({
+        id: `${parentId}->${n.id}`,
+        source: parentId,
+        target: n.id,
+      }))
+  );
+
+  // Find root nodes (nodes with no parents or where parent doesn't exist)
+  const roots = records
+    .filter((n) => n.parentIds.length === 0 || !n.parentIds.some((pid) => ids.has(pid)))
+    .filter((n) => n.hidden_by_default)
+    .map((n) => n.id);
+
+  return { nodes, edges, roots };
+}
+
+// Favourites are kept per user so people sharing a browser don't see each other's
+const favouritesStorageKey = () => {
+  const userId = getCachedUserId();
+  return userId ? `pathFavourites:${userId}` : 'pathFavourites';
+};
+
+// Note autosaves go through the backend's note buffer, which saves once typing pauses
+const queuePathNotes = (pathId: string, notes: string) =>
+  dataBackend.noteBuffer
+    ? dataBackend.noteBuffer.queuePathNotes(pathId, notes)
+    : dataBackend.savePathNotes(pathId, notes);
+
+const queueNodePath = (nodePath: NodePathRecord) =>
+  dataBackend.noteBuffer
+    ? dataBackend.noteBuffer.queueNodePath(nodePath)
+    : dataBackend.saveNodePath(nodePath);
+
 type PathRow = {
   id: string;
   name: string;
@@ -1925,6 +1670,9 @@ type PathRow = {
   lastUpdated?: number; // timestamp for sorting by latest activity
   priority?: number; // 0-100, higher = more important (red), lower = less important (blue)
   fav?: boolean; // Favourite flag
+  shareToken?: string; // Set while the path has a read-only share link
+  layout?: PathLayout; // Saved layout type and pinned node positions
+  template?: boolean; // Listed under "New from template"
 };
 
 function DiagramContent() {
@@ -1934,25 +1682,35 @@ function DiagramContent() {
   const [activePath, setActivePath] = useState<string | null>(null);
   const [activePathId, setActivePathId] = useState<string | null>(null);
   const [manualHighlights, setManualHighlights] = useState<Set<string>>(new Set());
-  const [, setBaseNodes] = useState<Node[]>([]);
-  const [, setBaseEdges] = useState<Edge[]>([]);
+  const [baseNodes, setBaseNodes] = useState<Node[]>([]);
+  const [baseEdges, setBaseEdges] = useState<Edge[]>([]);
   const [rootIds, setRootIds] = useState<string[]>([]);
   const [pathsList, setPathsList] = useState<PathRow[]>([]);
   const [pathsMap, setPathsMap] = useState<Record<string, string[]>>({});
   const [nodePathMap, setNodePathMap] = useState<Record<string, Record<string, string>>>({});
+  const [nodeRecords, setNodeRecords] = useState<NodeRecord[]>([]); // Source records, kept for graph editing
+  const [graphEditMode, setGraphEditMode] = useState(false);
+  const [nodeMenu, setNodeMenu] = useState<{ nodeId: string; x: number; y: number } | null>(null); // Edit-mode context menu
+  const [propertiesNodeId, setPropertiesNodeId] = useState<string | null>(null); // Node open in the property editor
+  const [integrityIssues, setIntegrityIssues] = useState<IntegrityIssue[] | null>(null); // null until checked
+  const [integrityChecking, setIntegrityChecking] = useState(false);
+  const [showIntegrityReport, setShowIntegrityReport] = useState(false);
+  const [showTrash, setShowTrash] = useState(false);
+  const [notesMigrationProgress, setNotesMigrationProgress] = useState<string | null>(null); // Set while notes are moved into page bodies
+  const integrityDataRef = useRef<IntegrityData | null>(null); // What the last check (or fix) saw
   const [dataLoading, setDataLoading] = useState(false);
   const [dataError, setDataError] = useState<string | null>(null);
   const [, setPathName] = useState('');
   const [, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
   const [sidebarNodeContent, setSidebarNodeContent] = useState<Record<string, string>>({});
   
-  // Categories loaded from Notion (used as folders)
+  // Categories loaded from the data backend (used as folders)
   const [categoriesList, setCategoriesList] = useState<CategoryRecord[]>([]);
 
   // Favourite path IDs - stored independently in localStorage for reliable persistence
   const [favouritePathIds, setFavouritePathIds] = useState<Set<string>>(() => {
     try {
-      const stored = JSON.parse(localStorage.getItem('pathFavourites') || '{}');
+      const stored = JSON.parse(localStorage.getItem(favouritesStorageKey()) || '{}');
       return new Set(Object.keys(stored));
     } catch {
       return new Set();
@@ -1982,6 +1740,8 @@ function DiagramContent() {
   const [searchQuery, setSearchQuery] = useState('');
   const [showSearchDropdown, setShowSearchDropdown] = useState(false);
   const [searchFocusIndex, setSearchFocusIndex] = useState(-1);
+  // Notion page blocks seen so far, for full-text search (nodeId -> blocks)
+  const [pageBlocksByNode, setPageBlocksByNode] = useState<Record<string, unknown[]>>({});
   
   // All loaded nodes for autocomplete (stored when data loads)
   const [allNodesData, setAllNodesData] = useState<Array<{ id: string; label: string }>>([]);
@@ -1994,6 +1754,8 @@ function DiagramContent() {
   // Multi-select state for path manager focus window
   const [selectedPathIds, setSelectedPathIds] = useState<Set<string>>(new Set());
   const [lastClickedPathId, setLastClickedPathId] = useState<string | null>(null);
+  const [bulkRunning, setBulkRunning] = useState<string | null>(null); // Bulk action in progress
+  const [bulkReport, setBulkReport] = useState<PathBulkReport | null>(null);
   const [_isDraggingSelected, setIsDraggingSelected] = useState(false);
   const [draggedPathIds, setDraggedPathIds] = useState<string[]>([]);
   
@@ -2024,6 +1786,7 @@ function DiagramContent() {
   
   // Layout cycling state
   const [currentLayoutType, setCurrentLayoutType] = useState<LayoutType>('centered');
+  const pathLayoutAppliedRef = useRef(false); // Set when showPath switches to a path's saved layout type
 
   const { fitView } = useReactFlow();
   const flowRef = useRef<HTMLDivElement>(null);
@@ -2039,6 +1802,36 @@ function DiagramContent() {
     });
     return unsubscribe;
   }, []);
+
+  // Track local changes that have not reached the backend yet
+  const [outboxChanges, setOutboxChanges] = useState<PendingChange[]>([]);
+  const [showOutbox, setShowOutbox] = useState(false);
+  
+  // Path history panel (opened from path notes focus mode)
+  const [showPathHistory, setShowPathHistory] = useState(false);
+  const [comparePathIds, setComparePathIds] = useState<{ a: string | null; b: string | null } | null>(null); // null while not comparing
+  // Bumped after a restore so the note editors remount with the restored content
+  const [notesEditorEpoch, setNotesEditorEpoch] = useState(0);
+  useEffect(() => dataBackend.outbox?.subscribe(setOutboxChanges), []);
+  const outboxNeedsAttention = outboxChanges.some(c => c.status !== 'pending');
+
+  // Note edits whose save failed; the note buffer keeps retrying them
+  const [noteSaveFailures, setNoteSaveFailures] = useState<NoteSaveFailure[]>([]);
+  useEffect(() => dataBackend.noteBuffer?.subscribe(setNoteSaveFailures), []);
+
+  // Session for the deployed API (the dev proxy needs none)
+  const [sessionUserId, setSessionUserId] = useState<string | null>(null);
+  const [authRequired, setAuthRequired] = useState(false);
+  useEffect(() => {
+    if (!isSessionRequired()) return;
+    getSession()
+      .then(session => {
+        setSessionUserId(session.userId);
+        if (!session.authenticated) setAuthRequired(true);
+      })
+      .catch(error => console.error('Error checking session:', error));
+    return addAuthRequiredListener(() => setAuthRequired(true));
+  }, []);
   const debounceTimerRef = useRef<Record<string, NodeJS.Timeout>>({});
   const activePathIdRef = useRef<string | null>(null);
   const activePathRef = useRef<string | null>(null);
@@ -2064,6 +1857,12 @@ function DiagramContent() {
   
   // Settings state
   const [showSettings, setShowSettings] = useState(false);
+  const [showWorkspaceBackup, setShowWorkspaceBackup] = useState(false);
+  const [pathExportMenuOpen, setPathExportMenuOpen] = useState(false);
+  const [templateMenuOpen, setTemplateMenuOpen] = useState(false);
+  const [pathToShow, setPathToShow] = useState<string | null>(null); // Shown once it appears in pathsList
+  const [showDiagramExport, setShowDiagramExport] = useState(false);
+  const [pathExporting, setPathExporting] = useState(false);
   const [darkMode, setDarkMode] = useState(() => {
     // Check localStorage for saved preference
     const saved = localStorage.getItem('cinaps-dark-mode');
@@ -2077,6 +1876,18 @@ function DiagramContent() {
     const saved = localStorage.getItem('cinaps-hide-connectors');
     return saved === 'true';
   });
+  const [pathFocusLayout, setPathFocusLayout] = useState(() => {
+    const saved = localStorage.getItem('cinaps-path-focus-layout');
+    return saved === 'true';
+  });
+  // Collapsed node ids per path id ('' for the overview with no path open)
+  const [collapsedByPath, setCollapsedByPath] = useState<Record<string, string[]>>(() => {
+    try {
+      return JSON.parse(localStorage.getItem('cinaps-collapsed-subtrees') || '{}');
+    } catch {
+      return {};
+    }
+  });
   const [diagramTheme, setDiagramTheme] = useState<DiagramThemeId>(() => {
     const saved = localStorage.getItem('cinaps-diagram-theme');
     return (saved && saved in DIAGRAM_THEMES) ? saved as DiagramThemeId : 'default';
@@ -2097,6 +1908,16 @@ function DiagramContent() {
     localStorage.setItem('cinaps-hide-connectors', String(hideConnectors));
   }, [hideConnectors]);
   
+  // Persist path focus layout preference
+  useEffect(() => {
+    localStorage.setItem('cinaps-path-focus-layout', String(pathFocusLayout));
+  }, [pathFocusLayout]);
+  
+  // Persist collapsed subtrees
+  useEffect(() => {
+    localStorage.setItem('cinaps-collapsed-subtrees', JSON.stringify(collapsedByPath));
+  }, [collapsedByPath]);
+  
   // Persist diagram theme preference
   useEffect(() => {
     localStorage.setItem('cinaps-diagram-theme', diagramTheme);
@@ -2262,7 +2083,6 @@ function DiagramContent() {
       }
       return;
     }
-    if (DATA_SOURCE !== 'notion') return;
 
     const nodeData = selectedNode.data as NodeData;
     const notionPageId = nodeData?.notionPageId;
@@ -2275,7 +2095,7 @@ function DiagramContent() {
     setNotionPageError(null);
     setNotionPageBlocks([]);
 
-    notionService.fetchPageContent(notionPageId, nodeName).then(
+    dataBackend.fetchPageContent(notionPageId, nodeName).then(
       (result) => {
         if (!cancelled) {
           console.log('[NotionPageLoad] Got result:', result.blocks.length, 'blocks, pageId:', result.pageId);
@@ -2295,6 +2115,39 @@ function DiagramContent() {
     return () => { cancelled = true; };
   }, [editorFocusMode, selectedNode]);
 
+  // Make page bodies searchable once they have been loaded
+  useEffect(() => {
+    if (!selectedNode || notionPageBlocks.length === 0) return;
+    setPageBlocksByNode(prev => ({ ...prev, [selectedNode.id]: notionPageBlocks }));
+  }, [notionPageBlocks, selectedNode]);
+
+  // Seed searchable page bodies from the local cache
+  useEffect(() => {
+    if (baseNodes.length === 0 || !dataBackend.listCachedPageContent) return;
+    let cancelled = false;
+    dataBackend.listCachedPageContent().then(
+      (pages) => {
+        if (cancelled) return;
+        const normalizeId = (id?: string | null) => (id || '').replace(/-/g, '');
+        const byPageId = new Map<string, string>();
+        const byTitle = new Map<string, string>();
+        baseNodes.forEach(n => {
+          const data = n.data as NodeData;
+          if (data.notionPageId) byPageId.set(normalizeId(data.notionPageId), n.id);
+          if (data.label) byTitle.set(data.label, n.id);
+        });
+        const seeded: Record<string, unknown[]> = {};
+        pages.forEach(page => {
+          const nodeId = byPageId.get(normalizeId(page.pageId)) || (page.title ? byTitle.get(page.title) : undefined);
+          if (nodeId && page.blocks.length > 0) seeded[nodeId] = page.blocks;
+        });
+        setPageBlocksByNode(prev => ({ ...seeded, ...prev }));
+      },
+      (err) => console.warn('[Search] Could not read cached page content:', err),
+    );
+    return () => { cancelled = true; };
+  }, [baseNodes]);
+
   // Backup: if path notes data loads after the contentEditable mounts,
   // set innerHTML via useEffect. The key={activePathId} forces remount on path change,
   // and dangerouslySetInnerHTML handles initial content. This covers late-loading data.
@@ -2390,9 +2243,6 @@ function DiagramContent() {
     }
   }, [isDraggingPanel, resizeEdge, dragOffset, resizeStart]);
 
-  // Google Apps Script Web App URL - you need to deploy your own script and paste the URL here
-  const GOOGLE_SCRIPT_URL = 'https://script.google.com/macros/s/AKfycbxlQ5lLsgbTYVgtGzrU8KXN9RI31UKV-JSIJV7xfcsXJMWw2pEmMKsKnWOIlE1_L-LnhQ/exec';
-
   // Use diagram theme colors for edges and highlights (in light mode)
   const highlightColor = darkMode ? HIGHLIGHT_COLOR : currentDiagramTheme.edge.highlightColor;
   const edgeColor = darkMode ? EDGE_COLOR : currentDiagramTheme.edge.color;
@@ -2415,6 +2265,18 @@ function DiagramContent() {
   const nodesRef = useRef<Node[]>([]);
   nodesRef.current = nodes;
 
+  // Apply `target`, sliding nodes that stay visible from where they are to their new positions
+  const cancelLayoutAnimationRef = useRef<(() => void) | null>(null);
+  const transitionNodes = useCallback((target: Node[]) => {
+    cancelLayoutAnimationRef.current?.();
+    const from = new Map(nodesRef.current.map(n => [n.id, n.position]));
+    const to = new Map(target.filter(n => !n.hidden).map(n => [n.id, n.position]));
+    setNodes(target.map(n => (to.has(n.id) && from.has(n.id) ? { ...n, position: from.get(n.id)! } : n)));
+    cancelLayoutAnimationRef.current = animatePositions(from, to, (positions) => {
+      setNodes(nds => nds.map(n => (positions.has(n.id) ? { ...n, position: positions.get(n.id)! } : n)));
+    });
+  }, [setNodes]);
+
   // Handler for info button click - opens focus mode directly
   const handleInfoClick = useCallback((nodeId: string) => {
     const currentNodes = nodesRef.current;
@@ -2503,7 +2365,7 @@ function DiagramContent() {
     return `${name.replace(/\s+/g, '-')}-${timestamp}`;
   };
 
-  // Handler for path-level notes with debounced auto-save
+  // Handler for path-level notes; the note buffer holds and merges rapid edits
   const handlePathNotesChange = useCallback(async (notes: string) => {
     const pathIdToUse = activePathId;
     if (!pathIdToUse) return;
@@ -2517,39 +2379,18 @@ function DiagramContent() {
     // Set status to saving
     setNoteSaveStatus(prev => ({ ...prev, ['pathNotes']: 'saving' }));
     
-    // Debounced auto-save
-    if (debounceTimerRef.current['pathNotes']) {
-      clearTimeout(debounceTimerRef.current['pathNotes']);
+    try {
+      await queuePathNotes(pathIdToUse!, notes);
+      // Set status to saved
+      setNoteSaveStatus(prev => ({ ...prev, ['pathNotes']: 'saved' }));
+    } catch (error) {
+      console.error('Error saving path notes:', error);
+      // Still mark as saved to avoid stuck "Saving..." state
+      setNoteSaveStatus(prev => ({ ...prev, ['pathNotes']: 'saved' }));
     }
-    debounceTimerRef.current['pathNotes'] = setTimeout(async () => {
-      try {
-        if (DATA_SOURCE === 'notion') {
-          // Save to Notion
-          await notionService.savePathNotes(pathIdToUse!, notes);
-        } else {
-          // Legacy: Save to Google Sheets
-          await fetch(GOOGLE_SCRIPT_URL, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              action: 'savePathNotes',
-              pathId: pathIdToUse,
-              notes: notes,
-            }),
-          });
-        }
-        // Set status to saved
-        setNoteSaveStatus(prev => ({ ...prev, ['pathNotes']: 'saved' }));
-      } catch (error) {
-        console.error('Error saving path notes:', error);
-        // Still mark as saved to avoid stuck "Saving..." state
-        setNoteSaveStatus(prev => ({ ...prev, ['pathNotes']: 'saved' }));
-      }
-    }, 1000);
-  }, [activePathId, GOOGLE_SCRIPT_URL]);
+  }, [activePathId]);
 
-  // Handler for inline node note changes with debounced auto-save
+  // Handler for inline node note changes; the note buffer holds and merges rapid edits
   const handleInlineNoteChange = useCallback(async (nodeId: string, note: string) => {
     // Update sidebar content state
     setSidebarNodeContent(prev => ({ ...prev, [nodeId]: note }));
@@ -2570,39 +2411,17 @@ function DiagramContent() {
       },
     }));
     
-    // Debounced auto-save
-    if (debounceTimerRef.current[`inline-${nodeId}`]) {
-      clearTimeout(debounceTimerRef.current[`inline-${nodeId}`]);
+    try {
+      await queueNodePath({
+        id: `${pathIdToUse}_${nodeId}`,
+        pathId: pathIdToUse!,
+        nodeId: nodeId,
+        content: note,
+      });
+    } catch (error) {
+      console.error('Error saving inline note:', error);
     }
-    debounceTimerRef.current[`inline-${nodeId}`] = setTimeout(async () => {
-      try {
-        if (DATA_SOURCE === 'notion') {
-          // Save to Notion
-          await notionService.saveNodePath({
-            id: `${pathIdToUse}_${nodeId}`,
-            pathId: pathIdToUse!,
-            nodeId: nodeId,
-            content: note,
-          });
-        } else {
-          // Legacy: Save to Google Sheets
-          await fetch(GOOGLE_SCRIPT_URL, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              action: 'saveNodeContent',
-              pathId: pathIdToUse,
-              nodeId: nodeId,
-              content: note,
-            }),
-          });
-        }
-      } catch (error) {
-        console.error('Error saving inline note:', error);
-      }
-    }, 1000);
-  }, [activePathId, GOOGLE_SCRIPT_URL]);
+  }, [activePathId]);
 
   // Keep the ref in sync with the handler
   useEffect(() => {
@@ -2681,21 +2500,7 @@ function DiagramContent() {
     
     debounceTimerRef.current['renamePath'] = setTimeout(async () => {
       try {
-        if (DATA_SOURCE === 'notion') {
-          await notionService.renamePath(pathRow.id || oldName, newName);
-        } else {
-          await fetch(GOOGLE_SCRIPT_URL, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              action: 'renamePath',
-              pathId: pathRow.id || oldName,
-              oldName: oldName,
-              newName: newName,
-            }),
-          });
-        }
+        await dataBackend.renamePath(pathRow.id || oldName, newName);
       } catch (error) {
         console.error('Error renaming path:', error);
         // Revert on error
@@ -2712,78 +2517,71 @@ function DiagramContent() {
         });
       }
     }, 500);
-  }, [pathsList, activePath, notesPathName, GOOGLE_SCRIPT_URL]);
+  }, [pathsList, activePath, notesPathName]);
 
-  const deletePathByName = useCallback(async (pathNameToDelete: string) => {
-    const pathRow = pathsList.find(p => p.name === pathNameToDelete);
-    if (!pathRow) return;
+  // Drop a deleted path from the loaded state, closing it if it is open
+  const forgetDeletedPath = useCallback((pathRow: PathRow) => {
+    const pathId = pathRow.id || pathRow.name;
+    setPathsList(prev => prev.filter(p => p.name !== pathRow.name));
+    setPathsMap(prev => {
+      const newMap = { ...prev };
+      delete newMap[pathRow.name];
+      return newMap;
+    });
+    setPathNotes(prev => {
+      const next = { ...prev };
+      delete next[pathId];
+      return next;
+    });
+    setNodePathMap(prev => {
+      const next = { ...prev };
+      delete next[pathId];
+      return next;
+    });
+    setPathLastUpdated(prev => {
+      const next = { ...prev };
+      delete next[pathId];
+      return next;
+    });
 
-    if (!confirm(`Are you sure you want to delete the path "${pathNameToDelete}"? This will move it to trash in Notion.`)) {
-      return;
+    if (activePath === pathRow.name) {
+      setActivePath(null);
+      setActivePathId(null);
+      setSidebarNodeContent({});
+      setManualHighlights(new Set());
+      setNodes((nds) =>
+        enforceRootHidden(nds).map((n) => ({
+          ...n,
+          data: { ...n.data, isHighlighted: false },
+        }))
+      );
+    }
+    if (notesPathName === pathRow.name) {
+      setPathNotesFocusMode(false);
+      setNotesPathName(null);
+    }
+  }, [activePath, notesPathName]);
+
+  const deletePathByName = useCallback(async (pathNameToDelete: string) => {
+    const pathRow = pathsList.find(p => p.name === pathNameToDelete);
+    if (!pathRow) return;
+
+    if (!confirm(`Are you sure you want to delete the path "${pathNameToDelete}"? This will move it to the trash.`)) {
+      return;
     }
 
     const pathIdToDelete = pathRow.id || pathRow.name;
     setSaveStatus('saving');
 
     try {
-      if (DATA_SOURCE === 'notion') {
-        // Delete path and its associated node notes (moves to Notion trash)
-        await Promise.all([
-          notionService.deletePath(pathIdToDelete),
-          notionService.deleteNodePathsForPath(pathIdToDelete),
-        ]);
-      } else {
-        await fetch(GOOGLE_SCRIPT_URL, {
-          method: 'POST',
-          mode: 'no-cors',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            action: 'deletePath',
-            pathId: pathIdToDelete,
-            pathName: pathRow.name,
-          }),
-        });
-      }
+      // Delete path and its associated node notes (moves to the backend's trash)
+      await Promise.all([
+        dataBackend.deletePath(pathIdToDelete),
+        dataBackend.deleteNodePathsForPath(pathIdToDelete),
+      ]);
 
       setSaveStatus('success');
-      setPathsList(prev => prev.filter(p => p.name !== pathNameToDelete));
-      setPathsMap(prev => {
-        const newMap = { ...prev };
-        delete newMap[pathNameToDelete];
-        return newMap;
-      });
-      setPathNotes(prev => {
-        const next = { ...prev };
-        delete next[pathIdToDelete];
-        return next;
-      });
-      setNodePathMap(prev => {
-        const next = { ...prev };
-        delete next[pathIdToDelete];
-        return next;
-      });
-      setPathLastUpdated(prev => {
-        const next = { ...prev };
-        delete next[pathIdToDelete];
-        return next;
-      });
-
-      if (activePath === pathNameToDelete) {
-        setActivePath(null);
-        setActivePathId(null);
-        setSidebarNodeContent({});
-        setManualHighlights(new Set());
-        setNodes((nds) =>
-          enforceRootHidden(nds).map((n) => ({
-            ...n,
-            data: { ...n.data, isHighlighted: false },
-          }))
-        );
-      }
-      if (notesPathName === pathNameToDelete) {
-        setPathNotesFocusMode(false);
-        setNotesPathName(null);
-      }
+      forgetDeletedPath(pathRow);
 
       setTimeout(() => setSaveStatus('idle'), 3000);
     } catch (error) {
@@ -2791,7 +2589,7 @@ function DiagramContent() {
       setSaveStatus('error');
       setTimeout(() => setSaveStatus('idle'), 3000);
     }
-  }, [pathsList, activePath, notesPathName, GOOGLE_SCRIPT_URL]);
+  }, [pathsList, forgetDeletedPath]);
 
   // Update path category/folder (for drag and drop)
   const updatePathCategory = async (pathName: string, newCategory: string, newSubcategory?: string) => {
@@ -2799,28 +2597,12 @@ function DiagramContent() {
     if (!pathRow) return;
 
     try {
-      if (DATA_SOURCE === 'notion') {
-        await notionService.updatePathCategory(
-          pathRow.id || pathName,
-          newCategory,
-          newSubcategory || '',
-          '' // subsubcategory
-        );
-      } else {
-        await fetch(GOOGLE_SCRIPT_URL, {
-          method: 'POST',
-          mode: 'no-cors',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            action: 'updatePathCategory',
-            pathId: pathRow.id,
-            pathName: pathName,
-            category: newCategory,
-            subcategory: newSubcategory || '',
-            subsubcategory: '',
-          }),
-        });
-      }
+      await dataBackend.updatePathCategory(
+        pathRow.id || pathName,
+        newCategory,
+        newSubcategory || '',
+        '' // subsubcategory
+      );
 
       // Update local state
       setPathsList(prev => prev.map(p => 
@@ -2850,11 +2632,9 @@ function DiagramContent() {
     
     priorityUpdateRef.current = setTimeout(async () => {
       try {
-        if (DATA_SOURCE === 'notion') {
-          console.log('Saving priority to Notion:', { pathId, newPriority });
-          await notionService.updatePathPriority(pathId, newPriority);
-          console.log('Priority saved successfully');
-        }
+        console.log('Saving priority:', { pathId, newPriority });
+        await dataBackend.updatePathPriority(pathId, newPriority);
+        console.log('Priority saved successfully');
       } catch (error) {
         console.error('Error updating path priority:', error);
       }
@@ -2874,12 +2654,10 @@ function DiagramContent() {
     }
 
     try {
-      if (DATA_SOURCE === 'notion') {
-        console.log('Creating category in Notion...');
-        const newCategory = await notionService.createCategory(name, parentId);
-        console.log('Category created:', newCategory);
-        setCategoriesList(prev => [...prev, newCategory]);
-      }
+      console.log(`Creating category in ${dataBackend.label}...`);
+      const newCategory = await dataBackend.createCategory(name, parentId);
+      console.log('Category created:', newCategory);
+      setCategoriesList(prev => [...prev, newCategory]);
     } catch (error) {
       console.error('Error creating folder:', error);
       alert(`Error creating folder: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -2888,11 +2666,11 @@ function DiagramContent() {
 
   // Delete a folder (category)
   const handleDeleteFolder = async (folder: FolderTreeNode): Promise<void> => {
-    if (!window.confirm(`Delete folder "${folder.name}"? Paths inside will become unfiled.`)) return;
+    if (!window.confirm(`Delete folder "${folder.name}"? Paths inside will become unfiled until it is restored from the trash.`)) return;
     
     try {
-      if (DATA_SOURCE === 'notion' && folder.notionPageId) {
-        await notionService.deleteCategory(folder.notionPageId);
+      if (folder.notionPageId) {
+        await dataBackend.deleteCategory(folder.notionPageId);
         setCategoriesList(prev => prev.filter(c => c.id !== folder.id && c.notionPageId !== folder.notionPageId));
         // Move any paths in this folder to unfiled
         setPathsList(prev => prev.map(p => 
@@ -2907,8 +2685,8 @@ function DiagramContent() {
   // Rename a folder
   const handleRenameFolder = async (folder: FolderTreeNode, newName: string): Promise<void> => {
     try {
-      if (DATA_SOURCE === 'notion' && folder.notionPageId) {
-        await notionService.updateCategory(folder.notionPageId, { name: newName });
+      if (folder.notionPageId) {
+        await dataBackend.updateCategory(folder.notionPageId, { name: newName });
         setCategoriesList(prev => prev.map(c => 
           c.id === folder.id || c.notionPageId === folder.notionPageId
             ? { ...c, name: newName }
@@ -2957,9 +2735,9 @@ function DiagramContent() {
     }
 
     try {
-      if (DATA_SOURCE === 'notion' && folder.notionPageId) {
+      if (folder.notionPageId) {
         console.log('Moving folder', folder.name, 'to parent notionPageId:', targetNotionPageId);
-        await notionService.updateCategory(folder.notionPageId, { parentId: targetNotionPageId });
+        await dataBackend.updateCategory(folder.notionPageId, { parentId: targetNotionPageId });
         setCategoriesList(prev => prev.map(c =>
           c.id === folder.id || c.notionPageId === folder.notionPageId
             ? { ...c, parentId: targetNotionPageId }
@@ -2974,31 +2752,285 @@ function DiagramContent() {
   };
 
   // Toggle favourite status for a path
-  const handleToggleFav = useCallback((pathId: string, fav: boolean) => {
-    // Update in-memory state
+  // Add or remove favourites in memory and in localStorage
+  const updateFavouriteIds = useCallback((pathIds: string[], fav: boolean) => {
     setFavouritePathIds(prev => {
       const next = new Set(prev);
-      if (fav) {
-        next.add(pathId);
-      } else {
-        next.delete(pathId);
-      }
+      pathIds.forEach(pathId => {
+        if (fav) {
+          next.add(pathId);
+        } else {
+          next.delete(pathId);
+        }
+      });
       // Persist to localStorage immediately
       try {
         const obj: Record<string, boolean> = {};
         next.forEach(id => { obj[id] = true; });
-        localStorage.setItem('pathFavourites', JSON.stringify(obj));
+        localStorage.setItem(favouritesStorageKey(), JSON.stringify(obj));
       } catch { /* ignore */ }
       return next;
     });
+  }, []);
+
+  const handleToggleFav = useCallback((pathId: string, fav: boolean) => {
+    updateFavouriteIds([pathId], fav);
     
-    // Also persist to Notion (non-blocking, best-effort)
-    if (DATA_SOURCE === 'notion') {
-      notionService.updatePathFav(pathId, fav).catch(() => {
-        // Silently ignore - localStorage is the source of truth
-      });
+    // Also persist to the data backend (non-blocking, best-effort)
+    dataBackend.updatePathFav(pathId, fav).catch(() => {
+      // Silently ignore - localStorage is the source of truth
+    });
+  }, [updateFavouriteIds]);
+
+  // Apply a restored revision to the loaded path state
+  const handleRevisionRestored = useCallback((revision: PathRevision) => {
+    const pathRow = pathsList.find(p => p.id === revision.pathId);
+    setPathsList(prev => prev.map(p => p.id === revision.pathId ? { ...p, nodeIds: revision.nodeIds, notes: revision.notes } : p));
+    if (pathRow) {
+      setPathsMap(prev => ({ ...prev, [pathRow.name]: revision.nodeIds }));
     }
+    setPathNotes(prev => ({ ...prev, [revision.pathId]: revision.notes }));
+    setNodePathMap(prev => ({ ...prev, [revision.pathId]: { ...revision.nodeNotes } }));
+    setPathLastUpdated(prev => ({ ...prev, [revision.pathId]: Date.now() }));
+    setSidebarNodeContent({});
+    setNotesEditorEpoch(prev => prev + 1);
+    
+    if (activePathIdRef.current !== revision.pathId) return;
+    const restoredNodes = new Set(revision.nodeIds);
+    setManualHighlights(restoredNodes);
+    setNodes(nds => nds.map(n => n.id.startsWith('personalized-') ? n : {
+      ...n,
+      data: { ...n.data, isHighlighted: restoredNodes.has(n.id) },
+    }));
+    setEdges((eds: Edge[]) => eds.map((e: Edge) => {
+      const isActive = restoredNodes.has(e.source) && restoredNodes.has(e.target);
+      return {
+        ...e,
+        style: {
+          stroke: isActive ? highlightColor : edgeColor,
+          opacity: isActive ? 1 : 0.25,
+          strokeWidth: isActive ? 2.5 : 1.5,
+        },
+      };
+    }));
+  }, [pathsList, setNodes, setEdges, highlightColor, edgeColor]);
+
+  // Nodes of the active path while the path focus layout is on; everything else is left out of the view
+  const focusedPathNodeIds = useMemo(
+    () => (pathFocusLayout && activePath ? new Set(pathsMap[activePath] || []) : null),
+    [pathFocusLayout, activePath, pathsMap]
+  );
+  // Subtrees collapsed in the current view (per path), and the descendants that hides
+  const collapsedIds = useMemo(
+    () => new Set(collapsedByPath[activePathId || ''] || []),
+    [collapsedByPath, activePathId]
+  );
+  const collapse = useMemo(() => collapseSubtrees(edges, collapsedIds), [edges, collapsedIds]);
+  const childCounts = useMemo(() => countChildren(edges), [edges]);
+  // Membership of each node while two paths are being compared
+  const pathComparison = useMemo(() => {
+    if (!comparePathIds?.a || !comparePathIds.b) return null;
+    const pathA = pathsList.find(p => p.id === comparePathIds.a);
+    const pathB = pathsList.find(p => p.id === comparePathIds.b);
+    return pathA && pathB ? comparePaths(pathA.nodeIds, pathB.nodeIds) : null;
+  }, [comparePathIds, pathsList]);
+  const displayNodes = useMemo(() => {
+    const shown = nodes.filter(n => (!focusedPathNodeIds || focusedPathNodeIds.has(n.id)) && !collapse.hiddenIds.has(n.id));
+    if (!pathComparison) return shown;
+    return shown.map(n => ({ ...n, data: { ...n.data, compareMembership: pathComparison.membership.get(n.id) } }));
+  }, [nodes, focusedPathNodeIds, collapse, pathComparison]);
+  const displayEdges = useMemo(() => {
+    const shown = new Set(displayNodes.map(n => n.id));
+    const visible = edges.filter(e => shown.has(e.source) && shown.has(e.target));
+    if (!pathComparison) return visible;
+    // Colour edges inside either path by membership and fade the rest
+    return visible.map(e => {
+      const source = pathComparison.membership.get(e.source);
+      const target = pathComparison.membership.get(e.target);
+      if (!source || !target) return { ...e, style: { ...e.style, stroke: edgeColor, opacity: 0.15, strokeWidth: 1.5 } };
+      const stroke = source === target ? MEMBERSHIP_COLORS[source] : edgeColor;
+      return { ...e, style: { ...e.style, stroke, opacity: 1, strokeWidth: 2.5 } };
+    });
+  }, [edges, displayNodes, pathComparison, edgeColor]);
+  
+  // What a layout should cover: the focused path (or everything), minus collapsed subtrees
+  const layoutScope = useCallback((pathNodeIds: Set<string> | null, hiddenIds: Set<string>) => {
+    if (hiddenIds.size === 0) return pathNodeIds;
+    const ids = pathNodeIds ? Array.from(pathNodeIds) : nodesRef.current.map(n => n.id);
+    return new Set(ids.filter(id => !hiddenIds.has(id)));
   }, []);
+  
+  // Collapse or expand a node's subtree in the current view and lay out around it
+  const handleToggleCollapse = useCallback((nodeId: string) => {
+    const key = activePathId || '';
+    const current = collapsedByPath[key] || [];
+    const next = current.includes(nodeId) ? current.filter(id => id !== nodeId) : [...current, nodeId];
+    setCollapsedByPath(prev => {
+      const updated = { ...prev, [key]: next };
+      if (next.length === 0) delete updated[key];
+      return updated;
+    });
+    
+    const hiddenIds = collapseSubtrees(edges, next).hiddenIds;
+    const pathRow = activePath ? pathsList.find(p => p.name === activePath) : undefined;
+    transitionNodes(layoutForPath(
+      nodesRef.current as FlowNode[],
+      edges as FlowEdge[],
+      layoutScope(focusedPathNodeIds, hiddenIds),
+      pathRow?.layout,
+      currentLayoutType
+    ));
+  }, [activePathId, activePath, collapsedByPath, edges, pathsList, focusedPathNodeIds, currentLayoutType, layoutScope, transitionNodes]);
+  const handleToggleCollapseRef = useRef(handleToggleCollapse);
+  handleToggleCollapseRef.current = handleToggleCollapse;
+  
+  // Give nodes their collapse control and hidden-descendant badge
+  useEffect(() => {
+    const onToggleCollapse = (nodeId: string) => handleToggleCollapseRef.current(nodeId);
+    setNodes((nds) =>
+      nds.map((n) => ({
+        ...n,
+        data: {
+          ...n.data,
+          childCount: childCounts.get(n.id) || 0,
+          collapsed: collapsedIds.has(n.id),
+          hiddenDescendants: collapse.hiddenCounts.get(n.id) || 0,
+          onToggleCollapse,
+        },
+      }))
+    );
+  }, [childCounts, collapsedIds, collapse, setNodes]);
+  
+  // Turn a path's read-only share link on (copying it) or off
+  const handleToggleShare = useCallback(async (pathId: string) => {
+    const current = pathsList.find(p => p.id === pathId);
+    if (!current) return;
+    
+    if (current.shareToken) {
+      if (!window.confirm('Stop sharing this path? Existing links will stop working.')) return;
+    }
+    const shareToken = current.shareToken ? undefined : createShareToken();
+    
+    setPathsList(prev => prev.map(p => p.id === pathId ? { ...p, shareToken } : p));
+    try {
+      await dataBackend.updatePathShareToken(pathId, shareToken ?? null);
+      if (shareToken) {
+        const url = getShareUrl(pathId, shareToken);
+        await navigator.clipboard.writeText(url).then(
+          () => alert('Share link copied to clipboard'),
+          () => window.prompt('Share link', url),
+        );
+      }
+    } catch (error) {
+      console.error('Error updating path sharing:', error);
+      setPathsList(prev => prev.map(p => p.id === pathId ? { ...p, shareToken: current.shareToken } : p));
+    }
+  }, [pathsList]);
+
+  // Save the current layout type and every visible node's position as the active path's layout
+  const handleSavePathLayout = useCallback(async (pathId: string) => {
+    const current = pathsList.find(p => p.id === pathId);
+    if (!current) return;
+    
+    const positions: Record<string, { x: number; y: number }> = {};
+    displayNodes.forEach(n => {
+      if (n.hidden) return;
+      positions[n.id] = { x: Math.round(n.position.x), y: Math.round(n.position.y) };
+    });
+    const layout: PathLayout = { type: currentLayoutType, positions };
+    
+    setPathsList(prev => prev.map(p => p.id === pathId ? { ...p, layout } : p));
+    try {
+      await dataBackend.updatePathLayout(pathId, layout);
+    } catch (error) {
+      console.error('Error saving path layout:', error);
+      setPathsList(prev => prev.map(p => p.id === pathId ? { ...p, layout: current.layout } : p));
+      alert('Could not save the layout. Please try again.');
+    }
+  }, [pathsList, displayNodes, currentLayoutType]);
+
+  // Drop the active path's pinned positions and go back to the automatic layout
+  const handleResetPathLayout = useCallback(async (pathId: string) => {
+    const current = pathsList.find(p => p.id === pathId);
+    if (!current?.layout) return;
+    if (!window.confirm('Reset this path to the automatic layout? Pinned node positions will be lost.')) return;
+    
+    setPathsList(prev => prev.map(p => p.id === pathId ? { ...p, layout: undefined } : p));
+    transitionNodes(layoutForPath(nodesRef.current as FlowNode[], edges as FlowEdge[], layoutScope(focusedPathNodeIds, collapse.hiddenIds), undefined, currentLayoutType));
+    setTimeout(() => {
+      fitView({ duration: 400, padding: 0.15 });
+    }, LAYOUT_ANIMATION_MS);
+    try {
+      await dataBackend.updatePathLayout(pathId, null);
+    } catch (error) {
+      console.error('Error resetting path layout:', error);
+      setPathsList(prev => prev.map(p => p.id === pathId ? { ...p, layout: current.layout } : p));
+    }
+  }, [pathsList, edges, focusedPathNodeIds, collapse, currentLayoutType, layoutScope, transitionNodes, fitView]);
+
+  // Switch between laying out only the active path's nodes and the whole graph
+  const togglePathFocusLayout = useCallback(() => {
+    const next = !pathFocusLayout;
+    setPathFocusLayout(next);
+    if (!activePath) return;
+    
+    const pathRow = pathsList.find(p => p.name === activePath);
+    const focusIds = next ? new Set(pathsMap[activePath] || []) : null;
+    transitionNodes(layoutForPath(nodesRef.current as FlowNode[], edges as FlowEdge[], layoutScope(focusIds, collapse.hiddenIds), pathRow?.layout, currentLayoutType));
+    setTimeout(() => {
+      fitView({ duration: 400, padding: 0.15 });
+    }, LAYOUT_ANIMATION_MS);
+  }, [pathFocusLayout, activePath, pathsList, pathsMap, edges, collapse, currentLayoutType, layoutScope, transitionNodes, fitView]);
+
+  // Export a path as a study document with a snapshot of the highlighted diagram
+  // A path as a study document, with its notes as currently loaded
+  const buildDocumentForPath = useCallback((path: PathRow, snapshot?: string) => buildPathDocument({
+    name: path.name,
+    notes: pathNotes[path.id] ?? path.notes,
+    nodeIds: pathsMap[path.name] || path.nodeIds,
+    nodes: baseNodes.map(n => {
+      const data = n.data as NodeData;
+      return {
+        id: n.id,
+        label: data.label,
+        description: data.description,
+        longDescription: data.longDescription,
+        wikiUrl: data.wikiUrl,
+        externalLinks: data.externalLinks,
+      };
+    }),
+    edges: baseEdges,
+    nodeNotes: nodePathMap[path.id] || {},
+    snapshot,
+  }), [pathNotes, pathsMap, baseNodes, baseEdges, nodePathMap]);
+
+  const handleExportPath = useCallback(async (pathId: string, format: 'pdf' | 'markdown') => {
+    const path = pathsList.find(p => p.id === pathId);
+    if (!path) return;
+    
+    setPathExportMenuOpen(false);
+    setPathExporting(true);
+    try {
+      const snapshot = await captureDiagram(flowRef.current, darkMode ? '#0f172a' : '#ffffff');
+      const document = buildDocumentForPath(path, snapshot);
+      
+      if (format === 'pdf') {
+        renderPdf(document).save(`${pathDocumentFileName(document)}.pdf`);
+      } else {
+        const url = URL.createObjectURL(new Blob([renderMarkdown(document)], { type: 'text/markdown' }));
+        const link = window.document.createElement('a');
+        link.href = url;
+        link.download = `${pathDocumentFileName(document)}.md`;
+        link.click();
+        URL.revokeObjectURL(url);
+      }
+    } catch (error) {
+      console.error('Error exporting path:', error);
+      alert('Could not export this path.');
+    } finally {
+      setPathExporting(false);
+    }
+  }, [pathsList, buildDocumentForPath, darkMode]);
 
   // Convert paths list to PathItem format for FolderTree (excludes archived paths)
   const folderPathItems: PathItem[] = useMemo(() => 
@@ -3071,9 +3103,26 @@ function DiagramContent() {
     });
   }, [folderPathItems, pathsList, selectedNodeFilter]);
 
+  // Full-text index over node content, path notes, node notes and page bodies
+  const contentSearchIndex = useMemo(() => buildSearchIndex(buildSearchDocuments({
+    nodes: baseNodes.map(n => {
+      const data = n.data as NodeData;
+      return {
+        id: n.id,
+        label: data.label,
+        description: data.description,
+        details: data.details,
+        longDescription: data.longDescription,
+      };
+    }),
+    paths: pathsList.map(p => ({ id: p.id, name: p.name, notes: pathNotes[p.id] ?? p.notes })),
+    nodeNotes: nodePathMap,
+    pageBlocks: pageBlocksByNode,
+  })), [baseNodes, pathsList, pathNotes, nodePathMap, pageBlocksByNode]);
+
   // Search results for autocomplete
   const searchResults = useMemo(() => {
-    if (!searchQuery.trim()) return { paths: [], nodes: [], folders: [] };
+    if (!searchQuery.trim()) return { paths: [], nodes: [], folders: [], content: [] as SearchHit[] };
     
     const query = searchQuery.toLowerCase().trim();
     
@@ -3095,8 +3144,11 @@ function DiagramContent() {
       c.name.toLowerCase().includes(query)
     ).slice(0, 5);
     
-    return { paths: matchingPaths, nodes: matchingNodes, folders: matchingFolders };
-  }, [searchQuery, folderPathItems, allNodesData, categoriesList, pathsList]);
+    // Search content
+    const matchingContent = searchIndex(contentSearchIndex, query, 8);
+    
+    return { paths: matchingPaths, nodes: matchingNodes, folders: matchingFolders, content: matchingContent };
+  }, [searchQuery, folderPathItems, allNodesData, categoriesList, pathsList, contentSearchIndex]);
 
   // Helper function to expand a folder and all its parent folders
   const expandFolderWithParents = useCallback((folderId: string) => {
@@ -3151,10 +3203,14 @@ function DiagramContent() {
     }, 100);
   }, [categoriesList]);
 
+  // Lay out the overview around the subtrees collapsed in it
   const layoutNodes = useCallback(
-    (nodesToLayout: Node[], edgesToLayout: Edge[]) =>
-      applyLayout(nodesToLayout as FlowNode[], edgesToLayout as FlowEdge[], currentLayoutType),
-    [currentLayoutType]
+    (nodesToLayout: Node[], edgesToLayout: Edge[]) => {
+      const hiddenIds = collapseSubtrees(edgesToLayout, collapsedByPath[''] || []).hiddenIds;
+      const scope = hiddenIds.size > 0 ? new Set(nodesToLayout.map(n => n.id).filter(id => !hiddenIds.has(id))) : null;
+      return layoutForPath(nodesToLayout as FlowNode[], edgesToLayout as FlowEdge[], scope, undefined, currentLayoutType);
+    },
+    [collapsedByPath, currentLayoutType]
   );
   
   // Cycle to next layout
@@ -3168,12 +3224,16 @@ function DiagramContent() {
   
   // Re-apply layout when layout type changes
   useEffect(() => {
+    // A path with a saved layout has already positioned the nodes itself
+    if (pathLayoutAppliedRef.current) {
+      pathLayoutAppliedRef.current = false;
+      return;
+    }
     if (nodes.length > 0) {
-      const relaidOut = applyLayout(nodes as FlowNode[], edges as FlowEdge[], currentLayoutType);
-      setNodes(relaidOut);
+      transitionNodes(layoutForPath(nodes as FlowNode[], edges as FlowEdge[], layoutScope(focusedPathNodeIds, collapse.hiddenIds), undefined, currentLayoutType));
       setTimeout(() => {
         fitView({ duration: 400, padding: 0.15 });
-      }, 50);
+      }, LAYOUT_ANIMATION_MS);
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [currentLayoutType]);
@@ -3190,281 +3250,17 @@ function DiagramContent() {
   );
   void enforceRootHidden;
 
-  const parseHidden = (value?: string | boolean) => {
-    if (typeof value === 'boolean') return value;
-    if (!value) return false;
-    return value.toString().trim().toLowerCase() === 'true';
-  };
-
-  const parseJsonArray = <T,>(value?: string): T[] | undefined => {
-    if (!value) return undefined;
-    try {
-      const parsed = JSON.parse(value);
-      return Array.isArray(parsed) ? (parsed as T[]) : undefined;
-    } catch {
-      return undefined;
-    }
-  };
-
-  const parseJsonObject = <T,>(value?: string): T | undefined => {
-    if (!value) return undefined;
-    try {
-      const parsed = JSON.parse(value);
-      return typeof parsed === 'object' && parsed !== null ? (parsed as T) : undefined;
-    } catch {
-      return undefined;
-    }
-  };
-
-  const normalizeDriveUrl = (url: string) => {
-    const match = url.match(/\/d\/([a-zA-Z0-9_-]+)/) || url.match(/id=([a-zA-Z0-9_-]+)/);
-    if (match?.[1]) {
-      return `https://drive.google.com/uc?export=view&id=${match[1]}`;
-    }
-    return url;
-  };
-
-  const normalizeImageUrl = (url?: string) => {
-    if (!url) return url;
-    const trimmed = url.trim();
-    if (trimmed.startsWith('//')) return `https:${trimmed}`;
-    if (trimmed.startsWith('http')) return normalizeDriveUrl(trimmed);
-    if (trimmed.startsWith('/')) {
-      const base = import.meta.env.BASE_URL || '/';
-      return new URL(trimmed.replace(/^\//, ''), `${window.location.origin}${base}`).toString();
-    }
-    return trimmed;
-  };
-
-  const normalizeVideoUrl = (url?: string) => {
-    if (!url) return url;
-    const trimmed = url.trim();
-    if (trimmed.includes('youtube.com/watch')) {
-      const match = trimmed.match(/[?&]v=([^&]+)/);
-      const id = match?.[1];
-      return id ? `https://www.youtube.com/embed/${id}` : trimmed;
-    }
-    if (trimmed.includes('youtu.be/')) {
-      const match = trimmed.match(/youtu\.be\/([^?]+)/);
-      const id = match?.[1];
-      return id ? `https://www.youtube.com/embed/${id}` : trimmed;
-    }
-    if (trimmed.includes('vimeo.com/')) {
-      const match = trimmed.match(/vimeo\.com\/(\d+)/);
-      const id = match?.[1];
-      return id ? `https://player.vimeo.com/video/${id}` : trimmed;
-    }
-    return trimmed;
-  };
-
-  const buildFromRows = useCallback((rows: SheetRow[]) => {
-    const parseParentIds = (value?: string, list?: string[]) => {
-      if (list?.length) {
-        return list.map((v) => v.trim()).filter(Boolean);
-      }
-      const raw = (value || '').trim();
-      if (!raw) return [];
-      if (raw.startsWith('[') && raw.endsWith(']')) {
-        const parsed = parseJsonArray<string>(raw);
-        if (parsed?.length) {
-          return parsed.map((v) => v.trim()).filter(Boolean);
-        }
-      }
-      if (raw.includes(',') || raw.includes('|') || raw.includes(';')) {
-        return raw
-          .split(/,|\||;/)
-          .map((v) => v.trim())
-          .filter(Boolean);
-      }
-      if (raw.includes('-') && /^[0-9\s-]+$/.test(raw)) {
-        return raw
-          .split('-')
-          .map((v) => v.trim())
-          .filter(Boolean);
-      }
-      if (/\s/.test(raw)) {
-        return raw
-          .split(/\s+/)
-          .map((v) => v.trim())
-          .filter(Boolean);
-      }
-      return [raw];
-    };
-
-    const normalizeHeader = (key: string) =>
-      key.toLowerCase().replace(/[^a-z0-9]/g, '');
-    const getNormalizedRow = (row: SheetRow) => {
-      const normalized: Record<string, string | boolean | undefined> = {};
-      Object.entries(row).forEach(([key, value]) => {
-        normalized[normalizeHeader(key)] = value as string | boolean | undefined;
-      });
-      return normalized;
-    };
-
-    const cleanRows = rows
-      .map((row) => ({
-        ...row,
-        _normalized: getNormalizedRow(row),
-      }))
-      .map((row) => ({
-        id: row._normalized?.id?.toString().trim(),
-        parentId: row._normalized?.parentid?.toString().trim(),
-        parentIds:
-          row._normalized?.parentidsjsonarray?.toString().trim() ||
-          row._normalized?.parentids?.toString().trim(),
-        label: row._normalized?.label?.toString().trim(),
-        category: row._normalized?.category?.toString().trim(),
-        color: row._normalized?.color?.toString().trim(),
-        wikiUrl: row._normalized?.wikiurl?.toString().trim(),
-        description: row._normalized?.description?.toString().trim(),
-        details: row._normalized?.details?.toString().trim(),
-        longDescription: row._normalized?.longdescription?.toString().trim(),
-        externalLinks:
-          row._normalized?.externallinksjsonarray?.toString().trim() ||
-          row._normalized?.externallinks?.toString().trim(),
-        images:
-          row._normalized?.imagesjsonarray?.toString().trim() ||
-          row._normalized?.images?.toString().trim(),
-        video:
-          row._normalized?.videojsonobject?.toString().trim() ||
-          row._normalized?.video?.toString().trim(),
-        hidden_by_default:
-          row._normalized?.hiddenbydefault ?? row._normalized?.hidden,
-        grouping: row._normalized?.grouping?.toString().trim(),
-      }))
-      .filter((row) => row.id);
-
-    const nodesFromSheet: Node[] = cleanRows.map((row) => ({
-      id: row.id as string,
-      type: 'method',
-      position: { x: 0, y: 0 },
-      hidden: parseHidden(row.hidden_by_default),
-      data: {
-        label: row.label || row.id,
-        category: row.category || '',
-        color: row.color || '#1f2937',
-        wikiUrl: row.wikiUrl || '',
-        description: row.description || '',
-        details: row.details || '',
-        longDescription: row.longDescription || '',
-        externalLinks: parseJsonArray<{ label: string; url: string }>(row.externalLinks),
-        images: parseJsonArray<{ src: string; alt?: string }>(row.images)?.map((img) => ({
-          ...img,
-          src: normalizeImageUrl(img.src) || img.src,
-        })),
-        video: (() => {
-          const parsed = parseJsonObject<{ type?: 'youtube' | 'vimeo' | 'html5'; url?: string }>(row.video);
-          if (!parsed?.url) return undefined;
-          const normalizedUrl = normalizeVideoUrl(parsed.url);
-          let type = parsed.type;
-          if (!type) {
-            if (normalizedUrl?.includes('youtube.com') || normalizedUrl?.includes('youtu.be')) type = 'youtube';
-            else if (normalizedUrl?.includes('vimeo.com')) type = 'vimeo';
-            else type = 'html5';
-          }
-          return {
-            type: type as 'youtube' | 'vimeo' | 'html5',
-            url: normalizedUrl || parsed.url,
-          };
-        })(),
-        grouping: row.grouping || undefined,
-      },
-    }));
-
-    const edgesFromSheet: Edge[] = cleanRows
-      .flatMap((row) => {
-        const parentIdsList = parseJsonArray<string>(row.parentIds);
-        const parents = parseParentIds(row.parentId, parentIdsList);
-        if (!parents.length) return [];
-        return parents.map((parentId) => ({
-          id: `${parentId}->${row.id}`,
-          source: parentId,
-          target: row.id as string,
-        }));
-      });
-
-    const roots = cleanRows
-      .filter((row) => {
-        const parentIdsList = parseJsonArray<string>(row.parentIds);
-        return parseParentIds(row.parentId, parentIdsList).length === 0;
-      })
-      .map((row) => row.id as string);
-
-    return { nodesFromSheet, edgesFromSheet, roots };
-  }, []);
-
   useEffect(() => {
     const loadSheet = async () => {
       setDataLoading(true);
       setDataError(null);
       try {
-        let nodesFromSheet: Node[] = [];
-        let edgesFromSheet: Edge[] = [];
-        let roots: string[] = [];
+        // Load nodes from the data backend
+        const notionNodes = await dataBackend.fetchNodes();
+        setNodeRecords(notionNodes);
         
-        if (DATA_SOURCE === 'notion') {
-          // Load nodes from Notion
-          const notionNodes = await notionService.fetchNodes();
-          
-          // Convert NodeRecord to ReactFlow Node format
-          nodesFromSheet = notionNodes.map((n) => ({
-            id: n.id,
-            type: 'method',
-            position: { x: 0, y: 0 },
-            data: {
-              label: n.label,
-              color: n.color || '#3b82f6',
-              category: n.category,
-              notionPageId: n.notionPageId,
-              description: n.description,
-              details: n.details,
-              longDescription: n.longDescription,
-              externalLinks: n.externalLinks,
-              images: n.images,
-              video: n.video,
-              hidden_by_default: n.hidden_by_default,
-              wikiUrl: n.wikiUrl,
-              grouping: n.grouping,
-            } as NodeData,
-            hidden: n.hidden_by_default,
-          }));
-          
-          // Build edges from parentIds
-          edgesFromSheet = notionNodes.flatMap((n) =>
-            n.parentIds
-              .filter((pid) => pid && notionNodes.some((node) => node.id === pid))
-              .map((parentId) => ({
-                id: `${parentId}->${n.id}`,
-                source: parentId,
-                target: n.id,
-              }))
-          );
-          
-          // Find root nodes (nodes with no parents or where parent doesn't exist)
-          roots = notionNodes
-            .filter((n) => n.parentIds.length === 0 || !n.parentIds.some((pid) => notionNodes.some((node) => node.id === pid)))
-            .filter((n) => n.hidden_by_default)
-            .map((n) => n.id);
-        } else {
-          // Load from Google Sheet (legacy)
-          const response = await fetch(SHEET_TSV_URL);
-          if (!response.ok) {
-            throw new Error(`Sheet load failed: ${response.status}`);
-          }
-          const csvText = await response.text();
-          const parsed = Papa.parse<SheetRow>(csvText, {
-            header: true,
-            skipEmptyLines: true,
-            delimiter: '\t',
-          });
-          if (parsed.errors?.length) {
-            throw new Error(parsed.errors[0].message);
-          }
-          const built = buildFromRows(parsed.data || []);
-          nodesFromSheet = built.nodesFromSheet;
-          edgesFromSheet = built.edgesFromSheet;
-          roots = built.roots;
-        }
+        // Convert NodeRecord to ReactFlow nodes, edges and roots
+        const { nodes: nodesFromSheet, edges: edgesFromSheet, roots } = buildGraphFromRecords(notionNodes);
         
         if (!nodesFromSheet.length) {
           throw new Error('No nodes found');
@@ -3509,117 +3305,321 @@ function DiagramContent() {
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, []); // Run only once on mount
 
+  // ============================================
+  // Graph editing (written back to the NODES database)
+  // ============================================
+
+  // Rebuild nodes, edges and roots from edited records, keeping positions and highlights
+  const applyNodeRecords = useCallback((records: NodeRecord[], relayout: boolean) => {
+    const graph = buildGraphFromRecords(records);
+    const effectiveRoots = graph.roots.length ? graph.roots : graph.nodes.slice(0, 1).map((n) => n.id);
+    const wasHiddenByDefault = new Set(nodeRecords.filter(r => r.hidden_by_default).map(r => r.id));
+
+    setNodeRecords(records);
+    setBaseNodes(graph.nodes);
+    setBaseEdges(graph.edges);
+    setRootIds(effectiveRoots);
+    setAllNodesData(graph.nodes.map(n => ({ id: n.id, label: (n.data as NodeData).label || n.id })));
+    // Keep the open node's panels showing its current properties
+    setSelectedNode((prev) => {
+      if (!prev) return prev;
+      const fresh = graph.nodes.find(n => n.id === prev.id);
+      return fresh ? { ...prev, data: { ...prev.data, ...fresh.data } } : null;
+    });
+    setEdges((eds) => {
+      const previous = new Map(eds.map(e => [e.id, e]));
+      return graph.edges.map(e => ({ ...e, style: previous.get(e.id)?.style }));
+    });
+    setNodes((nds) => {
+      const previous = new Map(nds.map(n => [n.id, n]));
+      const rebuilt = graph.nodes.map((n) => {
+        const old = previous.get(n.id);
+        return {
+          ...n,
+          position: old?.position ?? n.position,
+          // Keep nodes the current view revealed, unless hiding was just switched on or off
+          hidden: n.hidden || (old !== undefined && !wasHiddenByDefault.has(n.id) && old.hidden === true),
+          data: {
+            ...(old ? old.data : { darkMode, diagramTheme, graphEditable: graphEditMode }),
+            ...n.data,
+            onInfoClick: handleInfoClick,
+            onToggleSelect: handleToggleSelect,
+          },
+        };
+      });
+      // Only what the edit revealed or made room for moves; the rest of the diagram stays put
+      const withRoots = enforceRootHidden(rebuilt, effectiveRoots);
+      // Collapsed subtrees count as hidden for placement only
+      const hiddenIds = collapseSubtrees(graph.edges, collapsedIds).hiddenIds;
+      const asLaidOut = (list: Node[]) => list.map(n => (hiddenIds.has(n.id) ? { ...n, hidden: true } : n));
+      const laidOut = relayout
+        ? layoutIncrementally(asLaidOut(nds) as FlowNode[], asLaidOut(withRoots) as FlowNode[], graph.edges as FlowEdge[], currentLayoutType)
+          .map((n, i) => ({ ...n, hidden: withRoots[i].hidden }))
+        : withRoots;
+      const personalized = nds.filter(n => n.id.startsWith('personalized-'));
+      return [...laidOut, ...personalized];
+    });
+  }, [nodeRecords, darkMode, diagramTheme, graphEditMode, handleInfoClick, handleToggleSelect, collapsedIds, currentLayoutType, enforceRootHidden, setEdges, setNodes]);
+
+  // Apply edited records now, then save the changed ones in the background
+  const commitNodeRecords = useCallback(async (
+    records: NodeRecord[],
+    changed: NodeRecord[],
+    options: { relayout?: boolean; deletedId?: string } = {},
+  ) => {
+    applyNodeRecords(records, options.relayout ?? false);
+    try {
+      for (const record of changed) {
+        const saved = await dataBackend.saveNode(record);
+        // New nodes get their page id once saved
+        setNodeRecords(prev => prev.map(r => r.id === saved.id
+          ? { ...r, notionPageId: saved.notionPageId, lastModified: saved.lastModified }
+          : r));
+      }
+      // Deleted last, so a failed save never leaves children pointing at a deleted node
+      if (options.deletedId) {
+        await dataBackend.deleteNode(options.deletedId);
+      }
+    } catch (error) {
+      console.error('Error saving node changes:', error);
+      alert(`Error saving node changes: ${error instanceof Error ? error.message : 'Unknown error'}. The diagram is reloaded to show what was saved.`);
+      // Stop at the first failure and show what the backend actually holds
+      try {
+        applyNodeRecords(await dataBackend.fetchNodes(true), options.relayout ?? false);
+      } catch (reloadError) {
+        console.error('Error reloading nodes:', reloadError);
+      }
+    }
+  }, [applyNodeRecords]);
+
+  const handleCreateNode = useCallback((parentId?: string) => {
+    const label = window.prompt(parentId ? 'Name of the new child node:' : 'Name of the new node:')?.trim();
+    if (!label) return;
+    const parent = parentId ? nodeRecords.find(r => r.id === parentId) : undefined;
+    const record = createNodeRecord(
+      { label, color: parent?.color, parentIds: parent ? [parent.id] : [] },
+      nodeRecords.map(r => r.id),
+    );
+    void commitNodeRecords([...nodeRecords, record], [record], { relayout: true });
+  }, [nodeRecords, commitNodeRecords]);
+
+  // Replace one record and save it
+  const updateNodeRecord = useCallback((nodeId: string, update: (record: NodeRecord) => NodeRecord, relayout = false) => {
+    const current = nodeRecords.find(r => r.id === nodeId);
+    if (!current) return;
+    const updated = update(current);
+    if (updated === current) return;
+    void commitNodeRecords(nodeRecords.map(r => r.id === nodeId ? updated : r), [updated], { relayout });
+  }, [nodeRecords, commitNodeRecords]);
+
+  const handleRenameNode = useCallback((nodeId: string) => {
+    const current = nodeRecords.find(r => r.id === nodeId);
+    if (!current) return;
+    const label = window.prompt('Rename node:', current.label)?.trim();
+    if (!label || label === current.label) return;
+    updateNodeRecord(nodeId, r => ({ ...r, label }));
+  }, [nodeRecords, updateNodeRecord]);
+
+  const handleRecolorNode = useCallback((nodeId: string, color: string) => {
+    updateNodeRecord(nodeId, r => r.color === color ? r : { ...r, color });
+  }, [updateNodeRecord]);
+
+  const handleToggleNodeHidden = useCallback((nodeId: string) => {
+    updateNodeRecord(nodeId, r => ({ ...r, hidden_by_default: !r.hidden_by_default }), true);
+  }, [updateNodeRecord]);
+
+  const handleDeleteNode = useCallback((nodeId: string) => {
+    const current = nodeRecords.find(r => r.id === nodeId);
+    if (!current) return;
+    const children = detachChildren(nodeRecords, nodeId);
+    const childNote = children.length > 0
+      ? ` Its ${children.length} ${children.length === 1 ? 'child' : 'children'} will be unlinked.`
+      : '';
+    if (!window.confirm(`Delete node "${current.label}"? This will move it to the trash.${childNote}`)) return;
+
+    const detached = new Map(children.map(r => [r.id, r]));
+    const records = nodeRecords
+      .filter(r => r.id !== nodeId)
+      .map(r => detached.get(r.id) ?? r);
+    setManualHighlights(prev => {
+      if (!prev.has(nodeId)) return prev;
+      const next = new Set(prev);
+      next.delete(nodeId);
+      return next;
+    });
+    void commitNodeRecords(records, children, { relayout: true, deletedId: nodeId });
+  }, [nodeRecords, commitNodeRecords]);
+
+  // Dragging from a node's bottom handle to another node's top handle makes it a parent
+  const handleConnect = useCallback((connection: Connection) => {
+    const { source: parentId, target: childId } = connection;
+    if (!parentId || !childId) return;
+    if (wouldCreateCycle(nodeRecords, parentId, childId)) {
+      alert('That link would create a loop.');
+      return;
+    }
+    updateNodeRecord(childId, r => addParent(r, parentId), true);
+  }, [nodeRecords, updateNodeRecord]);
+
+  // Deleting an edge unlinks the child from that parent
+  const handleEdgesDelete = useCallback((deleted: Edge[]) => {
+    if (!graphEditMode || deleted.length === 0) return;
+    const removals = new Map<string, string[]>(); // childId -> parent ids to drop
+    deleted.forEach(e => removals.set(e.target, [...(removals.get(e.target) || []), e.source]));
+    const changed = nodeRecords
+      .filter(r => removals.has(r.id))
+      .map(r => removals.get(r.id)!.reduce(removeParent, r));
+    const byId = new Map(changed.map(r => [r.id, r]));
+    void commitNodeRecords(nodeRecords.map(r => byId.get(r.id) ?? r), changed, { relayout: true });
+  }, [graphEditMode, nodeRecords, commitNodeRecords]);
+
+  // ============================================
+  // Integrity report
+  // ============================================
+
+  const runIntegrityCheck = useCallback(async (forceRefresh: boolean) => {
+    setIntegrityChecking(true);
+    try {
+      const data = await loadIntegrityData(dataBackend, forceRefresh);
+      integrityDataRef.current = data;
+      setIntegrityIssues(checkIntegrity(data));
+    } catch (error) {
+      console.error('Integrity check failed:', error);
+    } finally {
+      setIntegrityChecking(false);
+    }
+  }, []);
+
+  // Check once the initial load has finished
+  const integrityCheckedRef = useRef(false);
+  useEffect(() => {
+    if (dataLoading || dataError || nodeRecords.length === 0 || integrityCheckedRef.current) return;
+    integrityCheckedRef.current = true;
+    void runIntegrityCheck(false);
+  }, [dataLoading, dataError, nodeRecords.length, runIntegrityCheck]);
+
+  // Apply a fix, then bring the diagram and path list in line with it
+  const handleIntegrityFix = useCallback(async (fix: IntegrityFix) => {
+    if (!integrityDataRef.current) return;
+    const data = await applyIntegrityFix(dataBackend, integrityDataRef.current, fix);
+    integrityDataRef.current = data;
+    setIntegrityIssues(checkIntegrity(data));
+
+    if (fix.type === 'removeParents') {
+      applyNodeRecords(data.nodes, true);
+    } else if (fix.type === 'removePathNodes') {
+      const path = data.paths.find(p => p.id === fix.pathId);
+      if (!path) return;
+      setPathsList(prev => prev.map(p => p.id === path.id ? { ...p, nodeIds: path.nodeIds } : p));
+      setPathsMap(prev => ({ ...prev, [path.name]: path.nodeIds }));
+    }
+  }, [applyNodeRecords]);
+
+  // Move notes still stored in page properties into the page bodies
+  const handleMigrateNotes = useCallback(async () => {
+    if (!dataBackend.migrateNotesToPageBodies) return;
+    if (!confirm('Move path notes and node notes that are still stored in page properties into their Notion page bodies?')) return;
+    setNotesMigrationProgress('Starting');
+    try {
+      const result = await dataBackend.migrateNotesToPageBodies((done, total) => {
+        setNotesMigrationProgress(`${done} of ${total}`);
+      });
+      const failed = result.failed.length > 0
+        ? ` ${result.failed.length} could not be moved (${result.failed[0].error}); their notes stay where they were, so run it again to retry.`
+        : '';
+      alert(result.paths + result.nodePaths + result.failed.length === 0
+        ? 'All notes are already stored in page bodies.'
+        : `Moved the notes of ${result.paths} ${result.paths === 1 ? 'path' : 'paths'} and ${result.nodePaths} node ${result.nodePaths === 1 ? 'note' : 'notes'} into page bodies.${failed}`);
+    } catch (error) {
+      console.error('Moving notes into page bodies failed:', error);
+      alert(`Moving notes failed: ${error instanceof Error ? error.message : String(error)}. Notes moved so far are kept; run it again to continue.`);
+    } finally {
+      setNotesMigrationProgress(null);
+    }
+  }, []);
+
+  // Show connectable handles while editing the graph
+  useEffect(() => {
+    setNodes((nds) =>
+      nds.map((n) => ({
+        ...n,
+        data: {
+          ...n.data,
+          graphEditable: graphEditMode,
+        },
+      }))
+    );
+    if (!graphEditMode) setNodeMenu(null);
+  }, [graphEditMode, setNodes]);
+
   useEffect(() => {
     const loadPaths = async () => {
       try {
-        if (DATA_SOURCE === 'notion') {
-          // Load from Notion
-          const paths = await notionService.fetchPaths();
-          
-          // Sync favourites from Notion into favouritePathIds and localStorage
-          const notionFavIds = new Set<string>();
-          paths.forEach((p: PathRecord) => {
-            if (p.fav) notionFavIds.add(p.id);
-          });
-          setFavouritePathIds(prev => {
-            // Merge: Notion is source of truth, localStorage provides fast initial render
-            const merged = new Set(prev);
-            notionFavIds.forEach(id => merged.add(id));
-            // Sync merged set back to localStorage
-            try {
-              const obj: Record<string, boolean> = {};
-              merged.forEach(id => { obj[id] = true; });
-              localStorage.setItem('pathFavourites', JSON.stringify(obj));
-            } catch { /* ignore */ }
-            return merged;
-          });
-          
-          const list: PathRow[] = paths
-            .filter((p: PathRecord) => p.name && (p.status ? p.status.toLowerCase() !== 'deleted' : true))
-            .map((p: PathRecord) => {
-              const lastUpdatedValue = p.dateUpdated || p.lastModified || '';
-              const parsedLastUpdated = lastUpdatedValue ? Date.parse(lastUpdatedValue) : 0;
-              return {
-                id: p.id,
-                name: p.name,
-                nodeIds: p.nodeIds,
-                category: p.category,
-                subcategory: p.subcategory,
-                subsubcategory: p.subsubcategory,
-                notes: p.notes,
-                status: p.status,
-                dateUpdated: p.dateUpdated,
-                lastUpdated: Number.isNaN(parsedLastUpdated) ? undefined : parsedLastUpdated,
-                priority: p.priority,
-              };
-            });
-          
-          const map: Record<string, string[]> = {};
-          const notesMap: Record<string, string> = {};
-          const updatedMap: Record<string, number> = {};
-          list.forEach((row) => {
-            map[row.name] = row.nodeIds;
-            if (row.notes && row.id) {
-              notesMap[row.id] = row.notes;
-            }
-            if (row.id) {
-              const ts = row.lastUpdated ?? 0;
-              updatedMap[row.id] = ts;
-            }
+        // Load from the data backend
+        const paths = await dataBackend.fetchPaths();
+        
+        // Sync favourites from the backend into favouritePathIds and localStorage
+        const notionFavIds = new Set<string>();
+        paths.forEach((p: PathRecord) => {
+          if (p.fav) notionFavIds.add(p.id);
+        });
+        setFavouritePathIds(prev => {
+          // Merge: Notion is source of truth, localStorage provides fast initial render
+          const merged = new Set(prev);
+          notionFavIds.forEach(id => merged.add(id));
+          // Sync merged set back to localStorage
+          try {
+            const obj: Record<string, boolean> = {};
+            merged.forEach(id => { obj[id] = true; });
+            localStorage.setItem(favouritesStorageKey(), JSON.stringify(obj));
+          } catch { /* ignore */ }
+          return merged;
+        });
+        
+        const list: PathRow[] = paths
+          .filter((p: PathRecord) => p.name && (p.status ? p.status.toLowerCase() !== 'deleted' : true))
+          .map((p: PathRecord) => {
+            const lastUpdatedValue = p.dateUpdated || p.lastModified || '';
+            const parsedLastUpdated = lastUpdatedValue ? Date.parse(lastUpdatedValue) : 0;
+            return {
+              id: p.id,
+              name: p.name,
+              nodeIds: p.nodeIds,
+              category: p.category,
+              subcategory: p.subcategory,
+              subsubcategory: p.subsubcategory,
+              notes: p.notes,
+              status: p.status,
+              dateUpdated: p.dateUpdated,
+              lastUpdated: Number.isNaN(parsedLastUpdated) ? undefined : parsedLastUpdated,
+              priority: p.priority,
+              shareToken: p.shareToken,
+              layout: p.layout,
+              template: p.template,
+            };
           });
-          setPathsList(list);
-          setPathsMap(map);
-          setPathNotes(notesMap);
-          setPathLastUpdated(updatedMap);
-          
-          // Load path audio URLs
-          const pathAudioMap = buildPathAudioMap(paths);
-          setPathAudioUrls(pathAudioMap);
-        } else {
-          // Load from Google Sheets (legacy)
-          const response = await fetch(PATHS_CSV_URL);
-          if (!response.ok) {
-            setPathsList([]);
-            setPathsMap({});
-            return;
+        
+        const map: Record<string, string[]> = {};
+        const notesMap: Record<string, string> = {};
+        const updatedMap: Record<string, number> = {};
+        list.forEach((row) => {
+          map[row.name] = row.nodeIds;
+          if (row.notes && row.id) {
+            notesMap[row.id] = row.notes;
           }
-          const text = await response.text();
-          const parsed = Papa.parse(text, { header: true, skipEmptyLines: true });
-          const rows = parsed.data as Array<Record<string, string>>;
-          
-          const list: PathRow[] = rows
-            .map((row) => {
-              // Handle various column name possibilities
-              let id = (row['id'] || row['Id'] || row['ID'] || '').toString().trim();
-              let name = (row['name'] || row['Name'] || row['NAME'] || '').toString().trim();
-              // Remove leading single quote if present (from forceTextForSheet)
-              if (id.startsWith("'")) id = id.slice(1);
-              if (name.startsWith("'")) name = name.slice(1);
-              const nodeIdsRaw = (row['nodeIds'] || row['NodeIds'] || row['nodeids'] || row['node_ids'] || '').toString();
-              const nodeIds = nodeIdsRaw
-                .split(',')
-                .map((v: string) => v.trim())
-                .filter(Boolean);
-              const category = (row['category'] || row['Category'] || '').toString().trim() || undefined;
-              const subcategory = (row['subcategory'] || row['Subcategory'] || row['subCategory'] || '').toString().trim() || undefined;
-              const subsubcategory = (row['subsubcategory'] || row['Subsubcategory'] || row['subSubcategory'] || '').toString().trim() || undefined;
-              const notes = (row['notes'] || row['Notes'] || '').toString().trim() || undefined;
-              return { id, name, nodeIds, category, subcategory, subsubcategory, notes };
-            })
-            .filter((row) => row.name && row.nodeIds.length);
-          
-          const map: Record<string, string[]> = {};
-          const notesMap: Record<string, string> = {};
-          list.forEach((row) => {
-            map[row.name] = row.nodeIds;
-            if (row.notes && row.id) {
-              notesMap[row.id] = row.notes;
-            }
-          });
-          setPathsList(list);
-          setPathsMap(map);
-          setPathNotes(notesMap);
-        }
+          if (row.id) {
+            const ts = row.lastUpdated ?? 0;
+            updatedMap[row.id] = ts;
+          }
+        });
+        setPathsList(list);
+        setPathsMap(map);
+        setPathNotes(notesMap);
+        setPathLastUpdated(updatedMap);
+        
+        // Load path audio URLs
+        const pathAudioMap = buildPathAudioMap(paths);
+        setPathAudioUrls(pathAudioMap);
       } catch (error) {
         console.error('Error loading paths:', error);
         setPathsList([]);
@@ -3629,53 +3629,14 @@ function DiagramContent() {
 
     const loadNodePaths = async () => {
       try {
-        if (DATA_SOURCE === 'notion') {
-          // Load from Notion
-          const nodePaths = await notionService.fetchNodePaths();
-          const map = notionService.buildNodePathMap(nodePaths);
-          setNodePathMap(map);
-          
-          // Load node-path audio URLs
-          const audioMap = buildNodePathAudioMap(nodePaths);
-          setNodePathAudioUrls(audioMap);
-        } else {
-          // Load from Google Sheets (legacy)
-          const response = await fetch(NODE_PATH_GVIZ_URL);
-          if (!response.ok) {
-            setNodePathMap({});
-            return;
-          }
-          const rawText = await response.text();
-          const jsonMatch = rawText.match(/google\.visualization\.Query\.setResponse\((.*)\);/s);
-          const jsonText = jsonMatch?.[1];
-          if (!jsonText) {
-            setNodePathMap({});
-            return;
-          }
-          const parsedJson = JSON.parse(jsonText);
-          const rows: any[] = parsedJson?.table?.rows || [];
-          // Columns: pathId, nodeId, content
-          const values: Array<[string | null | undefined, string | null | undefined, string | null | undefined]> = rows.map((row: any) => [row.c?.[0]?.v, row.c?.[1]?.v, row.c?.[2]?.v]);
-          const isHeaderRow = (row: Array<string | null | undefined>) => {
-            const first = (row?.[0] || '').toString().toLowerCase();
-            return first.includes('pathid') || first.includes('path');
-          };
-          const filtered = values.filter((row: Array<string | null | undefined>) => row && row.length >= 2 && row[0]);
-          const effectiveRows = filtered.length && isHeaderRow(filtered[0]) ? filtered.slice(1) : filtered;
-          
-          // Build nested map: { pathId: { nodeId: content } }
-          const map: Record<string, Record<string, string>> = {};
-          effectiveRows.forEach((row) => {
-            const pathId = (row[0] || '').toString().trim();
-            const nodeId = (row[1] || '').toString().trim();
-            const content = (row[2] || '').toString();
-            if (pathId && nodeId) {
-              if (!map[pathId]) map[pathId] = {};
-              map[pathId][nodeId] = content;
-            }
-          });
-          setNodePathMap(map);
-        }
+        // Load from the data backend
+        const nodePaths = await dataBackend.fetchNodePaths();
+        const map = buildNodePathMap(nodePaths);
+        setNodePathMap(map);
+        
+        // Load node-path audio URLs
+        const audioMap = buildNodePathAudioMap(nodePaths);
+        setNodePathAudioUrls(audioMap);
       } catch (error) {
         console.error('Error loading node paths:', error);
         setNodePathMap({});
@@ -3683,14 +3644,12 @@ function DiagramContent() {
     };
 
     const loadCategories = async () => {
-      console.log('loadCategories called, DATA_SOURCE:', DATA_SOURCE);
+      console.log('loadCategories called, backend:', dataBackend.id);
       try {
-        if (DATA_SOURCE === 'notion') {
-          console.log('Fetching categories from Notion...');
-          const categories = await notionService.fetchCategories();
-          console.log('Loaded categories:', categories);
-          setCategoriesList(categories);
-        }
+        console.log(`Fetching categories from ${dataBackend.label}...`);
+        const categories = await dataBackend.fetchCategories();
+        console.log('Loaded categories:', categories);
+        setCategoriesList(categories);
       } catch (error) {
         console.error('Error loading categories:', error);
         setCategoriesList([]);
@@ -3700,6 +3659,13 @@ function DiagramContent() {
     loadPaths();
     loadNodePaths();
     loadCategories();
+
+    // Reload when the backend syncs newer data in the background
+    return dataBackend.addChangeListener?.((entity) => {
+      if (entity === 'paths') loadPaths();
+      else if (entity === 'nodePaths') loadNodePaths();
+      else if (entity === 'categories') loadCategories();
+    });
   }, []);
 
   // Auto-save path nodes when they change (for active saved paths)
@@ -3726,29 +3692,13 @@ function DiagramContent() {
     
     updatePathNodesRef.current = setTimeout(async () => {
       try {
-        if (DATA_SOURCE === 'notion') {
-          // Save to Notion
-          await notionService.updatePathNodes(pathId, pathName, nodeIdsArray);
-        } else {
-          // Legacy: Save to Google Sheets
-          const nodeIdsStr = formatNodeIdsForSheet(nodeIds);
-          await fetch(GOOGLE_SCRIPT_URL, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              action: 'updatePathNodes',
-              pathId: forceTextForSheet(pathId),
-              pathName: forceTextForSheet(pathName),
-              nodeIds: nodeIdsStr,
-            }),
-          });
-        }
+        // Save through the data backend
+        await dataBackend.updatePathNodes(pathId, pathName, nodeIdsArray);
       } catch (error) {
         console.error('Error updating path nodes:', error);
       }
     }, 500); // 500ms debounce for backend only
-  }, [GOOGLE_SCRIPT_URL]);
+  }, []);
 
   // Keep the ref updated with the latest callback
   useEffect(() => {
@@ -3816,29 +3766,33 @@ function DiagramContent() {
     setPathName(pathName); // Populate path name input with loaded path name
     // Reset to only the new path's nodes (don't accumulate between path buttons)
     setManualHighlights(new Set(pathNodes));
-    // Apply current layout when loading a path (respects user's selected layout)
-    setNodes((nds) => {
-      // Update and layout the regular nodes (no path notes node added to diagram)
-      const updated = enforceRootHidden(nds)
-        .map((n) => {
-          const isActive = pathNodes.includes(n.id);
-          return {
-            ...n,
-            data: {
-              ...n.data,
-              isHighlighted: isActive, // Reset: only show this path's nodes
-            },
-          };
-        });
-      // Use applyLayout with current layout type to respect user's selection
-      return applyLayout(updated as FlowNode[], edges as FlowEdge[], currentLayoutType);
-    });
+    // Restore the path's saved layout if it has one, otherwise respect the user's selected layout
+    const savedLayout = pathRow.layout;
+    if (isLayoutType(savedLayout?.type) && savedLayout.type !== currentLayoutType) {
+      pathLayoutAppliedRef.current = true;
+      setCurrentLayoutType(savedLayout.type);
+    }
+    // Update and layout the regular nodes (no path notes node added to diagram)
+    const updated = enforceRootHidden(nodesRef.current)
+      .map((n) => {
+        const isActive = pathNodes.includes(n.id);
+        return {
+          ...n,
+          data: {
+            ...n.data,
+            isHighlighted: isActive, // Reset: only show this path's nodes
+          },
+        };
+      });
+    const focusIds = pathFocusLayout ? new Set(pathNodes) : null;
+    const hiddenIds = collapseSubtrees(edges, collapsedByPath[currentPathId] || []).hiddenIds;
+    transitionNodes(layoutForPath(updated as FlowNode[], edges as FlowEdge[], layoutScope(focusIds, hiddenIds), savedLayout, currentLayoutType));
     setTimeout(() => {
       fitView({ 
         duration: 500,
         padding: 0.2,
       });
-    }, 100);
+    }, LAYOUT_ANIMATION_MS);
     // Reset all edges: only highlight this path's edges
     setEdges((eds: Edge[]) =>
       eds.map((e: Edge) => {
@@ -3855,71 +3809,386 @@ function DiagramContent() {
     );
   };
 
-  const createNewPath = useCallback(() => {
-    const timestamp = new Date();
-    const tempName = `New Path ${timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
-    const newId = generatePathId('new-path');
-    const updatedAt = new Date().toISOString();
-
-    // Optimistic UI update - add to list immediately
-    setPathsList(prev => [...prev, {
-      id: newId,
-      name: tempName,
-      nodeIds: [],
-      status: 'active',
-      dateUpdated: updatedAt,
-      category: undefined,
-    }]);
-    setPathsMap(prev => ({
-      ...prev,
-      [tempName]: [],
-    }));
-    setPathLastUpdated(prev => ({
-      ...prev,
-      [newId]: Date.now(),
-    }));
+  // Jump to a full-text search hit: the node's page, the path's notes, or a node's note on its path
+  const openSearchHit = (hit: SearchHit) => {
+    const { kind, nodeId, pathId } = hit.document;
+    const pathRow = pathId ? pathsList.find(p => p.id === pathId) : undefined;
+    if (kind === 'path' && pathRow) {
+      showPath(pathRow.name);
+      setPathNotesFocusMode(true);
+    } else if (kind === 'nodeNote' && pathRow && nodeId) {
+      showPath(pathRow.name);
+      // Wait for the path's nodes to be laid out before opening the note
+      setTimeout(() => handleInfoClick(nodeId), 150);
+    } else if (nodeId) {
+      fitView({ nodes: [{ id: nodeId }], duration: 500, maxZoom: 1.5 });
+      handleInfoClick(nodeId);
+    }
+    setSearchQuery('');
+    setShowSearchDropdown(false);
+  };
+
+  const createNewPath = useCallback(() => {
+    const timestamp = new Date();
+    const tempName = `New Path ${timestamp.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`;
+    const newId = generatePathId('new-path');
+    const updatedAt = new Date().toISOString();
+
+    // Optimistic UI update - add to list immediately
+    setPathsList(prev => [...prev, {
+      id: newId,
+      name: tempName,
+      nodeIds: [],
+      status: 'active',
+      dateUpdated: updatedAt,
+      category: undefined,
+    }]);
+    setPathsMap(prev => ({
+      ...prev,
+      [tempName]: [],
+    }));
+    setPathLastUpdated(prev => ({
+      ...prev,
+      [newId]: Date.now(),
+    }));
+
+    setManualHighlights(new Set());
+    setSidebarNodeContent({});
+
+    // Show path immediately
+    showPath(tempName);
+    
+    // Trigger auto-edit mode for the new path
+    setAutoEditPathId(newId);
+
+    // Save to backend in background
+    (async () => {
+      try {
+        await dataBackend.savePath({
+          id: newId,
+          name: tempName,
+          nodeIds: [],
+          dateUpdated: updatedAt,
+          category: undefined,
+        });
+      } catch (error) {
+        console.error('Error saving new path to backend:', error);
+      }
+    })();
+  }, [showPath]);
+
+  // Start a new path from an existing one: a duplicate, or a fresh run of a template
+  // Add newly copied paths to the loaded state
+  const addPathCopies = useCallback((copies: PathCopy[]) => {
+    setPathsList(prev => [...prev, ...copies.map(({ path }) => ({
+      id: path.id,
+      name: path.name,
+      nodeIds: path.nodeIds,
+      category: path.category,
+      subcategory: path.subcategory,
+      subsubcategory: path.subsubcategory,
+      notes: path.notes,
+      status: path.status,
+      dateUpdated: path.dateUpdated,
+      layout: path.layout,
+    }))]);
+    setPathsMap(prev => ({ ...prev, ...Object.fromEntries(copies.map(({ path }) => [path.name, path.nodeIds])) }));
+    setPathNotes(prev => ({ ...prev, ...Object.fromEntries(copies.map(({ path }) => [path.id, path.notes || ''])) }));
+    setNodePathMap(prev => ({
+      ...prev,
+      ...Object.fromEntries(copies.map(({ path, nodePaths }) => [
+        path.id,
+        Object.fromEntries(nodePaths.map(np => [np.nodeId, np.content])),
+      ])),
+    }));
+    setPathLastUpdated(prev => ({ ...prev, ...Object.fromEntries(copies.map(({ path }) => [path.id, Date.now()])) }));
+  }, []);
+
+  const handleCopyPath = useCallback(async (sourcePathId: string, fromTemplate: boolean) => {
+    const source = pathsList.find(p => p.id === sourcePathId);
+    if (!source) return;
+    setTemplateMenuOpen(false);
+    
+    const sourceNotes = nodePathMap[sourcePathId] || {};
+    const noteCount = source.nodeIds.filter(id => sourceNotes[id]?.trim()).length;
+    const suggested = fromTemplate
+      ? `${source.name} ${new Date().toLocaleDateString()}`
+      : copyPathName(source.name, pathsList.map(p => p.name));
+    const name = window.prompt(fromTemplate ? 'Name for the new path' : 'Name for the copy', suggested)?.trim();
+    if (!name) return;
+    if (pathsList.some(p => p.name.toLowerCase() === name.toLowerCase())) {
+      alert(`A path named "${name}" already exists.`);
+      return;
+    }
+    // Templates bring their node notes along; for a duplicate it's the user's call
+    const includeNodeNotes = noteCount > 0
+      && (fromTemplate || window.confirm(`Also copy the ${noteCount} node ${noteCount === 1 ? 'note' : 'notes'}?`));
+    
+    const copy = buildPathCopy(source, sourceNotes, {
+      id: generatePathId(name),
+      name,
+      includeNodeNotes,
+    });
+    const { path, nodePaths } = copy;
+    
+    // Optimistic UI update - add to list immediately
+    addPathCopies([copy]);
+    setPathToShow(path.name);
+    
+    try {
+      await dataBackend.savePath(path);
+      if (nodePaths.length > 0) {
+        await dataBackend.batchSaveNodePaths(nodePaths);
+      }
+    } catch (error) {
+      console.error('Error saving path copy:', error);
+      alert('Could not save the new path. Please try again.');
+    }
+  }, [pathsList, nodePathMap, addPathCopies]);
+  
+  // Mark a path as a template (or stop offering it)
+  const handleTogglePathTemplate = useCallback(async (pathId: string) => {
+    const current = pathsList.find(p => p.id === pathId);
+    if (!current) return;
+    const template = !current.template;
+    
+    setPathsList(prev => prev.map(p => p.id === pathId ? { ...p, template: template || undefined } : p));
+    try {
+      await dataBackend.updatePathTemplate(pathId, template);
+    } catch (error) {
+      console.error('Error updating path template flag:', error);
+      setPathsList(prev => prev.map(p => p.id === pathId ? { ...p, template: current.template } : p));
+    }
+  }, [pathsList]);
+  
+  // Show a just-created path once the list state includes it
+  useEffect(() => {
+    if (pathToShow && pathsList.some(p => p.name === pathToShow)) {
+      setPathToShow(null);
+      showPath(pathToShow);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [pathToShow, pathsList]);
+
+  // Folders for the bulk "Move to" menu, in tree order
+  const bulkFolderOptions = useMemo(() => {
+    const options: Array<{ id: string; label: string }> = [];
+    const visit = (folders: FolderTreeNode[], depth: number) => folders.forEach(folder => {
+      options.push({ id: folder.id, label: `${'\u00a0\u00a0'.repeat(depth)}${folder.name}` });
+      visit(folder.children, depth + 1);
+    });
+    visit(folderTree, 0);
+    return options;
+  }, [folderTree]);
+
+  const selectedPaths = useMemo(
+    () => pathsList.filter(p => selectedPathIds.has(p.id)),
+    [pathsList, selectedPathIds]
+  );
+
+  // Ctrl/⌘- or Shift-click in the folder views
+  const handleTogglePathSelected = useCallback((pathId: string) => {
+    setSelectedPathIds(prev => {
+      const next = new Set(prev);
+      if (next.has(pathId)) next.delete(pathId);
+      else next.add(pathId);
+      return next;
+    });
+    setLastClickedPathId(pathId);
+  }, []);
+
+  // Ctrl/⌘-click toggles a path's selection; Shift-click adds the range from the last clicked path
+  const selectPathOnModifierClick = (e: React.MouseEvent, pathId: string, ordered: Array<{ id: string }>): boolean => {
+    if (e.shiftKey && lastClickedPathId) {
+      const currentIndex = ordered.findIndex(p => p.id === pathId);
+      const lastIndex = ordered.findIndex(p => p.id === lastClickedPathId);
+      if (currentIndex >= 0 && lastIndex >= 0) {
+        const [start, end] = [Math.min(currentIndex, lastIndex), Math.max(currentIndex, lastIndex)];
+        setSelectedPathIds(prev => new Set([...prev, ...ordered.slice(start, end + 1).map(p => p.id)]));
+        setLastClickedPathId(pathId);
+        return true;
+      }
+    }
+    if (e.ctrlKey || e.metaKey || e.shiftKey) {
+      handleTogglePathSelected(pathId);
+      return true;
+    }
+    return false;
+  };
+
+  /**
+   * Run one backend change for each of `targets`, a few at a time.
+   * A task that writes other records than the path itself returns their ids.
+   * Only paths whose change went through are updated locally; failed ones stay selected.
+   */
+  const runPathBulkAction = useCallback(async (
+    action: string,
+    targets: PathRow[],
+    task: (path: PathRow) => Promise<string[] | void>,
+    onSucceeded: (paths: PathRow[]) => void
+  ) => {
+    if (targets.length === 0) return;
+    setBulkRunning(action);
+    setBulkReport(null);
+    const byId = new Map(targets.map(p => [p.id, p]));
+    const writtenFor = new Map<string, string>(); // id of a record written -> path it was written for
+    const startedAt = Date.now();
+    const result = await runBulk(targets.map(p => p.id), async id => {
+      const written = await task(byId.get(id)!);
+      (written || [id]).forEach(recordId => writtenFor.set(recordId, id));
+    });
+    onSucceeded(result.succeeded.map(id => byId.get(id)!));
+
+    // A local-first backend has only queued the writes; wait for them to reach Notion
+    let failed = result.failed;
+    let queued: string[] = [];
+    if (dataBackend.outbox && result.succeeded.length > 0) {
+      setBulkRunning(`${action}: syncing`);
+      const outcome = await awaitQueuedWrites(dataBackend.outbox, Array.from(writtenFor.keys()), startedAt);
+      // Report each path once, by the first of its records that failed
+      const remoteFailed = new Map<string, BulkFailure>();
+      outcome.failed.forEach(f => {
+        const pathId = writtenFor.get(f.id)!;
+        if (!remoteFailed.has(pathId)) remoteFailed.set(pathId, { id: pathId, error: f.error });
+      });
+      failed = [...failed, ...remoteFailed.values()];
+      queued = Array.from(new Set(outcome.queued.map(id => writtenFor.get(id)!)))
+        .filter(id => !remoteFailed.has(id));
+    }
+    const failedIds = new Set(failed.map(f => f.id));
+
+    setBulkReport({
+      action,
+      total: targets.length,
+      succeeded: targets.filter(p => !failedIds.has(p.id) && !queued.includes(p.id)).length,
+      queued: queued.length,
+      failures: failed.map(f => ({ name: byId.get(f.id)!.name, error: f.error })),
+    });
+    setSelectedPathIds(failedIds);
+    setBulkRunning(null);
+  }, []);
+
+  const patchPathRows = (paths: PathRow[], patch: Partial<PathRow>) => {
+    const ids = new Set(paths.map(p => p.id));
+    setPathsList(prev => prev.map(p => ids.has(p.id) ? { ...p, ...patch } : p));
+  };
+
+  const handleBulkArchive = (archived: boolean) => {
+    const status = archived ? 'archived' : '';
+    void runPathBulkAction(
+      archived ? 'Archive' : 'Unarchive',
+      selectedPaths.filter(p => (p.status === 'archived') !== archived),
+      path => dataBackend.updatePathStatus(path.id, status),
+      done => patchPathRows(done, { status })
+    );
+  };
+
+  const handleBulkPriority = () => {
+    const input = window.prompt(`Priority for ${selectedPaths.length} paths (0–100)`, '50');
+    if (input === null) return;
+    const priority = Number(input.trim());
+    if (!input.trim() || !Number.isInteger(priority) || priority < 0 || priority > 100) {
+      alert('Priority must be a whole number from 0 to 100.');
+      return;
+    }
+    void runPathBulkAction(
+      'Set priority',
+      selectedPaths,
+      path => dataBackend.updatePathPriority(path.id, priority),
+      done => patchPathRows(done, { priority })
+    );
+  };
+
+  const handleBulkFav = () => {
+    const fav = !selectedPaths.every(p => favouritePathIds.has(p.id));
+    void runPathBulkAction(
+      fav ? 'Favourite' : 'Unfavourite',
+      selectedPaths,
+      path => dataBackend.updatePathFav(path.id, fav),
+      done => updateFavouriteIds(done.map(p => p.id), fav)
+    );
+  };
 
-    setManualHighlights(new Set());
-    setSidebarNodeContent({});
+  const handleBulkStatus = () => {
+    const input = window.prompt(`Status for ${selectedPaths.length} paths (leave empty to clear)`, selectedPaths[0]?.status || '');
+    if (input === null) return;
+    const status = input.trim();
+    void runPathBulkAction(
+      'Set status',
+      selectedPaths,
+      path => dataBackend.updatePathStatus(path.id, status),
+      done => patchPathRows(done, { status })
+    );
+  };
 
-    // Show path immediately
-    showPath(tempName);
-    
-    // Trigger auto-edit mode for the new path
-    setAutoEditPathId(newId);
+  const handleBulkMove = (folderId: string) => {
+    void runPathBulkAction(
+      'Move',
+      selectedPaths,
+      path => dataBackend.updatePathCategory(path.id, folderId, '', ''),
+      done => patchPathRows(done, { category: folderId || undefined, subcategory: undefined, subsubcategory: undefined })
+    );
+  };
 
-    // Save to backend in background
-    (async () => {
-      try {
-        if (DATA_SOURCE === 'notion') {
-          await notionService.savePath({
-            id: newId,
-            name: tempName,
-            nodeIds: [],
-            dateUpdated: updatedAt,
-            category: undefined,
-          });
-        } else {
-          await fetch(GOOGLE_SCRIPT_URL, {
-            method: 'POST',
-            mode: 'no-cors',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify({
-              action: 'savePath',
-              pathId: forceTextForSheet(newId),
-              pathName: forceTextForSheet(tempName),
-              nodeIds: '',
-              category: '',
-              subcategory: '',
-              subsubcategory: '',
-            }),
-          });
+  const handleBulkDuplicate = () => {
+    const withNotes = selectedPaths.filter(p => Object.values(nodePathMap[p.id] || {}).some(note => note?.trim())).length;
+    const includeNodeNotes = withNotes > 0
+      && window.confirm(`Also copy node notes? ${withNotes} of the ${selectedPaths.length} paths have some.`);
+    const names = pathsList.map(p => p.name);
+    const copies = new Map<string, PathCopy>();
+    selectedPaths.forEach(source => {
+      const name = copyPathName(source.name, names);
+      names.push(name);
+      copies.set(source.id, buildPathCopy(source, nodePathMap[source.id] || {}, {
+        id: generatePathId(name),
+        name,
+        includeNodeNotes,
+      }));
+    });
+    void runPathBulkAction(
+      'Duplicate',
+      selectedPaths,
+      async source => {
+        const { path, nodePaths } = copies.get(source.id)!;
+        await dataBackend.savePath(path);
+        if (nodePaths.length > 0) {
+          await dataBackend.batchSaveNodePaths(nodePaths);
         }
-      } catch (error) {
-        console.error('Error saving new path to backend:', error);
-      }
-    })();
-  }, [showPath]);
+        // The copy's records, not the source path, are what gets synced
+        return [path.id, ...nodePaths.map(np => np.id)];
+      },
+      done => addPathCopies(done.map(p => copies.get(p.id)!))
+    );
+  };
+
+  // All selected paths as one Markdown file
+  const handleBulkExport = () => {
+    const markdown = selectedPaths
+      .map(path => renderMarkdown(buildDocumentForPath(path)))
+      .join('\n\n---\n\n');
+    const url = URL.createObjectURL(new Blob([markdown], { type: 'text/markdown' }));
+    const link = window.document.createElement('a');
+    link.href = url;
+    link.download = `paths-${new Date().toISOString().slice(0, 10)}.md`;
+    link.click();
+    // Revoking right away can cancel the download in some browsers
+    setTimeout(() => URL.revokeObjectURL(url), 1000);
+  };
+
+  const handleBulkDelete = () => {
+    if (!window.confirm(`Delete ${selectedPaths.length} paths? They will be moved to the trash.`)) return;
+    void runPathBulkAction(
+      'Delete',
+      selectedPaths,
+      async path => {
+        await Promise.all([
+          dataBackend.deletePath(path.id),
+          dataBackend.deleteNodePathsForPath(path.id),
+        ]);
+      },
+      done => done.forEach(forgetDeletedPath)
+    );
+  };
 
   const resetView = () => {
     setActivePath(null);
@@ -3930,17 +4199,25 @@ function DiagramContent() {
     
     // Reset to default layout
     setCurrentLayoutType('centered');
+    // A focused, pinned or collapsed view leaves positions the layout effect won't redo if the type is unchanged
+    const overviewHidden = collapseSubtrees(edges, collapsedByPath[''] || []).hiddenIds;
+    const leavingPathLayout = currentLayoutType === 'centered'
+      && (!!focusedPathNodeIds || !!pathsList.find(p => p.name === activePath)?.layout
+        || collapse.hiddenIds.size > 0 || overviewHidden.size > 0);
     
-    setNodes((nds) =>
-      enforceRootHidden(nds)
+    setNodes((nds) => {
+      const updated = enforceRootHidden(nds)
         .map((n) => ({
           ...n,
           data: {
             ...n.data,
             isHighlighted: false,
           },
-        }))
-    );
+        }));
+      return leavingPathLayout
+        ? layoutForPath(updated as FlowNode[], edges as FlowEdge[], layoutScope(null, overviewHidden), undefined, 'centered')
+        : updated;
+    });
 
     // Reset edge styles
     setEdges((eds: Edge[]) =>
@@ -3967,7 +4244,15 @@ function DiagramContent() {
   // Close popup when clicking on empty background
   const onPaneClick = useCallback(() => {
     setSelectedNode(null);
+    setNodeMenu(null);
   }, []);
+
+  // Right-click a node while editing the graph to open its edit menu
+  const onNodeContextMenu = useCallback((e: React.MouseEvent, node: Node) => {
+    if (!graphEditMode || node.id.startsWith('personalized-')) return;
+    e.preventDefault();
+    setNodeMenu({ nodeId: node.id, x: e.clientX, y: e.clientY });
+  }, [graphEditMode]);
   
   // Get current theme based on dark mode
   const theme = getTheme(darkMode);
@@ -3975,20 +4260,67 @@ function DiagramContent() {
   return (
     <div ref={flowRef} style={{ width: '100vw', height: '100vh', background: theme.canvasBg, transition: 'background 0.3s ease' }}>
       <ReactFlow
-        nodes={nodes}
-        edges={hideConnectors ? [] : edges}
+        nodes={displayNodes}
+        edges={hideConnectors ? [] : displayEdges}
         nodeTypes={nodeTypes}
         onNodesChange={onNodesChange}
         onEdgesChange={onEdgesChange}
         onNodeClick={onNodeClick}
         onPaneClick={onPaneClick}
+        onNodeContextMenu={onNodeContextMenu}
+        onConnect={handleConnect}
+        onEdgesDelete={handleEdgesDelete}
+        onBeforeDelete={async ({ edges: edgesToDelete }) => (
+          // While editing, nodes are only deleted through the menu (which asks first)
+          graphEditMode ? { nodes: [], edges: edgesToDelete } : true
+        )}
+        nodesConnectable={graphEditMode}
+        deleteKeyCode={graphEditMode ? ['Backspace', 'Delete'] : 'Backspace'}
         nodesDraggable={true}
         fitView
         snapToGrid={false}
       >
         <Controls />
         {/* Node grouping overlay - draws rectangles around grouped nodes */}
-        {!hideGroups && <NodeGroupingOverlay nodes={nodes} diagramTheme={currentDiagramTheme} darkMode={darkMode} />}
+        {!hideGroups && <NodeGroupingOverlay nodes={displayNodes} diagramTheme={currentDiagramTheme} darkMode={darkMode} />}
+        {/* Summary of what the path focus layout leaves out */}
+        {focusedPathNodeIds && (
+          <Panel position="bottom-center">
+            <div style={{
+              display: 'flex',
+              alignItems: 'center',
+              gap: '10px',
+              padding: '6px 12px',
+              fontSize: '11px',
+              color: theme.textSecondary,
+              background: theme.panelBg,
+              border: `1px solid ${theme.panelBorder}`,
+              borderRadius: '10px',
+              boxShadow: theme.panelShadow,
+              backdropFilter: 'blur(12px)',
+            }}>
+              <span>
+                Showing {displayNodes.length} path {displayNodes.length === 1 ? 'node' : 'nodes'}
+                {' · '}
+                {nodes.length - displayNodes.length} other {nodes.length - displayNodes.length === 1 ? 'node' : 'nodes'} hidden
+              </span>
+              <button
+                onClick={togglePathFocusLayout}
+                style={{
+                  background: 'none',
+                  border: 'none',
+                  padding: 0,
+                  cursor: 'pointer',
+                  color: theme.highlightColor,
+                  fontSize: '11px',
+                  fontWeight: 500,
+                }}
+              >
+                Show full context
+              </button>
+            </div>
+          </Panel>
+        )}
         {/* <Background color="#222" gap={16} /> */}
 
         {/* Left sidebar - draggable and resizable */}
@@ -4152,6 +4484,81 @@ function DiagramContent() {
               >
                 <span style={{ fontSize: '14px', lineHeight: 1 }}>+</span>
               </button>
+              {/* New from template */}
+              {pathsList.some(p => p.template) && (
+                <div style={{ position: 'relative' }}>
+                  <button
+                    onClick={() => setTemplateMenuOpen(open => !open)}
+                    style={{
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      padding: '6px 8px',
+                      fontSize: '11px',
+                      fontWeight: '500',
+                      background: darkMode 
+                        ? 'linear-gradient(135deg, rgba(71, 85, 105, 0.6) 0%, rgba(51, 65, 85, 0.8) 100%)'
+                        : 'linear-gradient(135deg, #f1f5f9 0%, #e2e8f0 100%)',
+                      color: darkMode ? '#94a3b8' : '#64748b',
+                      border: darkMode ? '1px solid rgba(71, 85, 105, 0.4)' : '1px solid #cbd5e1',
+                      borderRadius: '8px',
+                      cursor: 'pointer',
+                      boxShadow: darkMode ? '0 1px 2px rgba(0,0,0,0.2)' : '0 1px 2px rgba(0,0,0,0.05)',
+                      transition: 'all 0.15s ease',
+                      minWidth: '28px',
+                      height: '28px',
+                    }}
+                    title="New from template"
+                  >
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                      <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z" />
+                      <path d="M14 2v6h6" />
+                      <path d="M12 12v6M9 15h6" />
+                    </svg>
+                  </button>
+                  {templateMenuOpen && (
+                    <div style={{
+                      position: 'absolute',
+                      top: 'calc(100% + 4px)',
+                      left: 0,
+                      zIndex: 20,
+                      display: 'flex',
+                      flexDirection: 'column',
+                      minWidth: '180px',
+                      maxHeight: '280px',
+                      overflowY: 'auto',
+                      padding: '4px',
+                      background: darkMode ? '#1e293b' : '#ffffff',
+                      border: darkMode ? '1px solid rgba(71, 85, 105, 0.4)' : '1px solid #e2e8f0',
+                      borderRadius: '8px',
+                      boxShadow: '0 8px 24px rgba(15,23,42,0.12)',
+                    }}>
+                      <div style={{ padding: '4px 10px', fontSize: '10px', fontWeight: 600, color: '#94a3b8', textTransform: 'uppercase', letterSpacing: '0.5px' }}>
+                        New from template
+                      </div>
+                      {pathsList.filter(p => p.template).map(p => (
+                        <button
+                          key={p.id}
+                          onClick={() => handleCopyPath(p.id, true)}
+                          style={{
+                            background: 'transparent',
+                            border: 'none',
+                            borderRadius: '6px',
+                            padding: '6px 10px',
+                            cursor: 'pointer',
+                            color: darkMode ? '#e2e8f0' : '#334155',
+                            fontSize: '11px',
+                            textAlign: 'left',
+                          }}
+                        >
+                          {p.name}
+                          <span style={{ color: '#94a3b8', marginLeft: '6px' }}>{p.nodeIds.length}</span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )}
               {/* Layout cycle button */}
               <button
                 onClick={cycleLayout}
@@ -4199,9 +4606,158 @@ function DiagramContent() {
                   <rect x="14" y="14" width="7" height="7" rx="1" />
                 </svg>
               </button>
+              {/* Path focus layout toggle */}
+              {activePath && (
+                <button
+                  onClick={togglePathFocusLayout}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    padding: '6px 8px',
+                    fontSize: '11px',
+                    fontWeight: '500',
+                    background: pathFocusLayout
+                      ? 'linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)'
+                      : (darkMode 
+                          ? 'linear-gradient(135deg, rgba(71, 85, 105, 0.6) 0%, rgba(51, 65, 85, 0.8) 100%)'
+                          : 'linear-gradient(135deg, #f1f5f9 0%, #e2e8f0 100%)'),
+                    color: pathFocusLayout ? 'white' : (darkMode ? '#94a3b8' : '#64748b'),
+                    border: pathFocusLayout ? '1px solid #2563eb' : (darkMode ? '1px solid rgba(71, 85, 105, 0.4)' : '1px solid #cbd5e1'),
+                    borderRadius: '8px',
+                    cursor: 'pointer',
+                    boxShadow: darkMode ? '0 1px 2px rgba(0,0,0,0.2)' : '0 1px 2px rgba(0,0,0,0.05)',
+                    transition: 'all 0.15s ease',
+                    minWidth: '28px',
+                    height: '28px',
+                  }}
+                  title={pathFocusLayout
+                    ? 'Show the full graph around this path'
+                    : 'Lay out only this path\'s nodes'}
+                >
+                  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                    <circle cx="12" cy="12" r="3" />
+                    <path d="M3 7V5a2 2 0 0 1 2-2h2" />
+                    <path d="M17 3h2a2 2 0 0 1 2 2v2" />
+                    <path d="M21 17v2a2 2 0 0 1-2 2h-2" />
+                    <path d="M7 21H5a2 2 0 0 1-2-2v-2" />
+                  </svg>
+                </button>
+              )}
+              {/* Diagram export button */}
+              <button
+                onClick={() => setShowDiagramExport(true)}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  padding: '6px 8px',
+                  fontSize: '11px',
+                  fontWeight: '500',
+                  background: darkMode 
+                    ? 'linear-gradient(135deg, rgba(71, 85, 105, 0.6) 0%, rgba(51, 65, 85, 0.8) 100%)'
+                    : 'linear-gradient(135deg, #f1f5f9 0%, #e2e8f0 100%)',
+                  color: darkMode ? '#94a3b8' : '#64748b',
+                  border: darkMode ? '1px solid rgba(71, 85, 105, 0.4)' : '1px solid #cbd5e1',
+                  borderRadius: '8px',
+                  cursor: 'pointer',
+                  boxShadow: darkMode ? '0 1px 2px rgba(0,0,0,0.2)' : '0 1px 2px rgba(0,0,0,0.05)',
+                  transition: 'all 0.15s ease',
+                  minWidth: '28px',
+                  height: '28px',
+                }}
+                title="Export diagram as SVG or PNG"
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <rect x="3" y="3" width="18" height="18" rx="2" />
+                  <circle cx="8.5" cy="8.5" r="1.5" />
+                  <path d="m21 15-5-5L5 21" />
+                </svg>
+              </button>
+              {/* Graph edit mode toggle */}
+              <button
+                onClick={() => setGraphEditMode(prev => !prev)}
+                style={{
+                  display: 'flex',
+                  alignItems: 'center',
+                  justifyContent: 'center',
+                  padding: '6px 8px',
+                  fontSize: '11px',
+                  fontWeight: '500',
+                  background: graphEditMode
+                    ? 'linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)'
+                    : (darkMode 
+                        ? 'linear-gradient(135deg, rgba(71, 85, 105, 0.6) 0%, rgba(51, 65, 85, 0.8) 100%)'
+                        : 'linear-gradient(135deg, #f1f5f9 0%, #e2e8f0 100%)'),
+                  color: graphEditMode ? 'white' : (darkMode ? '#94a3b8' : '#64748b'),
+                  border: graphEditMode ? '1px solid #2563eb' : (darkMode ? '1px solid rgba(71, 85, 105, 0.4)' : '1px solid #cbd5e1'),
+                  borderRadius: '8px',
+                  cursor: 'pointer',
+                  boxShadow: darkMode ? '0 1px 2px rgba(0,0,0,0.2)' : '0 1px 2px rgba(0,0,0,0.05)',
+                  transition: 'all 0.15s ease',
+                  minWidth: '28px',
+                  height: '28px',
+                }}
+                title={graphEditMode
+                  ? 'Stop editing the graph'
+                  : 'Edit the graph: drag between node handles to link, right-click a node for more'}
+              >
+                <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round">
+                  <path d="M12 20h9" />
+                  <path d="M16.5 3.5a2.1 2.1 0 0 1 3 3L7 19l-4 1 1-4Z" />
+                </svg>
+              </button>
+              {graphEditMode && (
+                <button
+                  onClick={() => handleCreateNode()}
+                  style={{
+                    display: 'flex',
+                    alignItems: 'center',
+                    justifyContent: 'center',
+                    padding: '6px 8px',
+                    fontSize: '11px',
+                    fontWeight: '500',
+                    background: darkMode 
+                      ? 'linear-gradient(135deg, rgba(71, 85, 105, 0.6) 0%, rgba(51, 65, 85, 0.8) 100%)'
+                      : 'linear-gradient(135deg, #f1f5f9 0%, #e2e8f0 100%)',
+                    color: darkMode ? '#94a3b8' : '#64748b',
+                    border: darkMode ? '1px solid rgba(71, 85, 105, 0.4)' : '1px solid #cbd5e1',
+                    borderRadius: '8px',
+                    cursor: 'pointer',
+                    boxShadow: darkMode ? '0 1px 2px rgba(0,0,0,0.2)' : '0 1px 2px rgba(0,0,0,0.05)',
+                    transition: 'all 0.15s ease',
+                    minWidth: '28px',
+                    height: '28px',
+                  }}
+                  title="Add a node"
+                >
+                  <span style={{ fontSize: '14px', lineHeight: 1 }}>+</span>
+                </button>
+              )}
             </div>
           </div>
 
+          {!dataLoading && !dataError && (integrityIssues?.length ?? 0) > 0 && (
+            <button
+              onClick={() => setShowIntegrityReport(true)}
+              style={{
+                display: 'block',
+                width: '100%',
+                marginBottom: '10px',
+                padding: '8px',
+                borderRadius: '8px',
+                fontSize: '11px',
+                textAlign: 'left',
+                border: 'none',
+                cursor: 'pointer',
+                background: darkMode ? 'rgba(120, 53, 15, 0.3)' : '#fffbeb',
+                color: darkMode ? '#fcd34d' : '#b45309',
+              }}
+            >
+              ⚠ {integrityIssues!.length} data {integrityIssues!.length === 1 ? 'problem' : 'problems'} found · Review
+            </button>
+          )}
+
           {(dataLoading || dataError) && (
             <div
               style={{
@@ -4258,7 +4814,7 @@ function DiagramContent() {
                 onFocus={() => setShowSearchDropdown(true)}
                 onBlur={() => setTimeout(() => setShowSearchDropdown(false), 200)}
                 onKeyDown={(e) => {
-                  const totalResults = searchResults.paths.length + searchResults.nodes.length + searchResults.folders.length;
+                  const totalResults = searchResults.paths.length + searchResults.nodes.length + searchResults.folders.length + searchResults.content.length;
                   if (e.key === 'ArrowDown') {
                     e.preventDefault();
                     setSearchFocusIndex(prev => Math.min(prev + 1, totalResults - 1));
@@ -4282,13 +4838,17 @@ function DiagramContent() {
                       setViewMode('alpha');
                       setSearchQuery('');
                       setShowSearchDropdown(false);
-                    } else {
+                    } else if (idx < searchResults.paths.length + searchResults.nodes.length + searchResults.folders.length) {
                       // Select folder - expand folder and all its parents
                       const folderIdx = idx - searchResults.paths.length - searchResults.nodes.length;
                       const folder = searchResults.folders[folderIdx];
                       expandFolderWithParents(folder.notionPageId || folder.id);
                       setSearchQuery('');
                       setShowSearchDropdown(false);
+                    } else {
+                      // Select content match - jump to the node, path or note
+                      const contentIdx = idx - searchResults.paths.length - searchResults.nodes.length - searchResults.folders.length;
+                      openSearchHit(searchResults.content[contentIdx]);
                     }
                   } else if (e.key === 'Escape') {
                     setShowSearchDropdown(false);
@@ -4326,7 +4886,7 @@ function DiagramContent() {
             </div>
 
             {/* Search Dropdown */}
-            {showSearchDropdown && searchQuery.trim() && (searchResults.paths.length > 0 || searchResults.nodes.length > 0 || searchResults.folders.length > 0) && (
+            {showSearchDropdown && searchQuery.trim() && (searchResults.paths.length > 0 || searchResults.nodes.length > 0 || searchResults.folders.length > 0 || searchResults.content.length > 0) && (
               <div style={{
                 position: 'absolute',
                 top: '100%',
@@ -4447,6 +5007,47 @@ function DiagramContent() {
                     })}
                   </div>
                 )}
+
+                {/* Content section */}
+                {searchResults.content.length > 0 && (
+                  <div>
+                    <div style={{ padding: '8px 12px', fontSize: '9px', fontWeight: '600', color: '#94a3b8', textTransform: 'uppercase', letterSpacing: '0.5px', borderBottom: '1px solid #f1f5f9' }}>
+                      Content
+                    </div>
+                    {searchResults.content.map((hit, idx) => {
+                      const globalIdx = searchResults.paths.length + searchResults.nodes.length + searchResults.folders.length + idx;
+                      return (
+                        <div
+                          key={hit.document.id}
+                          onClick={() => openSearchHit(hit)}
+                          style={{
+                            padding: '8px 12px',
+                            fontSize: '11px',
+                            cursor: 'pointer',
+                            background: searchFocusIndex === globalIdx ? 'linear-gradient(135deg, #eff6ff 0%, #dbeafe 100%)' : 'transparent',
+                            color: searchFocusIndex === globalIdx ? '#1d4ed8' : '#334155',
+                            borderBottom: '1px solid #f8fafc',
+                          }}
+                          onMouseEnter={() => setSearchFocusIndex(globalIdx)}
+                        >
+                          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+                            <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{hit.document.title}</span>
+                            <span style={{ fontSize: '9px', color: '#94a3b8', flexShrink: 0 }}>
+                              {SEARCH_KIND_LABELS[hit.document.kind]}
+                            </span>
+                          </div>
+                          <div style={{ fontSize: '10px', color: '#64748b', marginTop: '2px', lineHeight: 1.4 }}>
+                            {hit.snippet.map((part, partIdx) => part.match ? (
+                              <mark key={partIdx} style={{ background: '#fef08a', color: '#713f12', padding: 0, borderRadius: '2px' }}>{part.text}</mark>
+                            ) : (
+                              <span key={partIdx}>{part.text}</span>
+                            ))}
+                          </div>
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -4631,6 +5232,28 @@ function DiagramContent() {
 
           {/* Scrollable content based on view mode */}
           <div style={{ flex: 1, display: 'flex', flexDirection: 'column', minHeight: 0 }}>
+            {/* Bulk actions for the selected paths */}
+            {!sidebarFocusMode && (selectedPathIds.size > 0 || bulkReport) && (
+              <PathBulkActionBar
+                count={selectedPaths.length}
+                folders={bulkFolderOptions}
+                anyArchived={selectedPaths.some(p => p.status === 'archived')}
+                anyActive={selectedPaths.some(p => p.status !== 'archived')}
+                allFav={selectedPaths.length > 0 && selectedPaths.every(p => favouritePathIds.has(p.id))}
+                running={bulkRunning}
+                report={bulkReport}
+                onArchive={handleBulkArchive}
+                onSetPriority={handleBulkPriority}
+                onToggleFav={handleBulkFav}
+                onSetStatus={handleBulkStatus}
+                onMoveToFolder={handleBulkMove}
+                onDuplicate={handleBulkDuplicate}
+                onExport={handleBulkExport}
+                onDelete={handleBulkDelete}
+                onClear={() => setSelectedPathIds(new Set())}
+                onDismissReport={() => setBulkReport(null)}
+              />
+            )}
             {/* Main scrollable area */}
             <div style={{ flex: 1, overflowY: 'auto', minHeight: 0, paddingRight: '4px' }}>
             {viewMode === 'folder' ? (
@@ -4665,14 +5288,19 @@ function DiagramContent() {
                 hideUnassigned={true}
                 autoEditPathId={autoEditPathId}
                 onAutoEditComplete={() => setAutoEditPathId(null)}
+                selectedPathIds={selectedPathIds}
+                onTogglePathSelected={handleTogglePathSelected}
               />
             ) : (
               /* Plain list view for A-Z, Latest, and Priority modes */
               <div style={{ display: 'flex', flexDirection: 'column', gap: '2px' }}>
-                {(viewMode === 'alpha' ? alphaSortedPaths : viewMode === 'priority' ? prioritySortedPaths : latestSortedPaths).map((path) => (
+                {(viewMode === 'alpha' ? alphaSortedPaths : viewMode === 'priority' ? prioritySortedPaths : latestSortedPaths).map((path, _index, list) => (
                   <div
                     key={path.id}
-                    onClick={() => showPath(path.name)}
+                    onClick={(e) => {
+                      if (selectPathOnModifierClick(e, path.id, list)) return;
+                      showPath(path.name);
+                    }}
                     onDoubleClick={() => {
                       if (activePath !== path.name) {
                         showPath(path.name);
@@ -4690,7 +5318,9 @@ function DiagramContent() {
                       padding: '8px 10px',
                       borderRadius: '8px',
                       cursor: 'pointer',
-                      background: activePath === path.name 
+                      background: selectedPathIds.has(path.id)
+                        ? 'rgba(99,102,241,0.1)'
+                        : activePath === path.name 
                         ? 'linear-gradient(135deg, #eff6ff 0%, #dbeafe 100%)' 
                         : 'transparent',
                       color: activePath === path.name ? '#1d4ed8' : '#334155',
@@ -4700,12 +5330,12 @@ function DiagramContent() {
                       transition: 'all 0.15s ease',
                     }}
                     onMouseEnter={(e) => {
-                      if (activePath !== path.name) {
+                      if (activePath !== path.name && !selectedPathIds.has(path.id)) {
                         e.currentTarget.style.background = '#f8fafc';
                       }
                     }}
                     onMouseLeave={(e) => {
-                      if (activePath !== path.name) {
+                      if (activePath !== path.name && !selectedPathIds.has(path.id)) {
                         e.currentTarget.style.background = 'transparent';
                       }
                     }}
@@ -4790,6 +5420,44 @@ function DiagramContent() {
             marginTop: '8px', 
             paddingTop: '10px' 
           }}>
+            {noteSaveFailures.length > 0 && (
+              <NoteSaveNotice
+                failures={noteSaveFailures}
+                describe={(failure) => {
+                  const pathName = pathsList.find(p => p.id === failure.pathId)?.name || failure.pathId;
+                  if (!failure.nodeId) return `Notes for ${pathName}`;
+                  const nodeLabel = allNodesData.find(n => n.id === failure.nodeId)?.label || failure.nodeId;
+                  return `${nodeLabel} in ${pathName}`;
+                }}
+                darkMode={darkMode}
+                onRetry={() => void dataBackend.noteBuffer?.retryNow()}
+                onDiscard={(key) => dataBackend.noteBuffer?.discard(key)}
+              />
+            )}
+            {outboxChanges.length > 0 && (
+              <button
+                onClick={() => setShowOutbox(true)}
+                title="Review changes that have not been saved yet"
+                style={{
+                  width: '100%',
+                  marginBottom: '6px',
+                  padding: '6px 12px',
+                  fontSize: '11px',
+                  fontWeight: '500',
+                  background: outboxNeedsAttention ? 'rgba(245, 158, 11, 0.12)' : 'transparent',
+                  color: outboxNeedsAttention ? '#d97706' : (darkMode ? '#94a3b8' : '#64748b'),
+                  border: outboxNeedsAttention
+                    ? '1px solid rgba(245, 158, 11, 0.4)'
+                    : (darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0'),
+                  borderRadius: '8px',
+                  cursor: 'pointer',
+                }}
+              >
+                {outboxNeedsAttention
+                  ? 'Some changes need attention'
+                  : `${outboxChanges.length} unsynced ${outboxChanges.length === 1 ? 'change' : 'changes'}`}
+              </button>
+            )}
             <button
               onClick={() => setShowSettings(true)}
               style={{
@@ -4831,6 +5499,149 @@ function DiagramContent() {
 
       </ReactFlow>
       
+      {/* Sign-in Dialog */}
+      {authRequired && (
+        <SignInDialog
+          darkMode={darkMode}
+          onSignedIn={() => {
+            // Reload so every loader runs again with the new session
+            window.location.reload();
+          }}
+        />
+      )}
+
+      {/* Unsynced Changes Modal */}
+      {showOutbox && dataBackend.outbox && (
+        <SyncOutboxPanel
+          outbox={dataBackend.outbox}
+          darkMode={darkMode}
+          pathNames={Object.fromEntries(pathsList.map(p => [p.id, p.name]))}
+          onClose={() => setShowOutbox(false)}
+        />
+      )}
+
+      {/* Path History Modal */}
+      {showPathHistory && activePathId && dataBackend.history && (
+        <PathHistoryPanel
+          history={dataBackend.history}
+          pathId={activePathId}
+          pathName={pathsList.find(p => p.id === activePathId)?.name || activePathId}
+          nodeLabels={Object.fromEntries(allNodesData.map(n => [n.id, n.label]))}
+          darkMode={darkMode}
+          onRestored={handleRevisionRestored}
+          onClose={() => setShowPathHistory(false)}
+        />
+      )}
+
+      {/* Path Compare Panel */}
+      {comparePathIds && (
+        <PathComparePanel
+          paths={pathsList.map(p => ({ id: p.id, name: p.name }))}
+          pathAId={comparePathIds.a}
+          pathBId={comparePathIds.b}
+          comparison={pathComparison}
+          nodeLabels={Object.fromEntries(allNodesData.map(n => [n.id, n.label]))}
+          notesA={(comparePathIds.a && nodePathMap[comparePathIds.a]) || {}}
+          notesB={(comparePathIds.b && nodePathMap[comparePathIds.b]) || {}}
+          darkMode={darkMode}
+          onChange={(a, b) => setComparePathIds({ a, b })}
+          onFocusNode={(nodeId) => fitView({ nodes: [{ id: nodeId }], duration: 500, padding: 0.6, maxZoom: 1.2 })}
+          onClose={() => setComparePathIds(null)}
+        />
+      )}
+
+      {/* Diagram Export Modal */}
+      {showIntegrityReport && (
+        <IntegrityReportPanel
+          issues={integrityIssues}
+          checking={integrityChecking}
+          darkMode={darkMode}
+          onRecheck={() => void runIntegrityCheck(true)}
+          onFix={handleIntegrityFix}
+          onOpenPath={(pathId) => {
+            const path = pathsList.find(p => p.id === pathId);
+            if (!path) return;
+            setShowIntegrityReport(false);
+            showPath(path.name);
+          }}
+          onClose={() => setShowIntegrityReport(false)}
+        />
+      )}
+
+      {showTrash && dataBackend.trash && (
+        <TrashPanel
+          trash={dataBackend.trash}
+          darkMode={darkMode}
+          onRestored={(item) => {
+            if (item.path) setPathToShow(item.path.name);
+          }}
+          onClose={() => setShowTrash(false)}
+        />
+      )}
+
+      {propertiesNodeId && (() => {
+        const record = nodeRecords.find(r => r.id === propertiesNodeId);
+        if (!record) return null;
+        return (
+          <NodePropertyEditor
+            node={record}
+            groupings={Array.from(new Set(nodeRecords.map(r => r.grouping).filter((g): g is string => !!g))).sort()}
+            darkMode={darkMode}
+            onSave={async (updated) => {
+              const saved = await dataBackend.saveNode(updated);
+              applyNodeRecords(
+                nodeRecords.map(r => r.id === saved.id ? saved : r),
+                saved.hidden_by_default !== record.hidden_by_default,
+              );
+            }}
+            onClose={() => setPropertiesNodeId(null)}
+          />
+        );
+      })()}
+
+      {nodeMenu && (() => {
+        const record = nodeRecords.find(r => r.id === nodeMenu.nodeId);
+        if (!record) return null;
+        return (
+          <NodeEditMenu
+            x={nodeMenu.x}
+            y={nodeMenu.y}
+            label={record.label}
+            color={record.color || '#3b82f6'}
+            hidden={record.hidden_by_default}
+            darkMode={darkMode}
+            onRename={() => handleRenameNode(record.id)}
+            onEditProperties={() => setPropertiesNodeId(record.id)}
+            onRecolor={(color) => handleRecolorNode(record.id, color)}
+            onAddChild={() => handleCreateNode(record.id)}
+            onToggleHidden={() => handleToggleNodeHidden(record.id)}
+            onDelete={() => handleDeleteNode(record.id)}
+            onClose={() => setNodeMenu(null)}
+          />
+        );
+      })()}
+
+      {showDiagramExport && (
+        <DiagramExportPanel
+          container={flowRef.current}
+          background={theme.canvasBg}
+          edges={displayEdges}
+          highlightedIds={new Set(displayNodes.filter(n => (n.data as { isHighlighted?: boolean }).isHighlighted).map(n => n.id))}
+          darkMode={darkMode}
+          onClose={() => setShowDiagramExport(false)}
+        />
+      )}
+
+      {/* Workspace Backup Modal */}
+      {showWorkspaceBackup && (
+        <WorkspaceBackupPanel
+          backend={dataBackend}
+          darkMode={darkMode}
+          onImported={() => window.location.reload()}
+          onClose={() => setShowWorkspaceBackup(false)}
+        />
+      )}
+
       {/* Settings Modal */}
       {showSettings && (
         <div
@@ -5251,6 +6062,164 @@ function DiagramContent() {
               </div>
             </div>
             
+            {/* Backup Section */}
+            <div style={{ 
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              marginBottom: '20px',
+              fontSize: '12px',
+              color: darkMode ? '#94a3b8' : '#64748b',
+            }}>
+              <span>Export or import the whole workspace as JSON</span>
+              <button
+                onClick={() => {
+                  setShowSettings(false);
+                  setShowWorkspaceBackup(true);
+                }}
+                style={{
+                  padding: '6px 12px',
+                  fontSize: '11px',
+                  fontWeight: '500',
+                  background: 'transparent',
+                  color: darkMode ? '#94a3b8' : '#64748b',
+                  border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+                  borderRadius: '8px',
+                  cursor: 'pointer',
+                }}
+              >
+                Backup…
+              </button>
+            </div>
+            
+            {/* Integrity Section */}
+            <div style={{ 
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'space-between',
+              marginBottom: '20px',
+              fontSize: '12px',
+              color: darkMode ? '#94a3b8' : '#64748b',
+            }}>
+              <span>Find broken links between nodes, paths and notes</span>
+              <button
+                onClick={() => {
+                  setShowSettings(false);
+                  setShowIntegrityReport(true);
+                  void runIntegrityCheck(true);
+                }}
+                style={{
+                  padding: '6px 12px',
+                  fontSize: '11px',
+                  fontWeight: '500',
+                  background: 'transparent',
+                  color: darkMode ? '#94a3b8' : '#64748b',
+                  border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+                  borderRadius: '8px',
+                  cursor: 'pointer',
+                }}
+              >
+                Check integrity…
+              </button>
+            </div>
+
+            {/* Trash Section */}
+            {dataBackend.trash && (
+              <div style={{ 
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                marginBottom: '20px',
+                fontSize: '12px',
+                color: darkMode ? '#94a3b8' : '#64748b',
+              }}>
+                <span>Restore deleted paths, folders and notes</span>
+                <button
+                  onClick={() => {
+                    setShowSettings(false);
+                    setShowTrash(true);
+                  }}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '11px',
+                    fontWeight: '500',
+                    background: 'transparent',
+                    color: darkMode ? '#94a3b8' : '#64748b',
+                    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+                    borderRadius: '8px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Open trash…
+                </button>
+              </div>
+            )}
+
+            {/* Notes Migration Section */}
+            {dataBackend.migrateNotesToPageBodies && (
+              <div style={{ 
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                marginBottom: '20px',
+                fontSize: '12px',
+                color: darkMode ? '#94a3b8' : '#64748b',
+              }}>
+                <span>Store older notes as blocks in their Notion pages</span>
+                <button
+                  onClick={() => void handleMigrateNotes()}
+                  disabled={notesMigrationProgress !== null}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '11px',
+                    fontWeight: '500',
+                    background: 'transparent',
+                    color: darkMode ? '#94a3b8' : '#64748b',
+                    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+                    borderRadius: '8px',
+                    cursor: notesMigrationProgress !== null ? 'wait' : 'pointer',
+                  }}
+                >
+                  {notesMigrationProgress !== null ? `Moving notes… ${notesMigrationProgress}` : 'Move notes into pages…'}
+                </button>
+              </div>
+            )}
+            
+            {/* Account Section */}
+            {isSessionRequired() && (
+              <div style={{ 
+                display: 'flex',
+                alignItems: 'center',
+                justifyContent: 'space-between',
+                marginBottom: '20px',
+                fontSize: '12px',
+                color: darkMode ? '#94a3b8' : '#64748b',
+              }}>
+                <span>Signed in as <strong>{sessionUserId || 'unknown'}</strong></span>
+                <button
+                  onClick={async () => {
+                    try {
+                      await signOut();
+                    } finally {
+                      window.location.reload();
+                    }
+                  }}
+                  style={{
+                    padding: '6px 12px',
+                    fontSize: '11px',
+                    fontWeight: '500',
+                    background: 'transparent',
+                    color: darkMode ? '#94a3b8' : '#64748b',
+                    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+                    borderRadius: '8px',
+                    cursor: 'pointer',
+                  }}
+                >
+                  Sign out
+                </button>
+              </div>
+            )}
+            
             {/* Version Info */}
             <div style={{ 
               textAlign: 'center', 
@@ -5273,6 +6242,7 @@ function DiagramContent() {
       {editorFocusMode && selectedNode && activePathId && (() => {
         const nodeId = selectedNode.id.replace('personalized-', '');
         const content = sidebarNodeContent[nodeId] ?? (nodePathMap[activePathId]?.[nodeId] || '');
+        const canEditProperties = nodeRecords.some(r => r.id === nodeId);
         const wordCount = content.trim() ? content.trim().split(/\s+/).length : 0;
         const readingTime = Math.max(1, Math.ceil(wordCount / 200));
         
@@ -5521,15 +6491,15 @@ function DiagramContent() {
                         existingAudioUrls={activePathId ? (nodePathAudioUrls[activePathId]?.[nodeId] || []) : []}
                         onRecordingComplete={async (audioBlob, _duration) => {
                           try {
-                            if (DATA_SOURCE === 'notion' && activePathId) {
-                              await saveNodePathAudioNote(
+                            if (activePathId) {
+                              await dataBackend.saveNodePathAudioNote(
                                 `${activePathId}_${nodeId}`,
                                 activePathId,
                                 nodeId,
                                 audioBlob
                               );
                               // Refresh the audio URLs after upload
-                              const nodePaths = await notionService.fetchNodePaths();
+                              const nodePaths = await dataBackend.fetchNodePaths();
                               const newAudioMap = buildNodePathAudioMap(nodePaths);
                               setNodePathAudioUrls(newAudioMap);
                             }
@@ -5594,37 +6564,16 @@ function DiagramContent() {
                     setPathLastUpdated(prev => ({ ...prev, [activePathId]: Date.now() }));
                     setNoteSaveStatus(prev => ({ ...prev, [nodeId]: 'saving' }));
                     
-                    if (debounceTimerRef.current[nodeId]) {
-                      clearTimeout(debounceTimerRef.current[nodeId]);
-                    }
-                    debounceTimerRef.current[nodeId] = setTimeout(async () => {
-                      try {
-                        if (DATA_SOURCE === 'notion') {
-                          await notionService.saveNodePath({
-                            id: `${activePathId}_${nodeId}`,
-                            pathId: activePathId!,
-                            nodeId: nodeId,
-                            content: newContent,
-                          });
-                        } else {
-                          await fetch(GOOGLE_SCRIPT_URL, {
-                            method: 'POST',
-                            mode: 'no-cors',
-                            headers: { 'Content-Type': 'application/json' },
-                            body: JSON.stringify({
-                              action: 'saveNodeContent',
-                              pathId: activePathId,
-                              nodeId: nodeId,
-                              content: newContent,
-                            }),
-                          });
-                        }
-                        setNoteSaveStatus(prev => ({ ...prev, [nodeId]: 'saved' }));
-                      } catch (error) {
-                        console.error('Error saving node content:', error);
-                        setNoteSaveStatus(prev => ({ ...prev, [nodeId]: 'saved' }));
-                      }
-                    }, 1000);
+                    queueNodePath({
+                      id: `${activePathId}_${nodeId}`,
+                      pathId: activePathId!,
+                      nodeId: nodeId,
+                      content: newContent,
+                    }).catch(error => {
+                      console.error('Error saving node content:', error);
+                    }).finally(() => {
+                      setNoteSaveStatus(prev => ({ ...prev, [nodeId]: 'saved' }));
+                    });
                   }}
                   onFocus={(e) => {
                     e.currentTarget.style.borderColor = 'rgba(59,130,246,0.5)';
@@ -5707,6 +6656,33 @@ function DiagramContent() {
                   }}>
                     <span style={{ fontSize: '14px' }}>📚</span>
                     <span>Documentation</span>
+                    {canEditProperties && (
+                      <button
+                        onClick={() => setPropertiesNodeId(nodeId)}
+                        title="Edit links, images, video and other properties"
+                        style={{
+                          marginLeft: 'auto',
+                          fontSize: '11px',
+                          color: '#94a3b8',
+                          border: 'none',
+                          cursor: 'pointer',
+                          padding: '3px 8px',
+                          borderRadius: '5px',
+                          background: 'rgba(100,116,139,0.08)',
+                          transition: 'all 0.15s ease',
+                        }}
+                        onMouseEnter={(e) => {
+                          e.currentTarget.style.color = '#475569';
+                          e.currentTarget.style.background = 'rgba(100,116,139,0.15)';
+                        }}
+                        onMouseLeave={(e) => {
+                          e.currentTarget.style.color = '#94a3b8';
+                          e.currentTarget.style.background = 'rgba(100,116,139,0.08)';
+                        }}
+                      >
+                        Properties
+                      </button>
+                    )}
                     {selectedNodeData?.notionPageId && (
                       <a
                         href={`https://www.notion.so/${selectedNodeData.notionPageId.replace(/-/g, '')}`}
@@ -5714,7 +6690,7 @@ function DiagramContent() {
                         rel="noopener noreferrer"
                         title="Open in Notion"
                         style={{
-                          marginLeft: 'auto',
+                          marginLeft: canEditProperties ? undefined : 'auto',
                           fontSize: '11px',
                           color: '#94a3b8',
                           textDecoration: 'none',
@@ -5754,7 +6730,7 @@ function DiagramContent() {
                         if (nd) {
                           setNotionPageLoading(true);
                           setNotionPageError(null);
-                          notionService.fetchPageContent(nd.notionPageId, nd.label).then(
+                          dataBackend.fetchPageContent(nd.notionPageId, nd.label).then(
                             (r) => { setNotionPageBlocks(r.blocks); setNotionPageLoading(false); },
                             (e) => { setNotionPageError(e instanceof Error ? e.message : 'Failed'); setNotionPageLoading(false); },
                           );
@@ -6042,34 +7018,307 @@ function DiagramContent() {
                         updatePathPriorityHandler(activePathId, newPriority);
                       }}
                       style={{
-                        width: '100%',
-                        height: '6px',
-                        WebkitAppearance: 'none',
-                        appearance: 'none',
-                        background: `linear-gradient(to right, #3b82f6 0%, #8b5cf6 50%, #ef4444 100%)`,
-                        borderRadius: '3px',
+                        width: '100%',
+                        height: '6px',
+                        WebkitAppearance: 'none',
+                        appearance: 'none',
+                        background: `linear-gradient(to right, #3b82f6 0%, #8b5cf6 50%, #ef4444 100%)`,
+                        borderRadius: '3px',
+                        cursor: 'pointer',
+                        outline: 'none',
+                      }}
+                    />
+                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '8px', color: '#94a3b8' }}>
+                      <span style={{ color: '#3b82f6' }}>Low</span>
+                      <span style={{ color: '#ef4444' }}>High</span>
+                    </div>
+                  </div>
+                  <div style={{ 
+                    display: 'flex', 
+                    flexDirection: 'column', 
+                    alignItems: 'flex-start',
+                    gap: '2px',
+                    fontSize: '9px',
+                    color: '#64748b',
+                    minWidth: '70px',
+                  }}>
+                    <span><span style={{ fontWeight: 600, color: '#ef4444' }}>{higherPriorityCount}</span> higher</span>
+                    {samePriorityCount > 0 && <span><span style={{ fontWeight: 600, color: '#8b5cf6' }}>{samePriorityCount}</span> same</span>}
+                    <span><span style={{ fontWeight: 600, color: '#3b82f6' }}>{lowerPriorityCount}</span> lower</span>
+                  </div>
+                </div>
+                
+                {/* Compare button */}
+                <button
+                  onClick={() => setComparePathIds({ a: activePathId, b: null })}
+                  title="Compare this path with another one"
+                  style={{
+                    background: comparePathIds ? 'rgba(59,130,246,0.1)' : 'rgba(100,116,139,0.1)',
+                    border: 'none',
+                    borderRadius: '8px',
+                    padding: '6px 12px',
+                    cursor: 'pointer',
+                    color: comparePathIds ? '#3b82f6' : '#64748b',
+                    fontSize: '11px',
+                    fontWeight: 500,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '5px',
+                    transition: 'all 0.15s ease',
+                  }}
+                >
+                  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <circle cx="9" cy="12" r="6"/>
+                    <circle cx="15" cy="12" r="6"/>
+                  </svg>
+                  Compare
+                </button>
+                
+                {/* Duplicate button */}
+                <button
+                  onClick={() => handleCopyPath(activePathId, false)}
+                  title="Make a copy of this path"
+                  style={{
+                    background: 'rgba(100,116,139,0.1)',
+                    border: 'none',
+                    borderRadius: '8px',
+                    padding: '6px 12px',
+                    cursor: 'pointer',
+                    color: '#64748b',
+                    fontSize: '11px',
+                    fontWeight: 500,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '5px',
+                    transition: 'all 0.15s ease',
+                  }}
+                >
+                  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <rect x="9" y="9" width="13" height="13" rx="2"/>
+                    <path d="M5 15H4a2 2 0 0 1-2-2V4a2 2 0 0 1 2-2h9a2 2 0 0 1 2 2v1"/>
+                  </svg>
+                  Duplicate
+                </button>
+                
+                {/* Template toggle */}
+                <button
+                  onClick={() => handleTogglePathTemplate(activePathId)}
+                  title={currentPath?.template ? 'Stop offering this path as a template' : 'Offer this path under "New from template"'}
+                  style={{
+                    background: currentPath?.template ? 'rgba(59,130,246,0.1)' : 'rgba(100,116,139,0.1)',
+                    border: 'none',
+                    borderRadius: '8px',
+                    padding: '6px 12px',
+                    cursor: 'pointer',
+                    color: currentPath?.template ? '#3b82f6' : '#64748b',
+                    fontSize: '11px',
+                    fontWeight: 500,
+                    display: 'flex',
+                    alignItems: 'center',
+                    gap: '5px',
+                    transition: 'all 0.15s ease',
+                  }}
+                >
+                  <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                    <path d="M14 2H6a2 2 0 0 0-2 2v16a2 2 0 0 0 2 2h12a2 2 0 0 0 2-2V8z"/>
+                    <path d="M14 2v6h6"/>
+                    <path d="M8 13h8M8 17h5"/>
+                  </svg>
+                  {currentPath?.template ? 'Template' : 'Use as template'}
+                </button>
+                
+                {/* History button */}
+                {dataBackend.history && (
+                  <button
+                    onClick={() => setShowPathHistory(true)}
+                    title="Show earlier versions of this path"
+                    style={{
+                      background: 'rgba(100,116,139,0.1)',
+                      border: 'none',
+                      borderRadius: '8px',
+                      padding: '6px 12px',
+                      cursor: 'pointer',
+                      color: '#64748b',
+                      fontSize: '11px',
+                      fontWeight: 500,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '5px',
+                      transition: 'all 0.15s ease',
+                    }}
+                  >
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M3 12a9 9 0 1 0 3-6.7L3 8"/>
+                      <path d="M3 3v5h5"/>
+                      <path d="M12 7v5l3 3"/>
+                    </svg>
+                    History
+                  </button>
+                )}
+                
+                {/* Layout buttons */}
+                <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                  <button
+                    onClick={() => handleSavePathLayout(activePathId)}
+                    title={currentPath?.layout ? 'Update the saved node positions for this path' : 'Pin the current node positions to this path'}
+                    style={{
+                      background: currentPath?.layout ? 'rgba(59,130,246,0.1)' : 'rgba(100,116,139,0.1)',
+                      border: 'none',
+                      borderRadius: '8px',
+                      padding: '6px 12px',
+                      cursor: 'pointer',
+                      color: currentPath?.layout ? '#3b82f6' : '#64748b',
+                      fontSize: '11px',
+                      fontWeight: 500,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '5px',
+                      transition: 'all 0.15s ease',
+                    }}
+                  >
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M12 17v5"/>
+                      <path d="M9 10.76V6a1 1 0 0 0-1-1 2 2 0 0 1 0-4h8a2 2 0 0 1 0 4 1 1 0 0 0-1 1v4.76a2 2 0 0 0 1.11 1.79l1.78.9A2 2 0 0 1 19 15.24V17H5v-1.76a2 2 0 0 1 1.11-1.79l1.78-.9A2 2 0 0 0 9 10.76z"/>
+                    </svg>
+                    {currentPath?.layout ? 'Layout saved' : 'Save layout'}
+                  </button>
+                  {currentPath?.layout && (
+                    <button
+                      onClick={() => handleResetPathLayout(activePathId)}
+                      title="Drop pinned positions and use the automatic layout"
+                      style={{
+                        background: 'rgba(100,116,139,0.1)',
+                        border: 'none',
+                        borderRadius: '8px',
+                        padding: '6px 10px',
                         cursor: 'pointer',
-                        outline: 'none',
+                        color: '#64748b',
+                        fontSize: '11px',
+                        fontWeight: 500,
                       }}
-                    />
-                    <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '8px', color: '#94a3b8' }}>
-                      <span style={{ color: '#3b82f6' }}>Low</span>
-                      <span style={{ color: '#ef4444' }}>High</span>
+                    >
+                      Reset to auto
+                    </button>
+                  )}
+                </div>
+                
+                {/* Export button */}
+                <div style={{ position: 'relative' }}>
+                  <button
+                    onClick={() => setPathExportMenuOpen(open => !open)}
+                    disabled={pathExporting}
+                    title="Download this path as a study document"
+                    style={{
+                      background: 'rgba(100,116,139,0.1)',
+                      border: 'none',
+                      borderRadius: '8px',
+                      padding: '6px 12px',
+                      cursor: pathExporting ? 'wait' : 'pointer',
+                      color: '#64748b',
+                      fontSize: '11px',
+                      fontWeight: 500,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '5px',
+                      transition: 'all 0.15s ease',
+                    }}
+                  >
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <path d="M21 15v4a2 2 0 0 1-2 2H5a2 2 0 0 1-2-2v-4"/>
+                      <path d="M7 10l5 5 5-5"/>
+                      <path d="M12 15V3"/>
+                    </svg>
+                    {pathExporting ? 'Exporting…' : 'Export'}
+                  </button>
+                  {pathExportMenuOpen && (
+                    <div style={{
+                      position: 'absolute',
+                      top: 'calc(100% + 4px)',
+                      right: 0,
+                      zIndex: 20,
+                      display: 'flex',
+                      flexDirection: 'column',
+                      minWidth: '140px',
+                      padding: '4px',
+                      background: '#ffffff',
+                      border: '1px solid #e2e8f0',
+                      borderRadius: '8px',
+                      boxShadow: '0 8px 24px rgba(15,23,42,0.12)',
+                    }}>
+                      {([['pdf', 'PDF document'], ['markdown', 'Markdown']] as const).map(([format, label]) => (
+                        <button
+                          key={format}
+                          onClick={() => handleExportPath(activePathId, format)}
+                          style={{
+                            background: 'transparent',
+                            border: 'none',
+                            borderRadius: '6px',
+                            padding: '6px 10px',
+                            cursor: 'pointer',
+                            color: '#334155',
+                            fontSize: '11px',
+                            textAlign: 'left',
+                          }}
+                        >
+                          {label}
+                        </button>
+                      ))}
                     </div>
-                  </div>
-                  <div style={{ 
-                    display: 'flex', 
-                    flexDirection: 'column', 
-                    alignItems: 'flex-start',
-                    gap: '2px',
-                    fontSize: '9px',
-                    color: '#64748b',
-                    minWidth: '70px',
-                  }}>
-                    <span><span style={{ fontWeight: 600, color: '#ef4444' }}>{higherPriorityCount}</span> higher</span>
-                    {samePriorityCount > 0 && <span><span style={{ fontWeight: 600, color: '#8b5cf6' }}>{samePriorityCount}</span> same</span>}
-                    <span><span style={{ fontWeight: 600, color: '#3b82f6' }}>{lowerPriorityCount}</span> lower</span>
-                  </div>
+                  )}
+                </div>
+                
+                {/* Share button */}
+                <div style={{ display: 'flex', alignItems: 'center', gap: '4px' }}>
+                  {currentPath?.shareToken && (
+                    <button
+                      onClick={() => {
+                        const url = getShareUrl(activePathId, currentPath.shareToken!);
+                        navigator.clipboard.writeText(url).then(
+                          () => alert('Share link copied to clipboard'),
+                          () => window.prompt('Share link', url),
+                        );
+                      }}
+                      title="Copy read-only link"
+                      style={{
+                        background: 'rgba(59,130,246,0.1)',
+                        border: 'none',
+                        borderRadius: '8px',
+                        padding: '6px 10px',
+                        cursor: 'pointer',
+                        color: '#3b82f6',
+                        fontSize: '11px',
+                        fontWeight: 500,
+                      }}
+                    >
+                      Copy link
+                    </button>
+                  )}
+                  <button
+                    onClick={() => handleToggleShare(activePathId)}
+                    title={currentPath?.shareToken ? 'Stop sharing this path' : 'Create a read-only link to this path'}
+                    style={{
+                      background: currentPath?.shareToken ? 'rgba(59,130,246,0.1)' : 'rgba(100,116,139,0.1)',
+                      border: 'none',
+                      borderRadius: '8px',
+                      padding: '6px 12px',
+                      cursor: 'pointer',
+                      color: currentPath?.shareToken ? '#3b82f6' : '#64748b',
+                      fontSize: '11px',
+                      fontWeight: 500,
+                      display: 'flex',
+                      alignItems: 'center',
+                      gap: '5px',
+                      transition: 'all 0.15s ease',
+                    }}
+                  >
+                    <svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
+                      <circle cx="18" cy="5" r="3"/>
+                      <circle cx="6" cy="12" r="3"/>
+                      <circle cx="18" cy="19" r="3"/>
+                      <path d="M8.59 13.51l6.83 3.98M15.41 6.51l-6.82 3.98"/>
+                    </svg>
+                    {currentPath?.shareToken ? 'Shared' : 'Share'}
+                  </button>
                 </div>
                 
                 {/* Archive button */}
@@ -6083,11 +7332,9 @@ function DiagramContent() {
                       p.id === activePathId ? { ...p, status: newStatus } : p
                     ));
                     
-                    // Save to Notion
+                    // Save through the data backend
                     try {
-                      if (DATA_SOURCE === 'notion') {
-                        await notionService.updatePathStatus(activePathId, newStatus);
-                      }
+                      await dataBackend.updatePathStatus(activePathId, newStatus);
                     } catch (error) {
                       console.error('Error updating path status:', error);
                       // Revert on error
@@ -6309,12 +7556,12 @@ function DiagramContent() {
                   {/* Audio Recorder for path notes */}
                   <AudioRecorder
                     onRecordingComplete={async (audioBlob) => {
-                      if (DATA_SOURCE === 'notion' && activePathId) {
+                      if (activePathId) {
                         try {
-                          await savePathAudioNote(activePathId, audioBlob);
+                          await dataBackend.savePathAudioNote(activePathId, audioBlob);
                           console.log('Path audio note saved successfully');
                           // Refresh the audio URL after upload
-                          const paths = await notionService.fetchPaths();
+                          const paths = await dataBackend.fetchPaths();
                           const newAudioMap = buildPathAudioMap(paths);
                           setPathAudioUrls(newAudioMap);
                         } catch (error) {
@@ -6327,7 +7574,7 @@ function DiagramContent() {
                   />
                   
                   <RichTextEditor
-                    key={`path-notes-${activePathId}`}
+                    key={`path-notes-${activePathId}-${notesEditorEpoch}`}
                     initialContent={pathNotes[activePathId] || ''}
                     onChange={handlePathNotesChange}
                     editorRef={pathNotesEditorRef}
@@ -6483,18 +7730,16 @@ function DiagramContent() {
                                   existingAudioUrls={nodePathAudioUrls[activePathId]?.[nodeId] || []}
                                   onRecordingComplete={async (audioBlob, _duration) => {
                                     try {
-                                      if (DATA_SOURCE === 'notion') {
-                                        await saveNodePathAudioNote(
-                                          `${activePathId}_${nodeId}`,
-                                          activePathId,
-                                          nodeId,
-                                          audioBlob
-                                        );
-                                        // Refresh the audio URLs after upload
-                                        const nodePaths = await notionService.fetchNodePaths();
-                                        const newAudioMap = buildNodePathAudioMap(nodePaths);
-                                        setNodePathAudioUrls(newAudioMap);
-                                      }
+                                      await dataBackend.saveNodePathAudioNote(
+                                        `${activePathId}_${nodeId}`,
+                                        activePathId,
+                                        nodeId,
+                                        audioBlob
+                                      );
+                                      // Refresh the audio URLs after upload
+                                      const nodePaths = await dataBackend.fetchNodePaths();
+                                      const newAudioMap = buildNodePathAudioMap(nodePaths);
+                                      setNodePathAudioUrls(newAudioMap);
                                     } catch (error) {
                                       console.error('Error saving audio note:', error);
                                     }
@@ -6503,7 +7748,7 @@ function DiagramContent() {
                               </div>
                             </div>
                             <RichTextEditor
-                              key={`node-note-${activePathId}-${nodeId}`}
+                              key={`node-note-${activePathId}-${nodeId}-${notesEditorEpoch}`}
                               initialContent={sidebarNodeContent[nodeId] ?? (nodePathMap[activePathId]?.[nodeId] || '')}
                               onChange={(newContent) => {
                                 setSidebarNodeContent(prev => ({ ...prev, [nodeId]: newContent }));
@@ -6515,35 +7760,14 @@ function DiagramContent() {
                                   },
                                 }));
                                 setPathLastUpdated(prev => ({ ...prev, [activePathId]: Date.now() }));
-                                if (debounceTimerRef.current[nodeId]) {
-                                  clearTimeout(debounceTimerRef.current[nodeId]);
-                                }
-                                debounceTimerRef.current[nodeId] = setTimeout(async () => {
-                                  try {
-                                    if (DATA_SOURCE === 'notion') {
-                                      await notionService.saveNodePath({
-                                        id: `${activePathId}_${nodeId}`,
-                                        pathId: activePathId,
-                                        nodeId: nodeId,
-                                        content: newContent,
-                                      });
-                                    } else {
-                                      await fetch(GOOGLE_SCRIPT_URL, {
-                                        method: 'POST',
-                                        mode: 'no-cors',
-                                        headers: { 'Content-Type': 'application/json' },
-                                        body: JSON.stringify({
-                                          action: 'saveNodeContent',
-                                          pathId: activePathId,
-                                          nodeId: nodeId,
-                                          content: newContent,
-                                        }),
-                                      });
-                                    }
-                                  } catch (error) {
-                                    console.error('Error saving node content:', error);
-                                  }
-                                }, 1000);
+                                queueNodePath({
+                                  id: `${activePathId}_${nodeId}`,
+                                  pathId: activePathId,
+                                  nodeId: nodeId,
+                                  content: newContent,
+                                }).catch(error => {
+                                  console.error('Error saving node content:', error);
+                                });
                               }}
                               style={{
                                 minHeight: '50px',
@@ -6818,6 +8042,29 @@ function DiagramContent() {
                 ))}
               </div>
               
+              {/* Bulk actions for the selected paths, in every view */}
+              {(selectedPathIds.size > 0 || bulkReport) && (
+                <PathBulkActionBar
+                  count={selectedPaths.length}
+                  folders={bulkFolderOptions}
+                  anyArchived={selectedPaths.some(p => p.status === 'archived')}
+                  anyActive={selectedPaths.some(p => p.status !== 'archived')}
+                  allFav={selectedPaths.length > 0 && selectedPaths.every(p => favouritePathIds.has(p.id))}
+                  running={bulkRunning}
+                  report={bulkReport}
+                  onArchive={handleBulkArchive}
+                  onSetPriority={handleBulkPriority}
+                  onToggleFav={handleBulkFav}
+                  onSetStatus={handleBulkStatus}
+                  onMoveToFolder={handleBulkMove}
+                  onDuplicate={handleBulkDuplicate}
+                  onExport={handleBulkExport}
+                  onDelete={handleBulkDelete}
+                  onClear={() => setSelectedPathIds(new Set())}
+                  onDismissReport={() => setBulkReport(null)}
+                />
+              )}
+              
               {/* Scrollable content area */}
               <div style={{ flex: 1, overflowY: 'auto', minHeight: 0 }}>
               {focusViewMode === 'folder' ? (
@@ -6855,6 +8102,8 @@ function DiagramContent() {
                   hideUnassigned={true}
                   autoEditPathId={autoEditPathId}
                   onAutoEditComplete={() => setAutoEditPathId(null)}
+                  selectedPathIds={selectedPathIds}
+                  onTogglePathSelected={handleTogglePathSelected}
                 />
               ) : focusViewMode === 'archived' ? (
                 /* Archived paths view - folder structure for archived paths */
@@ -6897,144 +8146,13 @@ function DiagramContent() {
                   hideUnassigned={false}
                   autoEditPathId={autoEditPathId}
                   onAutoEditComplete={() => setAutoEditPathId(null)}
+                  selectedPathIds={selectedPathIds}
+                  onTogglePathSelected={handleTogglePathSelected}
                 />
                 )
               ) : (
                 /* Sleek list for A-Z, Latest, and Priority views with multi-select */
                 <div style={{ display: 'flex', flexDirection: 'column', gap: '0' }}>
-                  {/* Multi-select action bar */}
-                  {selectedPathIds.size >= 2 && (
-                    <div 
-                      style={{
-                        display: 'flex',
-                        alignItems: 'center',
-                        gap: '8px',
-                        padding: '8px 12px',
-                        marginBottom: '8px',
-                        background: 'linear-gradient(135deg, rgba(59,130,246,0.08) 0%, rgba(99,102,241,0.08) 100%)',
-                        borderRadius: '8px',
-                        border: '1px solid rgba(59,130,246,0.2)',
-                      }}
-                    >
-                      <span style={{ fontSize: '11px', fontWeight: 600, color: '#3b82f6' }}>
-                        {selectedPathIds.size} selected
-                      </span>
-                      <div style={{ flex: 1 }} />
-                      {/* Archive all selected */}
-                      <button
-                        onClick={async (e) => {
-                          e.stopPropagation();
-                          const idsToArchive = Array.from(selectedPathIds);
-                          // Update local state immediately
-                          setPathsList(prev => prev.map(p => 
-                            idsToArchive.includes(p.id) ? { ...p, status: 'archived' } : p
-                          ));
-                          // Save to Notion
-                          try {
-                            if (DATA_SOURCE === 'notion') {
-                              await Promise.all(idsToArchive.map(id => notionService.updatePathStatus(id, 'archived')));
-                            }
-                          } catch (error) {
-                            console.error('Error archiving paths:', error);
-                          }
-                          setSelectedPathIds(new Set());
-                        }}
-                        style={{
-                          display: 'flex',
-                          alignItems: 'center',
-                          gap: '4px',
-                          padding: '4px 10px',
-                          fontSize: '10px',
-                          fontWeight: 500,
-                          background: 'rgba(100,116,139,0.1)',
-                          color: '#64748b',
-                          border: 'none',
-                          borderRadius: '4px',
-                          cursor: 'pointer',
-                          transition: 'all 0.15s ease',
-                        }}
-                        onMouseEnter={(e) => {
-                          e.currentTarget.style.background = 'rgba(100,116,139,0.2)';
-                          e.currentTarget.style.color = '#475569';
-                        }}
-                        onMouseLeave={(e) => {
-                          e.currentTarget.style.background = 'rgba(100,116,139,0.1)';
-                          e.currentTarget.style.color = '#64748b';
-                        }}
-                      >
-                        <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                          <path d="M21 8v13H3V8"/><path d="M1 3h22v5H1z"/><path d="M10 12h4"/>
-                        </svg>
-                        Archive
-                      </button>
-                      {/* Delete all selected */}
-                      <button
-                        onClick={async (e) => {
-                          e.stopPropagation();
-                          const idsToDelete = Array.from(selectedPathIds);
-                          const pathNames = pathsList.filter(p => idsToDelete.includes(p.id)).map(p => p.name);
-                          if (window.confirm(`Delete ${pathNames.length} paths?`)) {
-                            for (const name of pathNames) {
-                              await deletePathByName(name);
-                            }
-                            setSelectedPathIds(new Set());
-                          }
-                        }}
-                        style={{
-                          display: 'flex',
-                          alignItems: 'center',
-                          gap: '4px',
-                          padding: '4px 10px',
-                          fontSize: '10px',
-                          fontWeight: 500,
-                          background: 'rgba(239,68,68,0.1)',
-                          color: '#ef4444',
-                          border: 'none',
-                          borderRadius: '4px',
-                          cursor: 'pointer',
-                          transition: 'all 0.15s ease',
-                        }}
-                        onMouseEnter={(e) => {
-                          e.currentTarget.style.background = 'rgba(239,68,68,0.2)';
-                        }}
-                        onMouseLeave={(e) => {
-                          e.currentTarget.style.background = 'rgba(239,68,68,0.1)';
-                        }}
-                      >
-                        <svg width="10" height="10" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2">
-                          <polyline points="3 6 5 6 21 6"/><path d="M19 6v14a2 2 0 0 1-2 2H7a2 2 0 0 1-2-2V6m3 0V4a2 2 0 0 1 2-2h4a2 2 0 0 1 2 2v2"/>
-                        </svg>
-                        Delete
-                      </button>
-                      {/* Clear selection */}
-                      <button
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          setSelectedPathIds(new Set());
-                        }}
-                        style={{
-                          padding: '4px 8px',
-                          fontSize: '10px',
-                          fontWeight: 500,
-                          background: 'transparent',
-                          color: '#94a3b8',
-                          border: 'none',
-                          borderRadius: '4px',
-                          cursor: 'pointer',
-                          transition: 'all 0.15s ease',
-                        }}
-                        onMouseEnter={(e) => {
-                          e.currentTarget.style.color = '#64748b';
-                        }}
-                        onMouseLeave={(e) => {
-                          e.currentTarget.style.color = '#94a3b8';
-                        }}
-                      >
-                        ✕ Clear
-                      </button>
-                    </div>
-                  )}
-                  
                   {/* Path list */}
                   <div style={{ display: 'flex', flexDirection: 'column', gap: '1px' }}>
                   {(() => {
@@ -7279,11 +8397,9 @@ function DiagramContent() {
                             p.id === path.id ? { ...p, status: newStatus } : p
                           ));
                           
-                          // Save to Notion
+                          // Save through the data backend
                           try {
-                            if (DATA_SOURCE === 'notion') {
-                              await notionService.updatePathStatus(path.id, newStatus);
-                            }
+                            await dataBackend.updatePathStatus(path.id, newStatus);
                           } catch (error) {
                             console.error('Error updating path status:', error);
                             // Revert on error
@@ -7413,10 +8529,185 @@ function DiagramContent() {
   );
 }
 
+// ============================================
+// Shared path view (/p/:pathId?token=...)
+// Read-only: no editing, no sign-in, only the shared path's data
+// ============================================
+function SharedPathContent({ pathId, token }: { pathId: string; token: string }) {
+  const [nodes, setNodes, onNodesChange] = useNodesState<Node>([]);
+  const [edges, setEdges] = useEdgesState<Edge>([]);
+  const [shared, setShared] = useState<SharedPath | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const { fitView } = useReactFlow();
+  const darkMode = localStorage.getItem('cinaps-dark-mode') === 'true';
+  const theme = getTheme(darkMode);
+  const diagramTheme = DIAGRAM_THEMES.default;
+  const highlightColor = darkMode ? HIGHLIGHT_COLOR : diagramTheme.edge.highlightColor;
+  const edgeColor = darkMode ? EDGE_COLOR : diagramTheme.edge.color;
+
+  useEffect(() => {
+    let cancelled = false;
+    fetchSharedPath(pathId, token).then(
+      (result) => {
+        if (cancelled) return;
+        if (!result) {
+          setError('This link is invalid or the path is no longer shared.');
+        } else {
+          setShared(result);
+        }
+        setLoading(false);
+      },
+      (err) => {
+        if (cancelled) return;
+        console.error('[SharedPath] Error:', err);
+        setError(err instanceof Error ? err.message : 'Failed to load shared path');
+        setLoading(false);
+      },
+    );
+    return () => { cancelled = true; };
+  }, [pathId, token]);
+
+  // Build the diagram with the path's nodes highlighted
+  useEffect(() => {
+    if (!shared) return;
+    const pathNodes = new Set(shared.path.nodeIds);
+    const known = new Set(shared.nodes.map(n => n.id));
+
+    const flowEdges: Edge[] = shared.nodes.flatMap(n =>
+      n.parentIds
+        .filter(pid => known.has(pid))
+        .map(parentId => {
+          const isActive = pathNodes.has(parentId) && pathNodes.has(n.id);
+          return {
+            id: `${parentId}->${n.id}`,
+            source: parentId,
+            target: n.id,
+            style: {
+              stroke: isActive ? highlightColor : edgeColor,
+              opacity: isActive ? 1 : 0.25,
+              strokeWidth: isActive ? 2.5 : 1.5,
+            },
+          };
+        })
+    );
+
+    const flowNodes: Node[] = shared.nodes.map(n => ({
+      id: n.id,
+      type: 'method',
+      position: { x: 0, y: 0 },
+      data: {
+        label: n.label,
+        color: n.color || '#3b82f6',
+        category: n.category,
+        grouping: n.grouping,
+        isHighlighted: pathNodes.has(n.id),
+        nodeNote: shared.nodeNotes[n.id] || '',
+        darkMode,
+        diagramTheme: 'default',
+        onInfoClick: (nodeId: string) => setSelectedNodeId(nodeId),
+      },
+      hidden: n.hidden_by_default && !pathNodes.has(n.id),
+    }));
+
+    setEdges(flowEdges);
+    setNodes(applyLayout(flowNodes as FlowNode[], flowEdges as FlowEdge[], 'centered') as Node[]);
+    setTimeout(() => fitView({ duration: 500, padding: 0.2 }), 50);
+  }, [shared, darkMode, highlightColor, edgeColor, setNodes, setEdges, fitView]);
+
+  const selectedNode = shared?.nodes.find(n => n.id === selectedNodeId);
+  const selectedNote = selectedNodeId ? shared?.nodeNotes[selectedNodeId] : undefined;
+
+  const panelStyle: React.CSSProperties = {
+    position: 'absolute',
+    zIndex: 10,
+    background: theme.panelBg,
+    padding: '18px',
+    borderRadius: '16px',
+    boxShadow: theme.panelShadow,
+    border: `1px solid ${theme.panelBorder}`,
+    backdropFilter: 'blur(12px)',
+    color: theme.textPrimary,
+    overflowY: 'auto',
+  };
+  const noteStyle: React.CSSProperties = {
+    fontSize: '13px',
+    lineHeight: 1.6,
+    whiteSpace: 'pre-wrap',
+    wordBreak: 'break-word',
+  };
+
+  return (
+    <div style={{ width: '100vw', height: '100vh', background: theme.canvasBg }}>
+      <ReactFlow
+        nodes={nodes}
+        edges={edges}
+        nodeTypes={nodeTypes}
+        onNodesChange={onNodesChange}
+        onPaneClick={() => setSelectedNodeId(null)}
+        nodesDraggable={false}
+        nodesConnectable={false}
+        elementsSelectable={false}
+        fitView
+      >
+        <Controls showInteractive={false} />
+
+        {(loading || error) && (
+          <div style={{ ...panelStyle, top: '50%', left: '50%', transform: 'translate(-50%, -50%)', fontSize: '13px' }}>
+            {loading ? 'Loading shared path…' : error}
+          </div>
+        )}
+
+        {shared && (
+          <div style={{ ...panelStyle, left: 20, top: 20, width: 340, maxHeight: 'calc(100vh - 40px)', boxSizing: 'border-box' }}>
+            <div style={{ fontSize: '10px', fontWeight: 600, letterSpacing: '0.5px', textTransform: 'uppercase', color: theme.textSecondary }}>
+              Shared path · read-only
+            </div>
+            <div style={{ fontSize: '18px', fontWeight: 600, margin: '6px 0 4px' }}>{shared.path.name}</div>
+            <div style={{ fontSize: '11px', color: theme.textSecondary, marginBottom: '14px' }}>
+              {shared.path.nodeIds.length} nodes
+            </div>
+            {shared.path.notes ? (
+              <div style={noteStyle} dangerouslySetInnerHTML={{ __html: sanitizeNoteHtml(shared.path.notes) }} />
+            ) : (
+              <div style={{ fontSize: '12px', fontStyle: 'italic', color: theme.textSecondary }}>No path notes</div>
+            )}
+          </div>
+        )}
+
+        {selectedNode && (
+          <div style={{ ...panelStyle, right: 20, top: 20, width: 360, maxHeight: 'calc(100vh - 40px)', boxSizing: 'border-box' }}>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '10px' }}>
+              <div style={{ flex: 1, fontSize: '15px', fontWeight: 600 }}>{selectedNode.label}</div>
+              <button
+                onClick={() => setSelectedNodeId(null)}
+                title="Close"
+                style={{ background: 'transparent', border: 'none', cursor: 'pointer', color: theme.textSecondary, fontSize: '14px' }}
+              >
+                ✕
+              </button>
+            </div>
+            {selectedNode.description && (
+              <div style={{ fontSize: '12px', color: theme.textSecondary, marginBottom: '10px' }}>{selectedNode.description}</div>
+            )}
+            {selectedNote ? (
+              <div style={noteStyle} dangerouslySetInnerHTML={{ __html: sanitizeNoteHtml(selectedNote) }} />
+            ) : (
+              <div style={{ fontSize: '12px', fontStyle: 'italic', color: theme.textSecondary }}>No notes for this node</div>
+            )}
+          </div>
+        )}
+      </ReactFlow>
+    </div>
+  );
+}
+
 export default function InteractiveDiagram() {
+  const shareLink = parseShareUrl(window.location);
   return (
     <ReactFlowProvider>
-      <DiagramContent />
+      {shareLink ? <SharedPathContent pathId={shareLink.pathId} token={shareLink.token} /> : <DiagramContent />}
     </ReactFlowProvider>
   );
 }
\ No newline at end of file
@@ -0,0 +1,233 @@
+// DiagramExportPanel.tsx
+// Exports the diagram as it is drawn (layout, theme, groups, highlights)
+// to SVG or to PNG at a chosen resolution
+
+import React, { useState } from 'react';
+import {
+  renderDiagramPng,
+  renderDiagramSvg,
+  type DiagramExportArea,
+} from '../services/diagramExport';
+
+// ============================================
+// Types
+// ============================================
+
+interface DiagramExportPanelProps {
+  container: HTMLElement | null; // Element holding the React Flow diagram
+  background: string; // Canvas background (CSS)
+  edges: Array<{ id: string; source: string; target: string }>;
+  highlightedIds: Set<string>; // Nodes on the current path
+  darkMode: boolean;
+  onClose: () => void;
+}
+
+type DiagramExportFormat = 'svg' | 'png';
+
+// ============================================
+// Helpers
+// ============================================
+
+const SCALE_PRESETS = [1, 2, 3, 4, 8];
+
+function downloadBlob(blob: Blob, fileName: string): void {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ============================================
+// Component
+// ============================================
+
+export const DiagramExportPanel: React.FC<DiagramExportPanelProps> = ({
+  container,
+  background,
+  edges,
+  highlightedIds,
+  darkMode,
+  onClose,
+}) => {
+  const [format, setFormat] = useState<DiagramExportFormat>('png');
+  const [area, setArea] = useState<DiagramExportArea>('graph');
+  const [scale, setScale] = useState(2);
+  const [transparent, setTransparent] = useState(false);
+  const [onlySelected, setOnlySelected] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const handleExport = async () => {
+    if (!container) return;
+    setExporting(true);
+    setMessage(null);
+    try {
+      const diagram = renderDiagramSvg(container, {
+        area,
+        background: transparent ? undefined : background,
+        nodeIds: onlySelected && highlightedIds.size > 0 ? highlightedIds : undefined,
+        edges,
+      });
+      const baseName = `diagram-${new Date().toISOString().slice(0, 10)}`;
+
+      if (format === 'svg') {
+        downloadBlob(new Blob([diagram.svg], { type: 'image/svg+xml' }), `${baseName}.svg`);
+      } else {
+        const png = await renderDiagramPng(diagram, scale);
+        downloadBlob(png.blob, `${baseName}@${Math.round(png.scale * 100) / 100}x.png`);
+        if (png.scale < scale) {
+          setMessage(`The image was too large at ${scale}×; exported at ${png.scale.toFixed(2)}× instead.`);
+        }
+      }
+    } catch (error) {
+      console.error('Failed to export diagram:', error);
+      setMessage(error instanceof Error ? error.message : String(error));
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const textColor = darkMode ? '#f1f5f9' : '#1e293b';
+  const mutedColor = darkMode ? '#94a3b8' : '#64748b';
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '11px',
+    fontWeight: 500,
+    background: darkMode ? 'rgba(148, 163, 184, 0.1)' : 'rgba(100, 116, 139, 0.08)',
+    color: darkMode ? '#e2e8f0' : '#334155',
+    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  };
+  const sectionTitle: React.CSSProperties = {
+    fontSize: '11px',
+    fontWeight: 600,
+    color: mutedColor,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    margin: '16px 0 8px',
+  };
+  const choiceStyle = (active: boolean): React.CSSProperties => ({
+    ...buttonStyle,
+    background: active ? 'rgba(59, 130, 246, 0.12)' : buttonStyle.background,
+    color: active ? '#3b82f6' : buttonStyle.color,
+    border: active ? '1px solid rgba(59, 130, 246, 0.4)' : buttonStyle.border,
+  });
+  const checkboxLabel: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '12px',
+    color: textColor,
+    cursor: 'pointer',
+    marginBottom: '6px',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: darkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(15, 23, 42, 0.4)',
+        backdropFilter: 'blur(12px)',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !exporting) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: darkMode
+            ? 'linear-gradient(145deg, #1e293b 0%, #0f172a 100%)'
+            : 'linear-gradient(145deg, #ffffff 0%, #f8fafc 100%)',
+          borderRadius: '20px',
+          padding: '28px',
+          width: '420px',
+          maxWidth: '92vw',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35)',
+          border: darkMode ? '1px solid rgba(148, 163, 184, 0.1)' : '1px solid rgba(226, 232, 240, 0.8)',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600, color: textColor }}>Export diagram</h2>
+          <button onClick={onClose} style={buttonStyle} disabled={exporting}>Close</button>
+        </div>
+
+        <div style={sectionTitle}>Format</div>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          <button style={choiceStyle(format === 'png')} onClick={() => setFormat('png')}>PNG</button>
+          <button style={choiceStyle(format === 'svg')} onClick={() => setFormat('svg')}>SVG</button>
+        </div>
+
+        <div style={sectionTitle}>Area</div>
+        <div style={{ display: 'flex', gap: '6px' }}>
+          <button style={choiceStyle(area === 'graph')} onClick={() => setArea('graph')}>Whole graph</button>
+          <button style={choiceStyle(area === 'viewport')} onClick={() => setArea('viewport')}>Visible area</button>
+        </div>
+
+        {format === 'png' && (
+          <>
+            <div style={sectionTitle}>Resolution</div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+              {SCALE_PRESETS.map(preset => (
+                <button key={preset} style={choiceStyle(scale === preset)} onClick={() => setScale(preset)}>
+                  {preset}×
+                </button>
+              ))}
+              <input
+                type="number"
+                min={0.5}
+                max={16}
+                step={0.5}
+                value={scale}
+                onChange={(e) => {
+                  const value = parseFloat(e.target.value);
+                  if (value > 0) setScale(value);
+                }}
+                style={{ ...buttonStyle, width: '56px', cursor: 'text' }}
+                title="Custom scale"
+              />
+            </div>
+          </>
+        )}
+
+        <div style={sectionTitle}>Options</div>
+        <label style={checkboxLabel}>
+          <input type="checkbox" checked={transparent} onChange={(e) => setTransparent(e.target.checked)} />
+          Transparent background
+        </label>
+        <label style={{ ...checkboxLabel, opacity: highlightedIds.size > 0 ? 1 : 0.5 }}>
+          <input
+            type="checkbox"
+            checked={onlySelected && highlightedIds.size > 0}
+            disabled={highlightedIds.size === 0}
+            onChange={(e) => setOnlySelected(e.target.checked)}
+          />
+          Hide unselected nodes
+        </label>
+
+        {message && (
+          <div style={{ fontSize: '12px', color: mutedColor, marginTop: '10px' }}>{message}</div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '18px' }}>
+          <button
+            style={{ ...buttonStyle, color: '#3b82f6' }}
+            disabled={exporting || !container}
+            onClick={handleExport}
+          >
+            {exporting ? 'Exporting…' : `Download ${format.toUpperCase()}`}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default DiagramExportPanel;
@@ -45,6 +45,8 @@ interface FolderTreeProps {
   hideUnassigned?: boolean; // If true, don't render unassigned paths (they're rendered separately)
   autoEditPathId?: string | null; // If set, automatically start editing this path name
   onAutoEditComplete?: () => void; // Called when auto-edit is complete
+  selectedPathIds?: Set<string>; // Paths picked for bulk actions
+  onTogglePathSelected?: (pathId: string) => void; // Ctrl/⌘- or Shift-click adds or removes a path
 }
 
 // ============================================
@@ -256,6 +258,16 @@ const styles = {
 // FolderItem Component
 // ============================================
 
+// Dragging a selected path takes the rest of the selection along
+function startPathDrag(e: React.DragEvent, path: PathItem, selectedPathIds?: Set<string>): void {
+  if (selectedPathIds?.has(path.id) && selectedPathIds.size >= 2) {
+    e.dataTransfer.setData('application/x-multi-paths', JSON.stringify(Array.from(selectedPathIds)));
+  } else {
+    e.dataTransfer.setData('pathName', path.name);
+  }
+  e.dataTransfer.effectAllowed = 'move';
+}
+
 interface FolderItemProps {
   folder: FolderTreeNode;
   paths: PathItem[];
@@ -279,6 +291,8 @@ interface FolderItemProps {
   onToggleFolder: (folderId: string) => void;
   autoEditPathId?: string | null;
   onAutoEditComplete?: () => void;
+  selectedPathIds?: Set<string>;
+  onTogglePathSelected?: (pathId: string) => void;
 }
 
 const FolderItem: React.FC<FolderItemProps> = ({
@@ -304,6 +318,8 @@ const FolderItem: React.FC<FolderItemProps> = ({
   onToggleFolder,
   autoEditPathId,
   onAutoEditComplete,
+  selectedPathIds,
+  onTogglePathSelected,
 }) => {
   const [isHovered, setIsHovered] = useState(false);
   const [isDragOver, setIsDragOver] = useState(false);
@@ -519,6 +535,8 @@ const FolderItem: React.FC<FolderItemProps> = ({
               onToggleFolder={onToggleFolder}
               autoEditPathId={autoEditPathId}
               onAutoEditComplete={onAutoEditComplete}
+              selectedPathIds={selectedPathIds}
+              onTogglePathSelected={onTogglePathSelected}
             />
           ))}
 
@@ -535,10 +553,9 @@ const FolderItem: React.FC<FolderItemProps> = ({
               onDoubleClick={() => onDoubleClickPath(path.name)}
               onToggleFav={onToggleFav ? () => onToggleFav(path.id, !path.fav) : undefined}
               isFav={!!path.fav}
-              onDragStart={(e) => {
-                e.dataTransfer.setData('pathName', path.name);
-                e.dataTransfer.effectAllowed = 'move';
-              }}
+              onDragStart={(e) => startPathDrag(e, path, selectedPathIds)}
+              isSelected={!!selectedPathIds?.has(path.id)}
+              onToggleSelected={onTogglePathSelected ? () => onTogglePathSelected(path.id) : undefined}
               autoEdit={autoEditPathId === path.id}
               onAutoEditComplete={onAutoEditComplete}
             />
@@ -564,6 +581,8 @@ interface PathItemRowProps {
   onToggleFav?: () => void; // Toggle favourite status
   isFav?: boolean; // Whether path is favourited
   onDragStart: (e: React.DragEvent) => void;
+  isSelected?: boolean; // Picked for bulk actions
+  onToggleSelected?: () => void;
   autoEdit?: boolean; // If true, automatically start editing when mounted
   onAutoEditComplete?: () => void; // Called when auto-edit is complete
 }
@@ -579,6 +598,8 @@ const PathItemRow: React.FC<PathItemRowProps> = ({
   onToggleFav,
   isFav = false,
   onDragStart,
+  isSelected = false,
+  onToggleSelected,
   autoEdit = false,
   onAutoEditComplete,
 }) => {
@@ -621,7 +642,13 @@ const PathItemRow: React.FC<PathItemRowProps> = ({
       onDragStart={isEditing ? undefined : onDragStart}
       onMouseEnter={() => setIsHovered(true)}
       onMouseLeave={() => setIsHovered(false)}
-      onClick={isEditing ? undefined : onSelect}
+      onClick={isEditing ? undefined : (e) => {
+        if (onToggleSelected && (e.ctrlKey || e.metaKey || e.shiftKey)) {
+          onToggleSelected();
+          return;
+        }
+        onSelect();
+      }}
       onDoubleClick={isEditing ? undefined : (e) => {
         e.stopPropagation();
         onDoubleClick();
@@ -630,6 +657,7 @@ const PathItemRow: React.FC<PathItemRowProps> = ({
         ...styles.pathRow,
         ...(isActive ? styles.pathRowActive : {}),
         ...(isHovered && !isActive ? styles.folderRowHover : {}),
+        ...(isSelected ? { background: 'rgba(99,102,241,0.1)', boxShadow: 'inset 2px 0 0 #6366f1' } : {}),
         paddingLeft: `${16 + level * 12}px`,
       }}
     >
@@ -748,6 +776,8 @@ export const FolderTree: React.FC<FolderTreeProps> = ({
   hideUnassigned = false,
   autoEditPathId,
   onAutoEditComplete,
+  selectedPathIds,
+  onTogglePathSelected,
 }) => {
   const [isAddingRoot, setIsAddingRoot] = useState(false);
   const [newFolderName, setNewFolderName] = useState('');
@@ -872,10 +902,9 @@ export const FolderTree: React.FC<FolderTreeProps> = ({
                   onDoubleClick={() => onDoubleClickPath(path.name)}
                   onToggleFav={onToggleFav ? () => onToggleFav(path.id, false) : undefined}
                   isFav={true}
-                  onDragStart={(e) => {
-                    e.dataTransfer.setData('pathName', path.name);
-                    e.dataTransfer.effectAllowed = 'move';
-                  }}
+                  onDragStart={(e) => startPathDrag(e, path, selectedPathIds)}
+                  isSelected={!!selectedPathIds?.has(path.id)}
+                  onToggleSelected={onTogglePathSelected ? () => onTogglePathSelected(path.id) : undefined}
                   autoEdit={autoEditPathId === path.id}
                   onAutoEditComplete={onAutoEditComplete}
                 />
@@ -916,6 +945,8 @@ export const FolderTree: React.FC<FolderTreeProps> = ({
           onToggleFolder={onToggleFolder}
           autoEditPathId={autoEditPathId}
           onAutoEditComplete={onAutoEditComplete}
+          selectedPathIds={selectedPathIds}
+          onTogglePathSelected={onTogglePathSelected}
         />
       ))}
 
@@ -973,10 +1004,9 @@ export const FolderTree: React.FC<FolderTreeProps> = ({
               onDoubleClick={() => onDoubleClickPath(path.name)}
               onToggleFav={onToggleFav ? () => onToggleFav(path.id, !path.fav) : undefined}
               isFav={!!path.fav}
-              onDragStart={(e) => {
-                e.dataTransfer.setData('pathName', path.name);
-                e.dataTransfer.effectAllowed = 'move';
-              }}
+              onDragStart={(e) => startPathDrag(e, path, selectedPathIds)}
+              isSelected={!!selectedPathIds?.has(path.id)}
+              onToggleSelected={onTogglePathSelected ? () => onTogglePathSelected(path.id) : undefined}
               autoEdit={autoEditPathId === path.id}
               onAutoEditComplete={onAutoEditComplete}
             />
@@ -0,0 +1,233 @@
+// IntegrityReportPanel.tsx
+// Lists broken links between nodes, paths and node notes, with links to the
+// offending records and one-click fixes where there is an obvious repair
+
+import React, { useState } from 'react';
+import {
+  describeFix,
+  type IntegrityFix,
+  type IntegrityIssue,
+  type IntegrityIssueKind,
+  type IntegrityRecordRef,
+} from '../services/integrity';
+
+// ============================================
+// Types
+// ============================================
+
+interface IntegrityReportPanelProps {
+  issues: IntegrityIssue[] | null; // null until the first check has finished
+  checking: boolean;
+  darkMode: boolean;
+  onRecheck: () => void;
+  onFix: (fix: IntegrityFix) => Promise<void>;
+  onOpenPath: (pathId: string) => void;
+  onClose: () => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const KIND_LABELS: Record<IntegrityIssueKind, string> = {
+  duplicateNodeId: 'Duplicate node id',
+  cycle: 'Parent loop',
+  missingParent: 'Missing parent',
+  danglingPathNode: 'Deleted node in path',
+  orphanedNodePath: 'Orphaned note',
+};
+
+function notionUrl(ref: IntegrityRecordRef): string | null {
+  return ref.notionPageId ? `https://www.notion.so/${ref.notionPageId.replace(/-/g, '')}` : null;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export const IntegrityReportPanel: React.FC<IntegrityReportPanelProps> = ({
+  issues,
+  checking,
+  darkMode,
+  onRecheck,
+  onFix,
+  onOpenPath,
+  onClose,
+}) => {
+  const [fixing, setFixing] = useState<string | null>(null); // Issue id being fixed
+  const [fixingAll, setFixingAll] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const fixable = (issues || []).filter(issue => issue.fix);
+  const busy = checking || fixing !== null || fixingAll;
+
+  const runFix = async (issue: IntegrityIssue) => {
+    if (!issue.fix) return;
+    setFixing(issue.id);
+    setError(null);
+    try {
+      await onFix(issue.fix);
+    } catch (err) {
+      console.error('Failed to fix integrity issue:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setFixing(null);
+    }
+  };
+
+  const runAllFixes = async () => {
+    setFixingAll(true);
+    setError(null);
+    try {
+      for (const issue of fixable) {
+        await onFix(issue.fix!);
+      }
+    } catch (err) {
+      console.error('Failed to fix integrity issues:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setFixingAll(false);
+    }
+  };
+
+  const textColor = darkMode ? '#f1f5f9' : '#1e293b';
+  const mutedColor = darkMode ? '#94a3b8' : '#64748b';
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '11px',
+    fontWeight: 500,
+    background: darkMode ? 'rgba(148, 163, 184, 0.1)' : 'rgba(100, 116, 139, 0.08)',
+    color: darkMode ? '#e2e8f0' : '#334155',
+    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  };
+  const linkStyle: React.CSSProperties = {
+    fontSize: '11px',
+    color: '#3b82f6',
+    textDecoration: 'none',
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: darkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(15, 23, 42, 0.4)',
+        backdropFilter: 'blur(12px)',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !busy) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: darkMode
+            ? 'linear-gradient(145deg, #1e293b 0%, #0f172a 100%)'
+            : 'linear-gradient(145deg, #ffffff 0%, #f8fafc 100%)',
+          borderRadius: '20px',
+          padding: '28px',
+          width: '640px',
+          maxWidth: '92vw',
+          maxHeight: '86vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35)',
+          border: darkMode ? '1px solid rgba(148, 163, 184, 0.1)' : '1px solid rgba(226, 232, 240, 0.8)',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600, color: textColor, flex: 1 }}>Data integrity</h2>
+          <button onClick={onRecheck} style={buttonStyle} disabled={busy}>
+            {checking ? 'Checking…' : 'Check again'}
+          </button>
+          <button onClick={onClose} style={buttonStyle} disabled={busy}>Close</button>
+        </div>
+
+        <div style={{ fontSize: '12px', color: mutedColor, margin: '8px 0 14px' }}>
+          {issues === null
+            ? 'Checking nodes, paths and notes…'
+            : issues.length === 0
+              ? 'No problems found.'
+              : `${issues.length} ${issues.length === 1 ? 'problem' : 'problems'} found${fixable.length > 0 ? `, ${fixable.length} with a one-click fix` : ''}.`}
+        </div>
+
+        {error && (
+          <div style={{ fontSize: '12px', color: '#ef4444', marginBottom: '10px' }}>{error}</div>
+        )}
+
+        <div style={{ overflowY: 'auto', flex: 1 }}>
+          {(issues || []).map(issue => (
+            <div
+              key={issue.id}
+              style={{
+                padding: '10px 12px',
+                marginBottom: '8px',
+                borderRadius: '10px',
+                background: darkMode ? 'rgba(15, 23, 42, 0.5)' : '#ffffff',
+                border: darkMode ? '1px solid rgba(148, 163, 184, 0.15)' : '1px solid #e2e8f0',
+              }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                <span style={{
+                  fontSize: '10px',
+                  fontWeight: 600,
+                  color: issue.fix ? '#f59e0b' : '#ef4444',
+                  textTransform: 'uppercase',
+                  letterSpacing: '0.5px',
+                  flex: 1,
+                }}>
+                  {KIND_LABELS[issue.kind]}
+                </span>
+                {issue.fix && (
+                  <button
+                    style={{ ...buttonStyle, color: '#3b82f6' }}
+                    disabled={busy}
+                    onClick={() => runFix(issue)}
+                  >
+                    {fixing === issue.id ? 'Fixing…' : describeFix(issue.fix)}
+                  </button>
+                )}
+              </div>
+              <div style={{ fontSize: '12px', color: textColor, margin: '6px 0' }}>{issue.message}</div>
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px' }}>
+                {issue.records.map((ref, idx) => {
+                  const url = notionUrl(ref);
+                  return (
+                    <span key={`${ref.id}-${idx}`} style={{ display: 'flex', gap: '6px', fontSize: '11px', color: mutedColor }}>
+                      {ref.label}
+                      {ref.entity === 'path' && (
+                        <button style={linkStyle} onClick={() => onOpenPath(ref.id)}>Show</button>
+                      )}
+                      {url && (
+                        <a href={url} target="_blank" rel="noopener noreferrer" style={linkStyle}>Notion ↗</a>
+                      )}
+                    </span>
+                  );
+                })}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {fixable.length > 1 && (
+          <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: '12px' }}>
+            <button style={{ ...buttonStyle, color: '#3b82f6' }} disabled={busy} onClick={runAllFixes}>
+              {fixingAll ? 'Fixing…' : `Fix all ${fixable.length}`}
+            </button>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default IntegrityReportPanel;
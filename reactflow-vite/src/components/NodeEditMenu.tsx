@@ -0,0 +1,171 @@
+// NodeEditMenu.tsx
+// Context menu for editing a node on the canvas (graph edit mode)
+
+import React, { useEffect, useRef } from 'react';
+
+// ============================================
+// Types
+// ============================================
+
+interface NodeEditMenuProps {
+  x: number; // Screen position of the right-click
+  y: number;
+  label: string;
+  color: string;
+  hidden: boolean; // Hidden by default
+  darkMode: boolean;
+  onRename: () => void;
+  onEditProperties: () => void;
+  onRecolor: (color: string) => void;
+  onAddChild: () => void;
+  onToggleHidden: () => void;
+  onDelete: () => void;
+  onClose: () => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const COLOR_SWATCHES = ['#3b82f6', '#8b5cf6', '#ec4899', '#ef4444', '#f59e0b', '#10b981', '#14b8a6', '#64748b'];
+
+const MENU_WIDTH = 200;
+
+// ============================================
+// Component
+// ============================================
+
+export const NodeEditMenu: React.FC<NodeEditMenuProps> = ({
+  x,
+  y,
+  label,
+  color,
+  hidden,
+  darkMode,
+  onRename,
+  onEditProperties,
+  onRecolor,
+  onAddChild,
+  onToggleHidden,
+  onDelete,
+  onClose,
+}) => {
+  const colorInputRef = useRef<HTMLInputElement>(null);
+
+  // React's onChange fires on every move in the picker; save once it is closed
+  useEffect(() => {
+    const input = colorInputRef.current;
+    if (!input) return;
+    const handleChange = () => onRecolor(input.value);
+    input.addEventListener('change', handleChange);
+    return () => input.removeEventListener('change', handleChange);
+  }, [onRecolor]);
+
+  const textColor = darkMode ? '#e2e8f0' : '#334155';
+  const mutedColor = darkMode ? '#94a3b8' : '#64748b';
+  const itemStyle: React.CSSProperties = {
+    display: 'block',
+    width: '100%',
+    padding: '7px 12px',
+    fontSize: '12px',
+    textAlign: 'left',
+    background: 'transparent',
+    color: textColor,
+    border: 'none',
+    cursor: 'pointer',
+  };
+  const hover = (e: React.MouseEvent<HTMLButtonElement>, on: boolean) => {
+    e.currentTarget.style.background = on
+      ? (darkMode ? 'rgba(96, 165, 250, 0.15)' : 'rgba(59, 130, 246, 0.08)')
+      : 'transparent';
+  };
+
+  // Run an action and close the menu
+  const pick = (action: () => void) => () => {
+    onClose();
+    action();
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        left: Math.min(x, window.innerWidth - MENU_WIDTH - 8),
+        top: y,
+        zIndex: 10000,
+        width: MENU_WIDTH,
+        padding: '6px 0',
+        background: darkMode ? '#1e293b' : '#ffffff',
+        borderRadius: '10px',
+        boxShadow: '0 10px 25px -5px rgba(0, 0, 0, 0.25)',
+        border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+      }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div
+        style={{
+          padding: '4px 12px 8px',
+          fontSize: '11px',
+          fontWeight: 600,
+          color: mutedColor,
+          overflow: 'hidden',
+          textOverflow: 'ellipsis',
+          whiteSpace: 'nowrap',
+        }}
+      >
+        {label}
+      </div>
+
+      <button style={itemStyle} onMouseEnter={(e) => hover(e, true)} onMouseLeave={(e) => hover(e, false)} onClick={pick(onRename)}>
+        Rename…
+      </button>
+      <button style={itemStyle} onMouseEnter={(e) => hover(e, true)} onMouseLeave={(e) => hover(e, false)} onClick={pick(onEditProperties)}>
+        Properties…
+      </button>
+      <button style={itemStyle} onMouseEnter={(e) => hover(e, true)} onMouseLeave={(e) => hover(e, false)} onClick={pick(onAddChild)}>
+        Add child node…
+      </button>
+      <button style={itemStyle} onMouseEnter={(e) => hover(e, true)} onMouseLeave={(e) => hover(e, false)} onClick={pick(onToggleHidden)}>
+        {hidden ? 'Show by default' : 'Hide by default'}
+      </button>
+
+      <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '6px', padding: '8px 12px' }}>
+        {COLOR_SWATCHES.map(swatch => (
+          <button
+            key={swatch}
+            onClick={pick(() => onRecolor(swatch))}
+            title={swatch}
+            style={{
+              width: 16,
+              height: 16,
+              padding: 0,
+              borderRadius: '50%',
+              background: swatch,
+              border: swatch === color ? `2px solid ${textColor}` : '2px solid transparent',
+              cursor: 'pointer',
+            }}
+          />
+        ))}
+        <input
+          ref={colorInputRef}
+          type="color"
+          defaultValue={color}
+          title="Custom colour"
+          style={{ width: 20, height: 20, padding: 0, border: 'none', background: 'none', cursor: 'pointer' }}
+        />
+      </div>
+
+      <div style={{ borderTop: darkMode ? '1px solid rgba(148, 163, 184, 0.15)' : '1px solid #f1f5f9', marginTop: '2px' }} />
+      <button
+        style={{ ...itemStyle, color: '#ef4444' }}
+        onMouseEnter={(e) => hover(e, true)}
+        onMouseLeave={(e) => hover(e, false)}
+        onClick={pick(onDelete)}
+      >
+        Delete node…
+      </button>
+    </div>
+  );
+};
+
+export default NodeEditMenu;
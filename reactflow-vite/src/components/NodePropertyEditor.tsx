@@ -0,0 +1,276 @@
+// NodePropertyEditor.tsx
+// Structured editor for a node's links, images, video, wiki URL, grouping
+// and visibility (stored as JSON in Notion text properties)
+
+import React, { useMemo, useState } from 'react';
+import { parseVideoUrl } from '../services/notion';
+import type { ExternalLink, ImageData, NodeRecord } from '../services/notion/types';
+
+// ============================================
+// Types
+// ============================================
+
+interface NodePropertyEditorProps {
+  node: NodeRecord;
+  groupings: string[]; // Groupings already used by other nodes, offered as suggestions
+  darkMode: boolean;
+  onSave: (node: NodeRecord) => Promise<void>;
+  onClose: () => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function isHttpUrl(value: string): boolean {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+}
+
+// Message for a URL field, or null when it is fine (empty counts as fine)
+function urlError(value: string): string | null {
+  return value.trim() && !isHttpUrl(value.trim()) ? 'Must be an http(s) URL' : null;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export const NodePropertyEditor: React.FC<NodePropertyEditorProps> = ({
+  node,
+  groupings,
+  darkMode,
+  onSave,
+  onClose,
+}) => {
+  const [wikiUrl, setWikiUrl] = useState(node.wikiUrl || '');
+  const [grouping, setGrouping] = useState(node.grouping || '');
+  const [hidden, setHidden] = useState(node.hidden_by_default);
+  const [links, setLinks] = useState<ExternalLink[]>(node.externalLinks);
+  const [images, setImages] = useState<ImageData[]>(node.images);
+  const [videoUrl, setVideoUrl] = useState(node.video?.url || '');
+  const [saving, setSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+
+  const video = videoUrl.trim() ? parseVideoUrl(videoUrl) : null;
+  const errors = useMemo(() => ({
+    wikiUrl: urlError(wikiUrl),
+    links: links.map(link => (!link.label.trim() && link.url.trim() ? 'Needs a label' : urlError(link.url))),
+    images: images.map(image => urlError(image.src)),
+    video: videoUrl.trim() && !video ? 'Not a YouTube, Vimeo or video file URL' : null,
+  }), [wikiUrl, links, images, videoUrl, video]);
+  const hasErrors = !!errors.wikiUrl || !!errors.video
+    || errors.links.some(Boolean) || errors.images.some(Boolean);
+
+  const handleSave = async () => {
+    if (hasErrors) return;
+    setSaving(true);
+    setSaveError(null);
+    try {
+      await onSave({
+        ...node,
+        wikiUrl: wikiUrl.trim(),
+        grouping: grouping.trim() || undefined,
+        hidden_by_default: hidden,
+        // Rows left blank are dropped rather than saved
+        externalLinks: links
+          .filter(link => link.url.trim())
+          .map(link => ({ label: link.label.trim(), url: link.url.trim() })),
+        images: images
+          .filter(image => image.src.trim())
+          .map(image => ({ src: image.src.trim(), ...(image.alt?.trim() ? { alt: image.alt.trim() } : {}) })),
+        video: video ?? undefined,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Failed to save node properties:', error);
+      setSaveError(error instanceof Error ? error.message : String(error));
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const textColor = darkMode ? '#f1f5f9' : '#1e293b';
+  const mutedColor = darkMode ? '#94a3b8' : '#64748b';
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '11px',
+    fontWeight: 500,
+    background: darkMode ? 'rgba(148, 163, 184, 0.1)' : 'rgba(100, 116, 139, 0.08)',
+    color: darkMode ? '#e2e8f0' : '#334155',
+    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  };
+  const sectionTitle: React.CSSProperties = {
+    fontSize: '11px',
+    fontWeight: 600,
+    color: mutedColor,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    margin: '16px 0 8px',
+  };
+  const inputStyle = (invalid: boolean): React.CSSProperties => ({
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    fontSize: '12px',
+    color: textColor,
+    background: darkMode ? 'rgba(15, 23, 42, 0.6)' : '#ffffff',
+    border: invalid ? '1px solid #ef4444' : (darkMode ? '1px solid rgba(148, 163, 184, 0.25)' : '1px solid #e2e8f0'),
+    borderRadius: '6px',
+    outline: 'none',
+  });
+  const errorText = (message: string | null) => message && (
+    <div style={{ fontSize: '11px', color: '#ef4444', marginTop: '4px' }}>{message}</div>
+  );
+  const row: React.CSSProperties = { display: 'flex', gap: '6px', alignItems: 'center' };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10001,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: darkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(15, 23, 42, 0.4)',
+        backdropFilter: 'blur(12px)',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !saving) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: darkMode
+            ? 'linear-gradient(145deg, #1e293b 0%, #0f172a 100%)'
+            : 'linear-gradient(145deg, #ffffff 0%, #f8fafc 100%)',
+          borderRadius: '20px',
+          padding: '28px',
+          width: '560px',
+          maxWidth: '92vw',
+          maxHeight: '86vh',
+          overflowY: 'auto',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35)',
+          border: darkMode ? '1px solid rgba(148, 163, 184, 0.1)' : '1px solid rgba(226, 232, 240, 0.8)',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600, color: textColor }}>
+            Properties · {node.label}
+          </h2>
+          <button onClick={onClose} style={buttonStyle} disabled={saving}>Close</button>
+        </div>
+
+        <div style={sectionTitle}>Wiki URL</div>
+        <input
+          value={wikiUrl}
+          onChange={(e) => setWikiUrl(e.target.value)}
+          placeholder="https://en.wikipedia.org/wiki/…"
+          style={{ ...inputStyle(!!errors.wikiUrl), width: '100%', boxSizing: 'border-box' }}
+        />
+        {errorText(errors.wikiUrl)}
+
+        <div style={sectionTitle}>Grouping</div>
+        <input
+          value={grouping}
+          onChange={(e) => setGrouping(e.target.value)}
+          placeholder="None"
+          list="node-property-groupings"
+          style={{ ...inputStyle(false), width: '100%', boxSizing: 'border-box' }}
+        />
+        <datalist id="node-property-groupings">
+          {groupings.map(g => <option key={g} value={g} />)}
+        </datalist>
+
+        <label style={{ display: 'flex', alignItems: 'center', gap: '6px', fontSize: '12px', color: textColor, cursor: 'pointer', marginTop: '12px' }}>
+          <input type="checkbox" checked={hidden} onChange={(e) => setHidden(e.target.checked)} />
+          Hidden by default
+        </label>
+
+        <div style={sectionTitle}>External links</div>
+        {links.map((link, idx) => (
+          <div key={idx} style={{ marginBottom: '6px' }}>
+            <div style={row}>
+              <input
+                value={link.label}
+                onChange={(e) => setLinks(prev => prev.map((l, i) => i === idx ? { ...l, label: e.target.value } : l))}
+                placeholder="Label"
+                style={{ ...inputStyle(false), flex: '0 0 140px' }}
+              />
+              <input
+                value={link.url}
+                onChange={(e) => setLinks(prev => prev.map((l, i) => i === idx ? { ...l, url: e.target.value } : l))}
+                placeholder="https://…"
+                style={inputStyle(!!errors.links[idx])}
+              />
+              <button style={buttonStyle} onClick={() => setLinks(prev => prev.filter((_, i) => i !== idx))} title="Remove link">✕</button>
+            </div>
+            {errorText(errors.links[idx])}
+          </div>
+        ))}
+        <button style={buttonStyle} onClick={() => setLinks(prev => [...prev, { label: '', url: '' }])}>+ Add link</button>
+
+        <div style={sectionTitle}>Images</div>
+        {images.map((image, idx) => (
+          <div key={idx} style={{ marginBottom: '6px' }}>
+            <div style={row}>
+              <input
+                value={image.src}
+                onChange={(e) => setImages(prev => prev.map((img, i) => i === idx ? { ...img, src: e.target.value } : img))}
+                placeholder="Image URL"
+                style={inputStyle(!!errors.images[idx])}
+              />
+              <input
+                value={image.alt || ''}
+                onChange={(e) => setImages(prev => prev.map((img, i) => i === idx ? { ...img, alt: e.target.value } : img))}
+                placeholder="Alt text"
+                style={{ ...inputStyle(false), flex: '0 0 140px' }}
+              />
+              <button style={buttonStyle} onClick={() => setImages(prev => prev.filter((_, i) => i !== idx))} title="Remove image">✕</button>
+            </div>
+            {errorText(errors.images[idx])}
+          </div>
+        ))}
+        <button style={buttonStyle} onClick={() => setImages(prev => [...prev, { src: '' }])}>+ Add image</button>
+
+        <div style={sectionTitle}>Video</div>
+        <input
+          value={videoUrl}
+          onChange={(e) => setVideoUrl(e.target.value)}
+          placeholder="YouTube, Vimeo or .mp4 URL"
+          style={{ ...inputStyle(!!errors.video), width: '100%', boxSizing: 'border-box' }}
+        />
+        {errorText(errors.video)}
+        {video && (
+          <div style={{ fontSize: '11px', color: mutedColor, marginTop: '4px' }}>
+            {video.type === 'html5' ? 'Video file' : video.type === 'youtube' ? 'YouTube video' : 'Vimeo video'}
+          </div>
+        )}
+
+        {saveError && (
+          <div style={{ fontSize: '12px', color: '#ef4444', marginTop: '14px' }}>{saveError}</div>
+        )}
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', gap: '8px', marginTop: '20px' }}>
+          <button style={buttonStyle} onClick={onClose} disabled={saving}>Cancel</button>
+          <button
+            style={{ ...buttonStyle, color: '#3b82f6', opacity: hasErrors ? 0.5 : 1 }}
+            disabled={saving || hasErrors}
+            onClick={handleSave}
+          >
+            {saving ? 'Saving…' : 'Save'}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default NodePropertyEditor;
@@ -0,0 +1,81 @@
+// NoteSaveNotice.tsx
+// Sidebar notice for note edits that could not be saved
+// Shows each failed note with its error and lets the user retry or discard it
+
+import React from 'react';
+import type { NoteSaveFailure } from '../services/backend';
+
+// ============================================
+// Types
+// ============================================
+
+interface NoteSaveNoticeProps {
+  failures: NoteSaveFailure[];
+  describe: (failure: NoteSaveFailure) => string; // e.g. "Path notes: Intro"
+  darkMode: boolean;
+  onRetry: () => void;
+  onDiscard: (key: string) => void;
+}
+
+// ============================================
+// Component
+// ============================================
+
+export const NoteSaveNotice: React.FC<NoteSaveNoticeProps> = ({
+  failures,
+  describe,
+  darkMode,
+  onRetry,
+  onDiscard,
+}) => {
+  const linkStyle: React.CSSProperties = {
+    background: 'none',
+    border: 'none',
+    padding: 0,
+    fontSize: '10px',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        marginBottom: '6px',
+        padding: '8px 10px',
+        fontSize: '11px',
+        color: '#d97706',
+        background: 'rgba(245, 158, 11, 0.12)',
+        border: '1px solid rgba(245, 158, 11, 0.4)',
+        borderRadius: '8px',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+        <span style={{ flex: 1, fontWeight: 500 }}>
+          {failures.length === 1 ? 'A note edit was' : `${failures.length} note edits were`} not saved; retrying
+        </span>
+        <button onClick={onRetry} style={{ ...linkStyle, color: '#3b82f6' }}>
+          Retry now
+        </button>
+      </div>
+      {failures.map(failure => (
+        <div key={failure.key} style={{ display: 'flex', gap: '6px', marginTop: '4px', fontSize: '10px' }}>
+          <span
+            style={{ flex: 1, minWidth: 0, color: darkMode ? '#94a3b8' : '#64748b' }}
+            title={`${failure.attempts} ${failure.attempts === 1 ? 'attempt' : 'attempts'}; next at ${new Date(failure.nextRetryAt).toLocaleTimeString()}`}
+          >
+            {describe(failure)}: {failure.error}
+          </span>
+          <button
+            onClick={() => {
+              if (confirm('Discard this unsaved edit? The note shows its last saved version the next time it loads.')) onDiscard(failure.key);
+            }}
+            style={{ ...linkStyle, color: '#ef4444' }}
+          >
+            Discard
+          </button>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default NoteSaveNotice;
@@ -0,0 +1,190 @@
+// PathBulkActionBar.tsx
+// Actions for every path selected in the path list views
+// Shows which action is running and which paths it failed for
+
+import React from 'react';
+
+// ============================================
+// Types
+// ============================================
+
+// Outcome of the last bulk action
+export interface PathBulkReport {
+  action: string;
+  total: number;
+  succeeded: number;
+  queued: number; // Saved locally, not yet sent to Notion
+  failures: Array<{ name: string; error: string }>;
+}
+
+interface PathBulkActionBarProps {
+  count: number;
+  folders: Array<{ id: string; label: string }>; // In tree order, labels indented by depth
+  anyArchived: boolean;
+  anyActive: boolean; // Any selected path that is not archived
+  allFav: boolean;
+  running: string | null; // Label of the action in progress
+  report: PathBulkReport | null;
+  onArchive: (archived: boolean) => void;
+  onSetPriority: () => void;
+  onToggleFav: () => void;
+  onSetStatus: () => void;
+  onMoveToFolder: (folderId: string) => void; // '' moves the paths out of any folder
+  onDuplicate: () => void;
+  onExport: () => void;
+  onDelete: () => void;
+  onClear: () => void;
+  onDismissReport: () => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const buttonStyle: React.CSSProperties = {
+  display: 'flex',
+  alignItems: 'center',
+  gap: '4px',
+  padding: '4px 10px',
+  fontSize: '10px',
+  fontWeight: 500,
+  background: 'rgba(100,116,139,0.1)',
+  color: '#64748b',
+  border: 'none',
+  borderRadius: '4px',
+  cursor: 'pointer',
+  transition: 'all 0.15s ease',
+};
+
+// ============================================
+// Component
+// ============================================
+
+export const PathBulkActionBar: React.FC<PathBulkActionBarProps> = ({
+  count,
+  folders,
+  anyArchived,
+  anyActive,
+  allFav,
+  running,
+  report,
+  onArchive,
+  onSetPriority,
+  onToggleFav,
+  onSetStatus,
+  onMoveToFolder,
+  onDuplicate,
+  onExport,
+  onDelete,
+  onClear,
+  onDismissReport,
+}) => {
+  const busy = running !== null;
+
+  const action = (label: string, onClick: () => void, style?: React.CSSProperties) => (
+    <button
+      onClick={(e) => {
+        e.stopPropagation();
+        onClick();
+      }}
+      disabled={busy}
+      style={{ ...buttonStyle, ...style, opacity: busy ? 0.5 : 1, cursor: busy ? 'wait' : 'pointer' }}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div
+      style={{
+        display: 'flex',
+        flexDirection: 'column',
+        gap: '8px',
+        padding: '8px 12px',
+        marginBottom: '8px',
+        background: 'linear-gradient(135deg, rgba(59,130,246,0.08) 0%, rgba(99,102,241,0.08) 100%)',
+        borderRadius: '8px',
+        border: '1px solid rgba(59,130,246,0.2)',
+        flexShrink: 0,
+      }}
+    >
+      {count > 0 && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+            <span style={{ fontSize: '11px', fontWeight: 600, color: '#3b82f6' }}>
+              {count} selected
+            </span>
+            {running && (
+              <span style={{ fontSize: '10px', color: '#64748b' }}>{running}…</span>
+            )}
+            <div style={{ flex: 1 }} />
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onClear();
+              }}
+              disabled={busy}
+              style={{ ...buttonStyle, background: 'transparent', color: '#94a3b8', padding: '4px 8px' }}
+            >
+              ✕ Clear
+            </button>
+          </div>
+
+          <div style={{ display: 'flex', flexWrap: 'wrap', gap: '6px' }}>
+            {anyActive && action('Archive', () => onArchive(true))}
+            {anyArchived && action('Unarchive', () => onArchive(false), { color: '#16a34a' })}
+            {action('Priority…', onSetPriority)}
+            {action(allFav ? '☆ Unfavourite' : '★ Favourite', onToggleFav)}
+            {action('Status…', onSetStatus)}
+            <select
+              value=""
+              disabled={busy}
+              onClick={(e) => e.stopPropagation()}
+              onChange={(e) => {
+                if (e.target.value) onMoveToFolder(e.target.value === '__unfiled' ? '' : e.target.value);
+              }}
+              style={{ ...buttonStyle, padding: '3px 6px', opacity: busy ? 0.5 : 1 }}
+            >
+              <option value="">Move to…</option>
+              <option value="__unfiled">Unfiled</option>
+              {folders.map(folder => (
+                <option key={folder.id} value={folder.id}>{folder.label}</option>
+              ))}
+            </select>
+            {action('Duplicate', onDuplicate)}
+            {action('Export', onExport)}
+            {action('Delete', onDelete, { background: 'rgba(239,68,68,0.1)', color: '#ef4444' })}
+          </div>
+        </>
+      )}
+
+      {report && (
+        <div style={{ fontSize: '10px', color: report.failures.length > 0 ? '#b45309' : '#16a34a' }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: '6px' }}>
+            <span style={{ flex: 1 }}>
+              {report.action}: {report.succeeded} of {report.total} done
+              {report.queued > 0 && ` · ${report.queued} not sent yet; see unsynced changes`}
+              {report.failures.length > 0 && ` · ${report.failures.length} failed and ${report.failures.length === 1 ? 'stays' : 'stay'} selected`}
+            </span>
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                onDismissReport();
+              }}
+              style={{ background: 'none', border: 'none', padding: 0, color: '#94a3b8', cursor: 'pointer', fontSize: '10px' }}
+            >
+              Dismiss
+            </button>
+          </div>
+          {report.failures.map(failure => (
+            <div key={failure.name} style={{ color: '#ef4444', marginTop: '2px' }}>
+              {failure.name}: {failure.error}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PathBulkActionBar;
@@ -0,0 +1,237 @@
+// PathComparePanel.tsx
+// Picks two paths to compare, summarises their overlap and shows each
+// node's notes from both paths side by side
+
+import React from 'react';
+import {
+  MEMBERSHIP_COLORS,
+  MEMBERSHIP_LABELS,
+  type PathComparison,
+  type PathMembership,
+} from '../services/pathCompare';
+
+// ============================================
+// Types
+// ============================================
+
+interface PathComparePanelProps {
+  paths: Array<{ id: string; name: string }>;
+  pathAId: string | null;
+  pathBId: string | null;
+  comparison: PathComparison | null; // null until both paths are picked
+  nodeLabels: Record<string, string>; // nodeId -> label
+  notesA: Record<string, string>; // nodeId -> note HTML
+  notesB: Record<string, string>;
+  darkMode: boolean;
+  onChange: (pathAId: string | null, pathBId: string | null) => void;
+  onFocusNode: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+// Notes are stored as HTML; show them as plain text
+function noteToText(html: string | undefined): string {
+  if (!html) return '';
+  const withBreaks = html
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h[1-6])>/gi, '\n');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent || '';
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const MEMBERSHIP_ORDER: PathMembership[] = ['both', 'a', 'b'];
+
+// ============================================
+// Component
+// ============================================
+
+export const PathComparePanel: React.FC<PathComparePanelProps> = ({
+  paths,
+  pathAId,
+  pathBId,
+  comparison,
+  nodeLabels,
+  notesA,
+  notesB,
+  darkMode,
+  onChange,
+  onFocusNode,
+  onClose,
+}) => {
+  const textColor = darkMode ? '#f1f5f9' : '#1e293b';
+  const mutedColor = darkMode ? '#94a3b8' : '#64748b';
+  const borderColor = darkMode ? 'rgba(148, 163, 184, 0.15)' : '#e2e8f0';
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '11px',
+    fontWeight: 500,
+    background: darkMode ? 'rgba(148, 163, 184, 0.1)' : 'rgba(100, 116, 139, 0.08)',
+    color: darkMode ? '#e2e8f0' : '#334155',
+    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  };
+  const selectStyle: React.CSSProperties = {
+    flex: 1,
+    minWidth: 0,
+    padding: '6px 8px',
+    fontSize: '12px',
+    color: textColor,
+    background: darkMode ? 'rgba(15, 23, 42, 0.6)' : '#ffffff',
+    border: `1px solid ${borderColor}`,
+    borderRadius: '6px',
+  };
+
+  const pathPicker = (label: 'A' | 'B', value: string | null, membership: PathMembership) => (
+    <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '8px' }}>
+      <span style={{
+        width: '18px',
+        height: '18px',
+        borderRadius: '50%',
+        background: MEMBERSHIP_COLORS[membership],
+        color: '#ffffff',
+        fontSize: '10px',
+        fontWeight: 700,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        flexShrink: 0,
+      }}>
+        {label}
+      </span>
+      <select
+        value={value || ''}
+        onChange={(e) => {
+          const id = e.target.value || null;
+          if (label === 'A') onChange(id, pathBId);
+          else onChange(pathAId, id);
+        }}
+        style={selectStyle}
+      >
+        <option value="">Choose a path…</option>
+        {paths.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+      </select>
+    </div>
+  );
+
+  const rows = comparison
+    ? MEMBERSHIP_ORDER.flatMap(membership => {
+        const ids = membership === 'both' ? comparison.both : membership === 'a' ? comparison.onlyA : comparison.onlyB;
+        return ids.map(id => ({ id, membership }));
+      })
+    : [];
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        top: '16px',
+        right: '16px',
+        bottom: '16px',
+        width: '420px',
+        maxWidth: '92vw',
+        zIndex: 9000,
+        display: 'flex',
+        flexDirection: 'column',
+        padding: '20px',
+        borderRadius: '16px',
+        background: darkMode
+          ? 'linear-gradient(145deg, #1e293b 0%, #0f172a 100%)'
+          : 'linear-gradient(145deg, #ffffff 0%, #f8fafc 100%)',
+        boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35)',
+        border: darkMode ? '1px solid rgba(148, 163, 184, 0.1)' : '1px solid rgba(226, 232, 240, 0.8)',
+      }}
+    >
+      <div style={{ display: 'flex', alignItems: 'center', gap: '8px', marginBottom: '14px' }}>
+        <h2 style={{ margin: 0, fontSize: '16px', fontWeight: 600, color: textColor, flex: 1 }}>Compare paths</h2>
+        <button
+          style={buttonStyle}
+          onClick={() => onChange(pathBId, pathAId)}
+          disabled={!pathAId && !pathBId}
+          title="Swap A and B"
+        >
+          Swap
+        </button>
+        <button style={buttonStyle} onClick={onClose}>Close</button>
+      </div>
+
+      {pathPicker('A', pathAId, 'a')}
+      {pathPicker('B', pathBId, 'b')}
+
+      {comparison && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: '12px', fontSize: '12px', color: textColor, margin: '6px 0 12px' }}>
+          {(['a', 'b', 'both'] as const).map(membership => (
+            <span key={membership} style={{ display: 'flex', alignItems: 'center', gap: '5px' }}>
+              <span style={{ width: '8px', height: '8px', borderRadius: '50%', background: MEMBERSHIP_COLORS[membership] }} />
+              {MEMBERSHIP_LABELS[membership]}: {membership === 'a' ? comparison.onlyA.length : membership === 'b' ? comparison.onlyB.length : comparison.both.length}
+            </span>
+          ))}
+          <span style={{ color: mutedColor }}>Overlap (Jaccard): {Math.round(comparison.jaccard * 100)}%</span>
+        </div>
+      )}
+
+      <div style={{ overflowY: 'auto', flex: 1 }}>
+        {!comparison && (
+          <div style={{ fontSize: '12px', color: mutedColor }}>Pick two paths to compare their nodes and notes.</div>
+        )}
+        {comparison && rows.length === 0 && (
+          <div style={{ fontSize: '12px', color: mutedColor }}>Neither path has any nodes yet.</div>
+        )}
+        {rows.map(({ id, membership }) => {
+          const noteA = noteToText(notesA[id]);
+          const noteB = noteToText(notesB[id]);
+          const noteStyle: React.CSSProperties = {
+            flex: 1,
+            minWidth: 0,
+            fontSize: '11px',
+            lineHeight: 1.5,
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+            color: textColor,
+          };
+          return (
+            <div
+              key={id}
+              style={{
+                padding: '8px 10px',
+                marginBottom: '6px',
+                borderRadius: '8px',
+                background: darkMode ? 'rgba(15, 23, 42, 0.5)' : '#ffffff',
+                border: `1px solid ${borderColor}`,
+                borderLeftWidth: '3px',
+                borderLeftColor: MEMBERSHIP_COLORS[membership],
+              }}
+            >
+              <div style={{ display: 'flex', alignItems: 'center', gap: '6px', marginBottom: '6px' }}>
+                <button
+                  onClick={() => onFocusNode(id)}
+                  style={{ background: 'none', border: 'none', padding: 0, cursor: 'pointer', fontSize: '12px', fontWeight: 600, color: textColor, textAlign: 'left', flex: 1 }}
+                  title="Show on the canvas"
+                >
+                  {nodeLabels[id] || id}
+                </button>
+                <span style={{ fontSize: '10px', color: MEMBERSHIP_COLORS[membership], fontWeight: 600 }}>
+                  {MEMBERSHIP_LABELS[membership]}
+                </span>
+              </div>
+              <div style={{ display: 'flex', gap: '10px' }}>
+                {membership === 'b' ? <div style={noteStyle} /> : (
+                  <div style={{ ...noteStyle, color: noteA ? textColor : mutedColor }}>{noteA || 'No note'}</div>
+                )}
+                <div style={{ width: '1px', background: borderColor }} />
+                {membership === 'a' ? <div style={noteStyle} /> : (
+                  <div style={{ ...noteStyle, color: noteB ? textColor : mutedColor }}>{noteB || 'No note'}</div>
+                )}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default PathComparePanel;
@@ -0,0 +1,292 @@
+// PathHistoryPanel.tsx
+// Lists the revisions of a path with what changed in each
+// Lets the user restore any earlier revision
+
+import React, { useEffect, useState } from 'react';
+import type { PathHistory, PathRevision, RevisionReason } from '../services/backend';
+import { changedNoteIds, diffLines, diffNodeIds, type DiffLine } from '../services/history';
+
+// ============================================
+// Types
+// ============================================
+
+interface PathHistoryPanelProps {
+  history: PathHistory;
+  pathId: string;
+  pathName: string;
+  nodeLabels: Record<string, string>; // nodeId -> label
+  darkMode: boolean;
+  onRestored: (revision: PathRevision) => void;
+  onClose: () => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const REASON_LABELS: Record<RevisionReason, string> = {
+  baseline: 'Earliest recorded version',
+  nodes: 'Changed nodes',
+  notes: 'Edited path notes',
+  nodeNote: 'Edited node notes',
+  restore: 'Restored',
+};
+
+// Notes are stored as HTML; compare them as text lines
+function noteToText(html: string): string {
+  const withBreaks = (html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(div|p|li|h[1-6])>/gi, '\n');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent || '';
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
+
+const LINE_COLORS: Record<DiffLine['type'], { color: string; background: string; prefix: string }> = {
+  same: { color: 'inherit', background: 'transparent', prefix: ' ' },
+  added: { color: '#16a34a', background: 'rgba(34, 197, 94, 0.1)', prefix: '+' },
+  removed: { color: '#dc2626', background: 'rgba(239, 68, 68, 0.1)', prefix: '−' },
+};
+
+const TextDiff: React.FC<{ before: string; after: string }> = ({ before, after }) => (
+  <div style={{ fontFamily: 'ui-monospace, SFMono-Regular, Menlo, monospace', fontSize: '11px', lineHeight: 1.5 }}>
+    {diffLines(noteToText(before), noteToText(after)).map((line, i) => (
+      <div
+        key={i}
+        style={{
+          color: LINE_COLORS[line.type].color,
+          background: LINE_COLORS[line.type].background,
+          padding: '0 6px',
+          whiteSpace: 'pre-wrap',
+          wordBreak: 'break-word',
+        }}
+      >
+        {LINE_COLORS[line.type].prefix} {line.text}
+      </div>
+    ))}
+  </div>
+);
+
+// ============================================
+// Component
+// ============================================
+
+export const PathHistoryPanel: React.FC<PathHistoryPanelProps> = ({
+  history,
+  pathId,
+  pathName,
+  nodeLabels,
+  darkMode,
+  onRestored,
+  onClose,
+}) => {
+  const [revisions, setRevisions] = useState<PathRevision[]>([]);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [restoring, setRestoring] = useState(false);
+
+  useEffect(() => {
+    const load = () => {
+      history.list(pathId).then(setRevisions, (error) => {
+        console.error('Failed to load path history:', error);
+      });
+    };
+    load();
+    return history.subscribe((changedPathId) => {
+      if (changedPathId === pathId) load();
+    });
+  }, [history, pathId]);
+
+  const selected = revisions.find(r => r.id === selectedId) ?? revisions[0];
+  const previous = selected ? revisions[revisions.indexOf(selected) + 1] : undefined;
+  const isLatest = selected === revisions[0];
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    if (!confirm(`Restore "${pathName}" to the version from ${new Date(selected.createdAt).toLocaleString()}?`)) return;
+    setRestoring(true);
+    try {
+      const revision = await history.restore(pathId, selected.id);
+      setSelectedId(revision.id);
+      onRestored(revision);
+    } catch (error) {
+      console.error('Failed to restore revision:', error);
+      alert(`Could not restore this version: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setRestoring(false);
+    }
+  };
+
+  const textColor = darkMode ? '#f1f5f9' : '#1e293b';
+  const mutedColor = darkMode ? '#94a3b8' : '#64748b';
+  const borderColor = darkMode ? 'rgba(148, 163, 184, 0.15)' : '#e2e8f0';
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '11px',
+    fontWeight: 500,
+    background: darkMode ? 'rgba(148, 163, 184, 0.1)' : 'rgba(100, 116, 139, 0.08)',
+    color: darkMode ? '#e2e8f0' : '#334155',
+    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  };
+  const sectionTitle: React.CSSProperties = {
+    fontSize: '11px',
+    fontWeight: 600,
+    color: mutedColor,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    margin: '14px 0 6px',
+  };
+
+  const nodeChanges = selected && previous ? diffNodeIds(previous.nodeIds, selected.nodeIds) : null;
+  const noteChanged = selected && previous ? previous.notes !== selected.notes : false;
+  const changedNotes = selected && previous ? changedNoteIds(previous.nodeNotes, selected.nodeNotes) : [];
+
+  const summarize = (revision: PathRevision, index: number): string => {
+    const before = revisions[index + 1];
+    if (!before) return `${revision.nodeIds.length} nodes`;
+    const { added, removed } = diffNodeIds(before.nodeIds, revision.nodeIds);
+    const parts: string[] = [];
+    if (added.length || removed.length) parts.push(`+${added.length} −${removed.length} nodes`);
+    if (before.notes !== revision.notes) parts.push('notes');
+    const notes = changedNoteIds(before.nodeNotes, revision.nodeNotes).length;
+    if (notes) parts.push(`${notes} node ${notes === 1 ? 'note' : 'notes'}`);
+    return parts.join(' · ') || 'No changes';
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: darkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(15, 23, 42, 0.4)',
+        backdropFilter: 'blur(12px)',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: darkMode
+            ? 'linear-gradient(145deg, #1e293b 0%, #0f172a 100%)'
+            : 'linear-gradient(145deg, #ffffff 0%, #f8fafc 100%)',
+          borderRadius: '20px',
+          padding: '28px',
+          width: '860px',
+          maxWidth: '92vw',
+          height: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35)',
+          border: darkMode ? '1px solid rgba(148, 163, 184, 0.1)' : '1px solid rgba(226, 232, 240, 0.8)',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '18px' }}>
+          <div>
+            <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600, color: textColor }}>History</h2>
+            <div style={{ fontSize: '12px', color: mutedColor, marginTop: '2px' }}>{pathName}</div>
+          </div>
+          <button onClick={onClose} style={buttonStyle}>Close</button>
+        </div>
+
+        {revisions.length === 0 ? (
+          <div style={{ fontSize: '13px', color: mutedColor, padding: '12px 0' }}>
+            No changes recorded for this path yet.
+          </div>
+        ) : (
+          <div style={{ flex: 1, minHeight: 0, display: 'flex', gap: '16px' }}>
+            {/* Revision list */}
+            <div style={{ width: '260px', flexShrink: 0, overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '6px' }}>
+              {revisions.map((revision, index) => (
+                <div
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  style={{
+                    padding: '8px 10px',
+                    borderRadius: '10px',
+                    cursor: 'pointer',
+                    border: `1px solid ${revision === selected ? '#3b82f6' : borderColor}`,
+                    background: revision === selected ? 'rgba(59, 130, 246, 0.08)' : 'transparent',
+                  }}
+                >
+                  <div style={{ fontSize: '12px', fontWeight: 600, color: textColor }}>
+                    {REASON_LABELS[revision.reason]}
+                    {revision.reason === 'nodeNote' && revision.nodeId ? `: ${nodeLabels[revision.nodeId] || revision.nodeId}` : ''}
+                  </div>
+                  <div style={{ fontSize: '10px', color: mutedColor, marginTop: '2px' }}>
+                    {new Date(revision.createdAt).toLocaleString()} · {summarize(revision, index)}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {/* Selected revision */}
+            {selected && (
+              <div style={{ flex: 1, minWidth: 0, overflowY: 'auto', color: textColor }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <div style={{ flex: 1, fontSize: '13px', fontWeight: 600 }}>
+                    {new Date(selected.createdAt).toLocaleString()}
+                  </div>
+                  <button
+                    style={{ ...buttonStyle, color: '#3b82f6' }}
+                    disabled={restoring || isLatest}
+                    onClick={handleRestore}
+                    title={isLatest ? 'This is the current version' : 'Bring back this version'}
+                  >
+                    {restoring ? 'Restoring…' : 'Restore this version'}
+                  </button>
+                </div>
+
+                {!previous ? (
+                  <>
+                    <div style={sectionTitle}>Nodes ({selected.nodeIds.length})</div>
+                    <div style={{ fontSize: '12px' }}>
+                      {selected.nodeIds.map(id => nodeLabels[id] || id).join(', ') || '—'}
+                    </div>
+                  </>
+                ) : (
+                  <>
+                    {nodeChanges && (nodeChanges.added.length > 0 || nodeChanges.removed.length > 0) && (
+                      <>
+                        <div style={sectionTitle}>Nodes</div>
+                        {nodeChanges.added.map(id => (
+                          <div key={`+${id}`} style={{ fontSize: '12px', color: LINE_COLORS.added.color }}>+ {nodeLabels[id] || id}</div>
+                        ))}
+                        {nodeChanges.removed.map(id => (
+                          <div key={`-${id}`} style={{ fontSize: '12px', color: LINE_COLORS.removed.color }}>− {nodeLabels[id] || id}</div>
+                        ))}
+                      </>
+                    )}
+                    {noteChanged && (
+                      <>
+                        <div style={sectionTitle}>Path notes</div>
+                        <TextDiff before={previous.notes} after={selected.notes} />
+                      </>
+                    )}
+                    {changedNotes.map(nodeId => (
+                      <React.Fragment key={nodeId}>
+                        <div style={sectionTitle}>Note · {nodeLabels[nodeId] || nodeId}</div>
+                        <TextDiff before={previous.nodeNotes[nodeId] || ''} after={selected.nodeNotes[nodeId] || ''} />
+                      </React.Fragment>
+                    ))}
+                    {!noteChanged && changedNotes.length === 0 && nodeChanges?.added.length === 0 && nodeChanges.removed.length === 0 && (
+                      <div style={{ fontSize: '12px', color: mutedColor, marginTop: '14px' }}>
+                        Same as the previous version.
+                      </div>
+                    )}
+                  </>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PathHistoryPanel;
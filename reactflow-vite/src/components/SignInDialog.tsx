@@ -0,0 +1,109 @@
+// SignInDialog.tsx
+// Asks for an access key when the API reports the session is missing or expired
+
+import React, { useState } from 'react';
+import { signIn } from '../services/auth';
+
+interface SignInDialogProps {
+  darkMode: boolean;
+  onSignedIn: (userId: string | null) => void;
+}
+
+export const SignInDialog: React.FC<SignInDialogProps> = ({ darkMode, onSignedIn }) => {
+  const [accessKey, setAccessKey] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!accessKey.trim()) return;
+    setSubmitting(true);
+    setError(null);
+    try {
+      const session = await signIn(accessKey.trim());
+      onSignedIn(session.userId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Sign in failed');
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: darkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(15, 23, 42, 0.4)',
+        backdropFilter: 'blur(12px)',
+      }}
+    >
+      <form
+        onSubmit={handleSubmit}
+        style={{
+          background: darkMode
+            ? 'linear-gradient(145deg, #1e293b 0%, #0f172a 100%)'
+            : 'linear-gradient(145deg, #ffffff 0%, #f8fafc 100%)',
+          borderRadius: '20px',
+          padding: '32px',
+          width: '340px',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35)',
+          border: darkMode ? '1px solid rgba(148, 163, 184, 0.1)' : '1px solid rgba(226, 232, 240, 0.8)',
+        }}
+      >
+        <h2 style={{ margin: '0 0 8px', fontSize: '18px', fontWeight: 600, color: darkMode ? '#f1f5f9' : '#1e293b' }}>
+          Sign in
+        </h2>
+        <div style={{ fontSize: '12px', color: darkMode ? '#94a3b8' : '#64748b', marginBottom: '18px' }}>
+          Enter your access key to load and save your paths.
+        </div>
+        <input
+          type="password"
+          autoFocus
+          value={accessKey}
+          onChange={(e) => setAccessKey(e.target.value)}
+          placeholder="Access key"
+          style={{
+            width: '100%',
+            boxSizing: 'border-box',
+            padding: '10px 12px',
+            fontSize: '13px',
+            borderRadius: '10px',
+            border: darkMode ? '1px solid rgba(148, 163, 184, 0.25)' : '1px solid #e2e8f0',
+            background: darkMode ? 'rgba(15, 23, 42, 0.6)' : '#ffffff',
+            color: darkMode ? '#f1f5f9' : '#1e293b',
+            outline: 'none',
+          }}
+        />
+        {error && (
+          <div style={{ fontSize: '12px', color: '#ef4444', marginTop: '8px' }}>{error}</div>
+        )}
+        <button
+          type="submit"
+          disabled={submitting || !accessKey.trim()}
+          style={{
+            width: '100%',
+            marginTop: '16px',
+            padding: '10px 12px',
+            fontSize: '13px',
+            fontWeight: 600,
+            color: '#ffffff',
+            background: 'linear-gradient(135deg, #3b82f6 0%, #2563eb 100%)',
+            border: 'none',
+            borderRadius: '10px',
+            cursor: submitting ? 'wait' : 'pointer',
+            opacity: submitting || !accessKey.trim() ? 0.6 : 1,
+          }}
+        >
+          {submitting ? 'Signing in…' : 'Sign in'}
+        </button>
+      </form>
+    </div>
+  );
+};
+
+export default SignInDialog;
@@ -0,0 +1,260 @@
+// SyncOutboxPanel.tsx
+// Lists local changes that have not reached the backend yet
+// Lets the user retry or discard entries and settle conflicts
+
+import React, { useEffect, useState } from 'react';
+import type { ConflictResolution, SyncOutbox } from '../services/backend';
+import type { PendingChange } from '../services/notion';
+
+// ============================================
+// Types
+// ============================================
+
+interface SyncOutboxPanelProps {
+  outbox: SyncOutbox;
+  darkMode: boolean;
+  pathNames: Record<string, string>; // pathId -> display name
+  onClose: () => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const METHOD_LABELS: Record<string, string> = {
+  saveNode: 'Save node',
+  deleteNode: 'Delete node',
+  createCategory: 'Create folder',
+  deleteCategory: 'Delete folder',
+  updateCategory: 'Update folder',
+  savePath: 'Save path',
+  updatePathNodes: 'Change path nodes',
+  updatePathCategory: 'Move path',
+  updatePathPriority: 'Change priority',
+  updatePathFav: 'Toggle favourite',
+  updatePathTemplate: 'Toggle template',
+  updatePathStatus: 'Change status',
+  updatePathLayout: 'Save path layout',
+  renamePath: 'Rename path',
+  savePathNotes: 'Edit path notes',
+  deletePath: 'Delete path',
+  saveNodePath: 'Edit node note',
+  deleteNodePathsForPath: 'Delete node notes',
+  deleteNodePath: 'Delete node note',
+  restoreRecords: 'Restore from trash',
+  saveNodePathAudioNote: 'Add node voice note',
+  savePathAudioNote: 'Add path voice note',
+};
+
+function describeTarget(change: PendingChange, pathNames: Record<string, string>): string {
+  const args = change.data as unknown[];
+  switch (change.entity) {
+    case 'path':
+      return pathNames[change.targetId] || change.targetId;
+    case 'nodePath': {
+      const pathId = change.method === 'saveNodePath'
+        ? (args[0] as { pathId: string }).pathId
+        : change.method === 'restoreRecords'
+          ? (args[1] as Array<{ pathId: string }>)[0].pathId
+          : change.method === 'saveNodePathAudioNote' ? args[1] as string : change.targetId;
+      return pathNames[pathId] || pathId;
+    }
+    case 'category':
+      if (change.method === 'restoreRecords') return (args[1] as Array<{ name: string }>)[0].name;
+      return change.method === 'createCategory' ? String(args[0]) : 'Folder';
+    default:
+      return change.targetId;
+  }
+}
+
+const STATUS_COLORS: Record<PendingChange['status'], string> = {
+  pending: '#3b82f6',
+  failed: '#ef4444',
+  conflict: '#f59e0b',
+};
+
+// ============================================
+// Component
+// ============================================
+
+export const SyncOutboxPanel: React.FC<SyncOutboxPanelProps> = ({
+  outbox,
+  darkMode,
+  pathNames,
+  onClose,
+}) => {
+  const [changes, setChanges] = useState<PendingChange[]>([]);
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  useEffect(() => outbox.subscribe(setChanges), [outbox]);
+
+  const run = async (changeId: string, action: () => Promise<void>) => {
+    setBusyId(changeId);
+    try {
+      await action();
+    } catch (error) {
+      console.error('Sync outbox action failed:', error);
+      alert(`Could not complete the action: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const resolve = (change: PendingChange, resolution: ConflictResolution) =>
+    run(change.id, () => outbox.resolveConflict(change.id, resolution));
+
+  const textColor = darkMode ? '#f1f5f9' : '#1e293b';
+  const mutedColor = darkMode ? '#94a3b8' : '#64748b';
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '11px',
+    fontWeight: 500,
+    background: darkMode ? 'rgba(148, 163, 184, 0.1)' : 'rgba(100, 116, 139, 0.08)',
+    color: darkMode ? '#e2e8f0' : '#334155',
+    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 9999,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: darkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(15, 23, 42, 0.4)',
+        backdropFilter: 'blur(12px)',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: darkMode
+            ? 'linear-gradient(145deg, #1e293b 0%, #0f172a 100%)'
+            : 'linear-gradient(145deg, #ffffff 0%, #f8fafc 100%)',
+          borderRadius: '20px',
+          padding: '28px',
+          width: '480px',
+          maxWidth: '90vw',
+          maxHeight: '80vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35)',
+          border: darkMode ? '1px solid rgba(148, 163, 184, 0.1)' : '1px solid rgba(226, 232, 240, 0.8)',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between', marginBottom: '18px' }}>
+          <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600, color: textColor }}>
+            Unsynced changes
+          </h2>
+          <button onClick={onClose} style={buttonStyle}>Close</button>
+        </div>
+
+        {changes.length === 0 ? (
+          <div style={{ fontSize: '13px', color: mutedColor, padding: '12px 0' }}>
+            All changes are saved.
+          </div>
+        ) : (
+          <div style={{ overflowY: 'auto', display: 'flex', flexDirection: 'column', gap: '8px' }}>
+            {changes.map(change => (
+              <div
+                key={change.id}
+                style={{
+                  padding: '10px 12px',
+                  borderRadius: '10px',
+                  border: darkMode ? '1px solid rgba(148, 163, 184, 0.15)' : '1px solid #e2e8f0',
+                  opacity: busyId === change.id ? 0.5 : 1,
+                }}
+              >
+                <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+                  <span
+                    style={{
+                      width: '8px',
+                      height: '8px',
+                      borderRadius: '50%',
+                      background: STATUS_COLORS[change.status],
+                      flexShrink: 0,
+                    }}
+                  />
+                  <span style={{ fontSize: '12px', fontWeight: 600, color: textColor }}>
+                    {METHOD_LABELS[change.method] || change.method}
+                  </span>
+                  <span style={{ fontSize: '12px', color: mutedColor, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                    {describeTarget(change, pathNames)}
+                  </span>
+                  <span style={{ marginLeft: 'auto', fontSize: '10px', color: mutedColor, flexShrink: 0 }}>
+                    {change.timestamp.toLocaleString()}
+                  </span>
+                </div>
+
+                {change.status === 'pending' && change.retries > 0 && (
+                  <div style={{ fontSize: '11px', color: mutedColor, marginTop: '4px' }}>
+                    Retrying (attempt {change.retries + 1}){change.error ? ` — ${change.error}` : ''}
+                  </div>
+                )}
+                {change.status === 'failed' && (
+                  <div style={{ fontSize: '11px', color: STATUS_COLORS.failed, marginTop: '4px' }}>
+                    Failed after {change.retries} {change.retries === 1 ? 'attempt' : 'attempts'}: {change.error}
+                  </div>
+                )}
+                {change.status === 'conflict' && (
+                  <div style={{ fontSize: '11px', color: STATUS_COLORS.conflict, marginTop: '4px' }}>
+                    {change.conflict?.remoteVersion
+                      ? `Edited elsewhere on ${new Date(change.conflict.remoteVersion).toLocaleString()}`
+                      : 'Deleted elsewhere'}
+                  </div>
+                )}
+
+                <div style={{ display: 'flex', gap: '6px', marginTop: '8px', justifyContent: 'flex-end' }}>
+                  {change.status === 'conflict' ? (
+                    <>
+                      <button style={buttonStyle} disabled={busyId !== null} onClick={() => resolve(change, 'mine')}>
+                        Keep mine
+                      </button>
+                      <button style={buttonStyle} disabled={busyId !== null} onClick={() => resolve(change, 'theirs')}>
+                        Keep theirs
+                      </button>
+                      {change.conflict?.remote != null && change.type !== 'delete' && (
+                        <button style={buttonStyle} disabled={busyId !== null} onClick={() => resolve(change, 'merge')}>
+                          Merge
+                        </button>
+                      )}
+                    </>
+                  ) : (
+                    <>
+                      <button
+                        style={buttonStyle}
+                        disabled={busyId !== null}
+                        onClick={() => run(change.id, () => outbox.retry(change.id))}
+                      >
+                        Retry
+                      </button>
+                      <button
+                        style={{ ...buttonStyle, color: STATUS_COLORS.failed }}
+                        disabled={busyId !== null}
+                        onClick={() => {
+                          if (confirm('Discard this change? It will not be saved.')) {
+                            run(change.id, () => outbox.discard(change.id));
+                          }
+                        }}
+                      >
+                        Discard
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncOutboxPanel;
@@ -0,0 +1,250 @@
+// TrashPanel.tsx
+// Lists deleted paths, folders and node notes with when they were deleted
+// Lets the user search them, restore them or purge them for good
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { Trash, TrashItem, TrashItemKind } from '../services/backend';
+import { matchesTrashQuery } from '../services/trash';
+
+// ============================================
+// Types
+// ============================================
+
+interface TrashPanelProps {
+  trash: Trash;
+  darkMode: boolean;
+  onRestored: (item: TrashItem) => void;
+  onClose: () => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const KIND_LABELS: Record<TrashItemKind, string> = {
+  path: 'Path',
+  category: 'Folder',
+  nodePath: 'Note',
+};
+
+function describeItem(item: TrashItem): string {
+  switch (item.kind) {
+    case 'path': {
+      const count = item.nodePaths.length;
+      const nodes = item.path ? `${item.path.nodeIds.length} ${item.path.nodeIds.length === 1 ? 'node' : 'nodes'}` : 'Notes only';
+      return count > 0 ? `${nodes}, ${count} ${count === 1 ? 'note' : 'notes'}` : nodes;
+    }
+    case 'category': {
+      const count = item.pathIds?.length ?? 0;
+      return count > 0 ? `Held ${count} ${count === 1 ? 'path' : 'paths'}` : 'Empty folder';
+    }
+    case 'nodePath':
+      return 'Node note';
+  }
+}
+
+// ============================================
+// Component
+// ============================================
+
+export const TrashPanel: React.FC<TrashPanelProps> = ({
+  trash,
+  darkMode,
+  onRestored,
+  onClose,
+}) => {
+  const [items, setItems] = useState<TrashItem[] | null>(null); // null until loaded
+  const [query, setQuery] = useState('');
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const load = useCallback(() => {
+    trash.list().then(setItems).catch(err => {
+      console.error('Failed to load trash:', err);
+      setItems([]);
+    });
+  }, [trash]);
+
+  useEffect(() => {
+    load();
+    return trash.subscribe(load);
+  }, [trash, load]);
+
+  const run = async (itemId: string, action: () => Promise<void>) => {
+    setBusyId(itemId);
+    setError(null);
+    try {
+      await action();
+    } catch (err) {
+      console.error('Trash action failed:', err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const restore = (item: TrashItem) => run(item.id, async () => {
+    onRestored(await trash.restore(item.id));
+  });
+
+  const purge = (item: TrashItem) => {
+    if (!confirm(`Permanently delete "${item.name}"? It can no longer be restored.`)) return;
+    void run(item.id, () => trash.purge(item.id));
+  };
+
+  const visible = (items || []).filter(item => matchesTrashQuery(item, query));
+
+  const purgeAll = () => {
+    if (!confirm(`Permanently delete ${visible.length === 1 ? 'this item' : `these ${visible.length} items`}? They can no longer be restored.`)) return;
+    void run('*', async () => {
+      for (const item of visible) await trash.purge(item.id);
+    });
+  };
+
+  const textColor = darkMode ? '#f1f5f9' : '#1e293b';
+  const mutedColor = darkMode ? '#94a3b8' : '#64748b';
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '11px',
+    fontWeight: 500,
+    background: darkMode ? 'rgba(148, 163, 184, 0.1)' : 'rgba(100, 116, 139, 0.08)',
+    color: darkMode ? '#e2e8f0' : '#334155',
+    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+    borderRadius: '6px',
+    cursor: 'pointer',
+  };
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: darkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(15, 23, 42, 0.4)',
+        backdropFilter: 'blur(12px)',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !busyId) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: darkMode
+            ? 'linear-gradient(145deg, #1e293b 0%, #0f172a 100%)'
+            : 'linear-gradient(145deg, #ffffff 0%, #f8fafc 100%)',
+          borderRadius: '20px',
+          padding: '28px',
+          width: '600px',
+          maxWidth: '92vw',
+          maxHeight: '86vh',
+          display: 'flex',
+          flexDirection: 'column',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35)',
+          border: darkMode ? '1px solid rgba(148, 163, 184, 0.1)' : '1px solid rgba(226, 232, 240, 0.8)',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', gap: '8px' }}>
+          <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600, color: textColor, flex: 1 }}>Trash</h2>
+          {visible.length > 0 && (
+            <button style={{ ...buttonStyle, color: '#ef4444' }} disabled={busyId !== null} onClick={purgeAll}>
+              {query.trim() ? 'Purge matches' : 'Empty trash'}
+            </button>
+          )}
+          <button onClick={onClose} style={buttonStyle} disabled={busyId !== null}>Close</button>
+        </div>
+
+        <div style={{ fontSize: '11px', color: mutedColor, marginTop: '6px' }}>
+          Lists what was deleted in this browser. Deletions made on another device or
+          in Notion aren't listed, and clearing this browser's data empties the list;
+          restore those from the Notion trash instead.
+        </div>
+
+        <input
+          type="search"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search deleted paths, folders and notes…"
+          style={{
+            margin: '14px 0 10px',
+            padding: '8px 10px',
+            fontSize: '12px',
+            color: textColor,
+            background: darkMode ? 'rgba(15, 23, 42, 0.6)' : '#ffffff',
+            border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+            borderRadius: '8px',
+            outline: 'none',
+          }}
+        />
+
+        {error && (
+          <div style={{ fontSize: '12px', color: '#ef4444', marginBottom: '10px' }}>{error}</div>
+        )}
+
+        <div style={{ overflowY: 'auto', flex: 1 }}>
+          {items === null && (
+            <div style={{ fontSize: '12px', color: mutedColor }}>Loading…</div>
+          )}
+          {items !== null && visible.length === 0 && (
+            <div style={{ fontSize: '12px', color: mutedColor }}>
+              {items.length === 0 ? 'The trash is empty.' : 'Nothing in the trash matches your search.'}
+            </div>
+          )}
+          {visible.map(item => (
+            <div
+              key={item.id}
+              style={{
+                display: 'flex',
+                alignItems: 'center',
+                gap: '10px',
+                padding: '10px 12px',
+                marginBottom: '8px',
+                borderRadius: '10px',
+                background: darkMode ? 'rgba(15, 23, 42, 0.5)' : '#ffffff',
+                border: darkMode ? '1px solid rgba(148, 163, 184, 0.15)' : '1px solid #e2e8f0',
+              }}
+            >
+              <span style={{
+                fontSize: '10px',
+                fontWeight: 600,
+                color: mutedColor,
+                textTransform: 'uppercase',
+                letterSpacing: '0.5px',
+                width: '44px',
+                flexShrink: 0,
+              }}>
+                {KIND_LABELS[item.kind]}
+              </span>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: '13px', color: textColor, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {item.name}
+                </div>
+                <div style={{ fontSize: '11px', color: mutedColor }}>
+                  {describeItem(item)} · Deleted {new Date(item.deletedAt).toLocaleString()}
+                </div>
+              </div>
+              <button
+                style={{ ...buttonStyle, color: '#3b82f6' }}
+                disabled={busyId !== null}
+                onClick={() => void restore(item)}
+              >
+                {busyId === item.id ? 'Working…' : 'Restore'}
+              </button>
+              <button
+                style={{ ...buttonStyle, color: '#ef4444' }}
+                disabled={busyId !== null}
+                onClick={() => purge(item)}
+              >
+                Purge
+              </button>
+            </div>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default TrashPanel;
@@ -0,0 +1,358 @@
+// WorkspaceBackupPanel.tsx
+// Exports the whole workspace to a JSON file and imports one back,
+// with a preview of what the import would create or update
+
+import React, { useRef, useState } from 'react';
+import type { DataBackend } from '../services/backend';
+import {
+  applyImport,
+  exportWorkspace,
+  parseWorkspaceDocument,
+  planImport,
+  summarizeImport,
+  workspaceFileName,
+  type ImportAction,
+  type ImportEntity,
+  type ImportPlan,
+  type ImportProgress,
+  type ImportResult,
+  type WorkspaceDocument,
+} from '../services/backup';
+
+// ============================================
+// Types
+// ============================================
+
+interface WorkspaceBackupPanelProps {
+  backend: DataBackend;
+  darkMode: boolean;
+  onImported: (result: ImportResult) => void;
+  onClose: () => void;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+const ENTITY_LABELS: Record<ImportEntity, string> = {
+  nodes: 'Nodes',
+  categories: 'Folders',
+  paths: 'Paths',
+  nodePaths: 'Node notes',
+};
+
+const ACTION_COLORS: Record<ImportAction, string> = {
+  create: '#16a34a',
+  update: '#3b82f6',
+  unchanged: '#94a3b8',
+  skip: '#f59e0b',
+};
+
+function downloadJson(document: WorkspaceDocument): void {
+  const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+  const url = URL.createObjectURL(blob);
+  const link = window.document.createElement('a');
+  link.href = url;
+  link.download = workspaceFileName(document);
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// ============================================
+// Component
+// ============================================
+
+export const WorkspaceBackupPanel: React.FC<WorkspaceBackupPanelProps> = ({
+  backend,
+  darkMode,
+  onImported,
+  onClose,
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [includeAudio, setIncludeAudio] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [document, setDocument] = useState<WorkspaceDocument | null>(null);
+  const [fileName, setFileName] = useState('');
+  const [overwrite, setOverwrite] = useState(false);
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [progress, setProgress] = useState<ImportProgress | null>(null);
+
+  const busy = exporting || progress !== null;
+
+  const handleExport = async () => {
+    setExporting(true);
+    setError(null);
+    try {
+      const { document: exported, audioFailures } = await exportWorkspace(backend, { includeAudio });
+      downloadJson(exported);
+      if (audioFailures > 0) {
+        alert(`${audioFailures} voice ${audioFailures === 1 ? 'note' : 'notes'} could not be downloaded and ${audioFailures === 1 ? 'was' : 'were'} left out of the export.`);
+      }
+    } catch (err) {
+      console.error('Failed to export workspace:', err);
+      setError(`Export failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const preview = async (doc: WorkspaceDocument, overwriteExisting: boolean) => {
+    setPlan(null);
+    try {
+      setPlan(await planImport(backend, doc, { overwrite: overwriteExisting }));
+    } catch (err) {
+      console.error('Failed to preview import:', err);
+      setError(`Could not read the current workspace: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    setError(null);
+    setDocument(null);
+    setPlan(null);
+    setFileName(file.name);
+    try {
+      const doc = parseWorkspaceDocument(await file.text());
+      setDocument(doc);
+      await preview(doc, overwrite);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+    }
+  };
+
+  const handleOverwriteChange = (value: boolean) => {
+    setOverwrite(value);
+    if (document) void preview(document, value);
+  };
+
+  const handleImport = async () => {
+    if (!plan) return;
+    setError(null);
+    setProgress({ done: 0, total: 0 });
+    try {
+      const result = await applyImport(backend, plan, setProgress);
+      if (result.failures.length > 0) {
+        alert(`${result.failures.length} of ${result.written + result.failures.length} records could not be imported:\n${result.failures.slice(0, 10).join('\n')}`);
+      }
+      onImported(result);
+    } catch (err) {
+      console.error('Failed to import workspace:', err);
+      setError(`Import failed: ${err instanceof Error ? err.message : String(err)}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  const textColor = darkMode ? '#f1f5f9' : '#1e293b';
+  const mutedColor = darkMode ? '#94a3b8' : '#64748b';
+  const borderColor = darkMode ? 'rgba(148, 163, 184, 0.15)' : '#e2e8f0';
+  const buttonStyle: React.CSSProperties = {
+    padding: '4px 10px',
+    fontSize: '11px',
+    fontWeight: 500,
+    background: darkMode ? 'rgba(148, 163, 184, 0.1)' : 'rgba(100, 116, 139, 0.08)',
+    color: darkMode ? '#e2e8f0' : '#334155',
+    border: darkMode ? '1px solid rgba(148, 163, 184, 0.2)' : '1px solid #e2e8f0',
+    borderRadius: '6px',
+    cursor: busy ? 'default' : 'pointer',
+  };
+  const sectionTitle: React.CSSProperties = {
+    fontSize: '11px',
+    fontWeight: 600,
+    color: mutedColor,
+    textTransform: 'uppercase',
+    letterSpacing: '0.5px',
+    margin: '18px 0 8px',
+  };
+  const checkboxLabel: React.CSSProperties = {
+    display: 'flex',
+    alignItems: 'center',
+    gap: '6px',
+    fontSize: '12px',
+    color: textColor,
+    cursor: 'pointer',
+  };
+
+  const summary = plan ? summarizeImport(plan) : null;
+  const writes = summary
+    ? Object.values(summary).reduce((sum, totals) => sum + totals.create + totals.update, 0)
+    : 0;
+  const changedItems = plan
+    ? (Object.keys(ENTITY_LABELS) as ImportEntity[]).flatMap(entity =>
+        (plan[entity] as { action: ImportAction; label: string }[])
+          .filter(item => item.action !== 'unchanged')
+          .map(item => ({ entity, ...item })))
+    : [];
+
+  return (
+    <div
+      style={{
+        position: 'fixed',
+        inset: 0,
+        zIndex: 10000,
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'center',
+        background: darkMode ? 'rgba(0, 0, 0, 0.7)' : 'rgba(15, 23, 42, 0.4)',
+        backdropFilter: 'blur(12px)',
+      }}
+      onClick={(e) => {
+        if (e.target === e.currentTarget && !busy) onClose();
+      }}
+    >
+      <div
+        style={{
+          background: darkMode
+            ? 'linear-gradient(145deg, #1e293b 0%, #0f172a 100%)'
+            : 'linear-gradient(145deg, #ffffff 0%, #f8fafc 100%)',
+          borderRadius: '20px',
+          padding: '28px',
+          width: '560px',
+          maxWidth: '92vw',
+          maxHeight: '80vh',
+          overflowY: 'auto',
+          boxShadow: '0 25px 50px -12px rgba(0, 0, 0, 0.35)',
+          border: darkMode ? '1px solid rgba(148, 163, 184, 0.1)' : '1px solid rgba(226, 232, 240, 0.8)',
+        }}
+      >
+        <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'space-between' }}>
+          <h2 style={{ margin: 0, fontSize: '18px', fontWeight: 600, color: textColor }}>Workspace backup</h2>
+          <button onClick={onClose} style={buttonStyle} disabled={busy}>Close</button>
+        </div>
+
+        {/* Export */}
+        <div style={sectionTitle}>Export</div>
+        <div style={{ fontSize: '12px', color: mutedColor, marginBottom: '10px' }}>
+          Nodes, edges, paths, folders and node notes in one JSON file.
+        </div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+          <label style={checkboxLabel}>
+            <input
+              type="checkbox"
+              checked={includeAudio}
+              disabled={busy}
+              onChange={(e) => setIncludeAudio(e.target.checked)}
+            />
+            Include voice notes
+          </label>
+          <button style={{ ...buttonStyle, marginLeft: 'auto', color: '#3b82f6' }} disabled={busy} onClick={handleExport}>
+            {exporting ? 'Exporting…' : 'Download JSON'}
+          </button>
+        </div>
+
+        {/* Import */}
+        <div style={sectionTitle}>Import</div>
+        <div style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+          <button style={buttonStyle} disabled={busy} onClick={() => fileInputRef.current?.click()}>
+            Choose file…
+          </button>
+          <span style={{ fontSize: '12px', color: mutedColor, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {fileName || 'No file selected'}
+          </span>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept="application/json,.json"
+            style={{ display: 'none' }}
+            onChange={(e) => {
+              void handleFile(e.target.files?.[0]);
+              e.target.value = '';
+            }}
+          />
+        </div>
+
+        {error && (
+          <div style={{ fontSize: '12px', color: '#ef4444', marginTop: '10px' }}>{error}</div>
+        )}
+
+        {document && !plan && !error && (
+          <div style={{ fontSize: '12px', color: mutedColor, marginTop: '10px' }}>Comparing with the current workspace…</div>
+        )}
+
+        {plan && summary && (
+          <>
+            <div style={{ fontSize: '12px', color: mutedColor, margin: '12px 0 8px' }}>
+              {plan.targetEmpty
+                ? 'The workspace is empty; everything in the file will be restored.'
+                : 'Records are matched on their id and merged into the current workspace.'}
+              {document && ` Exported ${new Date(document.exportedAt).toLocaleString()}.`}
+            </div>
+
+            {!plan.targetEmpty && (
+              <label style={{ ...checkboxLabel, marginBottom: '10px' }}>
+                <input
+                  type="checkbox"
+                  checked={overwrite}
+                  disabled={busy}
+                  onChange={(e) => handleOverwriteChange(e.target.checked)}
+                />
+                Overwrite records that differ from the file
+              </label>
+            )}
+
+            <table style={{ width: '100%', borderCollapse: 'collapse', fontSize: '12px', color: textColor }}>
+              <thead>
+                <tr style={{ color: mutedColor, textAlign: 'left' }}>
+                  <th style={{ padding: '4px 0', fontWeight: 500 }}></th>
+                  {(['create', 'update', 'unchanged', 'skip'] as ImportAction[]).map(action => (
+                    <th key={action} style={{ padding: '4px 0', fontWeight: 500, textAlign: 'right', textTransform: 'capitalize' }}>{action}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {(Object.keys(ENTITY_LABELS) as ImportEntity[]).map(entity => (
+                  <tr key={entity} style={{ borderTop: `1px solid ${borderColor}` }}>
+                    <td style={{ padding: '6px 0' }}>{ENTITY_LABELS[entity]}</td>
+                    {(['create', 'update', 'unchanged', 'skip'] as ImportAction[]).map(action => (
+                      <td
+                        key={action}
+                        style={{
+                          padding: '6px 0',
+                          textAlign: 'right',
+                          color: summary[entity][action] > 0 ? ACTION_COLORS[action] : mutedColor,
+                        }}
+                      >
+                        {summary[entity][action]}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+
+            {changedItems.length > 0 && (
+              <div style={{ maxHeight: '160px', overflowY: 'auto', marginTop: '12px', border: `1px solid ${borderColor}`, borderRadius: '8px', padding: '6px 10px' }}>
+                {changedItems.map((item, i) => (
+                  <div key={i} style={{ display: 'flex', gap: '8px', fontSize: '11px', padding: '2px 0' }}>
+                    <span style={{ color: ACTION_COLORS[item.action], width: '60px', flexShrink: 0, textTransform: 'capitalize' }}>{item.action}</span>
+                    <span style={{ color: mutedColor, width: '72px', flexShrink: 0 }}>{ENTITY_LABELS[item.entity]}</span>
+                    <span style={{ color: textColor, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{item.label}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <div style={{ display: 'flex', alignItems: 'center', justifyContent: 'flex-end', gap: '10px', marginTop: '16px' }}>
+              {progress && (
+                <span style={{ fontSize: '11px', color: mutedColor }}>
+                  Importing {progress.done}/{progress.total || writes}…
+                </span>
+              )}
+              <button
+                style={{ ...buttonStyle, color: '#3b82f6' }}
+                disabled={busy || writes === 0}
+                onClick={handleImport}
+              >
+                {writes === 0 ? 'Nothing to import' : `Import ${writes} ${writes === 1 ? 'record' : 'records'}`}
+              </button>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default WorkspaceBackupPanel;
@@ -0,0 +1,15 @@
+// Auth Service Index
+// ===================
+// Re-export session helpers
+
+export type { Session } from './session';
+export {
+  isSessionRequired,
+  addAuthRequiredListener,
+  notifyAuthRequired,
+  getSession,
+  signIn,
+  signOut,
+  getCachedUserId,
+  getCurrentUserId,
+} from './session';
@@ -0,0 +1,136 @@
+// Session Client
+// ===============
+// Sign-in state for the serverless API (/api/session)
+
+// ============================================
+// Types
+// ============================================
+
+export interface Session {
+  authenticated: boolean;
+  userId: string | null;
+}
+
+type AuthRequiredListener = () => void;
+
+// Last signed-in user, so the app can start offline and before the session check returns
+const USER_STORAGE_KEY = 'cinaps-user';
+
+// ============================================
+// Environment
+// ============================================
+
+/**
+ * The Vite dev proxy talks to Notion directly, so only deployed builds need a session
+ */
+export function isSessionRequired(): boolean {
+  return typeof window !== 'undefined' && window.location.hostname !== 'localhost';
+}
+
+// ============================================
+// Auth-required notifications
+// ============================================
+
+const authListeners = new Set<AuthRequiredListener>();
+
+export function addAuthRequiredListener(listener: AuthRequiredListener): () => void {
+  authListeners.add(listener);
+  return () => authListeners.delete(listener);
+}
+
+/**
+ * Called by API clients when the server rejects a request as unauthenticated
+ */
+export function notifyAuthRequired(): void {
+  authListeners.forEach(listener => listener());
+}
+
+// ============================================
+// Session API
+// ============================================
+
+async function sessionRequest(method: 'GET' | 'POST' | 'DELETE', body?: unknown): Promise<Session> {
+  const response = await fetch('/api/session', {
+    method,
+    credentials: 'same-origin',
+    headers: body ? { 'Content-Type': 'application/json' } : undefined,
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await response.json().catch(() => ({}));
+  if (!response.ok) {
+    throw new Error(data.message || data.error || `HTTP ${response.status}`);
+  }
+  return {
+    authenticated: Boolean(data.authenticated),
+    userId: data.userId ?? null,
+  };
+}
+
+/**
+ * Who is signed in (an unauthenticated session in development)
+ */
+export async function getSession(): Promise<Session> {
+  if (!isSessionRequired()) return { authenticated: true, userId: null };
+  return sessionRequest('GET');
+}
+
+/**
+ * Exchange an access key for a session cookie
+ */
+export async function signIn(accessKey: string): Promise<Session> {
+  const session = await sessionRequest('POST', { accessKey });
+  rememberUser(session.userId);
+  return session;
+}
+
+export async function signOut(): Promise<Session> {
+  rememberUser(null);
+  return sessionRequest('DELETE');
+}
+
+// ============================================
+// Current User
+// ============================================
+
+function rememberUser(userId: string | null): void {
+  try {
+    if (userId) {
+      localStorage.setItem(USER_STORAGE_KEY, userId);
+    } else {
+      localStorage.removeItem(USER_STORAGE_KEY);
+    }
+  } catch { /* ignore */ }
+}
+
+/**
+ * The user remembered from the last session check (synchronous, may be stale)
+ */
+export function getCachedUserId(): string | null {
+  if (!isSessionRequired()) return import.meta.env.VITE_DEV_USER || null;
+  try {
+    return localStorage.getItem(USER_STORAGE_KEY);
+  } catch {
+    return null;
+  }
+}
+
+let currentUserPromise: Promise<string | null> | null = null;
+
+/**
+ * The signed-in user that owns paths, notes and folders.
+ * Resolved once per page load; in development it comes from VITE_DEV_USER.
+ */
+export function getCurrentUserId(): Promise<string | null> {
+  if (!currentUserPromise) {
+    currentUserPromise = isSessionRequired()
+      ? getSession()
+          .then(session => {
+            rememberUser(session.userId);
+            return session.userId;
+          })
+          // Offline: fall back to whoever was signed in last
+          .catch(() => getCachedUserId())
+      : Promise.resolve(getCachedUserId());
+  }
+  return currentUserPromise;
+}
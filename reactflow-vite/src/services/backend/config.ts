@@ -0,0 +1,15 @@
+// Data Backend Configuration
+// ===========================
+// Selects which storage backend the app runs against
+
+import type { BackendId } from './types';
+
+// Backend used when VITE_DATA_BACKEND is not set (or names an unknown backend)
+export const DEFAULT_BACKEND: BackendId = 'notion';
+
+// Backend requested at build time, e.g. `VITE_DATA_BACKEND=notion npm run dev`
+export const REQUESTED_BACKEND: string = import.meta.env.VITE_DATA_BACKEND || DEFAULT_BACKEND;
+
+// Keep a local IndexedDB copy in front of the backend so the app works offline.
+// Disable with `VITE_LOCAL_FIRST=false`.
+export const LOCAL_FIRST: boolean = import.meta.env.VITE_LOCAL_FIRST !== 'false';
@@ -0,0 +1,77 @@
+// Data Backend Index
+// ===================
+// Registry of available backends and the active instance used by the UI
+
+import { DEFAULT_BACKEND, REQUESTED_BACKEND, LOCAL_FIRST } from './config';
+import { notionBackend } from '../notion/backend';
+import { createLocalFirstBackend, isLocalDbAvailable } from '../local';
+import { createHistoryBackend } from '../history';
+import { createTrashBackend } from '../trash';
+import { createWriteBehindBackend } from '../writeBehind';
+import type { BackendId, DataBackend } from './types';
+
+export type {
+  BackendId,
+  DataBackend,
+  DataEntity,
+  DataChangeListener,
+  PageContent,
+  CachedPageContent,
+  NotesMigrationResult,
+  EntityRecordMap,
+  ConflictResolution,
+  OutboxListener,
+  SyncOutbox,
+  RevisionReason,
+  PathRevision,
+  HistoryListener,
+  PathHistory,
+  TrashItemKind,
+  TrashItem,
+  TrashListener,
+  Trash,
+  NoteSaveFailure,
+  NoteBufferListener,
+  NoteBuffer,
+} from './types';
+export { DEFAULT_BACKEND, REQUESTED_BACKEND, LOCAL_FIRST } from './config';
+
+const backends: Record<BackendId, DataBackend> = {
+  notion: notionBackend,
+};
+
+function isBackendId(value: string): value is BackendId {
+  return value in backends;
+}
+
+/**
+ * Look up a registered backend by id
+ */
+export function getBackend(id: BackendId): DataBackend {
+  return backends[id];
+}
+
+/**
+ * List all registered backends (for settings / diagnostics)
+ */
+export function listBackends(): DataBackend[] {
+  return Object.values(backends);
+}
+
+function resolveRemoteBackend(): DataBackend {
+  if (isBackendId(REQUESTED_BACKEND)) {
+    return backends[REQUESTED_BACKEND];
+  }
+  console.warn(`[backend] Unknown backend "${REQUESTED_BACKEND}", falling back to "${DEFAULT_BACKEND}"`);
+  return backends[DEFAULT_BACKEND];
+}
+
+function resolveActiveBackend(): DataBackend {
+  const remote = resolveRemoteBackend();
+  if (!isLocalDbAvailable()) return createWriteBehindBackend(remote);
+  const backend = LOCAL_FIRST ? createLocalFirstBackend(remote) : remote;
+  return createWriteBehindBackend(createTrashBackend(createHistoryBackend(backend)));
+}
+
+// The backend the app talks to for this session
+export const dataBackend: DataBackend = resolveActiveBackend();
@@ -0,0 +1,249 @@
+// Data Backend Type Definitions
+// ==============================
+// Storage-agnostic contract between the UI and whatever holds the data
+
+import type {
+  NodeRecord,
+  PathRecord,
+  NodePathRecord,
+  CategoryRecord,
+  AudioNoteData,
+  PathLayout,
+  PendingChange,
+} from '../notion/types';
+
+// Identifier of a registered backend implementation
+export type BackendId = 'notion';
+
+// Collections a backend can report changes for
+export type DataEntity = 'nodes' | 'paths' | 'nodePaths' | 'categories';
+
+// Called when a backend's data changed outside of a direct call (e.g. background sync)
+export type DataChangeListener = (entity: DataEntity) => void;
+
+// Record type stored for each collection
+export interface EntityRecordMap {
+  nodes: NodeRecord;
+  paths: PathRecord;
+  nodePaths: NodePathRecord;
+  categories: CategoryRecord;
+}
+
+// How to settle a change whose record was edited elsewhere after it was queued
+export type ConflictResolution = 'mine' | 'theirs' | 'merge';
+
+export type OutboxListener = (changes: PendingChange[]) => void;
+
+/**
+ * Local changes that have not reached the backend yet.
+ * Failed and conflicting entries stay here until the user settles them.
+ */
+export interface SyncOutbox {
+  list(): Promise<PendingChange[]>;
+  subscribe(listener: OutboxListener): () => void;
+  retry(changeId: string): Promise<void>;
+  discard(changeId: string): Promise<void>;
+  resolveConflict(changeId: string, resolution: ConflictResolution): Promise<void>;
+}
+
+// What produced a path revision
+export type RevisionReason = 'baseline' | 'nodes' | 'notes' | 'nodeNote' | 'restore';
+
+/**
+ * A path's node selection and notes as they were after one change
+ */
+export interface PathRevision {
+  id: string;
+  pathId: string;
+  createdAt: string;
+  reason: RevisionReason;
+  nodeId?: string; // Node whose note changed ('nodeNote')
+  restoredFrom?: string; // Revision that was brought back ('restore')
+  nodeIds: string[];
+  notes: string;
+  nodeNotes: Record<string, string>; // nodeId -> note content
+}
+
+export type HistoryListener = (pathId: string) => void;
+
+/**
+ * Revisions of each path's nodes, notes and node notes, newest first.
+ * Restoring writes the old state back and records it as a new revision.
+ */
+export interface PathHistory {
+  list(pathId: string): Promise<PathRevision[]>;
+  subscribe(listener: HistoryListener): () => void;
+  restore(pathId: string, revisionId: string): Promise<PathRevision>;
+}
+
+// A held note edit whose save failed; it is retried until it succeeds or is discarded
+export interface NoteSaveFailure {
+  key: string;
+  pathId: string;
+  nodeId?: string; // Set for node notes
+  error: string;
+  attempts: number;
+  nextRetryAt: number;
+}
+
+export type NoteBufferListener = (failures: NoteSaveFailure[]) => void;
+
+/**
+ * Note edits made while typing. Each record's latest edit is saved once typing
+ * pauses; the returned promise settles when that save succeeds (or the edit is
+ * discarded). Other callers use savePathNotes / saveNodePath, which save at once.
+ */
+export interface NoteBuffer {
+  queuePathNotes(pathId: string, notes: string): Promise<void>;
+  queueNodePath(nodePath: NodePathRecord): Promise<NodePathRecord>;
+  subscribe(listener: NoteBufferListener): () => void;
+  retryNow(): Promise<void>;
+  discard(key: string): void;
+}
+
+// What a trash item was before it was deleted
+export type TrashItemKind = 'path' | 'category' | 'nodePath';
+
+/**
+ * A deleted path (with its node notes), folder or single node note,
+ * kept as it was when deleted
+ */
+export interface TrashItem {
+  id: string; // `${kind}:${record id}`
+  kind: TrashItemKind;
+  name: string;
+  deletedAt: string;
+  path?: PathRecord;
+  category?: CategoryRecord;
+  nodePaths: NodePathRecord[]; // A path's node notes, or the single deleted note
+  pathIds?: string[]; // Paths that were filed in a deleted folder
+}
+
+export type TrashListener = () => void;
+
+/**
+ * Deleted items, newest first.
+ * Restoring brings the records back; purging forgets the item for good.
+ */
+export interface Trash {
+  list(): Promise<TrashItem[]>;
+  subscribe(listener: TrashListener): () => void;
+  restore(itemId: string): Promise<TrashItem>;
+  purge(itemId: string): Promise<void>;
+}
+
+// Path and node-path pages whose notes were moved into page bodies
+export interface NotesMigrationResult {
+  paths: number;
+  nodePaths: number;
+  failed: Array<{ pageId: string; error: string }>; // notes stay in the property
+}
+
+// Result of loading the documentation body for a node
+export interface PageContent {
+  blocks: unknown[];
+  pageId: string | null;
+}
+
+// Page content kept from an earlier fetchPageContent call
+export interface CachedPageContent extends PageContent {
+  title?: string; // Set when the page was looked up by title rather than id
+}
+
+/**
+ * Every operation the app performs against its data store.
+ * Implementations (adapters) translate these calls into their own storage
+ * format; the UI never talks to a concrete store directly.
+ */
+export interface DataBackend {
+  readonly id: BackendId;
+  readonly label: string;
+
+  // Nodes
+  fetchNodes(forceRefresh?: boolean): Promise<NodeRecord[]>;
+  saveNode(node: NodeRecord): Promise<NodeRecord>;
+  deleteNode(nodeId: string): Promise<void>;
+
+  // Categories (folders)
+  fetchCategories(forceRefresh?: boolean): Promise<CategoryRecord[]>;
+  createCategory(name: string, parentId?: string | null, id?: string): Promise<CategoryRecord>;
+  deleteCategory(categoryPageId: string): Promise<void>;
+  updateCategory(
+    categoryPageId: string,
+    updates: { name?: string; parentId?: string | null }
+  ): Promise<void>;
+
+  // Paths
+  fetchPaths(forceRefresh?: boolean): Promise<PathRecord[]>;
+  savePath(path: PathRecord): Promise<PathRecord>;
+  updatePathNodes(pathId: string, pathName: string, nodeIds: string[]): Promise<void>;
+  updatePathCategory(
+    pathId: string,
+    category: string,
+    subcategory: string,
+    subsubcategory: string
+  ): Promise<void>;
+  updatePathPriority(pathId: string, priority: number): Promise<void>;
+  updatePathFav(pathId: string, fav: boolean): Promise<void>;
+  updatePathTemplate(pathId: string, template: boolean): Promise<void>;
+  updatePathShareToken(pathId: string, shareToken: string | null): Promise<void>;
+  updatePathLayout(pathId: string, layout: PathLayout | null): Promise<void>;
+  updatePathStatus(pathId: string, status: string): Promise<void>;
+  renamePath(pathId: string, newName: string): Promise<void>;
+  savePathNotes(pathId: string, notes: string): Promise<void>;
+  deletePath(pathId: string): Promise<void>;
+
+  // Node-path notes
+  fetchNodePaths(forceRefresh?: boolean): Promise<NodePathRecord[]>;
+  saveNodePath(nodePath: NodePathRecord): Promise<NodePathRecord>;
+  batchSaveNodePaths(nodePaths: NodePathRecord[]): Promise<void>;
+  deleteNodePathsForPath(pathId: string): Promise<void>;
+  deleteNodePath(nodePathId: string): Promise<void>;
+
+  // Bring back deleted records as they were when deleted
+  restoreRecords<E extends DataEntity>(entity: E, records: EntityRecordMap[E][]): Promise<void>;
+
+  // Audio notes
+  uploadAudioNote(audioBlob: Blob, filename?: string): Promise<AudioNoteData>;
+  saveNodePathAudioNote(
+    nodePathId: string,
+    pathId: string,
+    nodeId: string,
+    audioBlob: Blob
+  ): Promise<NodePathRecord>;
+  savePathAudioNote(pathId: string, audioBlob: Blob): Promise<void>;
+
+  // Latest version of a single record, or null if it no longer exists
+  fetchRecord<E extends DataEntity>(entity: E, id: string): Promise<EntityRecordMap[E] | null>;
+
+  // Documentation content attached to a node
+  fetchPageContent(pageId?: string, title?: string): Promise<PageContent>;
+  // Present on backends that keep fetched page content (e.g. for search)
+  listCachedPageContent?(): Promise<CachedPageContent[]>;
+
+  // Maintenance
+  refreshAllData(): Promise<{
+    nodes: NodeRecord[];
+    paths: PathRecord[];
+    nodePaths: NodePathRecord[];
+  }>;
+  checkConnection(): Promise<boolean>;
+  clearCache(): void;
+  // Present on backends that can move notes out of older storage
+  migrateNotesToPageBodies?(onProgress?: (done: number, total: number) => void): Promise<NotesMigrationResult>;
+
+  // Optional change notifications for backends that update data in the background
+  addChangeListener?(listener: DataChangeListener): () => void;
+
+  // Present on backends that queue writes locally
+  readonly outbox?: SyncOutbox;
+
+  // Present when path revisions are recorded
+  readonly history?: PathHistory;
+
+  // Present when deleted paths, folders and notes are kept for restoring
+  readonly trash?: Trash;
+
+  // Present when note edits are held and saved once typing pauses
+  readonly noteBuffer?: NoteBuffer;
+}
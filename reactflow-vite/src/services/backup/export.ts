@@ -0,0 +1,135 @@
+// Workspace Export
+// =================
+// Collects every collection from a backend into one WorkspaceDocument
+
+import type { DataBackend } from '../backend/types';
+import type { AudioNoteData, CategoryRecord } from '../notion/types';
+import {
+  WORKSPACE_FORMAT,
+  WORKSPACE_FORMAT_VERSION,
+  type ExportedAudioNote,
+  type ExportedCategory,
+  type WorkspaceDocument,
+} from './format';
+
+// ============================================
+// Types
+// ============================================
+
+export interface ExportOptions {
+  includeAudio?: boolean; // Embed recordings as base64 (much larger files)
+}
+
+export interface ExportResult {
+  document: WorkspaceDocument;
+  audioFailures: number; // Recordings that could not be downloaded and were left out
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function blobToBase64(blob: Blob): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).replace(/^data:[^,]*,/, ''));
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(blob);
+  });
+}
+
+// Copy of `record` without store-specific fields
+export function withoutStoreFields<T extends object>(record: T): T {
+  const copy = { ...record } as Record<string, unknown>;
+  for (const key of ['notionPageId', 'lastModified', 'owner', 'shareToken']) delete copy[key];
+  return copy as T;
+}
+
+// Folders reference their parent by page id; the export uses app ids so it survives a new store
+export function exportCategories(categories: CategoryRecord[]): ExportedCategory[] {
+  const appIds = new Map<string, string>();
+  categories.forEach(c => appIds.set(c.notionPageId || c.id, c.id));
+  return categories.map(c => ({
+    id: c.id,
+    name: c.name,
+    parentId: c.parentId ? appIds.get(c.parentId) ?? null : null,
+  }));
+}
+
+// ============================================
+// Export
+// ============================================
+
+/**
+ * Build a versioned JSON document of the whole workspace
+ */
+export async function exportWorkspace(
+  backend: DataBackend,
+  options: ExportOptions = {}
+): Promise<ExportResult> {
+  const [nodes, paths, categories, nodePaths] = await Promise.all([
+    backend.fetchNodes(true),
+    backend.fetchPaths(true),
+    backend.fetchCategories(true),
+    backend.fetchNodePaths(true),
+  ]);
+
+  let audioFailures = 0;
+
+  const exportAudio = async (notes: AudioNoteData[] | undefined): Promise<ExportedAudioNote[] | undefined> => {
+    if (!notes || notes.length === 0) return undefined;
+    const exported: ExportedAudioNote[] = [];
+    for (const note of notes) {
+      const entry: ExportedAudioNote = {
+        filename: note.filename,
+        duration: note.duration,
+        createdAt: note.createdAt,
+      };
+      if (options.includeAudio) {
+        if (!note.url) {
+          audioFailures++;
+          continue;
+        }
+        try {
+          const response = await fetch(note.url);
+          if (!response.ok) throw new Error(`HTTP ${response.status}`);
+          const blob = await response.blob();
+          entry.mimeType = blob.type || undefined;
+          entry.data = await blobToBase64(blob);
+        } catch (error) {
+          console.error('Failed to download audio note for export:', error);
+          audioFailures++;
+          continue;
+        }
+      }
+      exported.push(entry);
+    }
+    return exported;
+  };
+
+  const document: WorkspaceDocument = {
+    format: WORKSPACE_FORMAT,
+    version: WORKSPACE_FORMAT_VERSION,
+    exportedAt: new Date().toISOString(),
+    nodes: nodes.map(withoutStoreFields),
+    paths: [],
+    categories: exportCategories(categories),
+    nodePaths: [],
+  };
+
+  for (const path of paths) {
+    document.paths.push({ ...withoutStoreFields(path), audioNotes: await exportAudio(path.audioNotes) });
+  }
+  for (const nodePath of nodePaths) {
+    document.nodePaths.push({ ...withoutStoreFields(nodePath), audioNotes: await exportAudio(nodePath.audioNotes) });
+  }
+
+  return { document, audioFailures };
+}
+
+/**
+ * File name for a download of `document`
+ */
+export function workspaceFileName(document: WorkspaceDocument): string {
+  return `workspace-${document.exportedAt.slice(0, 10)}.json`;
+}
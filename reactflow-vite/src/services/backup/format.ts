@@ -0,0 +1,97 @@
+// Workspace Document Format
+// ==========================
+// Versioned JSON layout shared by workspace export and import
+
+import type {
+  NodeRecord,
+  PathRecord,
+  NodePathRecord,
+} from '../notion/types';
+
+// ============================================
+// Constants
+// ============================================
+
+export const WORKSPACE_FORMAT = 'cinaps-workspace';
+
+// Bump when the layout changes; import accepts this version and older ones
+export const WORKSPACE_FORMAT_VERSION = 1;
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * A voice note. `data` holds the recording as base64 when the export included audio.
+ */
+export interface ExportedAudioNote {
+  filename?: string;
+  duration?: number;
+  createdAt?: string;
+  mimeType?: string;
+  data?: string;
+}
+
+// Store-specific fields (page ids, edit times, owners, share secrets) are left out
+export type ExportedNode = Omit<NodeRecord, 'notionPageId' | 'lastModified'>;
+
+export interface ExportedPath extends Omit<PathRecord, 'notionPageId' | 'lastModified' | 'owner' | 'shareToken' | 'audioNotes'> {
+  audioNotes?: ExportedAudioNote[];
+}
+
+export interface ExportedCategory {
+  id: string;
+  name: string;
+  parentId: string | null; // App id of the parent folder, or null for root
+}
+
+export interface ExportedNodePath extends Omit<NodePathRecord, 'notionPageId' | 'lastModified' | 'owner' | 'audioNotes'> {
+  audioNotes?: ExportedAudioNote[];
+}
+
+export interface WorkspaceDocument {
+  format: typeof WORKSPACE_FORMAT;
+  version: number;
+  exportedAt: string;
+  nodes: ExportedNode[]; // Edges are each node's parentIds
+  paths: ExportedPath[];
+  categories: ExportedCategory[];
+  nodePaths: ExportedNodePath[];
+}
+
+// ============================================
+// Parsing
+// ============================================
+
+function isRecordList(value: unknown): value is { id: string }[] {
+  return Array.isArray(value)
+    && value.every(item => typeof item === 'object' && item !== null && typeof (item as { id?: unknown }).id === 'string');
+}
+
+/**
+ * Parse and check an exported workspace file
+ * Throws with a readable message when the file isn't a workspace export
+ */
+export function parseWorkspaceDocument(text: string): WorkspaceDocument {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new Error('The file is not valid JSON');
+  }
+
+  const doc = data as Partial<WorkspaceDocument> | null;
+  if (!doc || typeof doc !== 'object' || doc.format !== WORKSPACE_FORMAT) {
+    throw new Error('The file is not a workspace export');
+  }
+  if (typeof doc.version !== 'number' || doc.version > WORKSPACE_FORMAT_VERSION) {
+    throw new Error(`Unsupported workspace export version: ${String(doc.version)}`);
+  }
+  for (const key of ['nodes', 'paths', 'categories', 'nodePaths'] as const) {
+    if (!isRecordList(doc[key])) {
+      throw new Error(`The export's "${key}" list is missing or malformed`);
+    }
+  }
+
+  return doc as WorkspaceDocument;
+}
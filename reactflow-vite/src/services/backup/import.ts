@@ -0,0 +1,268 @@
+// Workspace Import
+// =================
+// Previews and applies a WorkspaceDocument against a backend, either into an
+// empty workspace or merged into an existing one (matched on app ids)
+
+import type { DataBackend } from '../backend/types';
+import type { CategoryRecord, NodePathRecord, PathRecord } from '../notion/types';
+import type {
+  ExportedAudioNote,
+  ExportedCategory,
+  ExportedNode,
+  ExportedNodePath,
+  ExportedPath,
+  WorkspaceDocument,
+} from './format';
+import { exportCategories, withoutStoreFields } from './export';
+
+// ============================================
+// Types
+// ============================================
+
+// 'skip': exists with different content and overwriting is off
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'skip';
+
+export interface ImportItem<T> {
+  action: ImportAction;
+  record: T;
+  label: string;
+  audio: ExportedAudioNote[]; // Recordings to upload with this record
+}
+
+export interface ImportOptions {
+  overwrite?: boolean; // Replace records that already exist with the file's version
+}
+
+export interface ImportPlan {
+  targetEmpty: boolean;
+  overwrite: boolean;
+  nodes: ImportItem<ExportedNode>[];
+  categories: ImportItem<ExportedCategory>[];
+  paths: ImportItem<ExportedPath>[];
+  nodePaths: ImportItem<ExportedNodePath>[];
+}
+
+export type ImportEntity = 'nodes' | 'categories' | 'paths' | 'nodePaths';
+
+export type ImportSummary = Record<ImportEntity, Record<ImportAction, number>>;
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ImportResult {
+  written: number;
+  audioUploaded: number;
+  failures: string[]; // Labels of records that could not be written
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+// JSON with sorted keys and without undefined values, for content comparison
+function canonical(value: unknown): string {
+  return JSON.stringify(value, (_key, v: unknown) => {
+    if (v && typeof v === 'object' && !Array.isArray(v)) {
+      return Object.fromEntries(Object.entries(v as Record<string, unknown>).sort(([a], [b]) => a.localeCompare(b)));
+    }
+    return v;
+  });
+}
+
+function sameContent(a: object, b: object): boolean {
+  const strip = (record: object) => {
+    const copy = { ...record } as Record<string, unknown>;
+    delete copy.audioNotes;
+    return canonical(copy);
+  };
+  return strip(a) === strip(b);
+}
+
+function withoutAudio<T extends { audioNotes?: unknown }>(record: T): Omit<T, 'audioNotes'> {
+  const copy = { ...record };
+  delete copy.audioNotes;
+  return copy;
+}
+
+function base64ToBlob(data: string, mimeType?: string): Blob {
+  const binary = atob(data);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return new Blob([bytes], { type: mimeType || 'audio/wav' });
+}
+
+function planItems<T extends { id: string; audioNotes?: ExportedAudioNote[] }>(
+  incoming: T[],
+  existing: Map<string, T>,
+  overwrite: boolean,
+  label: (record: T) => string
+): ImportItem<T>[] {
+  return incoming.map(record => {
+    const current = existing.get(record.id);
+    // Recordings are only added where there are none, so importing twice doesn't duplicate them
+    const audio = (record.audioNotes || []).filter(note => note.data);
+    const needsAudio = audio.length > 0 && !(current?.audioNotes && current.audioNotes.length > 0);
+
+    let action: ImportAction;
+    if (!current) action = 'create';
+    else if (sameContent(current, record) && !needsAudio) action = 'unchanged';
+    else action = overwrite ? 'update' : 'skip';
+
+    return {
+      action,
+      record,
+      label: label(record),
+      audio: needsAudio && action !== 'skip' ? audio : [],
+    };
+  });
+}
+
+// Parents before children so each folder's parent exists when it is created
+function sortParentsFirst(items: ImportItem<ExportedCategory>[]): ImportItem<ExportedCategory>[] {
+  const byId = new Map(items.map(item => [item.record.id, item]));
+  const depth = (item: ImportItem<ExportedCategory>): number => {
+    let d = 0;
+    let parentId = item.record.parentId;
+    const seen = new Set<string>();
+    while (parentId && byId.has(parentId) && !seen.has(parentId)) {
+      seen.add(parentId);
+      parentId = byId.get(parentId)!.record.parentId;
+      d++;
+    }
+    return d;
+  };
+  return [...items].sort((a, b) => depth(a) - depth(b));
+}
+
+// ============================================
+// Preview
+// ============================================
+
+/**
+ * Work out what importing `document` would create, update or leave alone
+ */
+export async function planImport(
+  backend: DataBackend,
+  document: WorkspaceDocument,
+  options: ImportOptions = {}
+): Promise<ImportPlan> {
+  const overwrite = options.overwrite ?? false;
+  const [nodes, paths, categories, nodePaths] = await Promise.all([
+    backend.fetchNodes(true),
+    backend.fetchPaths(true),
+    backend.fetchCategories(true),
+    backend.fetchNodePaths(true),
+  ]);
+
+  const byId = <T extends { id: string }>(records: T[]) => new Map(records.map(r => [r.id, r]));
+  const nodeLabels = new Map(document.nodes.map(n => [n.id, n.label || n.id]));
+  const pathNames = new Map(document.paths.map(p => [p.id, p.name]));
+
+  return {
+    targetEmpty: nodes.length + paths.length + categories.length + nodePaths.length === 0,
+    overwrite,
+    nodes: planItems(document.nodes, byId(nodes.map(withoutStoreFields)), overwrite, n => n.label || n.id),
+    categories: sortParentsFirst(planItems(document.categories, byId(exportCategories(categories)), overwrite, c => c.name)),
+    paths: planItems(document.paths, byId(paths.map(withoutStoreFields)), overwrite, p => p.name),
+    nodePaths: planItems(document.nodePaths, byId(nodePaths.map(withoutStoreFields)), overwrite,
+      np => `${pathNames.get(np.pathId) || np.pathId} · ${nodeLabels.get(np.nodeId) || np.nodeId}`),
+  };
+}
+
+/**
+ * Count of each action per collection
+ */
+export function summarizeImport(plan: ImportPlan): ImportSummary {
+  const count = (items: ImportItem<unknown>[]) => {
+    const totals: Record<ImportAction, number> = { create: 0, update: 0, unchanged: 0, skip: 0 };
+    items.forEach(item => { totals[item.action]++; });
+    return totals;
+  };
+  return {
+    nodes: count(plan.nodes),
+    categories: count(plan.categories),
+    paths: count(plan.paths),
+    nodePaths: count(plan.nodePaths),
+  };
+}
+
+// ============================================
+// Apply
+// ============================================
+
+/**
+ * Write the planned creates and updates to `backend`.
+ * A record that fails is reported and the rest still go through.
+ */
+export async function applyImport(
+  backend: DataBackend,
+  plan: ImportPlan,
+  onProgress?: (progress: ImportProgress) => void
+): Promise<ImportResult> {
+  const isWrite = (item: ImportItem<unknown>) => item.action === 'create' || item.action === 'update';
+  const total = [plan.nodes, plan.categories, plan.paths, plan.nodePaths]
+    .reduce((sum, items) => sum + items.filter(isWrite).length, 0);
+  const result: ImportResult = { written: 0, audioUploaded: 0, failures: [] };
+  let done = 0;
+
+  const run = async <T>(item: ImportItem<T>, write: () => Promise<void>) => {
+    if (!isWrite(item)) return;
+    try {
+      await write();
+      result.written++;
+    } catch (error) {
+      console.error(`Failed to import "${item.label}":`, error);
+      result.failures.push(item.label);
+    }
+    onProgress?.({ done: ++done, total });
+  };
+
+  for (const item of plan.nodes) {
+    await run(item, async () => {
+      await backend.saveNode(item.record);
+    });
+  }
+
+  // Folders point at their parent's page id, which new folders only get once created
+  const existingCategories = await backend.fetchCategories(true);
+  const pageIds = new Map<string, string>();
+  existingCategories.forEach((c: CategoryRecord) => pageIds.set(c.id, c.notionPageId || c.id));
+  for (const item of plan.categories) {
+    await run(item, async () => {
+      const { id, name, parentId } = item.record;
+      const parentPageId = parentId ? pageIds.get(parentId) ?? null : null;
+      if (item.action === 'create') {
+        const created = await backend.createCategory(name, parentPageId, id);
+        pageIds.set(id, created.notionPageId || created.id);
+      } else {
+        await backend.updateCategory(pageIds.get(id) || id, { name, parentId: parentPageId });
+      }
+    });
+  }
+
+  for (const item of plan.paths) {
+    await run(item, async () => {
+      await backend.savePath(withoutAudio(item.record) as PathRecord);
+      for (const note of item.audio) {
+        await backend.savePathAudioNote(item.record.id, base64ToBlob(note.data!, note.mimeType));
+        result.audioUploaded++;
+      }
+    });
+  }
+
+  for (const item of plan.nodePaths) {
+    await run(item, async () => {
+      const nodePath = withoutAudio(item.record) as NodePathRecord;
+      await backend.saveNodePath(nodePath);
+      for (const note of item.audio) {
+        await backend.saveNodePathAudioNote(nodePath.id, nodePath.pathId, nodePath.nodeId, base64ToBlob(note.data!, note.mimeType));
+        result.audioUploaded++;
+      }
+    });
+  }
+
+  backend.clearCache();
+  return result;
+}
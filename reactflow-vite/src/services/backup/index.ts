@@ -0,0 +1,30 @@
+// Backup Service Index
+// =====================
+// Whole-workspace JSON export and import
+
+export {
+  WORKSPACE_FORMAT,
+  WORKSPACE_FORMAT_VERSION,
+  parseWorkspaceDocument,
+} from './format';
+export type {
+  WorkspaceDocument,
+  ExportedNode,
+  ExportedPath,
+  ExportedCategory,
+  ExportedNodePath,
+  ExportedAudioNote,
+} from './format';
+export { exportWorkspace, workspaceFileName } from './export';
+export type { ExportOptions, ExportResult } from './export';
+export { planImport, summarizeImport, applyImport } from './import';
+export type {
+  ImportAction,
+  ImportItem,
+  ImportOptions,
+  ImportPlan,
+  ImportEntity,
+  ImportSummary,
+  ImportProgress,
+  ImportResult,
+} from './import';
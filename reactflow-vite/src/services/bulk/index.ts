@@ -0,0 +1,6 @@
+// Bulk Service Index
+// ===================
+// Running one change across many selected records
+
+export { runBulk, awaitQueuedWrites, BULK_CONCURRENCY, BULK_SYNC_TIMEOUT } from './run';
+export type { BulkFailure, BulkResult, QueuedOutcome } from './run';
@@ -0,0 +1,122 @@
+// Bulk Runs
+// ==========
+// Applies one change to many records a few at a time and collects
+// per-record failures instead of stopping at the first one
+
+import type { SyncOutbox } from '../backend/types';
+import type { PendingChange } from '../notion/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// Writes in flight at once; Notion allows about three requests a second
+export const BULK_CONCURRENCY = 3;
+
+// ============================================
+// Types
+// ============================================
+
+export interface BulkFailure {
+  id: string;
+  error: string;
+}
+
+export interface BulkResult {
+  succeeded: string[]; // In the order the ids were given
+  failed: BulkFailure[];
+}
+
+// ============================================
+// Runner
+// ============================================
+
+/**
+ * Run `task` for every id, at most `concurrency` at a time
+ */
+export async function runBulk(
+  ids: string[],
+  task: (id: string) => Promise<void>,
+  concurrency = BULK_CONCURRENCY
+): Promise<BulkResult> {
+  const outcomes = new Map<string, string | null>(); // id -> error message, null when it succeeded
+  let next = 0;
+
+  const worker = async () => {
+    while (next < ids.length) {
+      const id = ids[next++];
+      try {
+        await task(id);
+        outcomes.set(id, null);
+      } catch (error) {
+        console.error(`[bulk] Failed for ${id}:`, error);
+        outcomes.set(id, error instanceof Error ? error.message : String(error));
+      }
+    }
+  };
+
+  await Promise.all(Array.from({ length: Math.min(concurrency, ids.length) }, worker));
+
+  return {
+    succeeded: ids.filter(id => outcomes.get(id) === null),
+    failed: ids.flatMap(id => {
+      const error = outcomes.get(id);
+      return typeof error === 'string' ? [{ id, error }] : [];
+    }),
+  };
+}
+
+// ============================================
+// Queued Writes
+// ============================================
+
+// How long to wait for queued writes before reporting them as still queued
+export const BULK_SYNC_TIMEOUT = 30 * 1000;
+
+export interface QueuedOutcome {
+  failed: BulkFailure[]; // Writes the backend rejected or that conflict with remote edits
+  queued: string[]; // Writes not sent yet when the wait ran out (e.g. offline)
+}
+
+/**
+ * Wait until writes queued for `ids` since `since` have reached the backend.
+ * Local-first backends resolve a write once it is queued, so a bulk run only
+ * knows whether it really succeeded after this.
+ */
+export function awaitQueuedWrites(
+  outbox: SyncOutbox,
+  ids: string[],
+  since: number,
+  timeout = BULK_SYNC_TIMEOUT
+): Promise<QueuedOutcome> {
+  const targets = new Set(ids);
+  return new Promise(resolve => {
+    let latest: PendingChange[] = [];
+    let unsubscribe: (() => void) | null = null;
+    let settled = false;
+
+    const outcome = (): QueuedOutcome => {
+      const ours = latest.filter(c => targets.has(c.targetId) && new Date(c.timestamp).getTime() >= since);
+      return {
+        failed: ours
+          .filter(c => c.status !== 'pending')
+          .map(c => ({ id: c.targetId, error: c.status === 'conflict' ? 'Edited elsewhere; settle it under unsynced changes' : c.error || 'Sync failed' })),
+        queued: Array.from(new Set(ours.filter(c => c.status === 'pending').map(c => c.targetId))),
+      };
+    };
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      clearTimeout(timer);
+      unsubscribe?.();
+      resolve(outcome());
+    };
+
+    const timer = setTimeout(finish, timeout);
+    unsubscribe = outbox.subscribe(changes => {
+      latest = changes;
+      if (outcome().queued.length === 0) finish();
+    });
+  });
+}
@@ -0,0 +1,8 @@
+// Diagram Export Service Index
+// =============================
+// The current diagram as SVG or high-resolution PNG
+
+export { renderDiagramSvg, GROUP_OVERLAY_CLASS } from './svg';
+export type { DiagramExportArea, DiagramSvgOptions, DiagramSvg } from './svg';
+export { renderDiagramPng, clampScale } from './raster';
+export type { DiagramPng } from './raster';
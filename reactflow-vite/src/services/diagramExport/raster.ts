@@ -0,0 +1,52 @@
+// Diagram PNG Rendering
+// ======================
+// Rasterizes an exported SVG at any scale
+
+import type { DiagramSvg } from './svg';
+
+// Browsers refuse canvases beyond roughly these limits
+const MAX_CANVAS_SIDE = 16384;
+const MAX_CANVAS_AREA = 16384 * 16384 / 2;
+
+export interface DiagramPng {
+  blob: Blob;
+  scale: number; // Scale actually used, lowered when the requested one exceeds canvas limits
+}
+
+/**
+ * Largest usable scale not above `requested` for an image of the given size
+ */
+export function clampScale(width: number, height: number, requested: number): number {
+  const bySide = MAX_CANVAS_SIDE / Math.max(width, height);
+  const byArea = Math.sqrt(MAX_CANVAS_AREA / (width * height));
+  return Math.max(0.1, Math.min(requested, bySide, byArea));
+}
+
+function loadImage(url: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error('The diagram could not be drawn as an image'));
+    image.src = url;
+  });
+}
+
+/**
+ * Draw `diagram` into a PNG at `scale` times its size
+ */
+export async function renderDiagramPng(diagram: DiagramSvg, scale: number): Promise<DiagramPng> {
+  const usedScale = clampScale(diagram.width, diagram.height, scale);
+  const url = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(diagram.svg)}`;
+  const image = await loadImage(url);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(diagram.width * usedScale);
+  canvas.height = Math.round(diagram.height * usedScale);
+  const context = canvas.getContext('2d');
+  if (!context) throw new Error('Canvas is not available');
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+  if (!blob) throw new Error('The diagram could not be encoded as PNG');
+  return { blob, scale: usedScale };
+}
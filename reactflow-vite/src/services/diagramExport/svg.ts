@@ -0,0 +1,225 @@
+// Diagram SVG Rendering
+// ======================
+// Rebuilds the rendered React Flow diagram as a standalone SVG document.
+// Group rectangles and edges are copied as SVG; nodes are embedded through
+// <foreignObject> with their computed styles inlined so themes carry over.
+
+// ============================================
+// Types
+// ============================================
+
+// 'viewport': what is on screen; 'graph': every rendered node
+export type DiagramExportArea = 'viewport' | 'graph';
+
+export interface DiagramSvgOptions {
+  area: DiagramExportArea;
+  background?: string; // CSS background for the canvas; omit for transparent
+  nodeIds?: Set<string>; // Only these nodes and the edges between them
+  edges?: Array<{ id: string; source: string; target: string }>; // Needed to filter edges by nodeIds
+  padding?: number; // Around the whole graph, in diagram units
+}
+
+export interface DiagramSvg {
+  svg: string;
+  width: number;
+  height: number;
+}
+
+interface Bounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XHTML_NS = 'http://www.w3.org/1999/xhtml';
+
+// Marker for the grouping overlay rendered by the app
+export const GROUP_OVERLAY_CLASS = 'diagram-group-overlay';
+
+// Presentation properties that edge styles are applied through
+const SVG_STYLE_PROPERTIES = [
+  'fill', 'fill-opacity', 'stroke', 'stroke-width', 'stroke-opacity', 'stroke-dasharray',
+  'stroke-linecap', 'stroke-linejoin', 'opacity', 'marker-start', 'marker-end',
+];
+
+// ============================================
+// Helpers
+// ============================================
+
+// React Flow positions the viewport and nodes with CSS transforms
+function parseTranslate(transform: string): { x: number; y: number; scale: number } {
+  const translate = /translate\(\s*(-?[\d.]+)px\s*,\s*(-?[\d.]+)px\s*\)/.exec(transform);
+  const scale = /scale\(\s*([\d.]+)\s*\)/.exec(transform);
+  return {
+    x: translate ? parseFloat(translate[1]) : 0,
+    y: translate ? parseFloat(translate[2]) : 0,
+    scale: scale ? parseFloat(scale[1]) : 1,
+  };
+}
+
+// Copy every computed style onto the clone so it renders without the app's stylesheets
+function inlineComputedStyles(source: Element, clone: Element): void {
+  const computed = window.getComputedStyle(source);
+  const style = (clone as HTMLElement).style;
+  for (let i = 0; i < computed.length; i++) {
+    const name = computed[i];
+    style.setProperty(name, computed.getPropertyValue(name), computed.getPropertyPriority(name));
+  }
+  const sourceChildren = Array.from(source.children);
+  const cloneChildren = Array.from(clone.children);
+  sourceChildren.forEach((child, i) => {
+    if (cloneChildren[i]) inlineComputedStyles(child, cloneChildren[i]);
+  });
+}
+
+function inlineSvgStyles(source: Element, clone: Element): void {
+  const computed = window.getComputedStyle(source);
+  SVG_STYLE_PROPERTIES.forEach(name => {
+    const value = computed.getPropertyValue(name);
+    if (value) (clone as SVGElement).style.setProperty(name, value);
+  });
+  const cloneChildren = Array.from(clone.children);
+  Array.from(source.children).forEach((child, i) => {
+    if (cloneChildren[i]) inlineSvgStyles(child, cloneChildren[i]);
+  });
+}
+
+function union(a: Bounds | null, b: Bounds): Bounds {
+  if (!a) return b;
+  const x = Math.min(a.x, b.x);
+  const y = Math.min(a.y, b.y);
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  };
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+/**
+ * Render the React Flow diagram inside `container` as an SVG document
+ */
+export function renderDiagramSvg(container: HTMLElement, options: DiagramSvgOptions): DiagramSvg {
+  const flow = container.querySelector<HTMLElement>('.react-flow');
+  const viewportEl = flow?.querySelector<HTMLElement>('.react-flow__viewport');
+  if (!flow || !viewportEl) {
+    throw new Error('No diagram to export');
+  }
+
+  const viewport = parseTranslate(viewportEl.style.transform);
+  const included = (id: string | null) => !options.nodeIds || (id !== null && options.nodeIds.has(id));
+
+  // Nodes, in diagram coordinates
+  const nodeEls = Array.from(flow.querySelectorAll<HTMLElement>('.react-flow__node'))
+    .filter(el => included(el.getAttribute('data-id')));
+  const nodes = nodeEls.map(el => {
+    const { x, y } = parseTranslate(el.style.transform);
+    return { el, bounds: { x, y, width: el.offsetWidth, height: el.offsetHeight } };
+  });
+
+  const overlay = flow.querySelector<SVGSVGElement>(`svg.${GROUP_OVERLAY_CLASS}`);
+  const overlayGroup = overlay?.querySelector<SVGGElement>(':scope > g');
+
+  // Area to export
+  let bounds: Bounds;
+  if (options.area === 'viewport') {
+    bounds = {
+      x: -viewport.x / viewport.scale,
+      y: -viewport.y / viewport.scale,
+      width: flow.clientWidth / viewport.scale,
+      height: flow.clientHeight / viewport.scale,
+    };
+  } else {
+    let graph: Bounds | null = null;
+    for (const node of nodes) graph = union(graph, node.bounds);
+    if (overlayGroup && !options.nodeIds) {
+      // getBBox is in the group's own (diagram) coordinates, before its viewport transform
+      const box = overlayGroup.getBBox();
+      if (box.width > 0 && box.height > 0) graph = union(graph, box);
+    }
+    if (!graph) throw new Error('No nodes to export');
+    const padding = options.padding ?? 40;
+    const { x, y, width, height } = graph;
+    bounds = { x: x - padding, y: y - padding, width: width + padding * 2, height: height + padding * 2 };
+  }
+
+  const width = Math.ceil(bounds.width);
+  const height = Math.ceil(bounds.height);
+  const svg = document.createElementNS(SVG_NS, 'svg');
+  svg.setAttribute('xmlns', SVG_NS);
+  svg.setAttribute('width', String(width));
+  svg.setAttribute('height', String(height));
+  svg.setAttribute('viewBox', `${bounds.x} ${bounds.y} ${bounds.width} ${bounds.height}`);
+
+  // Canvas background, drawn with the same CSS the app uses
+  if (options.background) {
+    const fo = document.createElementNS(SVG_NS, 'foreignObject');
+    fo.setAttribute('x', String(bounds.x));
+    fo.setAttribute('y', String(bounds.y));
+    fo.setAttribute('width', String(bounds.width));
+    fo.setAttribute('height', String(bounds.height));
+    const div = document.createElementNS(XHTML_NS, 'div') as HTMLElement;
+    div.style.width = '100%';
+    div.style.height = '100%';
+    div.style.background = options.background;
+    fo.appendChild(div);
+    svg.appendChild(fo);
+  }
+
+  // Group rectangles (already SVG, drawn in diagram coordinates)
+  if (overlay && overlayGroup) {
+    overlay.querySelectorAll(':scope > defs').forEach(defs => svg.appendChild(defs.cloneNode(true)));
+    const groups = overlayGroup.cloneNode(true) as SVGGElement;
+    groups.removeAttribute('transform');
+    svg.appendChild(groups);
+  }
+
+  // Arrow markers referenced by edges
+  flow.querySelectorAll('.react-flow__marker defs').forEach(defs => {
+    svg.appendChild(defs.cloneNode(true));
+  });
+
+  // Edges
+  const edgeEnds = new Map((options.edges ?? []).map(e => [e.id, e]));
+  flow.querySelectorAll<SVGGElement>('.react-flow__edge').forEach(edgeEl => {
+    const id = edgeEl.getAttribute('data-testid')?.replace(/^rf__edge-/, '') ?? '';
+    const ends = edgeEnds.get(id);
+    if (options.nodeIds && (!ends || !included(ends.source) || !included(ends.target))) return;
+    const clone = edgeEl.cloneNode(true) as SVGGElement;
+    inlineSvgStyles(edgeEl, clone);
+    clone.querySelectorAll('.react-flow__edge-interaction').forEach(el => el.remove());
+    svg.appendChild(clone);
+  });
+
+  // Nodes as HTML inside foreignObject
+  nodes.forEach(({ el, bounds: nodeBounds }) => {
+    const fo = document.createElementNS(SVG_NS, 'foreignObject');
+    fo.setAttribute('x', String(nodeBounds.x));
+    fo.setAttribute('y', String(nodeBounds.y));
+    fo.setAttribute('width', String(nodeBounds.width));
+    fo.setAttribute('height', String(nodeBounds.height));
+    fo.style.overflow = 'visible';
+    const clone = el.cloneNode(true) as HTMLElement;
+    inlineComputedStyles(el, clone);
+    clone.style.setProperty('transform', 'none');
+    clone.style.setProperty('position', 'static');
+    fo.appendChild(clone);
+    svg.appendChild(fo);
+  });
+
+  return {
+    svg: new XMLSerializer().serializeToString(svg),
+    width,
+    height,
+  };
+}
@@ -0,0 +1,14 @@
+// Graph Edit Service Index
+// =========================
+// Creating, re-parenting and deleting nodes from the canvas
+
+export {
+  DEFAULT_NODE_COLOR,
+  createNodeId,
+  createNodeRecord,
+  wouldCreateCycle,
+  addParent,
+  removeParent,
+  detachChildren,
+} from './operations';
+export type { NewNodeOptions } from './operations';
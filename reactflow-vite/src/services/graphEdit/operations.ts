@@ -0,0 +1,107 @@
+// Graph Edit Operations
+// ======================
+// Pure changes to node records; the caller persists whatever comes back
+
+import type { NodeRecord } from '../notion/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface NewNodeOptions {
+  label: string;
+  color?: string;
+  parentIds?: string[];
+  hidden?: boolean;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const DEFAULT_NODE_COLOR = '#3b82f6';
+
+// ============================================
+// Ids
+// ============================================
+
+/**
+ * A readable id derived from `label` that no existing node uses
+ */
+export function createNodeId(label: string, existingIds: Iterable<string>): string {
+  const taken = new Set(existingIds);
+  const base = label
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, '-')
+    .replace(/^-+|-+$/g, '') || 'node';
+
+  let id = base;
+  for (let suffix = 2; taken.has(id); suffix++) {
+    id = `${base}-${suffix}`;
+  }
+  return id;
+}
+
+// ============================================
+// Records
+// ============================================
+
+/**
+ * A new node record with empty content
+ */
+export function createNodeRecord(options: NewNodeOptions, existingIds: Iterable<string>): NodeRecord {
+  return {
+    id: createNodeId(options.label, existingIds),
+    parentIds: options.parentIds ?? [],
+    label: options.label,
+    category: '',
+    color: options.color || DEFAULT_NODE_COLOR,
+    wikiUrl: '',
+    description: '',
+    details: '',
+    longDescription: '',
+    externalLinks: [],
+    images: [],
+    hidden_by_default: options.hidden ?? false,
+  };
+}
+
+/**
+ * Whether making `parentId` a parent of `childId` would close a loop
+ */
+export function wouldCreateCycle(records: NodeRecord[], parentId: string, childId: string): boolean {
+  if (parentId === childId) return true;
+  const byId = new Map(records.map(r => [r.id, r]));
+  const seen = new Set<string>();
+  const stack = [parentId];
+
+  // Walk up from the new parent; reaching the child means the child is its ancestor
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === childId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    byId.get(id)?.parentIds.forEach(pid => stack.push(pid));
+  }
+  return false;
+}
+
+export function addParent(record: NodeRecord, parentId: string): NodeRecord {
+  if (record.parentIds.includes(parentId)) return record;
+  return { ...record, parentIds: [...record.parentIds, parentId] };
+}
+
+export function removeParent(record: NodeRecord, parentId: string): NodeRecord {
+  return { ...record, parentIds: record.parentIds.filter(pid => pid !== parentId) };
+}
+
+/**
+ * Children of `nodeId` with the link to it removed, for when the node is deleted
+ */
+export function detachChildren(records: NodeRecord[], nodeId: string): NodeRecord[] {
+  return records
+    .filter(r => r.parentIds.includes(nodeId))
+    .map(r => removeParent(r, nodeId));
+}
@@ -0,0 +1,79 @@
+// Revision Diffs
+// ===============
+// Compare two path revisions for display in the history panel
+
+// ============================================
+// Types
+// ============================================
+
+export interface NodeIdChanges {
+  added: string[];
+  removed: string[];
+}
+
+export interface DiffLine {
+  type: 'same' | 'added' | 'removed';
+  text: string;
+}
+
+// ============================================
+// Nodes
+// ============================================
+
+/**
+ * Nodes selected in `after` but not `before`, and the other way round
+ */
+export function diffNodeIds(before: string[], after: string[]): NodeIdChanges {
+  const beforeSet = new Set(before);
+  const afterSet = new Set(after);
+  return {
+    added: after.filter(id => !beforeSet.has(id)),
+    removed: before.filter(id => !afterSet.has(id)),
+  };
+}
+
+/**
+ * Node ids whose note differs between two revisions
+ */
+export function changedNoteIds(before: Record<string, string>, after: Record<string, string>): string[] {
+  const ids = new Set([...Object.keys(before), ...Object.keys(after)]);
+  return Array.from(ids).filter(id => (before[id] || '') !== (after[id] || ''));
+}
+
+// ============================================
+// Text
+// ============================================
+
+/**
+ * Line diff based on the longest common subsequence
+ */
+export function diffLines(before: string, after: string): DiffLine[] {
+  const a = before ? before.split('\n') : [];
+  const b = after ? after.split('\n') : [];
+
+  // lcs[i][j] = length of the LCS of a[i..] and b[j..]
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array<number>(b.length + 1).fill(0));
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1]);
+    }
+  }
+
+  const lines: DiffLine[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      lines.push({ type: 'same', text: a[i] });
+      i++;
+      j++;
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      lines.push({ type: 'removed', text: a[i++] });
+    } else {
+      lines.push({ type: 'added', text: b[j++] });
+    }
+  }
+  while (i < a.length) lines.push({ type: 'removed', text: a[i++] });
+  while (j < b.length) lines.push({ type: 'added', text: b[j++] });
+  return lines;
+}
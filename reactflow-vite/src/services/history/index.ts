@@ -0,0 +1,11 @@
+// History Service Index
+// ======================
+// Path revisions and the helpers to compare them
+
+export {
+  createHistoryBackend,
+  HISTORY_COALESCE_WINDOW,
+  HISTORY_MAX_REVISIONS,
+} from './recorder';
+export { diffNodeIds, changedNoteIds, diffLines } from './diff';
+export type { NodeIdChanges, DiffLine } from './diff';
@@ -0,0 +1,237 @@
+// Path History Recorder
+// ======================
+// Wraps a DataBackend so every change to a path's nodes, notes or node notes
+// is kept as a revision in IndexedDB (per browser) and can be restored later
+
+import { STORES, getOne, putOne } from '../local/db';
+import type {
+  DataBackend,
+  HistoryListener,
+  PathHistory,
+  PathRevision,
+  RevisionReason,
+} from '../backend/types';
+import type { NodePathRecord } from '../notion/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// Edits of the same kind within this window update one revision instead of adding many
+export const HISTORY_COALESCE_WINDOW = 30 * 1000;
+
+// Oldest revisions beyond this count are dropped (the baseline is always kept)
+export const HISTORY_MAX_REVISIONS = 200;
+
+// ============================================
+// Types
+// ============================================
+
+// One stored entry per path, revisions oldest first
+interface StoredHistory {
+  id: string; // pathId
+  revisions: PathRevision[];
+}
+
+type Snapshot = Pick<PathRevision, 'nodeIds' | 'notes' | 'nodeNotes'>;
+
+// ============================================
+// Helpers
+// ============================================
+
+function generateRevisionId(): string {
+  return `rev-${Date.now()}-${Math.random().toString(36).slice(2, 9)}`;
+}
+
+function sameSnapshot(a: Snapshot, b: Snapshot): boolean {
+  if (a.notes !== b.notes) return false;
+  if (a.nodeIds.length !== b.nodeIds.length || a.nodeIds.some((id, i) => id !== b.nodeIds[i])) return false;
+  const keys = new Set([...Object.keys(a.nodeNotes), ...Object.keys(b.nodeNotes)]);
+  return Array.from(keys).every(key => (a.nodeNotes[key] || '') === (b.nodeNotes[key] || ''));
+}
+
+// ============================================
+// Recorder
+// ============================================
+
+/**
+ * Record path revisions for every change made through `backend`
+ */
+export function createHistoryBackend(backend: DataBackend): DataBackend {
+  const listeners = new Set<HistoryListener>();
+
+  // Changes to one path are recorded one at a time, in call order
+  const queues = new Map<string, Promise<unknown>>();
+
+  function runForPath<T>(pathId: string, task: () => Promise<T>): Promise<T> {
+    const run = (queues.get(pathId) ?? Promise.resolve()).catch(() => undefined).then(task);
+    queues.set(pathId, run);
+    return run;
+  }
+
+  async function loadRevisions(pathId: string): Promise<PathRevision[]> {
+    const stored = await getOne<StoredHistory>(STORES.HISTORY, pathId);
+    return stored?.revisions ?? [];
+  }
+
+  async function saveRevisions(pathId: string, revisions: PathRevision[]): Promise<void> {
+    const trimmed = revisions.length > HISTORY_MAX_REVISIONS
+      ? [revisions[0], ...revisions.slice(revisions.length - HISTORY_MAX_REVISIONS + 1)]
+      : revisions;
+    await putOne<StoredHistory>(STORES.HISTORY, { id: pathId, revisions: trimmed });
+    listeners.forEach(listener => listener(pathId));
+  }
+
+  // State of the path before its first recorded change
+  async function captureBaseline(pathId: string): Promise<PathRevision> {
+    const [paths, nodePaths] = await Promise.all([backend.fetchPaths(), backend.fetchNodePaths()]);
+    const path = paths.find(p => p.id === pathId);
+    const nodeNotes: Record<string, string> = {};
+    nodePaths
+      .filter(np => np.pathId === pathId && np.content)
+      .forEach(np => { nodeNotes[np.nodeId] = np.content; });
+
+    return {
+      id: generateRevisionId(),
+      pathId,
+      createdAt: path?.dateUpdated || path?.lastModified || new Date().toISOString(),
+      reason: 'baseline',
+      nodeIds: path?.nodeIds ?? [],
+      notes: path?.notes ?? '',
+      nodeNotes,
+    };
+  }
+
+  async function latestRevisions(pathId: string): Promise<PathRevision[]> {
+    const revisions = await loadRevisions(pathId);
+    if (revisions.length > 0) return revisions;
+    const baseline = await captureBaseline(pathId);
+    await saveRevisions(pathId, [baseline]);
+    return [baseline];
+  }
+
+  async function addRevision(
+    pathId: string,
+    reason: RevisionReason,
+    apply: (latest: Snapshot) => Snapshot,
+    extra: Pick<PathRevision, 'nodeId' | 'restoredFrom'> = {}
+  ): Promise<PathRevision> {
+    const revisions = await latestRevisions(pathId);
+    const latest = revisions[revisions.length - 1];
+    const next = apply(latest);
+    if (reason !== 'restore' && sameSnapshot(latest, next)) return latest;
+
+    const now = new Date();
+    const coalesce = reason !== 'restore'
+      && latest.reason === reason
+      && latest.nodeId === extra.nodeId
+      && now.getTime() - Date.parse(latest.createdAt) < HISTORY_COALESCE_WINDOW;
+
+    const revision: PathRevision = {
+      id: coalesce ? latest.id : generateRevisionId(),
+      pathId,
+      createdAt: now.toISOString(),
+      reason,
+      ...extra,
+      nodeIds: [...next.nodeIds],
+      notes: next.notes,
+      nodeNotes: { ...next.nodeNotes },
+    };
+    await saveRevisions(pathId, coalesce ? [...revisions.slice(0, -1), revision] : [...revisions, revision]);
+    return revision;
+  }
+
+  /**
+   * Make sure the pre-change state is on record, run the change, then record the result.
+   * History is best effort: failing to record never fails the change itself.
+   */
+  async function tracked<T>(
+    pathId: string,
+    change: () => Promise<T>,
+    reason: RevisionReason,
+    apply: (latest: Snapshot) => Snapshot,
+    nodeId?: string
+  ): Promise<T> {
+    await runForPath(pathId, () => latestRevisions(pathId)).catch(error => {
+      console.error('[history] Failed to capture baseline:', error);
+    });
+    const result = await change();
+    await runForPath(pathId, () => addRevision(pathId, reason, apply, nodeId ? { nodeId } : {})).catch(error => {
+      console.error('[history] Failed to record revision:', error);
+    });
+    return result;
+  }
+
+  function withNodeNote(latest: Snapshot, nodePath: NodePathRecord): Snapshot {
+    const nodeNotes = { ...latest.nodeNotes };
+    if (nodePath.content) nodeNotes[nodePath.nodeId] = nodePath.content;
+    else delete nodeNotes[nodePath.nodeId];
+    return { ...latest, nodeNotes };
+  }
+
+  const history: PathHistory = {
+    async list(pathId) {
+      const revisions = await loadRevisions(pathId);
+      return [...revisions].reverse();
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    restore(pathId, revisionId) {
+      return runForPath(pathId, async () => {
+        const revisions = await latestRevisions(pathId);
+        const target = revisions.find(r => r.id === revisionId);
+        if (!target) throw new Error('Revision not found');
+        const latest = revisions[revisions.length - 1];
+
+        const path = (await backend.fetchPaths()).find(p => p.id === pathId);
+        await backend.updatePathNodes(pathId, path?.name ?? pathId, target.nodeIds);
+        if (latest.notes !== target.notes) {
+          await backend.savePathNotes(pathId, target.notes);
+        }
+        const nodeIds = new Set([...Object.keys(latest.nodeNotes), ...Object.keys(target.nodeNotes)]);
+        for (const nodeId of nodeIds) {
+          const content = target.nodeNotes[nodeId] || '';
+          if ((latest.nodeNotes[nodeId] || '') === content) continue;
+          await backend.saveNodePath({ id: `${pathId}_${nodeId}`, pathId, nodeId, content });
+        }
+
+        return addRevision(pathId, 'restore', () => target, { restoredFrom: target.id });
+      });
+    },
+  };
+
+  return {
+    ...backend,
+
+    updatePathNodes: (pathId, pathName, nodeIds) =>
+      tracked(pathId, () => backend.updatePathNodes(pathId, pathName, nodeIds), 'nodes',
+        latest => ({ ...latest, nodeIds })),
+
+    savePathNotes: (pathId, notes) =>
+      tracked(pathId, () => backend.savePathNotes(pathId, notes), 'notes',
+        latest => ({ ...latest, notes: notes || '' })),
+
+    saveNodePath: (nodePath) =>
+      tracked(nodePath.pathId, () => backend.saveNodePath(nodePath), 'nodeNote',
+        latest => withNodeNote(latest, nodePath), nodePath.nodeId),
+
+    async batchSaveNodePaths(nodePaths) {
+      const pathIds = Array.from(new Set(nodePaths.map(np => np.pathId)));
+      await Promise.all(pathIds.map(pathId => runForPath(pathId, () => latestRevisions(pathId)).catch(error => {
+        console.error('[history] Failed to capture baseline:', error);
+      })));
+      await backend.batchSaveNodePaths(nodePaths);
+      await Promise.all(pathIds.map(pathId => runForPath(pathId, () => addRevision(pathId, 'nodeNote',
+        latest => nodePaths.filter(np => np.pathId === pathId).reduce(withNodeNote, latest)
+      )).catch(error => {
+        console.error('[history] Failed to record revision:', error);
+      })));
+    },
+
+    history,
+  };
+}
@@ -0,0 +1,185 @@
+// Integrity Checks
+// =================
+// Finds records the diagram and path views silently skip or mishandle
+
+import type { NodePathRecord, NodeRecord, PathRecord } from '../notion/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface IntegrityData {
+  nodes: NodeRecord[];
+  paths: PathRecord[];
+  nodePaths: NodePathRecord[];
+}
+
+export type IntegrityIssueKind =
+  | 'duplicateNodeId'
+  | 'missingParent'
+  | 'cycle'
+  | 'danglingPathNode'
+  | 'orphanedNodePath';
+
+// A record an issue points at
+export interface IntegrityRecordRef {
+  entity: 'node' | 'path' | 'nodePath';
+  id: string;
+  label: string;
+  notionPageId?: string;
+}
+
+// One-click repairs; issues without one need a decision in Notion
+export type IntegrityFix =
+  | { type: 'removeParents'; nodeId: string; parentIds: string[] }
+  | { type: 'removePathNodes'; pathId: string; nodeIds: string[] }
+  | { type: 'deleteNodePath'; nodePathId: string };
+
+export interface IntegrityIssue {
+  id: string; // Stable key for lists
+  kind: IntegrityIssueKind;
+  message: string;
+  records: IntegrityRecordRef[];
+  fix?: IntegrityFix;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function nodeRef(node: NodeRecord): IntegrityRecordRef {
+  return { entity: 'node', id: node.id, label: node.label || node.id, notionPageId: node.notionPageId };
+}
+
+function pathRef(path: PathRecord): IntegrityRecordRef {
+  return { entity: 'path', id: path.id, label: path.name || path.id, notionPageId: path.notionPageId };
+}
+
+function nodePathRef(nodePath: NodePathRecord): IntegrityRecordRef {
+  return { entity: 'nodePath', id: nodePath.id, label: nodePath.id, notionPageId: nodePath.notionPageId };
+}
+
+// ============================================
+// Checks
+// ============================================
+
+function findDuplicateNodeIds(nodes: NodeRecord[]): IntegrityIssue[] {
+  const byId = new Map<string, NodeRecord[]>();
+  nodes.forEach(node => byId.set(node.id, [...(byId.get(node.id) || []), node]));
+
+  return Array.from(byId.entries())
+    .filter(([, copies]) => copies.length > 1)
+    .map(([id, copies]) => ({
+      id: `duplicate:${id}`,
+      kind: 'duplicateNodeId' as const,
+      message: `${copies.length} nodes share the id "${id}"; only one of them is shown.`,
+      records: copies.map(nodeRef),
+    }));
+}
+
+function findMissingParents(nodes: NodeRecord[], nodeIds: Set<string>): IntegrityIssue[] {
+  return nodes.flatMap(node => {
+    const missing = node.parentIds.filter(pid => pid && !nodeIds.has(pid));
+    if (missing.length === 0) return [];
+    return [{
+      id: `missing-parent:${node.id}`,
+      kind: 'missingParent' as const,
+      message: `"${node.label || node.id}" lists parent ${missing.map(pid => `"${pid}"`).join(', ')} that does not exist.`,
+      records: [nodeRef(node)],
+      fix: { type: 'removeParents' as const, nodeId: node.id, parentIds: missing },
+    }];
+  });
+}
+
+/**
+ * Parent loops, each reported once with the link that closes it as the fix
+ */
+function findCycles(nodes: NodeRecord[]): IntegrityIssue[] {
+  const byId = new Map(nodes.map(node => [node.id, node]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const stack: string[] = [];
+  const seen = new Set<string>();
+  const issues: IntegrityIssue[] = [];
+
+  // Follow parent links; reaching a node still on the stack closes a loop
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    stack.push(id);
+    for (const parentId of byId.get(id)?.parentIds || []) {
+      if (!byId.has(parentId)) continue;
+      if (state.get(parentId) === 'visiting') {
+        const loop = stack.slice(stack.indexOf(parentId));
+        const key = [...loop].sort().join('|');
+        if (!seen.has(key)) {
+          seen.add(key);
+          const labels = loop.map(nid => byId.get(nid)!.label || nid);
+          issues.push({
+            id: `cycle:${key}`,
+            kind: 'cycle',
+            message: loop.length === 1
+              ? `"${labels[0]}" is its own parent.`
+              : `Parent links form a loop: ${[...labels, labels[0]].map(l => `"${l}"`).join(' → ')}.`,
+            records: loop.map(nid => nodeRef(byId.get(nid)!)),
+            fix: { type: 'removeParents', nodeId: id, parentIds: [parentId] },
+          });
+        }
+      } else if (!state.has(parentId)) {
+        visit(parentId);
+      }
+    }
+    stack.pop();
+    state.set(id, 'done');
+  };
+
+  nodes.forEach(node => {
+    if (!state.has(node.id)) visit(node.id);
+  });
+  return issues;
+}
+
+function findDanglingPathNodes(paths: PathRecord[], nodeIds: Set<string>): IntegrityIssue[] {
+  return paths.flatMap(path => {
+    const missing = path.nodeIds.filter(nid => !nodeIds.has(nid));
+    if (missing.length === 0) return [];
+    return [{
+      id: `dangling:${path.id}`,
+      kind: 'danglingPathNode' as const,
+      message: `Path "${path.name}" includes ${missing.length === 1 ? 'a node' : `${missing.length} nodes`} that no longer exist${missing.length === 1 ? 's' : ''}: ${missing.map(nid => `"${nid}"`).join(', ')}.`,
+      records: [pathRef(path)],
+      fix: { type: 'removePathNodes' as const, pathId: path.id, nodeIds: missing },
+    }];
+  });
+}
+
+function findOrphanedNodePaths(nodePaths: NodePathRecord[], pathIds: Set<string>, nodeIds: Set<string>): IntegrityIssue[] {
+  return nodePaths.flatMap(nodePath => {
+    const missing = [
+      !pathIds.has(nodePath.pathId) ? `path "${nodePath.pathId}"` : null,
+      !nodeIds.has(nodePath.nodeId) ? `node "${nodePath.nodeId}"` : null,
+    ].filter(Boolean);
+    if (missing.length === 0) return [];
+    return [{
+      id: `orphan:${nodePath.id}`,
+      kind: 'orphanedNodePath' as const,
+      message: `Note "${nodePath.id}" belongs to ${missing.join(' and ')}, which no longer exist${missing.length === 1 ? 's' : ''}.`,
+      records: [nodePathRef(nodePath)],
+      fix: { type: 'deleteNodePath' as const, nodePathId: nodePath.id },
+    }];
+  });
+}
+
+/**
+ * Every problem found in `data`, most structural first
+ */
+export function checkIntegrity(data: IntegrityData): IntegrityIssue[] {
+  const nodeIds = new Set(data.nodes.map(node => node.id));
+  const pathIds = new Set(data.paths.map(path => path.id));
+
+  return [
+    ...findDuplicateNodeIds(data.nodes),
+    ...findCycles(data.nodes),
+    ...findMissingParents(data.nodes, nodeIds),
+    ...findDanglingPathNodes(data.paths, nodeIds),
+    ...findOrphanedNodePaths(data.nodePaths, pathIds, nodeIds),
+  ];
+}
@@ -0,0 +1,68 @@
+// Integrity Fixes
+// ================
+// Loads what the checker needs and applies its one-click repairs
+
+import type { DataBackend } from '../backend/types';
+import type { IntegrityData, IntegrityFix } from './check';
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Nodes, paths and node notes as the backend currently has them
+ */
+export async function loadIntegrityData(backend: DataBackend, forceRefresh = false): Promise<IntegrityData> {
+  const [nodes, paths, nodePaths] = await Promise.all([
+    backend.fetchNodes(forceRefresh),
+    backend.fetchPaths(forceRefresh),
+    backend.fetchNodePaths(forceRefresh),
+  ]);
+  return { nodes, paths, nodePaths };
+}
+
+// ============================================
+// Fixes
+// ============================================
+
+export function describeFix(fix: IntegrityFix): string {
+  switch (fix.type) {
+    case 'removeParents':
+      return fix.parentIds.length === 1 ? 'Remove parent link' : 'Remove parent links';
+    case 'removePathNodes':
+      return fix.nodeIds.length === 1 ? 'Remove node from path' : 'Remove nodes from path';
+    case 'deleteNodePath':
+      return 'Delete note';
+  }
+}
+
+/**
+ * Apply `fix` and return `data` as it is afterwards
+ */
+export async function applyIntegrityFix(
+  backend: DataBackend,
+  data: IntegrityData,
+  fix: IntegrityFix
+): Promise<IntegrityData> {
+  switch (fix.type) {
+    case 'removeParents': {
+      const node = data.nodes.find(n => n.id === fix.nodeId);
+      if (!node) return data;
+      const saved = await backend.saveNode({
+        ...node,
+        parentIds: node.parentIds.filter(pid => !fix.parentIds.includes(pid)),
+      });
+      return { ...data, nodes: data.nodes.map(n => n === node ? saved : n) };
+    }
+    case 'removePathNodes': {
+      const path = data.paths.find(p => p.id === fix.pathId);
+      if (!path) return data;
+      const nodeIds = path.nodeIds.filter(nid => !fix.nodeIds.includes(nid));
+      await backend.updatePathNodes(path.id, path.name, nodeIds);
+      return { ...data, paths: data.paths.map(p => p === path ? { ...p, nodeIds } : p) };
+    }
+    case 'deleteNodePath':
+      await backend.deleteNodePath(fix.nodePathId);
+      return { ...data, nodePaths: data.nodePaths.filter(np => np.id !== fix.nodePathId) };
+  }
+}
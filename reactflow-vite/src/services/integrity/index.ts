@@ -0,0 +1,13 @@
+// Integrity Service Index
+// ========================
+// Detects broken links between nodes, paths and node notes, and repairs them
+
+export { checkIntegrity } from './check';
+export type {
+  IntegrityData,
+  IntegrityFix,
+  IntegrityIssue,
+  IntegrityIssueKind,
+  IntegrityRecordRef,
+} from './check';
+export { loadIntegrityData, describeFix, applyIntegrityFix } from './fixes';
@@ -0,0 +1,48 @@
+// Layout Animation
+// =================
+// Moves nodes from their old positions to new ones over a few frames
+
+import type { XYPosition } from '@xyflow/react';
+
+export const LAYOUT_ANIMATION_MS = 400;
+
+// Ease-in-out cubic
+function ease(t: number): number {
+  return t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+}
+
+/**
+ * Call `onFrame` with in-between positions for every node whose position
+ * differs between `from` and `to`, ending exactly on `to`. Returns a function
+ * that stops the animation where it is.
+ */
+export function animatePositions(
+  from: Map<string, XYPosition>,
+  to: Map<string, XYPosition>,
+  onFrame: (positions: Map<string, XYPosition>) => void,
+  duration = LAYOUT_ANIMATION_MS
+): () => void {
+  const moving = Array.from(to.entries()).filter(([id, end]) => {
+    const start = from.get(id);
+    return start && (start.x !== end.x || start.y !== end.y);
+  });
+  const reduceMotion = typeof window !== 'undefined'
+    && window.matchMedia?.('(prefers-reduced-motion: reduce)').matches;
+  if (moving.length === 0 || duration <= 0 || reduceMotion) {
+    onFrame(new Map(moving));
+    return () => {};
+  }
+
+  let frame = 0;
+  const startedAt = performance.now();
+  const step = (now: number) => {
+    const t = ease(Math.min(1, Math.max(0, now - startedAt) / duration));
+    onFrame(new Map(moving.map(([id, end]) => {
+      const start = from.get(id)!;
+      return [id, { x: start.x + (end.x - start.x) * t, y: start.y + (end.y - start.y) * t }];
+    })));
+    if (t < 1) frame = requestAnimationFrame(step);
+  };
+  frame = requestAnimationFrame(step);
+  return () => cancelAnimationFrame(frame);
+}
@@ -0,0 +1,68 @@
+// Collapsed Subtrees
+// ===================
+// Works out which nodes a set of collapsed nodes hides, following parent → child edges
+
+import type { Edge } from '@xyflow/react';
+
+export interface CollapseResult {
+  hiddenIds: Set<string>; // Nodes hidden because every route to them runs through a collapsed node
+  hiddenCounts: Map<string, number>; // Per collapsed node, how many of its descendants are hidden
+}
+
+function descendantsOf(id: string, children: Map<string, string[]>): Set<string> {
+  const found = new Set<string>();
+  const queue = [...(children.get(id) || [])];
+  while (queue.length > 0) {
+    const next = queue.shift()!;
+    if (found.has(next)) continue;
+    found.add(next);
+    queue.push(...(children.get(next) || []));
+  }
+  return found;
+}
+
+/**
+ * Number of children of each node that has any
+ */
+export function countChildren(edges: Edge[]): Map<string, number> {
+  const counts = new Map<string, number>();
+  edges.forEach(e => counts.set(e.source, (counts.get(e.source) || 0) + 1));
+  return counts;
+}
+
+/**
+ * Hide the descendants of `collapsedIds`, except nodes that another visible
+ * parent still leads to
+ */
+export function collapseSubtrees(edges: Edge[], collapsedIds: Iterable<string>): CollapseResult {
+  const collapsed = new Set(collapsedIds);
+  const children = new Map<string, string[]>();
+  const parents = new Map<string, string[]>();
+  edges.forEach(e => {
+    children.set(e.source, [...(children.get(e.source) || []), e.target]);
+    parents.set(e.target, [...(parents.get(e.target) || []), e.source]);
+  });
+
+  const hiddenIds = new Set<string>();
+  collapsed.forEach(id => descendantsOf(id, children).forEach(d => hiddenIds.add(d)));
+
+  // Un-hide nodes with a parent that is neither collapsed nor hidden, until nothing changes
+  let changed = true;
+  while (changed) {
+    changed = false;
+    hiddenIds.forEach(id => {
+      const visibleParent = (parents.get(id) || []).some(p => !collapsed.has(p) && !hiddenIds.has(p));
+      if (visibleParent) {
+        hiddenIds.delete(id);
+        changed = true;
+      }
+    });
+  }
+
+  const hiddenCounts = new Map<string, number>();
+  collapsed.forEach(id => {
+    const count = Array.from(descendantsOf(id, children)).filter(d => hiddenIds.has(d)).length;
+    if (count > 0) hiddenCounts.set(id, count);
+  });
+  return { hiddenIds, hiddenCounts };
+}
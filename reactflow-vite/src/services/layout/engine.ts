@@ -0,0 +1,523 @@
+// Layout Engine
+// ==============
+// Positions nodes for each layout type, and for paths with saved layouts
+
+import dagre from 'dagre';
+import type { Edge, Node } from '@xyflow/react';
+import type { PathLayout } from '../notion/types';
+
+// ============================================
+// Constants
+// ============================================
+
+export const NODE_WIDTH = 240;
+export const NODE_HEIGHT = 80;
+
+// A new graph per call, so nodes from an earlier layout never leak into the next
+function createDagreGraph(): dagre.graphlib.Graph {
+  const graph = new dagre.graphlib.Graph();
+  graph.setDefaultEdgeLabel(() => ({}));
+  return graph;
+}
+
+// ============================================
+// Layout Types and Functions
+// ============================================
+
+export type LayoutType = 
+  | 'default'           // Standard dagre hierarchy (TB)
+  | 'centered'          // Centered horizontally per rank
+  | 'horizontal'        // Left-to-right hierarchy
+  | 'horizontal-row'    // All nodes in single horizontal row
+  | 'vertical-column'   // All nodes in single vertical column
+  | 'diagonal'          // Nodes arranged diagonally
+  | 'circle'            // Nodes in a circle
+  | 'spiral'            // Nodes in a spiral pattern
+  | 'grid'              // Grid layout
+  | 'radial'            // Radial/sunburst from center
+  | 'tree-centered'     // Centered tree layout
+  | 'inverted'          // Bottom-to-top hierarchy
+  | 'wave'              // Sine wave pattern
+  | 'diamond'           // Diamond shape
+  | 'hexagonal'         // Hexagonal grid
+  | 'zigzag'            // Alternating left-right
+  | 'scattered'         // Artistic scattered
+  | 'concentric'        // Concentric circles by depth
+  | 'columns-by-depth'  // Vertical columns per depth level
+  | 'cascade';          // Cascading waterfall
+
+export const LAYOUT_LABELS: Record<LayoutType, string> = {
+  'default': 'Hierarchy',
+  'centered': 'Centered',
+  'horizontal': 'Horizontal Tree',
+  'horizontal-row': 'Single Row',
+  'vertical-column': 'Single Column',
+  'diagonal': 'Diagonal',
+  'circle': 'Circle',
+  'spiral': 'Spiral',
+  'grid': 'Grid',
+  'radial': 'Radial',
+  'tree-centered': 'Centered Tree',
+  'inverted': 'Inverted',
+  'wave': 'Wave',
+  'diamond': 'Diamond',
+  'hexagonal': 'Hexagonal',
+  'zigzag': 'Zigzag',
+  'scattered': 'Scattered',
+  'concentric': 'Concentric',
+  'columns-by-depth': 'Depth Columns',
+  'cascade': 'Cascade',
+};
+
+export const LAYOUT_ORDER: LayoutType[] = [
+  'centered', 'default', 'horizontal', 'tree-centered', 'inverted',
+  'horizontal-row', 'vertical-column', 'diagonal', 'zigzag', 'cascade',
+  'circle', 'spiral', 'radial', 'concentric',
+  'grid', 'hexagonal', 'diamond', 'wave', 'columns-by-depth', 'scattered'
+];
+
+// Helper to calculate node depth from edges
+function calculateNodeDepths(nodes: Node[], edges: Edge[]): Map<string, number> {
+  const depths = new Map<string, number>();
+  const childToParents = new Map<string, string[]>();
+  
+  edges.forEach(edge => {
+    const parents = childToParents.get(edge.target) || [];
+    parents.push(edge.source);
+    childToParents.set(edge.target, parents);
+  });
+  
+  // Find roots (nodes with no parents)
+  const nodeIds = new Set(nodes.map(n => n.id));
+  const hasParent = new Set(edges.map(e => e.target));
+  const roots = nodes.filter(n => !hasParent.has(n.id)).map(n => n.id);
+  
+  // BFS to calculate depths
+  const queue = roots.map(id => ({ id, depth: 0 }));
+  while (queue.length > 0) {
+    const { id, depth } = queue.shift()!;
+    if (depths.has(id) && depths.get(id)! <= depth) continue;
+    depths.set(id, depth);
+    
+    // Find children
+    edges.forEach(edge => {
+      if (edge.source === id && nodeIds.has(edge.target)) {
+        queue.push({ id: edge.target, depth: depth + 1 });
+      }
+    });
+  }
+  
+  // Assign depth 0 to any disconnected nodes
+  nodes.forEach(n => {
+    if (!depths.has(n.id)) depths.set(n.id, 0);
+  });
+  
+  return depths;
+}
+
+/**
+ * Positions for `nodes` under `layoutType`; every call lays out on a fresh graph
+ */
+export function applyLayout(
+  nodes: Node[],
+  edges: Edge[],
+  layoutType: LayoutType
+): Node[] {
+  if (nodes.length === 0) return nodes;
+  
+  const spacing = { x: NODE_WIDTH + 60, y: NODE_HEIGHT + 50 };
+  const depths = calculateNodeDepths(nodes, edges);
+  void depths; // Used in multiple layout cases
+  
+  switch (layoutType) {
+    case 'default': {
+      // Standard dagre top-to-bottom (wider spacing, left-aligned — visually distinct from centered)
+      const dagreGraph = createDagreGraph();
+      dagreGraph.setGraph({ rankdir: 'TB', nodesep: 30, ranksep: 90, align: 'UL' });
+      nodes.forEach(node => dagreGraph.setNode(node.id, { width: NODE_WIDTH, height: NODE_HEIGHT }));
+      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
+      dagre.layout(dagreGraph);
+      return nodes.map(node => {
+        const pos = dagreGraph.node(node.id);
+        return { ...node, position: { x: pos.x - NODE_WIDTH / 2, y: pos.y - NODE_HEIGHT / 2 } };
+      });
+    }
+    
+    case 'centered': {
+      // Dagre layout, then center each rank horizontally
+      const dagreGraph = createDagreGraph();
+      dagreGraph.setGraph({ rankdir: 'TB', nodesep: 50, ranksep: 70 });
+      nodes.forEach(node => dagreGraph.setNode(node.id, { width: NODE_WIDTH, height: NODE_HEIGHT }));
+      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
+      dagre.layout(dagreGraph);
+      
+      const positioned = nodes.map(node => {
+        const pos = dagreGraph.node(node.id);
+        return { ...node, position: { x: pos.x - NODE_WIDTH / 2, y: pos.y - NODE_HEIGHT / 2 } };
+      });
+      
+      // Group by Y position (rank) and center each rank
+      const ranks = new Map<number, Node[]>();
+      positioned.forEach(node => {
+        const y = Math.round(node.position.y / 10) * 10; // Round to avoid float issues
+        const rank = ranks.get(y) || [];
+        rank.push(node);
+        ranks.set(y, rank);
+      });
+      
+      let globalMinX = Infinity, globalMaxX = -Infinity;
+      positioned.forEach(n => {
+        globalMinX = Math.min(globalMinX, n.position.x);
+        globalMaxX = Math.max(globalMaxX, n.position.x + NODE_WIDTH);
+      });
+      const centerX = (globalMinX + globalMaxX) / 2;
+      
+      ranks.forEach(rankNodes => {
+        const minX = Math.min(...rankNodes.map(n => n.position.x));
+        const maxX = Math.max(...rankNodes.map(n => n.position.x + NODE_WIDTH));
+        const rankCenter = (minX + maxX) / 2;
+        const offset = centerX - rankCenter;
+        rankNodes.forEach(n => { n.position.x += offset; });
+      });
+      
+      return positioned;
+    }
+    
+    case 'horizontal': {
+      // Left-to-right hierarchy
+      const dagreGraph = createDagreGraph();
+      dagreGraph.setGraph({ rankdir: 'LR', nodesep: 40, ranksep: 80 });
+      nodes.forEach(node => dagreGraph.setNode(node.id, { width: NODE_WIDTH, height: NODE_HEIGHT }));
+      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
+      dagre.layout(dagreGraph);
+      return nodes.map(node => {
+        const pos = dagreGraph.node(node.id);
+        return { ...node, position: { x: pos.x - NODE_WIDTH / 2, y: pos.y - NODE_HEIGHT / 2 } };
+      });
+    }
+    
+    case 'horizontal-row': {
+      // All nodes in a single horizontal row
+      return nodes.map((node, i) => ({
+        ...node,
+        position: { x: i * spacing.x, y: 0 }
+      }));
+    }
+    
+    case 'vertical-column': {
+      // All nodes in a single vertical column
+      return nodes.map((node, i) => ({
+        ...node,
+        position: { x: 0, y: i * spacing.y }
+      }));
+    }
+    
+    case 'diagonal': {
+      // Nodes arranged diagonally
+      return nodes.map((node, i) => ({
+        ...node,
+        position: { x: i * spacing.x * 0.7, y: i * spacing.y * 0.7 }
+      }));
+    }
+    
+    case 'circle': {
+      // Nodes arranged in a circle
+      const n = nodes.length;
+      const radius = Math.max(150, n * 40);
+      return nodes.map((node, i) => {
+        const angle = (2 * Math.PI * i) / n - Math.PI / 2;
+        return {
+          ...node,
+          position: {
+            x: radius * Math.cos(angle) + radius,
+            y: radius * Math.sin(angle) + radius
+          }
+        };
+      });
+    }
+    
+    case 'spiral': {
+      // Nodes in a spiral pattern
+      const a = 20; // Spiral tightness
+      return nodes.map((node, i) => {
+        const angle = i * 0.5;
+        const r = a * angle;
+        return {
+          ...node,
+          position: {
+            x: r * Math.cos(angle) + 500,
+            y: r * Math.sin(angle) + 500
+          }
+        };
+      });
+    }
+    
+    case 'grid': {
+      // Nodes in a grid
+      const cols = Math.ceil(Math.sqrt(nodes.length));
+      return nodes.map((node, i) => ({
+        ...node,
+        position: {
+          x: (i % cols) * spacing.x,
+          y: Math.floor(i / cols) * spacing.y
+        }
+      }));
+    }
+    
+    case 'radial': {
+      // Radial layout from center based on depth
+      const depthNodes = new Map<number, Node[]>();
+      nodes.forEach(node => {
+        const d = depths.get(node.id) || 0;
+        const arr = depthNodes.get(d) || [];
+        arr.push(node);
+        depthNodes.set(d, arr);
+      });
+      
+      const result: Node[] = [];
+      depthNodes.forEach((nodesAtDepth, depth) => {
+        const radius = depth === 0 ? 0 : 150 + depth * 120;
+        const n = nodesAtDepth.length;
+        nodesAtDepth.forEach((node, i) => {
+          const angle = n === 1 ? 0 : (2 * Math.PI * i) / n - Math.PI / 2;
+          result.push({
+            ...node,
+            position: {
+              x: radius * Math.cos(angle) + 500,
+              y: radius * Math.sin(angle) + 400
+            }
+          });
+        });
+      });
+      return result;
+    }
+    
+    case 'tree-centered': {
+      // Centered tree - dagre with center alignment
+      const dagreGraph = createDagreGraph();
+      dagreGraph.setGraph({ rankdir: 'TB', nodesep: 60, ranksep: 80, align: 'UL' });
+      nodes.forEach(node => dagreGraph.setNode(node.id, { width: NODE_WIDTH, height: NODE_HEIGHT }));
+      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
+      dagre.layout(dagreGraph);
+      
+      const positioned = nodes.map(node => {
+        const pos = dagreGraph.node(node.id);
+        return { ...node, position: { x: pos.x - NODE_WIDTH / 2, y: pos.y - NODE_HEIGHT / 2 } };
+      });
+      
+      // Center the entire tree
+      const minX = Math.min(...positioned.map(n => n.position.x));
+      const maxX = Math.max(...positioned.map(n => n.position.x + NODE_WIDTH));
+      const offsetX = -minX + (500 - (maxX - minX) / 2);
+      positioned.forEach(n => { n.position.x += offsetX; });
+      
+      return positioned;
+    }
+    
+    case 'inverted': {
+      // Bottom-to-top hierarchy
+      const dagreGraph = createDagreGraph();
+      dagreGraph.setGraph({ rankdir: 'BT', nodesep: 50, ranksep: 70 });
+      nodes.forEach(node => dagreGraph.setNode(node.id, { width: NODE_WIDTH, height: NODE_HEIGHT }));
+      edges.forEach(edge => dagreGraph.setEdge(edge.source, edge.target));
+      dagre.layout(dagreGraph);
+      return nodes.map(node => {
+        const pos = dagreGraph.node(node.id);
+        return { ...node, position: { x: pos.x - NODE_WIDTH / 2, y: pos.y - NODE_HEIGHT / 2 } };
+      });
+    }
+    
+    case 'wave': {
+      // Sine wave pattern
+      const amplitude = 100;
+      const wavelength = 3;
+      return nodes.map((node, i) => ({
+        ...node,
+        position: {
+          x: i * spacing.x * 0.6,
+          y: amplitude * Math.sin((i / wavelength) * Math.PI) + 300
+        }
+      }));
+    }
+    
+    case 'diamond': {
+      // Diamond shape arrangement
+      const n = nodes.length;
+      const half = Math.ceil(n / 2);
+      return nodes.map((node, i) => {
+        const row = i < half ? i : n - 1 - i;
+        const col = i < half ? i : i - half;
+        return {
+          ...node,
+          position: {
+            x: row * spacing.x * 0.5 + 200,
+            y: col * spacing.y + (i >= half ? half * spacing.y : 0)
+          }
+        };
+      });
+    }
+    
+    case 'hexagonal': {
+      // Hexagonal grid pattern
+      const cols = Math.ceil(Math.sqrt(nodes.length * 1.5));
+      return nodes.map((node, i) => {
+        const row = Math.floor(i / cols);
+        const col = i % cols;
+        const offsetX = row % 2 === 1 ? spacing.x * 0.5 : 0;
+        return {
+          ...node,
+          position: {
+            x: col * spacing.x + offsetX,
+            y: row * spacing.y * 0.85
+          }
+        };
+      });
+    }
+    
+    case 'zigzag': {
+      // Alternating left-right pattern
+      return nodes.map((node, i) => ({
+        ...node,
+        position: {
+          x: (i % 2 === 0 ? 0 : spacing.x * 1.5),
+          y: i * spacing.y * 0.6
+        }
+      }));
+    }
+    
+    case 'scattered': {
+      // Artistic scattered with some structure based on depth
+      const seededRandom = (seed: number) => {
+        const x = Math.sin(seed * 9999) * 10000;
+        return x - Math.floor(x);
+      };
+      
+      return nodes.map((node, i) => {
+        const depth = depths.get(node.id) || 0;
+        const baseY = depth * spacing.y * 1.2;
+        const randomOffsetX = (seededRandom(i * 17) - 0.5) * 300;
+        const randomOffsetY = (seededRandom(i * 31) - 0.5) * 80;
+        return {
+          ...node,
+          position: {
+            x: 400 + randomOffsetX + (i % 3 - 1) * 150,
+            y: baseY + randomOffsetY
+          }
+        };
+      });
+    }
+    
+    case 'concentric': {
+      // Concentric circles by depth level
+      const depthNodes = new Map<number, Node[]>();
+      nodes.forEach(node => {
+        const d = depths.get(node.id) || 0;
+        const arr = depthNodes.get(d) || [];
+        arr.push(node);
+        depthNodes.set(d, arr);
+      });
+      
+      const result: Node[] = [];
+      const centerX = 500, centerY = 400;
+      
+      depthNodes.forEach((nodesAtDepth, depth) => {
+        const radius = 80 + depth * 140;
+        const n = nodesAtDepth.length;
+        const startAngle = -Math.PI / 2;
+        
+        nodesAtDepth.forEach((node, i) => {
+          const angle = startAngle + (2 * Math.PI * i) / Math.max(n, 1);
+          result.push({
+            ...node,
+            position: {
+              x: centerX + radius * Math.cos(angle) - NODE_WIDTH / 2,
+              y: centerY + radius * Math.sin(angle) - NODE_HEIGHT / 2
+            }
+          });
+        });
+      });
+      return result;
+    }
+    
+    case 'columns-by-depth': {
+      // Vertical columns, one per depth level
+      const depthNodes = new Map<number, Node[]>();
+      nodes.forEach(node => {
+        const d = depths.get(node.id) || 0;
+        const arr = depthNodes.get(d) || [];
+        arr.push(node);
+        depthNodes.set(d, arr);
+      });
+      
+      const result: Node[] = [];
+      depthNodes.forEach((nodesAtDepth, depth) => {
+        nodesAtDepth.forEach((node, i) => {
+          result.push({
+            ...node,
+            position: {
+              x: depth * spacing.x,
+              y: i * spacing.y
+            }
+          });
+        });
+      });
+      return result;
+    }
+    
+    case 'cascade': {
+      // Cascading waterfall effect
+      return nodes.map((node, i) => ({
+        ...node,
+        position: {
+          x: (i % 5) * spacing.x * 0.3 + i * 30,
+          y: i * spacing.y * 0.5
+        }
+      }));
+    }
+    
+    default:
+      return nodes;
+  }
+}
+
+// ============================================
+// Saved Path Layouts
+// ============================================
+
+export function isLayoutType(value: string | undefined): value is LayoutType {
+  return !!value && (LAYOUT_ORDER as string[]).includes(value);
+}
+
+// Lay out with a path's saved layout type (falling back to `fallback`), then move pinned nodes back into place
+export function applyPathLayout(
+  nodes: Node[],
+  edges: Edge[],
+  layout: PathLayout | undefined,
+  fallback: LayoutType
+): Node[] {
+  const layoutType = isLayoutType(layout?.type) ? layout.type : fallback;
+  const laidOut = applyLayout(nodes, edges, layoutType);
+  const pinned = layout?.positions;
+  if (!pinned) return laidOut;
+  return laidOut.map(node => (pinned[node.id] ? { ...node, position: { ...pinned[node.id] } } : node));
+}
+
+// Lay out a path's view: the whole graph, or with `scopeIds` only those nodes and the edges between them
+// (a focused path or the graph minus collapsed subtrees; other nodes keep their positions and are left out of view)
+export function layoutForPath(
+  nodes: Node[],
+  edges: Edge[],
+  scopeIds: Set<string> | null,
+  layout: PathLayout | undefined,
+  fallback: LayoutType
+): Node[] {
+  if (!scopeIds) return applyPathLayout(nodes, edges, layout, fallback);
+  const subgraph = applyPathLayout(
+    nodes.filter(n => scopeIds.has(n.id)),
+    edges.filter(e => scopeIds.has(e.source) && scopeIds.has(e.target)),
+    layout,
+    fallback
+  );
+  const positions = new Map(subgraph.map(n => [n.id, n.position]));
+  return nodes.map(n => (positions.has(n.id) ? { ...n, position: positions.get(n.id)! } : n));
+}
@@ -0,0 +1,109 @@
+// Incremental Layout
+// ===================
+// Re-lays out after nodes are revealed, hidden, added or removed while
+// leaving nodes that were already on screen where the user last saw them
+
+import type { Edge, Node, XYPosition } from '@xyflow/react';
+import { applyLayout, NODE_HEIGHT, NODE_WIDTH, type LayoutType } from './engine';
+
+// ============================================
+// Constants
+// ============================================
+
+const GAP = 30; // Minimum space kept between a newly placed node and its neighbours
+const MAX_NUDGES = 200;
+
+// Layouts that grow left to right; new nodes are nudged down instead of right
+const HORIZONTAL_LAYOUTS: LayoutType[] = ['horizontal', 'horizontal-row'];
+
+// ============================================
+// Helpers
+// ============================================
+
+function overlaps(a: XYPosition, b: XYPosition): boolean {
+  return Math.abs(a.x - b.x) < NODE_WIDTH + GAP && Math.abs(a.y - b.y) < NODE_HEIGHT + GAP;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const mid = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+// ============================================
+// Layout
+// ============================================
+
+/**
+ * Lay out `next` so nodes visible in both `previous` and `next` keep their
+ * positions. Newly visible nodes are placed relative to a neighbour that was
+ * already on screen (as the fresh layout would have placed them), then nudged
+ * clear of anything they overlap. Hidden nodes keep whatever position they had.
+ */
+export function layoutIncrementally(
+  previous: Node[],
+  next: Node[],
+  edges: Edge[],
+  layoutType: LayoutType
+): Node[] {
+  const visible = next.filter(n => !n.hidden);
+  const visibleIds = new Set(visible.map(n => n.id));
+  const fresh = new Map(
+    applyLayout(
+      visible,
+      edges.filter(e => visibleIds.has(e.source) && visibleIds.has(e.target)),
+      layoutType
+    ).map(n => [n.id, n.position])
+  );
+
+  const before = new Map(previous.filter(n => !n.hidden).map(n => [n.id, n.position]));
+  const placed = new Map<string, XYPosition>();
+  visible.forEach(n => {
+    const old = before.get(n.id);
+    if (old) placed.set(n.id, old);
+  });
+  // Nothing stayed on screen, so there is no arrangement to preserve
+  if (placed.size === 0) {
+    return next.map(n => (fresh.has(n.id) ? { ...n, position: fresh.get(n.id)! } : n));
+  }
+
+  // Where the fresh layout sits relative to what is on screen, for nodes with no placed neighbour
+  const offset = {
+    x: median(Array.from(placed.entries()).map(([id, pos]) => pos.x - fresh.get(id)!.x)),
+    y: median(Array.from(placed.entries()).map(([id, pos]) => pos.y - fresh.get(id)!.y)),
+  };
+  const neighbours = new Map<string, string[]>();
+  edges.forEach(e => {
+    if (!visibleIds.has(e.source) || !visibleIds.has(e.target)) return;
+    // Parents first, so a revealed child hangs below its parent rather than above its own child
+    neighbours.set(e.target, [e.source, ...(neighbours.get(e.target) || [])]);
+    neighbours.set(e.source, [...(neighbours.get(e.source) || []), e.target]);
+  });
+  const nudge = HORIZONTAL_LAYOUTS.includes(layoutType)
+    ? { x: 0, y: NODE_HEIGHT + GAP }
+    : { x: NODE_WIDTH + GAP, y: 0 };
+
+  // Place new nodes next to placed ones first, so each can anchor the next
+  let pending = visible.filter(n => !placed.has(n.id)).map(n => n.id);
+  while (pending.length > 0) {
+    const anchored = pending.filter(id => (neighbours.get(id) || []).some(nid => placed.has(nid)));
+    const batch = anchored.length > 0 ? anchored : [pending[0]];
+    batch.forEach(id => {
+      const target = fresh.get(id)!;
+      const anchor = (neighbours.get(id) || []).find(nid => placed.has(nid));
+      let position = anchor
+        ? {
+            x: placed.get(anchor)!.x + target.x - fresh.get(anchor)!.x,
+            y: placed.get(anchor)!.y + target.y - fresh.get(anchor)!.y,
+          }
+        : { x: target.x + offset.x, y: target.y + offset.y };
+      for (let i = 0; i < MAX_NUDGES && Array.from(placed.values()).some(p => overlaps(p, position)); i++) {
+        position = { x: position.x + nudge.x, y: position.y + nudge.y };
+      }
+      placed.set(id, position);
+    });
+    pending = pending.filter(id => !placed.has(id));
+  }
+
+  return next.map(n => (placed.has(n.id) ? { ...n, position: placed.get(n.id)! } : n));
+}
@@ -0,0 +1,19 @@
+// Layout Service Index
+// =====================
+// Node layouts, incremental re-layout, animated transitions and collapsed subtrees
+
+export {
+  NODE_WIDTH,
+  NODE_HEIGHT,
+  LAYOUT_LABELS,
+  LAYOUT_ORDER,
+  applyLayout,
+  isLayoutType,
+  applyPathLayout,
+  layoutForPath,
+} from './engine';
+export type { LayoutType } from './engine';
+export { layoutIncrementally } from './incremental';
+export { LAYOUT_ANIMATION_MS, animatePositions } from './animate';
+export { countChildren, collapseSubtrees } from './collapse';
+export type { CollapseResult } from './collapse';
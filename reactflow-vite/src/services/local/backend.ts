@@ -0,0 +1,987 @@
+// Local-First Backend
+// ====================
+// Wraps a remote DataBackend with an IndexedDB copy of all data.
+// Reads are served from the local store immediately and refreshed from the
+// remote in the background; writes land locally first and are replayed to
+// the remote from a persisted outbox, so editing works fully offline.
+
+import type {
+  DataBackend,
+  DataEntity,
+  DataChangeListener,
+  EntityRecordMap,
+  OutboxListener,
+  PageContent,
+} from '../backend/types';
+import type {
+  NodeRecord,
+  PathRecord,
+  NodePathRecord,
+  CategoryRecord,
+  AudioNoteData,
+  PendingChange,
+} from '../notion/types';
+import {
+  STORES,
+  getAll,
+  getOne,
+  putOne,
+  deleteOne,
+  replaceAll,
+  type StoreName,
+} from './db';
+import {
+  OUTBOX_MAX_RETRIES,
+  OUTBOX_RETRY_DELAY,
+  CHANGE_ENTITIES,
+  changeKey,
+  isBlocked,
+  loadChanges,
+  loadChange,
+  saveChange,
+  removeChange,
+} from './outbox';
+import { mergeRecords } from './merge';
+
+// ============================================
+// Types
+// ============================================
+
+// Remote operations that can be replayed from the outbox
+type OutboxMethod =
+  | 'saveNode'
+  | 'deleteNode'
+  | 'createCategory'
+  | 'deleteCategory'
+  | 'updateCategory'
+  | 'savePath'
+  | 'updatePathNodes'
+  | 'updatePathCategory'
+  | 'updatePathPriority'
+  | 'updatePathFav'
+  | 'updatePathTemplate'
+  | 'updatePathShareToken'
+  | 'updatePathLayout'
+  | 'updatePathStatus'
+  | 'renamePath'
+  | 'savePathNotes'
+  | 'deletePath'
+  | 'saveNodePath'
+  | 'deleteNodePathsForPath'
+  | 'deleteNodePath'
+  | 'restoreRecords'
+  | 'saveNodePathAudioNote'
+  | 'savePathAudioNote';
+
+// What a queued change touches, recorded alongside its arguments
+interface ChangeTarget {
+  type: PendingChange['type'];
+  entity: PendingChange['entity'];
+  targetId: string;
+  baseVersion?: string;
+}
+
+interface StoredAudio {
+  id: string;
+  blob: Blob;
+  filename: string;
+  createdAt: string;
+}
+
+interface StoredPageContent extends PageContent {
+  id: string;
+}
+
+type StoredRecord = { id: string; notionPageId?: string; pathId?: string; lastModified?: string };
+
+const ENTITY_STORES: Record<DataEntity, StoreName> = {
+  nodes: STORES.NODES,
+  paths: STORES.PATHS,
+  nodePaths: STORES.NODE_PATHS,
+  categories: STORES.CATEGORIES,
+};
+
+const RESTORE_ENTITIES: Record<DataEntity, PendingChange['entity']> = {
+  nodes: 'node',
+  paths: 'path',
+  nodePaths: 'nodePath',
+  categories: 'category',
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+function generateLocalId(prefix: string): string {
+  return `${prefix}_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+}
+
+function isOnline(): boolean {
+  return typeof navigator === 'undefined' ? true : navigator.onLine;
+}
+
+// fetch() rejects with a TypeError when the network is unreachable
+function isNetworkError(error: unknown): boolean {
+  return !isOnline() || error instanceof TypeError;
+}
+
+function errorStatus(error: unknown): number | undefined {
+  return (error as { status?: number } | null)?.status;
+}
+
+// Signed out: wait until the user signs in again rather than burning retries
+function isAuthError(error: unknown): boolean {
+  return errorStatus(error) === 401;
+}
+
+// 4xx responses won't succeed on retry (except conflicts and rate limits)
+function isPermanentError(error: unknown): boolean {
+  const status = errorStatus(error);
+  return typeof status === 'number' && status >= 400 && status < 500 && status !== 409 && status !== 429;
+}
+
+function errorMessage(error: unknown): string {
+  return error instanceof Error ? error.message : String(error);
+}
+
+// Replace every string equal to a key of idMap, anywhere inside value
+function remapIds<T>(value: T, idMap: Map<string, string>): T {
+  if (idMap.size === 0) return value;
+  if (typeof value === 'string') {
+    return (idMap.get(value) ?? value) as T;
+  }
+  if (Array.isArray(value)) {
+    return value.map(v => remapIds(v, idMap)) as T;
+  }
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    const result: Record<string, unknown> = {};
+    Object.entries(value as Record<string, unknown>).forEach(([key, v]) => {
+      result[key] = remapIds(v, idMap);
+    });
+    return result as T;
+  }
+  return value;
+}
+
+// Categories are addressed by page ID, everything else by app ID
+function matchesTarget(entity: DataEntity, record: StoredRecord, targetId: string): boolean {
+  if (record.id === targetId) return true;
+  if (entity === 'categories') return record.notionPageId === targetId;
+  // deleteNodePathsForPath targets every note of a path
+  if (entity === 'nodePaths') return record.pathId === targetId;
+  return false;
+}
+
+// Saving a node-path note also bumps its path's last_edited_time remotely
+function touchedPathId(change: PendingChange): string | null {
+  const args = change.data as unknown[];
+  if (change.method === 'saveNodePath') return (args[0] as NodePathRecord).pathId;
+  if (change.method === 'saveNodePathAudioNote') return args[1] as string;
+  return null;
+}
+
+// ============================================
+// Factory
+// ============================================
+
+/**
+ * Create a local-first backend in front of `remote`
+ */
+export function createLocalFirstBackend(remote: DataBackend): DataBackend {
+  const listeners = new Set<DataChangeListener>();
+  const outboxListeners = new Set<OutboxListener>();
+  const objectUrls = new Map<string, string>(); // localAudioId -> object URL
+  const refreshing = new Set<DataEntity>();
+  let writeVersion = 0; // Bumped on every local write; stale background refreshes are discarded
+  let flushPromise: Promise<void> | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+  function notify(entity: DataEntity): void {
+    listeners.forEach(listener => listener(entity));
+  }
+
+  async function emitOutbox(): Promise<void> {
+    if (outboxListeners.size === 0) return;
+    const changes = await loadChanges();
+    outboxListeners.forEach(listener => listener(changes));
+  }
+
+  // ------------------------------------------
+  // Local records
+  // ------------------------------------------
+
+  async function findLocal(entity: DataEntity, targetId: string): Promise<StoredRecord | undefined> {
+    const records = await getAll<StoredRecord>(ENTITY_STORES[entity]);
+    return records.find(r => r.id === targetId)
+      ?? (entity === 'categories' ? records.find(r => r.notionPageId === targetId) : undefined);
+  }
+
+  // Write the remote version of a record over the local one (or drop it if deleted remotely)
+  async function applyRemote(entity: DataEntity, targetId: string, record: StoredRecord | null): Promise<void> {
+    const store = ENTITY_STORES[entity];
+    const local = await findLocal(entity, targetId);
+    if (local && (!record || local.id !== record.id)) await deleteOne(store, local.id);
+    if (record) await putOne(store, record);
+    notify(entity);
+  }
+
+  // Record the version we now hold so later changes are checked against it
+  async function updateBaseVersion(entity: PendingChange['entity'], targetId: string): Promise<void> {
+    const dataEntity = CHANGE_ENTITIES[entity];
+    const record = await remote.fetchRecord(dataEntity, targetId) as StoredRecord | null;
+    if (!record?.lastModified) return;
+
+    const local = await findLocal(dataEntity, targetId);
+    if (local) await putOne(ENTITY_STORES[dataEntity], { ...local, lastModified: record.lastModified });
+
+    const key = changeKey({ entity, targetId });
+    for (const change of await loadChanges()) {
+      if (changeKey(change) === key && change.type !== 'create') {
+        await saveChange({ ...change, baseVersion: record.lastModified });
+      }
+    }
+  }
+
+  // ------------------------------------------
+  // Outbox
+  // ------------------------------------------
+
+  async function enqueue(method: OutboxMethod, args: unknown[], target: ChangeTarget): Promise<void> {
+    writeVersion++;
+    await saveChange({
+      id: generateLocalId('op'),
+      ...target,
+      method,
+      data: args,
+      timestamp: new Date(),
+      retries: 0,
+      status: 'pending',
+    });
+    void emitOutbox();
+    void flushOutbox();
+  }
+
+  async function replay(change: PendingChange): Promise<unknown> {
+    const method = change.method as OutboxMethod;
+    const args = change.data as unknown[];
+    const call = remote[method] as (...args: unknown[]) => Promise<unknown>;
+
+    // Audio recordings are stored separately; resolve the blob before replaying
+    if (method === 'saveNodePathAudioNote' || method === 'savePathAudioNote') {
+      const audioId = args[args.length - 1] as string;
+      const audio = await getOne<StoredAudio>(STORES.AUDIO, audioId);
+      if (!audio) return undefined;
+      return call.apply(remote, [...args.slice(0, -1), audio.blob]);
+    }
+
+    return call.apply(remote, args);
+  }
+
+  // Compare the version a change was based on with what the remote holds now
+  async function detectConflict(change: PendingChange): Promise<PendingChange['conflict'] | null> {
+    if (!change.baseVersion || change.type === 'create') return null;
+    const record = await remote.fetchRecord(CHANGE_ENTITIES[change.entity], change.targetId) as StoredRecord | null;
+    const remoteVersion = record?.lastModified ?? null;
+    if (remoteVersion === change.baseVersion) return null;
+    // Deleting something that is already gone is not a conflict
+    if (!record && change.type === 'delete') return null;
+    return { remoteVersion, remote: record };
+  }
+
+  function scheduleRetry(attempt: number): void {
+    if (retryTimer) return;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      void flushOutbox();
+    }, OUTBOX_RETRY_DELAY * Math.pow(2, attempt - 1));
+  }
+
+  async function runFlush(): Promise<void> {
+    const idMap = new Map<string, string>(); // temporary id -> id assigned by the remote
+    const held = new Set<string>(); // Records with an unsettled earlier change
+    const checked = new Set<string>(); // Records whose remote version was verified this run
+    const touched = new Map<string, Pick<PendingChange, 'entity' | 'targetId'>>();
+    let nextAttempt = 0;
+
+    for (const stored of await loadChanges()) {
+      if (!isOnline()) break;
+      const change = remapIds(stored, idMap);
+      const key = changeKey(change);
+
+      // Keep changes to one record in order behind a failed or conflicting one
+      if (isBlocked(change) || held.has(key)) {
+        held.add(key);
+        continue;
+      }
+
+      try {
+        if (!checked.has(key)) {
+          checked.add(key);
+          const conflict = await detectConflict(change);
+          if (conflict) {
+            await saveChange({ ...change, status: 'conflict', conflict });
+            held.add(key);
+            continue;
+          }
+        }
+
+        const result = await replay(change);
+
+        // Folders created offline only get their remote page id once replayed
+        if (change.method === 'createCategory') {
+          const created = result as CategoryRecord;
+          const tempId = change.targetId;
+          if (created.notionPageId && created.notionPageId !== tempId) {
+            idMap.set(tempId, created.notionPageId);
+          }
+        }
+
+        await removeChange(stored);
+        if (change.type !== 'delete') {
+          touched.set(key, { entity: change.entity, targetId: idMap.get(change.targetId) ?? change.targetId });
+        }
+        const pathId = touchedPathId(change);
+        if (pathId) touched.set(changeKey({ entity: 'path', targetId: pathId }), { entity: 'path', targetId: pathId });
+      } catch (error) {
+        if (isNetworkError(error) || isAuthError(error)) break;
+        const retries = change.retries + 1;
+        const failed = retries >= OUTBOX_MAX_RETRIES || isPermanentError(error);
+        console.error(`[local] ${change.method} failed (attempt ${retries}):`, error);
+        await saveChange({
+          ...change,
+          retries,
+          status: failed ? 'failed' : 'pending',
+          error: errorMessage(error),
+        });
+        held.add(key);
+        if (!failed) nextAttempt = Math.max(nextAttempt, retries);
+      }
+    }
+
+    if (idMap.size > 0) {
+      const categories = await getAll<CategoryRecord>(STORES.CATEGORIES);
+      await replaceAll(STORES.CATEGORIES, categories.map(c => ({ ...remapIds(c, idMap), id: c.id })));
+      const paths = await getAll<PathRecord>(STORES.PATHS);
+      await replaceAll(STORES.PATHS, remapIds(paths, idMap));
+      // Queued changes not replayed this run still hold the temporary ids
+      for (const change of await loadChanges()) {
+        await saveChange(remapIds(change, idMap));
+      }
+      notify('categories');
+      notify('paths');
+    }
+
+    for (const target of touched.values()) {
+      try {
+        await updateBaseVersion(target.entity, target.targetId);
+      } catch (error) {
+        console.warn('[local] Could not refresh record version:', error);
+      }
+    }
+
+    await emitOutbox();
+    if (nextAttempt > 0) scheduleRetry(nextAttempt);
+  }
+
+  function flushOutbox(): Promise<void> {
+    if (!isOnline()) return Promise.resolve();
+    if (!flushPromise) {
+      flushPromise = runFlush()
+        .catch(error => console.error('[local] Outbox flush failed:', error))
+        .finally(() => { flushPromise = null; });
+    }
+    return flushPromise;
+  }
+
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', () => {
+      void flushOutbox().then(() => {
+        (Object.keys(ENTITY_STORES) as DataEntity[]).forEach(entity => void refreshInBackground(entity));
+      });
+    });
+  }
+
+  // Replay anything left over from a previous session
+  void flushOutbox();
+
+  // ------------------------------------------
+  // Conflict resolution
+  // ------------------------------------------
+
+  // Drop my queued changes for the record and take the remote version
+  async function keepTheirs(change: PendingChange, related: PendingChange[]): Promise<void> {
+    for (const c of related) await removeChange(c);
+    await applyRemote(CHANGE_ENTITIES[change.entity], change.targetId, change.conflict?.remote as StoredRecord | null);
+  }
+
+  // Replay my queued changes over the newer remote version
+  async function keepMine(change: PendingChange, related: PendingChange[]): Promise<void> {
+    const remoteVersion = change.conflict?.remoteVersion ?? undefined;
+    for (const c of related) {
+      await saveChange({
+        ...c,
+        baseVersion: c.type === 'create' ? undefined : remoteVersion,
+        status: 'pending',
+        conflict: undefined,
+      });
+    }
+  }
+
+  // Replace my queued edits with a single save of the merged record
+  async function mergeWithTheirs(change: PendingChange, related: PendingChange[]): Promise<void> {
+    const entity = CHANGE_ENTITIES[change.entity];
+    const theirs = change.conflict?.remote as EntityRecordMap[DataEntity];
+    const remoteVersion = change.conflict?.remoteVersion ?? undefined;
+    const mine = await findLocal(entity, change.targetId) as EntityRecordMap[DataEntity] | undefined;
+    const merged = mine ? mergeRecords(entity, mine, theirs) : theirs;
+
+    // Recordings are separate changes and are replayed on top of the merge
+    for (const c of related) {
+      if (c.method === 'saveNodePathAudioNote' || c.method === 'savePathAudioNote') {
+        await saveChange({ ...c, baseVersion: remoteVersion, status: 'pending', conflict: undefined });
+      } else {
+        await removeChange(c);
+      }
+    }
+
+    const localAudio = ((mine as PathRecord | undefined)?.audioNotes || []).filter(n => n.localAudioId);
+    const mergedAudio = (merged as PathRecord).audioNotes || [];
+    await putOne(ENTITY_STORES[entity], localAudio.length > 0
+      ? { ...merged, audioNotes: [...mergedAudio, ...localAudio] }
+      : merged);
+    notify(entity);
+
+    let method: OutboxMethod;
+    let args: unknown[];
+    if (entity === 'categories') {
+      const category = merged as CategoryRecord;
+      method = 'updateCategory';
+      args = [change.targetId, { name: category.name, parentId: category.parentId ?? null }];
+    } else {
+      method = entity === 'nodes' ? 'saveNode' : entity === 'paths' ? 'savePath' : 'saveNodePath';
+      args = [merged];
+    }
+
+    // Takes the conflicting change's place in the queue so it replays before any recordings
+    await saveChange({
+      id: generateLocalId('op'),
+      type: 'update',
+      entity: change.entity,
+      targetId: change.targetId,
+      method,
+      data: args,
+      timestamp: change.timestamp,
+      retries: 0,
+      status: 'pending',
+      baseVersion: remoteVersion,
+    });
+  }
+
+  // ------------------------------------------
+  // Reads
+  // ------------------------------------------
+
+  async function fetchRemote(entity: DataEntity): Promise<StoredRecord[]> {
+    switch (entity) {
+      case 'nodes': return remote.fetchNodes(true);
+      case 'paths': return remote.fetchPaths(true);
+      case 'nodePaths': return remote.fetchNodePaths(true);
+      case 'categories': return remote.fetchCategories(true);
+    }
+  }
+
+  // Pull the remote copy into the local store; returns the fresh records when they changed
+  async function reconcile<T extends StoredRecord>(entity: DataEntity): Promise<T[] | null> {
+    await flushOutbox();
+
+    const versionAtStart = writeVersion;
+    const remoteRecords = await fetchRemote(entity) as T[];
+    if (writeVersion !== versionAtStart) return null;
+
+    // Records with queued changes keep their local state until those changes settle
+    const heldTargets = (await loadChanges())
+      .filter(c => CHANGE_ENTITIES[c.entity] === entity)
+      .map(c => c.targetId);
+    const isHeld = (record: T) => heldTargets.some(id => matchesTarget(entity, record, id));
+
+    const store = ENTITY_STORES[entity];
+    const localRecords = await getAll<T>(store);
+    const merged = [
+      ...remoteRecords.filter(r => !isHeld(r)),
+      ...localRecords.filter(isHeld),
+    ];
+    await replaceAll(store, merged);
+    return JSON.stringify(localRecords) === JSON.stringify(merged) ? null : merged;
+  }
+
+  async function refreshInBackground(entity: DataEntity): Promise<void> {
+    if (!isOnline() || refreshing.has(entity)) return;
+    refreshing.add(entity);
+    try {
+      const changed = await reconcile(entity);
+      if (changed) notify(entity);
+    } catch (error) {
+      console.warn(`[local] Background refresh of ${entity} failed:`, error);
+    } finally {
+      refreshing.delete(entity);
+    }
+  }
+
+  async function readEntity<T extends StoredRecord>(entity: DataEntity, forceRefresh: boolean): Promise<T[]> {
+    const local = await getAll<T>(ENTITY_STORES[entity]);
+
+    if (forceRefresh && isOnline()) {
+      const fresh = await reconcile<T>(entity);
+      return fresh ?? getAll<T>(ENTITY_STORES[entity]);
+    }
+
+    // Nothing cached yet: wait for the remote on first run
+    if (local.length === 0 && isOnline()) {
+      await reconcile<T>(entity);
+      return getAll<T>(ENTITY_STORES[entity]);
+    }
+
+    void refreshInBackground(entity);
+    return local;
+  }
+
+  // Give locally held recordings a playable URL
+  async function hydrateAudio(notes: AudioNoteData[] | undefined): Promise<AudioNoteData[] | undefined> {
+    if (!notes) return notes;
+    return Promise.all(notes.map(async note => {
+      if (!note.localAudioId || note.url) return note;
+      let url = objectUrls.get(note.localAudioId);
+      if (!url) {
+        const audio = await getOne<StoredAudio>(STORES.AUDIO, note.localAudioId);
+        if (!audio) return note;
+        url = URL.createObjectURL(audio.blob);
+        objectUrls.set(note.localAudioId, url);
+      }
+      return { ...note, url };
+    }));
+  }
+
+  async function storeAudio(audioBlob: Blob): Promise<AudioNoteData> {
+    const createdAt = new Date().toISOString();
+    const audio: StoredAudio = {
+      id: generateLocalId('audio'),
+      blob: audioBlob,
+      filename: `audio_note_${createdAt.replace(/[:.]/g, '-')}.wav`,
+      createdAt,
+    };
+    await putOne(STORES.AUDIO, audio);
+    return { localAudioId: audio.id, filename: audio.filename, createdAt };
+  }
+
+  // ------------------------------------------
+  // Local mutations
+  // ------------------------------------------
+
+  // Apply a patch locally and return the target of the matching queued change
+  async function patchPath(pathId: string, patch: Partial<PathRecord>): Promise<ChangeTarget> {
+    const existing = await getOne<PathRecord>(STORES.PATHS, pathId);
+    if (existing) await putOne(STORES.PATHS, { ...existing, ...patch, id: pathId });
+    return { type: 'update', entity: 'path', targetId: pathId, baseVersion: existing?.lastModified };
+  }
+
+  async function findCategory(categoryPageId: string): Promise<CategoryRecord | undefined> {
+    const categories = await getAll<CategoryRecord>(STORES.CATEGORIES);
+    return categories.find(c => c.notionPageId === categoryPageId || c.id === categoryPageId);
+  }
+
+  const now = () => new Date().toISOString();
+
+  return {
+    id: remote.id,
+    label: `${remote.label} (offline-ready)`,
+
+    fetchNodes: (forceRefresh = false) => readEntity<NodeRecord>('nodes', forceRefresh),
+
+    async saveNode(node) {
+      const existing = await getOne<NodeRecord>(STORES.NODES, node.id);
+      await putOne(STORES.NODES, { ...existing, ...node });
+      await enqueue('saveNode', [node], {
+        type: existing ? 'update' : 'create',
+        entity: 'node',
+        targetId: node.id,
+        baseVersion: existing?.lastModified,
+      });
+      return node;
+    },
+
+    async deleteNode(nodeId) {
+      const existing = await getOne<NodeRecord>(STORES.NODES, nodeId);
+      await deleteOne(STORES.NODES, nodeId);
+      await enqueue('deleteNode', [nodeId], {
+        type: 'delete',
+        entity: 'node',
+        targetId: nodeId,
+        baseVersion: existing?.lastModified,
+      });
+    },
+
+    // Categories
+
+    fetchCategories: (forceRefresh = false) => readEntity<CategoryRecord>('categories', forceRefresh),
+
+    async createCategory(name, parentId, id) {
+      const categoryId = id || generateLocalId('cat');
+      // Until the remote assigns a page id, the app id doubles as the folder key
+      const category: CategoryRecord = {
+        id: categoryId,
+        notionPageId: categoryId,
+        name,
+        parentId: parentId || null,
+      };
+      await putOne(STORES.CATEGORIES, category);
+      await enqueue('createCategory', [name, parentId ?? null, categoryId], {
+        type: 'create',
+        entity: 'category',
+        targetId: categoryId,
+      });
+      return category;
+    },
+
+    async deleteCategory(categoryPageId) {
+      const category = await findCategory(categoryPageId);
+      if (category) await deleteOne(STORES.CATEGORIES, category.id);
+      await enqueue('deleteCategory', [categoryPageId], {
+        type: 'delete',
+        entity: 'category',
+        targetId: categoryPageId,
+        baseVersion: category?.lastModified,
+      });
+    },
+
+    async updateCategory(categoryPageId, updates) {
+      const category = await findCategory(categoryPageId);
+      if (category) {
+        await putOne(STORES.CATEGORIES, {
+          ...category,
+          ...(updates.name !== undefined ? { name: updates.name } : {}),
+          ...(updates.parentId !== undefined ? { parentId: updates.parentId } : {}),
+        });
+      }
+      await enqueue('updateCategory', [categoryPageId, updates], {
+        type: 'update',
+        entity: 'category',
+        targetId: categoryPageId,
+        baseVersion: category?.lastModified,
+      });
+    },
+
+    // Paths
+
+    fetchPaths: async (forceRefresh = false) => {
+      const paths = await readEntity<PathRecord>('paths', forceRefresh);
+      return Promise.all(paths.map(async p => ({ ...p, audioNotes: await hydrateAudio(p.audioNotes) })));
+    },
+
+    async savePath(path) {
+      const saved: PathRecord = { ...path, dateUpdated: path.dateUpdated || now() };
+      const existing = await getOne<PathRecord>(STORES.PATHS, path.id);
+      await putOne(STORES.PATHS, { ...existing, ...saved });
+      await enqueue('savePath', [saved], {
+        type: existing ? 'update' : 'create',
+        entity: 'path',
+        targetId: path.id,
+        baseVersion: existing?.lastModified,
+      });
+      return saved;
+    },
+
+    async updatePathNodes(pathId, pathName, nodeIds) {
+      const existing = await getOne<PathRecord>(STORES.PATHS, pathId);
+      await putOne<PathRecord>(STORES.PATHS, existing
+        ? { ...existing, nodeIds, dateUpdated: now() }
+        : { id: pathId, name: pathName, nodeIds, dateUpdated: now() });
+      await enqueue('updatePathNodes', [pathId, pathName, nodeIds], {
+        type: existing ? 'update' : 'create',
+        entity: 'path',
+        targetId: pathId,
+        baseVersion: existing?.lastModified,
+      });
+    },
+
+    async updatePathCategory(pathId, category, subcategory, subsubcategory) {
+      const target = await patchPath(pathId, {
+        category: category || undefined,
+        subcategory: subcategory || undefined,
+        subsubcategory: subsubcategory || undefined,
+      });
+      await enqueue('updatePathCategory', [pathId, category, subcategory, subsubcategory], target);
+    },
+
+    async updatePathPriority(pathId, priority) {
+      const target = await patchPath(pathId, { priority });
+      await enqueue('updatePathPriority', [pathId, priority], target);
+    },
+
+    async updatePathFav(pathId, fav) {
+      const target = await patchPath(pathId, { fav: fav || undefined });
+      await enqueue('updatePathFav', [pathId, fav], target);
+    },
+
+    async updatePathTemplate(pathId, template) {
+      const target = await patchPath(pathId, { template: template || undefined });
+      await enqueue('updatePathTemplate', [pathId, template], target);
+    },
+
+    async updatePathShareToken(pathId, shareToken) {
+      const target = await patchPath(pathId, { shareToken: shareToken || undefined });
+      await enqueue('updatePathShareToken', [pathId, shareToken], target);
+    },
+
+    async updatePathLayout(pathId, layout) {
+      const target = await patchPath(pathId, { layout: layout || undefined });
+      await enqueue('updatePathLayout', [pathId, layout], target);
+    },
+
+    async updatePathStatus(pathId, status) {
+      const target = await patchPath(pathId, { status });
+      await enqueue('updatePathStatus', [pathId, status], target);
+    },
+
+    async renamePath(pathId, newName) {
+      const target = await patchPath(pathId, { name: newName });
+      await enqueue('renamePath', [pathId, newName], target);
+    },
+
+    async savePathNotes(pathId, notes) {
+      const target = await patchPath(pathId, { notes, dateUpdated: now() });
+      await enqueue('savePathNotes', [pathId, notes], target);
+    },
+
+    async deletePath(pathId) {
+      const existing = await getOne<PathRecord>(STORES.PATHS, pathId);
+      await deleteOne(STORES.PATHS, pathId);
+      await enqueue('deletePath', [pathId], {
+        type: 'delete',
+        entity: 'path',
+        targetId: pathId,
+        baseVersion: existing?.lastModified,
+      });
+    },
+
+    // Node-path notes
+
+    fetchNodePaths: async (forceRefresh = false) => {
+      const nodePaths = await readEntity<NodePathRecord>('nodePaths', forceRefresh);
+      return Promise.all(nodePaths.map(async np => ({ ...np, audioNotes: await hydrateAudio(np.audioNotes) })));
+    },
+
+    async saveNodePath(nodePath) {
+      const existing = await getOne<NodePathRecord>(STORES.NODE_PATHS, nodePath.id);
+      await putOne(STORES.NODE_PATHS, {
+        ...existing,
+        ...nodePath,
+        audioNotes: nodePath.audioNotes ?? existing?.audioNotes,
+      });
+      await patchPath(nodePath.pathId, { dateUpdated: now() });
+      await enqueue('saveNodePath', [nodePath], {
+        type: existing ? 'update' : 'create',
+        entity: 'nodePath',
+        targetId: nodePath.id,
+        baseVersion: existing?.lastModified,
+      });
+      return nodePath;
+    },
+
+    async batchSaveNodePaths(nodePaths) {
+      for (const nodePath of nodePaths) {
+        await this.saveNodePath(nodePath);
+      }
+    },
+
+    async deleteNodePathsForPath(pathId) {
+      const nodePaths = await getAll<NodePathRecord>(STORES.NODE_PATHS);
+      await replaceAll(STORES.NODE_PATHS, nodePaths.filter(np => np.pathId !== pathId));
+      await enqueue('deleteNodePathsForPath', [pathId], {
+        type: 'delete',
+        entity: 'nodePath',
+        targetId: pathId,
+      });
+    },
+
+    async deleteNodePath(nodePathId) {
+      const existing = await getOne<NodePathRecord>(STORES.NODE_PATHS, nodePathId);
+      await deleteOne(STORES.NODE_PATHS, nodePathId);
+      await enqueue('deleteNodePath', [nodePathId], {
+        type: 'delete',
+        entity: 'nodePath',
+        targetId: nodePathId,
+        baseVersion: existing?.lastModified,
+      });
+    },
+
+    // Deleted records
+
+    async restoreRecords(entity, records) {
+      const changeEntity = RESTORE_ENTITIES[entity];
+      for (const record of records as StoredRecord[]) {
+        await putOne(ENTITY_STORES[entity], record);
+        await enqueue('restoreRecords', [entity, [record]], {
+          type: 'create',
+          entity: changeEntity,
+          // Categories are addressed by page id
+          targetId: entity === 'categories' ? record.notionPageId || record.id : record.id,
+        });
+      }
+      notify(entity);
+    },
+
+    // Audio notes
+
+    uploadAudioNote: (audioBlob, filename) => remote.uploadAudioNote(audioBlob, filename),
+
+    async saveNodePathAudioNote(nodePathId, pathId, nodeId, audioBlob) {
+      const note = await storeAudio(audioBlob);
+      const existing = await getOne<NodePathRecord>(STORES.NODE_PATHS, nodePathId);
+      const nodePath: NodePathRecord = {
+        id: nodePathId,
+        pathId,
+        nodeId,
+        content: existing?.content || '',
+        audioNotes: [...(existing?.audioNotes || []), note],
+        lastModified: existing?.lastModified,
+      };
+      await putOne(STORES.NODE_PATHS, nodePath);
+      await enqueue('saveNodePathAudioNote', [nodePathId, pathId, nodeId, note.localAudioId], {
+        type: existing ? 'update' : 'create',
+        entity: 'nodePath',
+        targetId: nodePathId,
+        baseVersion: existing?.lastModified,
+      });
+      return nodePath;
+    },
+
+    async savePathAudioNote(pathId, audioBlob) {
+      const note = await storeAudio(audioBlob);
+      const existing = await getOne<PathRecord>(STORES.PATHS, pathId);
+      if (!existing) throw new Error(`Path not found: ${pathId}`);
+      await putOne(STORES.PATHS, { ...existing, audioNotes: [...(existing.audioNotes || []), note] });
+      await enqueue('savePathAudioNote', [pathId, note.localAudioId], {
+        type: 'update',
+        entity: 'path',
+        targetId: pathId,
+        baseVersion: existing.lastModified,
+      });
+    },
+
+    fetchRecord: async <E extends DataEntity>(entity: E, id: string) => {
+      if (isOnline()) {
+        try {
+          return await remote.fetchRecord(entity, id);
+        } catch (error) {
+          if (!isNetworkError(error)) throw error;
+        }
+      }
+      return (await findLocal(entity, id) ?? null) as EntityRecordMap[E] | null;
+    },
+
+    // Documentation content
+
+    async fetchPageContent(pageId, title) {
+      const cacheKey = pageId || `title:${title || ''}`;
+      const cached = await getOne<StoredPageContent>(STORES.PAGE_CONTENT, cacheKey);
+      if (!isOnline()) {
+        return cached ? { blocks: cached.blocks, pageId: cached.pageId } : { blocks: [], pageId: null };
+      }
+      try {
+        const content = await remote.fetchPageContent(pageId, title);
+        await putOne<StoredPageContent>(STORES.PAGE_CONTENT, { id: cacheKey, ...content });
+        return content;
+      } catch (error) {
+        if (cached && isNetworkError(error)) {
+          return { blocks: cached.blocks, pageId: cached.pageId };
+        }
+        throw error;
+      }
+    },
+
+    async listCachedPageContent() {
+      const stored = await getAll<StoredPageContent>(STORES.PAGE_CONTENT);
+      return stored.map(({ id, blocks, pageId }) => ({
+        blocks,
+        pageId,
+        title: id.startsWith('title:') ? id.slice('title:'.length) : undefined,
+      }));
+    },
+
+    // Maintenance
+
+    async refreshAllData() {
+      await flushOutbox();
+      const [nodes, paths, nodePaths] = await Promise.all([
+        this.fetchNodes(true),
+        this.fetchPaths(true),
+        this.fetchNodePaths(true),
+      ]);
+      return { nodes, paths, nodePaths };
+    },
+
+    checkConnection: () => (isOnline() ? remote.checkConnection() : Promise.resolve(false)),
+
+    clearCache: () => remote.clearCache(),
+
+    migrateNotesToPageBodies: remote.migrateNotesToPageBodies && (async (onProgress) => {
+      // Queued note edits go out first, so the migration sees them
+      await flushOutbox();
+      const result = await remote.migrateNotesToPageBodies!(onProgress);
+      void refreshInBackground('paths');
+      void refreshInBackground('nodePaths');
+      return result;
+    }),
+
+    addChangeListener(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    outbox: {
+      list: loadChanges,
+
+      subscribe(listener) {
+        outboxListeners.add(listener);
+        void loadChanges().then(listener);
+        return () => { outboxListeners.delete(listener); };
+      },
+
+      async retry(changeId) {
+        const change = await loadChange(changeId);
+        if (!change) return;
+        await saveChange({ ...change, status: 'pending', retries: 0, error: undefined });
+        await emitOutbox();
+        await flushOutbox();
+      },
+
+      async discard(changeId) {
+        const change = await loadChange(changeId);
+        if (!change) return;
+        await removeChange(change);
+        writeVersion++;
+        await emitOutbox();
+        // Once nothing holds the record, the next refresh restores the remote version
+        void refreshInBackground(CHANGE_ENTITIES[change.entity]);
+      },
+
+      async resolveConflict(changeId, resolution) {
+        const change = await loadChange(changeId);
+        if (!change?.conflict) return;
+        const related = (await loadChanges()).filter(c => changeKey(c) === changeKey(change));
+        writeVersion++;
+
+        if (resolution === 'theirs') {
+          await keepTheirs(change, related);
+        } else if (resolution === 'merge' && change.conflict.remote && change.type !== 'delete') {
+          await mergeWithTheirs(change, related);
+        } else {
+          await keepMine(change, related);
+        }
+
+        await emitOutbox();
+        await flushOutbox();
+      },
+    },
+  };
+}
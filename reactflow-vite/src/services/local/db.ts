@@ -0,0 +1,151 @@
+// Local IndexedDB Store
+// ======================
+// Thin promise wrapper around the browser's IndexedDB for offline data
+
+import { getCurrentUserId } from '../auth';
+
+// ============================================
+// Schema
+// ============================================
+
+const DB_NAME = 'cinaps-local';
+const DB_VERSION = 4;
+
+export const STORES = {
+  NODES: 'nodes',
+  PATHS: 'paths',
+  NODE_PATHS: 'nodePaths',
+  CATEGORIES: 'categories',
+  AUDIO: 'audio',
+  PAGE_CONTENT: 'pageContent',
+  OUTBOX: 'outbox',
+  META: 'meta',
+  HISTORY: 'history',
+  TRASH: 'trash',
+  NOTE_BODIES: 'noteBodies',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Every store is keyed by an `id` field on the stored value
+const STORE_NAMES: StoreName[] = Object.values(STORES);
+
+// ============================================
+// Connection
+// ============================================
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isLocalDbAvailable(): boolean {
+  return typeof indexedDB !== 'undefined';
+}
+
+// Each user gets a separate database so signing in as someone else never mixes data
+async function getDbName(): Promise<string> {
+  const userId = await getCurrentUserId();
+  return userId ? `${DB_NAME}:${userId}` : DB_NAME;
+}
+
+function openDb(): Promise<IDBDatabase> {
+  if (dbPromise) return dbPromise;
+
+  dbPromise = getDbName().then(name => new Promise<IDBDatabase>((resolve, reject) => {
+    const request = indexedDB.open(name, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      STORE_NAMES.forEach(name => {
+        if (!db.objectStoreNames.contains(name)) {
+          db.createObjectStore(name, { keyPath: 'id' });
+        }
+      });
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error ?? new Error('Failed to open local database'));
+    };
+  }));
+
+  return dbPromise;
+}
+
+function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+function promisifyTransaction(tx: IDBTransaction): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error ?? new Error('IndexedDB transaction failed'));
+    tx.onabort = () => reject(tx.error ?? new Error('IndexedDB transaction aborted'));
+  });
+}
+
+// ============================================
+// Operations
+// ============================================
+
+/**
+ * Read every record in a store
+ */
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readonly');
+  return promisifyRequest(tx.objectStore(store).getAll() as IDBRequest<T[]>);
+}
+
+/**
+ * Read a single record by id
+ */
+export async function getOne<T>(store: StoreName, id: string): Promise<T | undefined> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readonly');
+  return promisifyRequest(tx.objectStore(store).get(id) as IDBRequest<T | undefined>);
+}
+
+/**
+ * Insert or replace a record
+ */
+export async function putOne<T extends { id: string }>(store: StoreName, value: T): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).put(value);
+  return promisifyTransaction(tx);
+}
+
+/**
+ * Delete a record by id
+ */
+export async function deleteOne(store: StoreName, id: string): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).delete(id);
+  return promisifyTransaction(tx);
+}
+
+/**
+ * Replace the full contents of a store in a single transaction
+ */
+export async function replaceAll<T extends { id: string }>(store: StoreName, values: T[]): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  const objectStore = tx.objectStore(store);
+  objectStore.clear();
+  values.forEach(value => objectStore.put(value));
+  return promisifyTransaction(tx);
+}
+
+/**
+ * Remove every record from a store
+ */
+export async function clearStore(store: StoreName): Promise<void> {
+  const db = await openDb();
+  const tx = db.transaction(store, 'readwrite');
+  tx.objectStore(store).clear();
+  return promisifyTransaction(tx);
+}
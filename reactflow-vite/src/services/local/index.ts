@@ -0,0 +1,6 @@
+// Local Store Index
+// ==================
+// Offline-first persistence in the browser
+
+export { isLocalDbAvailable } from './db';
+export { createLocalFirstBackend } from './backend';
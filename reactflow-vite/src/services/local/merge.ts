@@ -0,0 +1,73 @@
+// Conflict Merging
+// =================
+// Field-level merge of a locally edited record with the version saved elsewhere
+
+import type { DataEntity, EntityRecordMap } from '../backend/types';
+import type { PathRecord, NodePathRecord, CategoryRecord } from '../notion/types';
+
+const HTML_PATTERN = /<[a-z][\s\S]*>/i;
+
+/**
+ * Combine two edits of the same text.
+ * If one already contains the other it wins; otherwise both are kept, theirs first.
+ */
+export function mergeText(mine: string | undefined, theirs: string | undefined): string {
+  const a = mine || '';
+  const b = theirs || '';
+  if (!a || b.includes(a)) return b;
+  if (!b || a.includes(b)) return a;
+  const separator = HTML_PATTERN.test(a) || HTML_PATTERN.test(b) ? '<hr>' : '\n\n';
+  return `${b}${separator}${a}`;
+}
+
+function mergeIds(mine: string[] = [], theirs: string[] = []): string[] {
+  return [...mine, ...theirs.filter(id => !mine.includes(id))];
+}
+
+function mergePath(mine: PathRecord, theirs: PathRecord): PathRecord {
+  return {
+    ...theirs,
+    ...mine,
+    nodeIds: mergeIds(mine.nodeIds, theirs.nodeIds),
+    notes: mergeText(mine.notes, theirs.notes) || undefined,
+    audioNotes: theirs.audioNotes,
+    notionPageId: theirs.notionPageId,
+    lastModified: theirs.lastModified,
+  };
+}
+
+function mergeNodePath(mine: NodePathRecord, theirs: NodePathRecord): NodePathRecord {
+  return {
+    ...theirs,
+    content: mergeText(mine.content, theirs.content),
+  };
+}
+
+function mergeCategory(mine: CategoryRecord, theirs: CategoryRecord): CategoryRecord {
+  return {
+    ...theirs,
+    name: mine.name,
+    parentId: mine.parentId ?? null,
+  };
+}
+
+/**
+ * Merge my version of a record into theirs.
+ * The result carries their version stamp and their remote attachments.
+ */
+export function mergeRecords<E extends DataEntity>(
+  entity: E,
+  mine: EntityRecordMap[E],
+  theirs: EntityRecordMap[E]
+): EntityRecordMap[E] {
+  switch (entity) {
+    case 'paths':
+      return mergePath(mine as PathRecord, theirs as PathRecord) as EntityRecordMap[E];
+    case 'nodePaths':
+      return mergeNodePath(mine as NodePathRecord, theirs as NodePathRecord) as EntityRecordMap[E];
+    case 'categories':
+      return mergeCategory(mine as CategoryRecord, theirs as CategoryRecord) as EntityRecordMap[E];
+    default:
+      return theirs;
+  }
+}
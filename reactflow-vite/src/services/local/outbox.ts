@@ -0,0 +1,74 @@
+// Sync Outbox Store
+// ==================
+// Persisted queue of PendingChange entries waiting to be replayed to the remote
+
+import type { DataEntity } from '../backend/types';
+import type { PendingChange } from '../notion/types';
+import { STORES, getAll, getOne, putOne, deleteOne } from './db';
+
+// ============================================
+// Constants
+// ============================================
+
+// Attempts before a change is parked as failed and needs a manual retry
+export const OUTBOX_MAX_RETRIES = 3;
+
+// Base delay before retrying a change that failed with a transient error
+export const OUTBOX_RETRY_DELAY = 2000;
+
+// Collection each PendingChange entity lives in
+export const CHANGE_ENTITIES: Record<PendingChange['entity'], DataEntity> = {
+  node: 'nodes',
+  path: 'paths',
+  nodePath: 'nodePaths',
+  category: 'categories',
+};
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Changes to the same record share a key and must be replayed in order
+ */
+export function changeKey(change: Pick<PendingChange, 'entity' | 'targetId'>): string {
+  return `${change.entity}:${change.targetId}`;
+}
+
+/**
+ * True when a change can only succeed after the user settles it
+ */
+export function isBlocked(change: PendingChange): boolean {
+  return change.status !== 'pending';
+}
+
+// ============================================
+// Operations
+// ============================================
+
+/**
+ * All queued changes, oldest first
+ */
+export async function loadChanges(): Promise<PendingChange[]> {
+  const changes = await getAll<PendingChange>(STORES.OUTBOX);
+  return changes.sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+export function loadChange(changeId: string): Promise<PendingChange | undefined> {
+  return getOne<PendingChange>(STORES.OUTBOX, changeId);
+}
+
+export function saveChange(change: PendingChange): Promise<void> {
+  return putOne(STORES.OUTBOX, change);
+}
+
+/**
+ * Remove a change along with any recording it was holding
+ */
+export async function removeChange(change: PendingChange): Promise<void> {
+  if (change.method === 'saveNodePathAudioNote' || change.method === 'savePathAudioNote') {
+    const args = change.data as unknown[];
+    await deleteOne(STORES.AUDIO, args[args.length - 1] as string);
+  }
+  await deleteOne(STORES.OUTBOX, change.id);
+}
@@ -0,0 +1,128 @@
+// Notion Backend Adapter
+// =======================
+// Exposes the Notion service through the storage-agnostic DataBackend interface
+
+import type { DataBackend, DataEntity, EntityRecordMap } from '../backend/types';
+import {
+  fetchNodes,
+  saveNode,
+  deleteNode,
+  fetchPaths,
+  fetchNodePaths,
+  fetchCategories,
+  createCategory,
+  deleteCategory,
+  updateCategory,
+  savePath,
+  updatePathNodes,
+  updatePathCategory,
+  updatePathPriority,
+  updatePathFav,
+  updatePathTemplate,
+  updatePathShareToken,
+  updatePathLayout,
+  updatePathStatus,
+  renamePath,
+  savePathNotes,
+  deletePath,
+  deleteNodePathsForPath,
+  deleteNodePath,
+  restorePaths,
+  restoreNodePaths,
+  restoreCategories,
+  saveNodePath,
+  batchSaveNodePaths,
+  migrateNotesToPageBodies,
+  refreshAllData,
+  checkConnection,
+  clearCache,
+  uploadAudioNote,
+  saveNodePathAudioNote,
+  savePathAudioNote,
+  fetchPageContent,
+  fetchPathRecord,
+  fetchNodePathRecord,
+  fetchCategoryRecord,
+} from './service';
+
+async function fetchRecord<E extends DataEntity>(
+  entity: E,
+  id: string
+): Promise<EntityRecordMap[E] | null> {
+  switch (entity) {
+    case 'paths':
+      return fetchPathRecord(id) as Promise<EntityRecordMap[E] | null>;
+    case 'nodePaths':
+      return fetchNodePathRecord(id) as Promise<EntityRecordMap[E] | null>;
+    case 'categories':
+      return fetchCategoryRecord(id) as Promise<EntityRecordMap[E] | null>;
+    default: {
+      const nodes = await fetchNodes(true);
+      return (nodes.find(n => n.id === id) ?? null) as EntityRecordMap[E] | null;
+    }
+  }
+}
+
+async function restoreRecords<E extends DataEntity>(
+  entity: E,
+  records: EntityRecordMap[E][]
+): Promise<void> {
+  switch (entity) {
+    case 'paths':
+      return restorePaths(records as EntityRecordMap['paths'][]);
+    case 'nodePaths':
+      return restoreNodePaths(records as EntityRecordMap['nodePaths'][]);
+    case 'categories':
+      return restoreCategories(records as EntityRecordMap['categories'][]);
+    default:
+      throw new Error(`Restoring ${entity} is not supported`);
+  }
+}
+
+export const notionBackend: DataBackend = {
+  id: 'notion',
+  label: 'Notion',
+
+  fetchNodes,
+  saveNode,
+  deleteNode,
+
+  fetchCategories,
+  createCategory,
+  deleteCategory,
+  updateCategory,
+
+  fetchPaths,
+  savePath,
+  updatePathNodes,
+  updatePathCategory,
+  updatePathPriority,
+  updatePathFav,
+  updatePathTemplate,
+  updatePathShareToken,
+  updatePathLayout,
+  updatePathStatus,
+  renamePath,
+  savePathNotes,
+  deletePath,
+
+  fetchNodePaths,
+  saveNodePath,
+  batchSaveNodePaths,
+  deleteNodePathsForPath,
+  deleteNodePath,
+
+  restoreRecords,
+
+  uploadAudioNote,
+  saveNodePathAudioNote,
+  savePathAudioNote,
+
+  fetchRecord,
+  fetchPageContent,
+
+  refreshAllData,
+  checkConnection,
+  clearCache,
+  migrateNotesToPageBodies,
+};
@@ -0,0 +1,637 @@
+// Note Blocks
+// ============
+// Convert note HTML to Notion blocks and back, so notes can live in a page's
+// body. Blocks the editor can't reproduce are shown as read-only placeholders
+// and left in place on save. blocksToHtml and loadBlockTree must not depend on
+// browser-only APIs (the /api/share function uses them); the HTML parsers need
+// DOMParser.
+
+import type { NotionBlock, NotionRichText } from './types';
+
+// ============================================
+// Types
+// ============================================
+
+// Rich text as sent to Notion
+export type RichTextInput = Omit<NotionRichText, 'plain_text' | 'href'>;
+
+// A block as sent to Notion when creating a page or appending children
+export interface BlockInput {
+  object: 'block';
+  type: string;
+  [key: string]: unknown;
+}
+
+// A block read back from Notion, with its nested children when it has any
+export type NoteBlock = NotionBlock & { has_children?: boolean; children?: NoteBlock[] };
+
+// A block the note keeps as it is, marked in note HTML by its id
+export interface KeptBlock {
+  object: 'kept';
+  id: string;
+}
+
+export type BodyItem = BlockInput | KeptBlock;
+
+// The block changes that turn a page body into an edited note
+export interface BodyEdit {
+  remove: string[]; // block ids
+  insert: Array<{ after: string | null; blocks: BlockInput[] }>; // null: at the end
+}
+
+type Annotations = NotionRichText['annotations'];
+
+interface BlockBody {
+  rich_text?: Array<Partial<NotionRichText>>;
+  checked?: boolean;
+  language?: string;
+  url?: string;
+  external?: { url: string };
+  file?: { url: string; expiry_time?: string };
+  file_upload?: { id: string };
+  caption?: unknown[];
+  color?: string;
+  is_toggleable?: boolean;
+  title?: string;
+  cells?: Array<Array<Partial<NotionRichText>>>;
+  children?: BlockInput[];
+}
+
+// ============================================
+// Constants
+// ============================================
+
+// Notion's limit per rich text item
+const TEXT_LIMIT = 2000;
+
+// Notion's limit on rich text items per block
+const RICH_TEXT_ITEMS_LIMIT = 100;
+
+// Blocks nested deeper than this are read as plain paragraphs
+const MAX_DEPTH = 3;
+
+const PLAIN: Annotations = {
+  bold: false,
+  italic: false,
+  strikethrough: false,
+  underline: false,
+  code: false,
+  color: 'default',
+};
+
+const HEADINGS: Record<string, string> = {
+  h1: 'heading_1',
+  h2: 'heading_2',
+  h3: 'heading_3',
+  h4: 'heading_3',
+  h5: 'heading_3',
+  h6: 'heading_3',
+};
+
+// Block types the editor can reproduce exactly; anything else is kept as it is
+const EDITABLE_TYPES = new Set([
+  'paragraph', 'heading_1', 'heading_2', 'heading_3', 'bulleted_list_item',
+  'numbered_list_item', 'to_do', 'quote', 'code', 'divider', 'image', 'embed', 'video',
+]);
+
+// Elements that start a new block rather than continuing the current paragraph
+const BLOCK_TAGS = new Set([
+  'p', 'div', 'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'ul', 'ol', 'blockquote',
+  'pre', 'hr', 'img', 'iframe', 'video', 'figure', 'section', 'article',
+]);
+
+// ============================================
+// HTML to Blocks
+// ============================================
+
+function block(type: string, body: BlockBody): BlockInput {
+  return { object: 'block', type, [type]: body };
+}
+
+function sameMarks(a: RichTextInput, b: RichTextInput): boolean {
+  return JSON.stringify(a.annotations) === JSON.stringify(b.annotations)
+    && (a.text.link?.url ?? null) === (b.text.link?.url ?? null);
+}
+
+// Merge neighbouring runs with the same formatting and respect Notion's size limits
+function normalizeRichText(items: RichTextInput[]): RichTextInput[] {
+  const merged: RichTextInput[] = [];
+  items.forEach(item => {
+    const last = merged[merged.length - 1];
+    if (last && sameMarks(last, item)) {
+      last.text = { ...last.text, content: last.text.content + item.text.content };
+    } else if (item.text.content) {
+      merged.push({ ...item, text: { ...item.text } });
+    }
+  });
+
+  const split: RichTextInput[] = [];
+  merged.forEach(item => {
+    for (let i = 0; i < item.text.content.length; i += TEXT_LIMIT) {
+      split.push({ ...item, text: { ...item.text, content: item.text.content.slice(i, i + TEXT_LIMIT) } });
+    }
+  });
+
+  if (split.length <= RICH_TEXT_ITEMS_LIMIT) return split;
+  // Beyond the item limit the remaining runs lose their formatting
+  const kept = split.slice(0, RICH_TEXT_ITEMS_LIMIT - 1);
+  const rest = split.slice(RICH_TEXT_ITEMS_LIMIT - 1).map(item => item.text.content).join('');
+  return [...kept, { type: 'text', text: { content: rest.slice(0, TEXT_LIMIT), link: null }, annotations: PLAIN }];
+}
+
+function inlineRichText(node: Node, marks: Annotations, link: string | null): RichTextInput[] {
+  if (node.nodeType === Node.TEXT_NODE) {
+    const content = node.textContent || '';
+    return content ? [{ type: 'text', text: { content, link: link ? { url: link } : null }, annotations: marks }] : [];
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return [];
+
+  const el = node as Element;
+  const tag = el.tagName.toLowerCase();
+  let next = marks;
+  let nextLink = link;
+  switch (tag) {
+    case 'br':
+      return [{ type: 'text', text: { content: '\n', link: null }, annotations: marks }];
+    case 'b':
+    case 'strong':
+      next = { ...marks, bold: true };
+      break;
+    case 'i':
+    case 'em':
+      next = { ...marks, italic: true };
+      break;
+    case 'u':
+      next = { ...marks, underline: true };
+      break;
+    case 's':
+    case 'strike':
+    case 'del':
+      next = { ...marks, strikethrough: true };
+      break;
+    case 'code':
+      next = { ...marks, code: true };
+      break;
+    case 'a': {
+      const href = el.getAttribute('href');
+      if (href && /^https?:|^mailto:/i.test(href)) nextLink = href;
+      break;
+    }
+  }
+  return Array.from(el.childNodes).flatMap(child => inlineRichText(child, next, nextLink));
+}
+
+function richTextOf(el: Element): RichTextInput[] {
+  const items = Array.from(el.childNodes).flatMap(child => inlineRichText(child, PLAIN, null));
+  // A trailing line break only keeps the line open in the editor
+  const last = items[items.length - 1];
+  if (last?.text.content === '\n') items.pop();
+  return normalizeRichText(items);
+}
+
+function isMediaUrl(url: string | null): url is string {
+  return !!url && /^https?:\/\//i.test(url);
+}
+
+function listItems(list: Element, depth: number): BlockInput[] {
+  const ordered = list.tagName.toLowerCase() === 'ol';
+  const todo = list.getAttribute('data-todo') === 'true';
+
+  return Array.from(list.children)
+    .filter(child => child.tagName.toLowerCase() === 'li')
+    .map(item => {
+      const nested = Array.from(item.children).filter(child => ['ul', 'ol'].includes(child.tagName.toLowerCase()));
+      const inline = item.cloneNode(true) as Element;
+      Array.from(inline.children)
+        .filter(child => ['ul', 'ol'].includes(child.tagName.toLowerCase()))
+        .forEach(child => child.remove());
+
+      const body: BlockBody = { rich_text: richTextOf(inline) };
+      const children = depth < MAX_DEPTH - 1 ? nested.flatMap(child => listItems(child, depth + 1)) : [];
+      if (children.length > 0) body.children = children;
+
+      if (todo || item.hasAttribute('data-checked')) {
+        return block('to_do', { ...body, checked: item.getAttribute('data-checked') === 'true' });
+      }
+      return block(ordered ? 'numbered_list_item' : 'bulleted_list_item', body);
+    });
+}
+
+// keep: turn placeholders into references to their block; otherwise copy their content
+function elementBlocks(el: Element, depth: number, keep: boolean): BodyItem[] {
+  const tag = el.tagName.toLowerCase();
+
+  const keptId = el.getAttribute('data-block-id');
+  if (keptId && keep) return [{ object: 'kept', id: keptId }];
+  // Placeholder labels, and Notion-hosted files whose links expire, can't be copied
+  if (el.hasAttribute('data-notion-label') || el.hasAttribute('data-notion-file')) return [];
+
+  if (HEADINGS[tag]) return [block(HEADINGS[tag], { rich_text: richTextOf(el) })];
+
+  switch (tag) {
+    case 'ul':
+    case 'ol':
+      return listItems(el, depth);
+    case 'blockquote':
+      return [block('quote', { rich_text: richTextOf(el) })];
+    case 'pre':
+      return [block('code', {
+        rich_text: normalizeRichText([{ type: 'text', text: { content: el.textContent || '', link: null }, annotations: PLAIN }]),
+        language: el.getAttribute('data-language') || 'plain text',
+      })];
+    case 'hr':
+      return [block('divider', {})];
+    case 'img': {
+      const src = el.getAttribute('src');
+      return isMediaUrl(src) ? [block('image', { external: { url: src } })] : [];
+    }
+    case 'iframe': {
+      const src = el.getAttribute('src');
+      return isMediaUrl(src) ? [block('embed', { url: src })] : [];
+    }
+    case 'video': {
+      const src = el.getAttribute('src') || el.querySelector('source')?.getAttribute('src') || null;
+      return isMediaUrl(src) ? [block('video', { external: { url: src } })] : [];
+    }
+    default: {
+      // Editor lines are <div>s; an empty one (<div><br></div>) is a blank line
+      const blocks = childBlocks(el, depth, keep);
+      return blocks.length > 0 || keptId ? blocks : [block('paragraph', { rich_text: [] })];
+    }
+  }
+}
+
+function childBlocks(parent: Element, depth: number, keep: boolean): BodyItem[] {
+  const blocks: BodyItem[] = [];
+  let inline: Node[] = [];
+
+  // Loose text between block elements becomes its own paragraph
+  const flushInline = () => {
+    const wrapper = parent.ownerDocument.createElement('div');
+    inline.forEach(node => wrapper.appendChild(node.cloneNode(true)));
+    inline = [];
+    const richText = richTextOf(wrapper);
+    if (richText.some(item => item.text.content.trim())) {
+      blocks.push(block('paragraph', { rich_text: richText }));
+    }
+  };
+
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType === Node.ELEMENT_NODE && BLOCK_TAGS.has((node as Element).tagName.toLowerCase())) {
+      flushInline();
+      blocks.push(...elementBlocks(node as Element, depth, keep));
+    } else {
+      inline.push(node);
+    }
+  });
+  flushInline();
+  return blocks;
+}
+
+function parseBody(html: string): HTMLElement {
+  return new DOMParser().parseFromString(html || '', 'text/html').body;
+}
+
+/**
+ * Convert note HTML to Notion blocks for a new page. Placeholders for kept
+ * blocks are copied as far as the editor can represent them.
+ */
+export function htmlToBlocks(html: string): BlockInput[] {
+  return childBlocks(parseBody(html), 0, false)
+    .filter((item): item is BlockInput => item.object === 'block');
+}
+
+/**
+ * Convert edited note HTML to the items of a page body, with placeholders as
+ * references to the blocks they stand for
+ */
+export function htmlToBodyItems(html: string): BodyItem[] {
+  return childBlocks(parseBody(html), 0, true);
+}
+
+// ============================================
+// Blocks to HTML
+// ============================================
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function richTextHtml(items: Array<Partial<NotionRichText>> | undefined): string {
+  return (items || []).map(item => {
+    let html = escapeHtml(item.plain_text ?? item.text?.content ?? '').replace(/\n/g, '<br>');
+    const marks = item.annotations;
+    if (marks?.code) html = `<code>${html}</code>`;
+    if (marks?.bold) html = `<b>${html}</b>`;
+    if (marks?.italic) html = `<i>${html}</i>`;
+    if (marks?.underline) html = `<u>${html}</u>`;
+    if (marks?.strikethrough) html = `<s>${html}</s>`;
+    const href = item.href ?? item.text?.link?.url;
+    if (href) html = `<a href="${escapeHtml(href)}">${html}</a>`;
+    return html;
+  }).join('');
+}
+
+function bodyOf(noteBlock: NoteBlock): BlockBody {
+  return (noteBlock[noteBlock.type] || {}) as BlockBody;
+}
+
+// Only links the app controls; Notion-hosted file links expire after an hour
+function mediaUrl(body: BlockBody): string {
+  return body.external?.url || body.url || '';
+}
+
+function mediaHtml(type: string, body: BlockBody): string {
+  const url = mediaUrl(body) || body.file?.url || '';
+  if (!url) return '';
+  const src = `src="${escapeHtml(url)}"${body.file ? ' data-notion-file="true"' : ''}`;
+  if (type === 'image') return `<img ${src}>`;
+  if (type === 'video') return `<video ${src} controls></video>`;
+  return `<iframe ${src} frameborder="0" allowfullscreen></iframe>`;
+}
+
+function listTag(type: string): string | null {
+  if (type === 'bulleted_list_item') return 'ul';
+  if (type === 'numbered_list_item') return 'ol';
+  if (type === 'to_do') return 'ul data-todo="true"';
+  return null;
+}
+
+function isEditableText(items: Array<Partial<NotionRichText>> | undefined): boolean {
+  return (items || []).every(item => {
+    const href = item.href ?? item.text?.link?.url;
+    return (item.type ?? 'text') === 'text'
+      && (item.annotations?.color ?? 'default') === 'default'
+      && (!href || /^https?:|^mailto:/i.test(href));
+  });
+}
+
+/**
+ * Whether the editor can reproduce a block exactly, so saving a note may
+ * replace it. List items count only with all their children loaded and editable.
+ */
+function isEditable(noteBlock: NoteBlock): boolean {
+  const body = bodyOf(noteBlock);
+  if (!EDITABLE_TYPES.has(noteBlock.type)) return false;
+  if ((body.color ?? 'default') !== 'default' || body.is_toggleable || body.caption?.length) return false;
+  if (!isEditableText(body.rich_text)) return false;
+  // Code is edited as plain text
+  const marked = (body.rich_text || []).some(({ annotations: m }) => m && (m.bold || m.italic || m.strikethrough || m.underline || m.code));
+  if (noteBlock.type === 'code' && marked) return false;
+  if (['image', 'video', 'embed'].includes(noteBlock.type) && !mediaUrl(body)) return false;
+  if (!noteBlock.has_children) return true;
+  return !!listTag(noteBlock.type)
+    && !!noteBlock.children
+    && noteBlock.children.every(child => !!listTag(child.type) && isEditable(child));
+}
+
+// Read-only stand-in for a block the editor can't reproduce
+function keptHtml(noteBlock: NoteBlock): string {
+  const preview = renderBlocks([noteBlock], false)
+    || `<div data-notion-label="true">${escapeHtml(noteBlock.type.replace(/_/g, ' '))} (not shown here)</div>`;
+  return `<div data-block-id="${escapeHtml(noteBlock.id)}" contenteditable="false">${preview}</div>`;
+}
+
+// keep: show top-level blocks the editor can't reproduce as placeholders
+function renderBlocks(blocks: NoteBlock[], keep: boolean): string {
+  const parts: string[] = [];
+  let openList: string | null = null;
+
+  const closeList = () => {
+    if (openList) parts.push(`</${openList.split(' ')[0]}>`);
+    openList = null;
+  };
+
+  blocks.forEach(noteBlock => {
+    if (keep && !isEditable(noteBlock)) {
+      closeList();
+      parts.push(keptHtml(noteBlock));
+      return;
+    }
+
+    const body = bodyOf(noteBlock);
+    const text = richTextHtml(body.rich_text);
+    const children = noteBlock.children?.length ? renderBlocks(noteBlock.children, false) : '';
+
+    const list = listTag(noteBlock.type);
+    if (list) {
+      if (openList !== list) {
+        closeList();
+        parts.push(`<${list}>`);
+        openList = list;
+      }
+      const checked = noteBlock.type === 'to_do' ? ` data-checked="${body.checked ? 'true' : 'false'}"` : '';
+      parts.push(`<li${checked}>${text}${children}</li>`);
+      return;
+    }
+    closeList();
+
+    switch (noteBlock.type) {
+      case 'heading_1':
+        parts.push(`<h1>${text}</h1>`);
+        break;
+      case 'heading_2':
+        parts.push(`<h2>${text}</h2>`);
+        break;
+      case 'heading_3':
+        parts.push(`<h3>${text}</h3>`);
+        break;
+      case 'quote':
+        parts.push(`<blockquote>${text}</blockquote>`);
+        break;
+      case 'code': {
+        const language = body.language ? ` data-language="${escapeHtml(body.language)}"` : '';
+        parts.push(`<pre${language}>${escapeHtml((body.rich_text || []).map(rt => rt.plain_text ?? rt.text?.content ?? '').join(''))}</pre>`);
+        break;
+      }
+      case 'divider':
+        parts.push('<hr>');
+        break;
+      case 'image':
+      case 'embed':
+      case 'video':
+        parts.push(mediaHtml(noteBlock.type, body));
+        break;
+      case 'bookmark':
+      case 'link_preview':
+        if (body.url) parts.push(`<div><a href="${escapeHtml(body.url)}">${escapeHtml(body.url)}</a></div>`);
+        break;
+      case 'child_page':
+        parts.push(`<div>${escapeHtml(body.title || 'Untitled page')}</div>`);
+        break;
+      case 'table_row':
+        parts.push(`<div>${(body.cells || []).map(richTextHtml).join(' | ')}</div>`);
+        break;
+      default:
+        // Paragraphs, plus callouts, toggles and anything else with text
+        if (body.rich_text || children) parts.push(`<div>${text || (children ? '' : '<br>')}${children}</div>`);
+    }
+  });
+
+  closeList();
+  return parts.join('');
+}
+
+/**
+ * Convert Notion blocks (with nested children loaded) to note HTML
+ */
+export function blocksToHtml(blocks: NoteBlock[]): string {
+  return renderBlocks(blocks, true);
+}
+
+/**
+ * When links to Notion-hosted files in the note HTML of these blocks expire
+ */
+export function fileLinksExpireAt(blocks: NoteBlock[]): number | null {
+  let expiresAt: number | null = null;
+  blocks.forEach(noteBlock => {
+    const expiry = bodyOf(noteBlock).file?.expiry_time;
+    const time = expiry ? Date.parse(expiry) : NaN;
+    if (!Number.isNaN(time) && (expiresAt === null || time < expiresAt)) expiresAt = time;
+    const nested = noteBlock.children ? fileLinksExpireAt(noteBlock.children) : null;
+    if (nested !== null && (expiresAt === null || nested < expiresAt)) expiresAt = nested;
+  });
+  return expiresAt;
+}
+
+// ============================================
+// Reading and Comparing
+// ============================================
+
+/**
+ * Load a page's blocks along with the children of nested blocks
+ */
+export async function loadBlockTree(
+  listChildren: (blockId: string) => Promise<NotionBlock[]>,
+  blockId: string,
+  depth = 0
+): Promise<NoteBlock[]> {
+  const blocks = await listChildren(blockId) as NoteBlock[];
+  if (depth >= MAX_DEPTH - 1) return blocks;
+  return Promise.all(blocks.map(async child => child.has_children && child.type !== 'child_page'
+    ? { ...child, children: await loadBlockTree(listChildren, child.id, depth + 1) }
+    : child));
+}
+
+/**
+ * Identifies a block's type and content, nested blocks included, for telling
+ * which blocks of a page an edit left unchanged. Null when the children of a
+ * block weren't loaded.
+ */
+function blockSignature(noteBlock: BlockInput | NoteBlock): string | null {
+  const body = bodyOf(noteBlock as NoteBlock);
+  // Blocks read back from Notion carry an id and their children beside the body
+  const nested: Array<BlockInput | NoteBlock> | null = 'id' in noteBlock
+    ? (noteBlock as NoteBlock).children ?? ((noteBlock as NoteBlock).has_children ? null : [])
+    : body.children ?? [];
+  if (!nested) return null;
+  const children = nested.map(child => blockSignature(child));
+  if (children.includes(null)) return null;
+  return JSON.stringify([
+    noteBlock.type,
+    (body.rich_text || []).map(rt => [
+      rt.plain_text ?? rt.text?.content ?? '',
+      !!rt.annotations?.bold,
+      !!rt.annotations?.italic,
+      !!rt.annotations?.strikethrough,
+      !!rt.annotations?.underline,
+      !!rt.annotations?.code,
+      rt.href ?? rt.text?.link?.url ?? null,
+    ]),
+    body.checked ?? null,
+    body.language ?? null,
+    mediaUrl(body) || null,
+    children,
+  ]);
+}
+
+/**
+ * Whether a page body already ends with these blocks, as after a save that
+ * stopped before the page was marked as keeping its notes in the body
+ */
+export function endsWithBlocks(existing: NoteBlock[], blocks: BlockInput[]): boolean {
+  if (blocks.length > existing.length) return false;
+  const tail = existing.slice(existing.length - blocks.length);
+  return tail.every((noteBlock, i) => {
+    const signature = blockSignature(noteBlock);
+    return signature !== null && signature === blockSignature(blocks[i]);
+  });
+}
+
+function itemKey(item: BodyItem): string | null {
+  return item.object === 'kept' ? `kept:${item.id}` : blockSignature(item);
+}
+
+/**
+ * Plan the block changes that turn a page body into an edited note. Blocks the
+ * edit left unchanged stay, as do blocks the editor can't reproduce (even if
+ * their placeholder was removed); only blocks the editor produced are removed.
+ * Notion can only insert after a block, so text added at the very start of a
+ * body that starts with a kept block goes right after that block.
+ */
+export function planBodyEdit(existing: NoteBlock[], items: BodyItem[]): BodyEdit {
+  const existingKeys = existing.map(noteBlock => isEditable(noteBlock) ? blockSignature(noteBlock) : `kept:${noteBlock.id}`);
+  const itemKeys = items.map(itemKey);
+
+  // Longest common subsequence of the two bodies
+  const lengths = Array.from({ length: existing.length + 1 }, () => new Array<number>(items.length + 1).fill(0));
+  for (let i = existing.length - 1; i >= 0; i--) {
+    for (let j = items.length - 1; j >= 0; j--) {
+      lengths[i][j] = existingKeys[i] !== null && existingKeys[i] === itemKeys[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+  const matched: Array<[number, number]> = []; // [existing index, item index]
+  for (let i = 0, j = 0; i < existing.length && j < items.length;) {
+    if (existingKeys[i] !== null && existingKeys[i] === itemKeys[j]) {
+      matched.push([i, j]);
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      i++;
+    } else {
+      j++;
+    }
+  }
+
+  // New blocks can't go before the first block of the body: put them after a
+  // kept block ahead of the first match, or re-create editable blocks until one is
+  const isNew = (item: BodyItem) => item.object === 'block';
+  const keptBefore = (index: number) => existing.slice(0, index).filter(noteBlock => !isEditable(noteBlock)).pop()?.id ?? null;
+  while (
+    matched.length > 0
+    && items.slice(0, matched[0][1]).some(isNew)
+    && !keptBefore(matched[0][0])
+    && isEditable(existing[matched[0][0]])
+  ) {
+    matched.shift();
+  }
+
+  const matchedItems = new Map(matched.map(([i, j]) => [j, existing[i].id]));
+  const kept = new Set(matchedItems.values());
+  const remove = existing
+    .filter(noteBlock => isEditable(noteBlock) && !kept.has(noteBlock.id))
+    .map(noteBlock => noteBlock.id);
+
+  const insert: BodyEdit['insert'] = [];
+  let after: string | null = matched.length > 0 ? keptBefore(matched[0][0]) ?? existing[matched[0][0]].id : null;
+  items.forEach((item, j) => {
+    const matchedId = matchedItems.get(j);
+    if (matchedId) {
+      after = matchedId;
+      return;
+    }
+    // A placeholder for a block that is gone (or pasted twice) has nothing to restore
+    if (item.object !== 'block') return;
+    const last = insert[insert.length - 1];
+    if (last && last.after === after) last.blocks.push(item);
+    else insert.push({ after, blocks: [item] });
+  });
+
+  return { remove, insert };
+}
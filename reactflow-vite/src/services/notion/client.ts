@@ -1,11 +1,13 @@
 // Notion API Client
 // ==================
-// Low-level API client with error handling, retries, and request queue
+// Low-level API client with error handling, retries, rate limiting, and request queue
 
 import { NOTION_CONFIG } from './config';
+import { notifyAuthRequired } from '../auth';
 import type { 
   NotionQueryResponse, 
   NotionPage, 
+  NotionBlock,
   SyncStatus 
 } from './types';
 
@@ -13,11 +15,15 @@ import type {
 // Types
 // ============================================
 
+// Interactive requests (reads) are started before background ones (writes)
+type RequestPriority = 'interactive' | 'background';
+
 interface RequestOptions {
   method: 'GET' | 'POST' | 'PATCH' | 'DELETE';
   path: string;
   body?: unknown;
   retries?: number;
+  priority?: RequestPriority; // Defaults to interactive for reads, background for writes
 }
 
 interface QueuedRequest {
@@ -95,6 +101,8 @@ async function processQueue(): Promise<void> {
   isProcessingQueue = true;
   updateSyncStatus('syncing', `Syncing ${requestQueue.length} pending changes...`);
   
+  let failedCount = 0;
+  
   while (requestQueue.length > 0 && isOnline) {
     const request = requestQueue[0];
     try {
@@ -104,15 +112,19 @@ async function processQueue(): Promise<void> {
     } catch (error) {
       // If it's a network error and we're offline, stop processing
       if (!isOnline) break;
-      // Otherwise, reject and remove from queue
+      // Otherwise, hand the failure back to the caller and report it
+      console.error(`[Notion API] Queued ${request.options.method} ${request.options.path} failed:`, error);
       request.reject(error instanceof Error ? error : new Error(String(error)));
       requestQueue.shift();
+      failedCount++;
     }
   }
   
   isProcessingQueue = false;
   
-  if (requestQueue.length === 0) {
+  if (failedCount > 0) {
+    updateSyncStatus('error', `${failedCount} queued ${failedCount === 1 ? 'change' : 'changes'} could not be saved`);
+  } else if (requestQueue.length === 0) {
     updateSyncStatus('success', 'All changes saved');
     // Reset to idle after a short delay
     setTimeout(() => {
@@ -123,6 +135,80 @@ async function processQueue(): Promise<void> {
   }
 }
 
+// ============================================
+// Request Scheduler
+// ============================================
+
+const waitingRequests: Record<RequestPriority, Array<() => void>> = {
+  interactive: [],
+  background: [],
+};
+const recentStarts: number[] = []; // Start times within the current window
+let pausedUntil = 0; // Set from Retry-After when Notion rate-limits us
+let scheduleTimer: ReturnType<typeof setTimeout> | null = null;
+
+/**
+ * Wait for a slot in Notion's request-rate budget
+ */
+function acquireRequestSlot(priority: RequestPriority): Promise<void> {
+  return new Promise(resolve => {
+    waitingRequests[priority].push(resolve);
+    startWaitingRequests();
+  });
+}
+
+function startWaitingRequests(): void {
+  if (scheduleTimer) return;
+  const { REQUESTS_PER_WINDOW, WINDOW } = NOTION_CONFIG.RATE_LIMIT;
+
+  while (waitingRequests.interactive.length + waitingRequests.background.length > 0) {
+    const now = Date.now();
+    while (recentStarts.length > 0 && now - recentStarts[0] >= WINDOW) recentStarts.shift();
+
+    let wait = Math.max(0, pausedUntil - now);
+    if (wait === 0 && recentStarts.length >= REQUESTS_PER_WINDOW) {
+      wait = recentStarts[0] + WINDOW - now;
+    }
+    if (wait > 0) {
+      scheduleTimer = setTimeout(() => {
+        scheduleTimer = null;
+        startWaitingRequests();
+      }, wait);
+      return;
+    }
+
+    const next = waitingRequests.interactive.shift() ?? waitingRequests.background.shift()!;
+    recentStarts.push(now);
+    next();
+  }
+}
+
+/**
+ * Hold every request back for `delay` ms
+ */
+function pauseRequests(delay: number): void {
+  pausedUntil = Math.max(pausedUntil, Date.now() + delay);
+  if (scheduleTimer) {
+    clearTimeout(scheduleTimer);
+    scheduleTimer = null;
+  }
+  startWaitingRequests();
+}
+
+// Retry-After is either a number of seconds or an HTTP date
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null;
+  const seconds = Number(header);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(header);
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+function isReadRequest(options: RequestOptions): boolean {
+  if (options.method === 'GET') return true;
+  return options.method === 'POST' && (options.path === '/search' || options.path.endsWith('/query'));
+}
+
 // ============================================
 // Core Request Execution
 // ============================================
@@ -133,6 +219,7 @@ function isDevelopment(): boolean {
 
 async function executeRequest<T>(options: RequestOptions): Promise<T> {
   const { method, path, body, retries = NOTION_CONFIG.SYNC.MAX_RETRIES } = options;
+  const priority = options.priority ?? (isReadRequest(options) ? 'interactive' : 'background');
   
   let url: string;
   let fetchOptions: RequestInit;
@@ -170,9 +257,11 @@ async function executeRequest<T>(options: RequestOptions): Promise<T> {
   
   console.log(`[Notion API] Fetching: ${url}`);
   
-  let lastError: Error | null = null;
+  let attempt = 0;
+  let rateLimitedAttempts = 0;
   
-  for (let attempt = 0; attempt <= retries; attempt++) {
+  for (;;) {
+    await acquireRequestSlot(priority);
     try {
       const response = await fetch(url, fetchOptions);
       
@@ -190,9 +279,17 @@ async function executeRequest<T>(options: RequestOptions): Promise<T> {
           errorMessage = errorText || `HTTP ${response.status}`;
         }
         
-        // Don't retry client errors (4xx)
-        if (response.status >= 400 && response.status < 500) {
-          throw new NotionAPIError(errorMessage, response.status);
+        // Session expired or missing: ask the user to sign in again
+        if (response.status === 401 && !isDev) {
+          notifyAuthRequired();
+          throw new NotionAPIError(errorMessage, 401, 'UNAUTHORIZED');
+        }
+        
+        // Rate limited: hold every request back as long as Notion asks
+        if (response.status === 429) {
+          const retryAfter = parseRetryAfter(response.headers.get('Retry-After'));
+          pauseRequests(retryAfter ?? NOTION_CONFIG.SYNC.RETRY_DELAY * Math.pow(2, rateLimitedAttempts));
+          throw new NotionAPIError(errorMessage, 429, 'RATE_LIMITED');
         }
         
         throw new NotionAPIError(errorMessage, response.status);
@@ -202,23 +299,26 @@ async function executeRequest<T>(options: RequestOptions): Promise<T> {
       return data as T;
       
     } catch (error) {
-      lastError = error instanceof Error ? error : new Error(String(error));
+      const lastError = error instanceof Error ? error : new Error(String(error));
       
-      // Don't retry client errors (4xx) - they won't succeed on retry
+      // Rate limited: the scheduler already waits out Retry-After
+      if (error instanceof NotionAPIError && error.status === 429) {
+        if (++rateLimitedAttempts > NOTION_CONFIG.RATE_LIMIT.MAX_RETRIES) throw error;
+        continue;
+      }
+      
+      // Don't retry other client errors (4xx) - they won't succeed on retry
       if (error instanceof NotionAPIError && error.status && error.status >= 400 && error.status < 500) {
         throw error;
       }
       
-      // Check if we should retry (only for network/server errors)
-      if (attempt < retries) {
-        // Exponential backoff
-        const delay = NOTION_CONFIG.SYNC.RETRY_DELAY * Math.pow(2, attempt);
-        await new Promise(resolve => setTimeout(resolve, delay));
-      }
+      // Retry network/server errors with exponential backoff
+      if (attempt >= retries) throw lastError;
+      const delay = NOTION_CONFIG.SYNC.RETRY_DELAY * Math.pow(2, attempt);
+      await new Promise(resolve => setTimeout(resolve, delay));
+      attempt++;
     }
   }
-  
-  throw lastError || new Error('Request failed');
 }
 
 // ============================================
@@ -240,11 +340,25 @@ export class NotionAPIError extends Error {
 // Public API Methods
 // ============================================
 
+// Identical GETs already on their way share one response
+const inFlightGets = new Map<string, Promise<unknown>>();
+
 /**
  * Make a request to the Notion API
- * Handles offline queueing, retries, and error handling
+ * Handles offline queueing, rate limiting, retries, and error handling
  */
 export async function notionRequest<T>(options: RequestOptions): Promise<T> {
+  if (options.method === 'GET') {
+    const pending = inFlightGets.get(options.path);
+    if (pending) return pending as Promise<T>;
+    const request = sendRequest<T>(options).finally(() => inFlightGets.delete(options.path));
+    inFlightGets.set(options.path, request);
+    return request;
+  }
+  return sendRequest<T>(options);
+}
+
+async function sendRequest<T>(options: RequestOptions): Promise<T> {
   // If offline and it's a write operation, queue it
   if (!isOnline && options.method !== 'GET') {
     if (NOTION_CONFIG.FEATURES.OFFLINE_SUPPORT) {
@@ -344,11 +458,12 @@ export async function getPage(pageId: string): Promise<NotionPage> {
 }
 
 /**
- * Create a new page in a database
+ * Create a new page in a database, optionally with body blocks (at most 100)
  */
 export async function createPage(
   databaseId: string,
-  properties: Record<string, unknown>
+  properties: Record<string, unknown>,
+  children?: unknown[]
 ): Promise<NotionPage> {
   return notionRequest<NotionPage>({
     method: 'POST',
@@ -356,6 +471,7 @@ export async function createPage(
     body: {
       parent: { database_id: databaseId },
       properties,
+      ...(children && children.length > 0 ? { children } : {}),
     },
   });
 }
@@ -385,6 +501,17 @@ export async function archivePage(pageId: string): Promise<NotionPage> {
   });
 }
 
+/**
+ * Bring an archived page back out of the trash
+ */
+export async function unarchivePage(pageId: string): Promise<NotionPage> {
+  return notionRequest<NotionPage>({
+    method: 'PATCH',
+    path: `/pages/${pageId}`,
+    body: { archived: false },
+  });
+}
+
 /**
  * Get page content (blocks)
  */
@@ -398,8 +525,8 @@ export async function getPageBlocks(pageId: string): Promise<NotionQueryResponse
 /**
  * Get ALL page blocks (handles pagination — Notion returns max 100 per request)
  */
-export async function getAllPageBlocks(pageId: string): Promise<NotionPage[]> {
-  const allBlocks: NotionPage[] = [];
+export async function getAllPageBlocks(pageId: string): Promise<NotionBlock[]> {
+  const allBlocks: NotionBlock[] = [];
   let startCursor: string | undefined;
 
   do {
@@ -408,13 +535,46 @@ export async function getAllPageBlocks(pageId: string): Promise<NotionPage[]> {
       method: 'GET',
       path: `/blocks/${pageId}/children${qs}`,
     });
-    allBlocks.push(...response.results);
+    allBlocks.push(...response.results as unknown as NotionBlock[]);
     startCursor = response.has_more ? (response.next_cursor ?? undefined) : undefined;
   } while (startCursor);
 
   return allBlocks;
 }
 
+/**
+ * Append blocks to a page (or block), 100 per request: at the end, or right
+ * after the child block `after`
+ */
+export async function appendBlockChildren(
+  blockId: string,
+  children: unknown[],
+  after?: string
+): Promise<NotionBlock[]> {
+  const created: NotionBlock[] = [];
+  for (let i = 0; i < children.length; i += 100) {
+    const chunk = children.slice(i, i + 100);
+    const anchor = created.length > 0 && after ? created[created.length - 1].id : after;
+    const response = await notionRequest<{ results: NotionBlock[] }>({
+      method: 'PATCH',
+      path: `/blocks/${blockId}/children`,
+      body: anchor ? { children: chunk, after: anchor } : { children: chunk },
+    });
+    created.push(...response.results.slice(0, chunk.length));
+  }
+  return created;
+}
+
+/**
+ * Delete a block (moves it to the Notion trash)
+ */
+export async function deleteBlock(blockId: string): Promise<void> {
+  await notionRequest<NotionBlock>({
+    method: 'DELETE',
+    path: `/blocks/${blockId}`,
+  });
+}
+
 /**
  * Search Notion workspace for pages by title
  */
@@ -526,6 +686,7 @@ export async function sendFileUpload(
   console.log('[sendFileUpload] URL:', url);
   updateSyncStatus('syncing', 'Uploading audio...');
   
+  await acquireRequestSlot('background');
   const response = await fetch(url, {
     method: 'POST',
     // Don't set Content-Type for FormData - browser will set it with boundary
@@ -537,6 +698,9 @@ export async function sendFileUpload(
   if (!response.ok) {
     const errorData = await response.json().catch(() => ({}));
     console.error('[sendFileUpload] Error response:', errorData);
+    if (response.status === 401 && !isDev) {
+      notifyAuthRequired();
+    }
     throw new NotionAPIError(
       errorData.message || `File upload failed: ${response.status}`,
       response.status,
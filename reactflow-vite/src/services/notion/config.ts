@@ -3,8 +3,8 @@
 // All Notion-related configuration in one place
 
 export const NOTION_CONFIG = {
-  // API Secret (will be used server-side via Vercel proxy)
-  API_SECRET: 'ntn_Y4956693031esIvt8ydLIJtlx7QozKmnTq7sBV4YO4c2XJ',
+  // The API secret lives in server configuration only (NOTION_API_SECRET),
+  // read by the Vercel functions in /api and by the Vite dev proxy
   
   // Database IDs from Notion workspace "Unburdened"
   DATABASES: {
@@ -39,6 +39,18 @@ export const NOTION_CONFIG = {
     RETRY_DELAY: 1000,
     // Cache duration (ms) - 5 minutes
     CACHE_DURATION: 5 * 60 * 1000,
+    // Least time between date_updated bumps from node note saves (ms)
+    PATH_TOUCH_INTERVAL: 60 * 1000,
+  },
+  
+  // Request pacing (Notion allows an average of three requests per second)
+  RATE_LIMIT: {
+    // Requests started per window
+    REQUESTS_PER_WINDOW: 3,
+    // Window length (ms)
+    WINDOW: 1000,
+    // Retries for a request answered with 429, on top of MAX_RETRIES
+    MAX_RETRIES: 5,
   },
   
   // Feature flags
@@ -51,9 +63,3 @@ export const NOTION_CONFIG = {
     SYNC_STATUS_INDICATOR: true,
   },
 } as const;
-
-// Type for data source selection
-export type DataSource = 'notion';
-
-// Default data source - can be changed to switch between backends
-export const DATA_SOURCE: DataSource = 'notion';
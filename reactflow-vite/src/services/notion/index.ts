@@ -3,8 +3,7 @@
 // Re-export all Notion service components
 
 // Configuration
-export { NOTION_CONFIG, DATA_SOURCE } from './config';
-export type { DataSource } from './config';
+export { NOTION_CONFIG } from './config';
 
 // Types
 export type {
@@ -18,6 +17,7 @@ export type {
   // Application data types
   NodeRecord,
   PathRecord,
+  PathLayout,
   NodePathRecord,
   CategoryRecord,
   ExternalLink,
@@ -84,12 +84,15 @@ export {
   parseYouTubeUrl,
   parseVimeoUrl,
   parseMediaUrl,
+  parseVideoUrl,
   parseMarkdownLikeText,
 } from './richTextParser';
 
 // Service (high-level operations)
 export {
   fetchNodes,
+  saveNode,
+  deleteNode,
   fetchPaths,
   fetchNodePaths,
   fetchCategories,
@@ -104,13 +107,21 @@ export {
   updatePathCategory,
   updatePathPriority,
   updatePathFav,
+  updatePathTemplate,
+  updatePathShareToken,
+  updatePathLayout,
   updatePathStatus,
   renamePath,
   savePathNotes,
   deletePath,
   deleteNodePathsForPath,
+  deleteNodePath,
+  restorePaths,
+  restoreNodePaths,
+  restoreCategories,
   saveNodePath,
   batchSaveNodePaths,
+  migrateNotesToPageBodies,
   refreshAllData,
   checkConnection,
   clearCache,
@@ -121,6 +132,9 @@ export {
   fetchPageContent,
 } from './service';
 
+// Backend adapter (DataBackend implementation)
+export { notionBackend } from './backend';
+
 // Create a default service instance for easy importing
 import * as notionService from './service';
 export { notionService };
@@ -3,7 +3,7 @@
 // Parse Notion rich text with formatting into React components
 
 import React from 'react';
-import type { NotionRichText, ParsedRichText, RichTextSegment } from './types';
+import type { NotionRichText, ParsedRichText, RichTextSegment, VideoData } from './types';
 
 // ============================================
 // Rich Text Parsing
@@ -269,6 +269,26 @@ export function parseMediaUrl(url: string): ParsedMedia {
   };
 }
 
+/**
+ * Video property value for a YouTube, Vimeo or video file URL, or null if it is none of those
+ */
+export function parseVideoUrl(url: string): VideoData | null {
+  const trimmed = url.trim();
+  if (!/^https?:\/\//i.test(trimmed)) return null;
+
+  const media = parseMediaUrl(trimmed);
+  if (media.provider === 'youtube' || media.provider === 'vimeo') {
+    return { type: media.provider, url: media.url };
+  }
+
+  // Anything else must point at a file the browser can play
+  const path = trimmed.split(/[?#]/)[0].toLowerCase();
+  if (['.mp4', '.webm', '.ogg', '.ogv', '.mov'].some(ext => path.endsWith(ext))) {
+    return { type: 'html5', url: trimmed };
+  }
+  return null;
+}
+
 // ============================================
 // Markdown-like Text Parsing
 // ============================================
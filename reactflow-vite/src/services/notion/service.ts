@@ -3,26 +3,48 @@
 // High-level service for all Notion data operations
 
 import { NOTION_CONFIG } from './config';
+import { getCurrentUserId } from '../auth';
 import {
   queryAllDatabasePages,
   createPage,
   updatePage,
   archivePage,
+  unarchivePage,
   NotionAPIError,
   uploadFile,
   getAllPageBlocks,
+  appendBlockChildren,
+  deleteBlock,
   searchPages,
+  getPage,
 } from './client';
 import {
   notionPagesToNodes,
   notionPagesToPaths,
   notionPagesToNodePaths,
   notionPagesToCategories,
+  notionPageToPath,
+  notionPageToNodePath,
+  notionPageToCategory,
+  nodeToNotionProperties,
   pathToNotionProperties,
   nodePathToNotionProperties,
   categoryToNotionProperties,
   createRichTextProperty,
+  hasNotesInBody,
+  notesInBodyProperties,
 } from './transformers';
+import {
+  htmlToBlocks,
+  htmlToBodyItems,
+  blocksToHtml,
+  loadBlockTree,
+  planBodyEdit,
+  endsWithBlocks,
+  fileLinksExpireAt,
+} from './blocks';
+import { STORES, deleteOne, getAll, isLocalDbAvailable, putOne } from '../local/db';
+import type { NotesMigrationResult } from '../backend/types';
 import type {
   NodeRecord,
   PathRecord,
@@ -30,6 +52,7 @@ import type {
   CategoryRecord,
   NotionPage,
   AudioNoteData,
+  PathLayout,
 } from './types';
 
 // ============================================
@@ -69,6 +92,213 @@ function clearCache(): void {
   cache.categories = null;
 }
 
+// Reading the Paths and NodePath databases fills pathPageIds and nodePathPageIds
+// with every record, so saves of records that already exist skip the lookup
+let pageIndexLoad: Promise<void> | null = null;
+
+function loadPageIndex(): Promise<void> {
+  if (!pageIndexLoad) {
+    pageIndexLoad = Promise.all([fetchPaths(), fetchNodePaths()]).then(() => undefined);
+    pageIndexLoad.catch(() => {
+      pageIndexLoad = null;
+    });
+  }
+  return pageIndexLoad;
+}
+
+/**
+ * Page id for an app id from the preloaded index. Undefined when the index
+ * doesn't have it: the page may have been created elsewhere since the index
+ * loaded, so callers look it up before treating it as new.
+ */
+async function indexedPageId(index: Map<string, string>, appId: string): Promise<string | undefined> {
+  const cached = index.get(appId);
+  if (cached) return cached;
+  try {
+    await loadPageIndex();
+  } catch (error) {
+    console.warn('[Notion] Could not load page index, looking the page up instead:', error);
+    return undefined;
+  }
+  return index.get(appId);
+}
+
+// ============================================
+// User Scope
+// ============================================
+// Paths, node-path notes and folders belong to the user who created them.
+// Pages without an owner predate accounts and stay visible to everyone.
+// The /api/notion proxy enforces the same rule server-side.
+
+/**
+ * Query filter for records visible to the current user (none when signed out / in dev without a user)
+ */
+async function userScopeFilter(): Promise<Record<string, unknown> | undefined> {
+  const userId = await getCurrentUserId();
+  if (!userId) return undefined;
+  return {
+    or: [
+      { property: 'owner', rich_text: { equals: userId } },
+      { property: 'owner', rich_text: { is_empty: true } },
+    ],
+  };
+}
+
+/**
+ * Properties for a new page, stamped with the current user as owner
+ */
+async function withOwner(properties: Record<string, unknown>): Promise<Record<string, unknown>> {
+  const userId = await getCurrentUserId();
+  return userId ? { ...properties, owner: createRichTextProperty(userId) } : properties;
+}
+
+// ============================================
+// Page Body Notes
+// ============================================
+// Path notes and node-path notes are stored as blocks in the page body.
+// Pages marked `notesInBody` are read from there; older pages keep their notes
+// in the `notes` / `content` property until they are next saved or migrated.
+
+interface BodyNotesEntry {
+  id: string; // page id
+  lastEdited: string;
+  readAt: number;
+  html: string;
+  expiresAt: number | null; // when its links to Notion-hosted files expire
+}
+
+// Notion reports edit times to the minute, so a body read within a minute of
+// its last edit may have missed a later edit in that minute
+const EDIT_TIME_PRECISION = 60 * 1000;
+
+// Notes whose file links expire sooner than this are read again
+const FILE_LINK_MARGIN = 10 * 60 * 1000;
+
+// Note HTML read from each page body, reused while the page is unchanged. Kept
+// in IndexedDB too, so after a reload only pages edited since are read again.
+let bodyNotes: Promise<Map<string, BodyNotesEntry>> | null = null;
+
+// Pages known to keep their notes in the body (a page never moves back)
+const notesInBodyPages = new Set<string>();
+
+// Body writes in progress, so writes to one page don't interleave
+const bodyWrites = new Map<string, Promise<void>>();
+
+function loadBodyNotes(): Promise<Map<string, BodyNotesEntry>> {
+  if (!bodyNotes) {
+    const stored = isLocalDbAvailable() ? getAll<BodyNotesEntry>(STORES.NOTE_BODIES) : Promise.resolve([]);
+    bodyNotes = stored
+      .catch(() => [] as BodyNotesEntry[])
+      .then(entries => new Map(entries.map(entry => [entry.id, entry])));
+  }
+  return bodyNotes;
+}
+
+function isFresh(entry: BodyNotesEntry, page: NotionPage): boolean {
+  return entry.lastEdited === page.last_edited_time
+    && entry.readAt - Date.parse(entry.lastEdited) >= EDIT_TIME_PRECISION
+    && (entry.expiresAt === null || entry.expiresAt - FILE_LINK_MARGIN > Date.now());
+}
+
+async function readBodyNotes(page: NotionPage): Promise<string> {
+  notesInBodyPages.add(page.id);
+  const entries = await loadBodyNotes();
+  const cached = entries.get(page.id);
+  if (cached && isFresh(cached, page)) return cached.html;
+
+  const blocks = await loadBlockTree(getAllPageBlocks, page.id);
+  const entry: BodyNotesEntry = {
+    id: page.id,
+    lastEdited: page.last_edited_time,
+    readAt: Date.now(),
+    html: blocksToHtml(blocks),
+    expiresAt: fileLinksExpireAt(blocks),
+  };
+  entries.set(page.id, entry);
+  if (isLocalDbAvailable()) putOne(STORES.NOTE_BODIES, entry).catch(() => undefined);
+  return entry.html;
+}
+
+async function forgetBodyNotes(pageId: string): Promise<void> {
+  (await loadBodyNotes()).delete(pageId);
+  if (isLocalDbAvailable()) await deleteOne(STORES.NOTE_BODIES, pageId).catch(() => undefined);
+}
+
+/**
+ * Convert pages to records, reading notes from the body of pages that keep them there
+ */
+function withBodyNotes<T>(
+  pages: NotionPage[],
+  toRecord: (page: NotionPage) => T,
+  setNotes: (record: T, html: string) => T
+): Promise<T[]> {
+  return Promise.all(pages.map(async (page) => {
+    const record = toRecord(page);
+    return hasNotesInBody(page) ? setNotes(record, await readBodyNotes(page)) : record;
+  }));
+}
+
+/**
+ * Whether a page keeps its notes in the body. Another device may have moved
+ * them there, so pages not known to are checked; pages from the page index
+ * carry no properties and are fetched.
+ */
+async function keepsNotesInBody(page: NotionPage): Promise<boolean> {
+  if (notesInBodyPages.has(page.id)) return true;
+  if (!hasNotesInBody(page.properties ? page : await getPage(page.id))) return false;
+  notesInBodyPages.add(page.id);
+  return true;
+}
+
+/**
+ * Write notes to a page body. Only blocks the edit changed are replaced, and
+ * blocks the editor can't reproduce are never removed; on a page whose notes
+ * are still in a property, the body is left as it is and the notes are added
+ * after it (unless an earlier, interrupted save already did).
+ */
+function writeBodyNotes(page: NotionPage, html: string): Promise<void> {
+  const pageId = page.id;
+  const write = (bodyWrites.get(pageId) ?? Promise.resolve())
+    .catch(() => undefined)
+    .then(async () => {
+      if (await keepsNotesInBody(page)) {
+        const edit = planBodyEdit(await loadBlockTree(getAllPageBlocks, pageId), htmlToBodyItems(html));
+        // Add before removing, so a save that fails halfway duplicates text rather than losing it
+        for (const { after, blocks } of edit.insert) {
+          await appendBlockChildren(pageId, blocks, after ?? undefined);
+        }
+        await Promise.all(edit.remove.map(blockId => deleteBlock(blockId)));
+      } else {
+        const blocks = htmlToBlocks(html);
+        if (!endsWithBlocks(await loadBlockTree(getAllPageBlocks, pageId), blocks)) {
+          await appendBlockChildren(pageId, blocks);
+        }
+      }
+      await forgetBodyNotes(pageId);
+    });
+  bodyWrites.set(pageId, write);
+  return write.finally(() => {
+    if (bodyWrites.get(pageId) === write) bodyWrites.delete(pageId);
+  });
+}
+
+/**
+ * Create a database page with notes as its body
+ */
+async function createPageWithNotes(
+  databaseId: string,
+  properties: Record<string, unknown>,
+  html: string | undefined
+): Promise<NotionPage> {
+  const blocks = html ? htmlToBlocks(html) : [];
+  const page = await createPage(databaseId, await withOwner(properties), blocks.slice(0, 100));
+  if (blocks.length > 100) {
+    await appendBlockChildren(page.id, blocks.slice(100));
+  }
+  if (html !== undefined) notesInBodyPages.add(page.id);
+  return page;
+}
+
 // ============================================
 // Category Operations
 // ============================================
@@ -84,7 +314,7 @@ export async function fetchCategories(forceRefresh = false): Promise<CategoryRec
   
   try {
     console.log('Fetching categories from Notion database:', NOTION_CONFIG.DATABASES.CATEGORIES);
-    const pages = await queryAllDatabasePages(NOTION_CONFIG.DATABASES.CATEGORIES);
+    const pages = await queryAllDatabasePages(NOTION_CONFIG.DATABASES.CATEGORIES, await userScopeFilter());
     console.log('Fetched pages:', pages.length, pages);
     const categories = notionPagesToCategories(pages);
     console.log('Parsed categories:', categories);
@@ -104,15 +334,20 @@ export async function fetchCategories(forceRefresh = false): Promise<CategoryRec
 
 /**
  * Create a new category in Notion
+ * Pass presetId to keep an id that was already generated (e.g. while offline)
  */
-export async function createCategory(name: string, parentId?: string | null): Promise<CategoryRecord> {
-  const id = `cat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+export async function createCategory(
+  name: string,
+  parentId?: string | null,
+  presetId?: string
+): Promise<CategoryRecord> {
+  const id = presetId || `cat-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
 
   try {
     const properties = categoryToNotionProperties({ id, name, parentId });
     console.log('Creating category with properties:', properties);
     console.log('Database ID:', NOTION_CONFIG.DATABASES.CATEGORIES);
-    const resultPage = await createPage(NOTION_CONFIG.DATABASES.CATEGORIES, properties);
+    const resultPage = await createPage(NOTION_CONFIG.DATABASES.CATEGORIES, await withOwner(properties));
     console.log('Created category page:', resultPage);
 
     const newCategory: CategoryRecord = {
@@ -206,6 +441,67 @@ export async function fetchNodes(forceRefresh = false): Promise<NodeRecord[]> {
   }
 }
 
+/**
+ * Save a node (create or update), matched on its app ID
+ */
+export async function saveNode(node: NodeRecord): Promise<NodeRecord> {
+  const properties = nodeToNotionProperties(node);
+
+  try {
+    const pages = await queryAllDatabasePages(
+      NOTION_CONFIG.DATABASES.NODES,
+      {
+        property: 'id',
+        title: { equals: node.id },
+      }
+    );
+
+    const resultPage = pages.length > 0
+      ? await updatePage(pages[0].id, properties)
+      : await createPage(NOTION_CONFIG.DATABASES.NODES, properties);
+
+    // Invalidate cache
+    cache.nodes = null;
+
+    return {
+      ...node,
+      notionPageId: resultPage.id,
+      lastModified: resultPage.last_edited_time,
+    };
+  } catch (error) {
+    console.error('Error saving node to Notion:', error);
+    throw error;
+  }
+}
+
+/**
+ * Delete a node (moves to Notion trash)
+ */
+export async function deleteNode(nodeId: string): Promise<void> {
+  try {
+    const pages = await queryAllDatabasePages(
+      NOTION_CONFIG.DATABASES.NODES,
+      {
+        property: 'id',
+        title: { equals: nodeId },
+      }
+    );
+
+    if (pages.length === 0) {
+      console.warn('Node not found for deletion:', nodeId);
+      return;
+    }
+
+    await archivePage(pages[0].id);
+
+    // Invalidate cache
+    cache.nodes = null;
+  } catch (error) {
+    console.error('Error deleting node in Notion:', error);
+    throw error;
+  }
+}
+
 // ============================================
 // Path Operations
 // ============================================
@@ -219,8 +515,8 @@ export async function fetchPaths(forceRefresh = false): Promise<PathRecord[]> {
   }
   
   try {
-    const pages = await queryAllDatabasePages(NOTION_CONFIG.DATABASES.PATHS);
-    const paths = notionPagesToPaths(pages);
+    const pages = await queryAllDatabasePages(NOTION_CONFIG.DATABASES.PATHS, await userScopeFilter());
+    const paths = await withBodyNotes(pages, notionPageToPath, (path, html) => ({ ...path, notes: html || undefined }));
     
     // Update page ID cache
     pages.forEach((page) => {
@@ -246,14 +542,11 @@ export async function fetchPaths(forceRefresh = false): Promise<PathRecord[]> {
  * Find existing path by ID
  */
 async function findPathByAppId(appId: string): Promise<NotionPage | null> {
-  // Check cache first
-  const notionPageId = cache.pathPageIds.get(appId);
-  if (notionPageId) {
-    // We have the page ID, can use it directly
-    return { id: notionPageId } as NotionPage;
-  }
+  // Check the page index first
+  const notionPageId = await indexedPageId(cache.pathPageIds, appId);
+  if (notionPageId) return { id: notionPageId } as NotionPage;
   
-  // Query for the path
+  // Not in the index: query for the path
   try {
     const pages = await queryAllDatabasePages(
       NOTION_CONFIG.DATABASES.PATHS,
@@ -291,11 +584,15 @@ export async function savePath(path: PathRecord): Promise<PathRecord> {
     let resultPage: NotionPage;
     
     if (existingPage) {
-      // Update existing
+      // Update existing; the body first, so the page isn't marked before its notes are there
+      if (pathWithDate.notes !== undefined) {
+        await writeBodyNotes(existingPage, pathWithDate.notes);
+      }
       resultPage = await updatePage(existingPage.id, properties);
+      if (pathWithDate.notes !== undefined) notesInBodyPages.add(existingPage.id);
     } else {
       // Create new
-      resultPage = await createPage(NOTION_CONFIG.DATABASES.PATHS, properties);
+      resultPage = await createPageWithNotes(NOTION_CONFIG.DATABASES.PATHS, properties, pathWithDate.notes);
       cache.pathPageIds.set(path.id, resultPage.id);
     }
     
@@ -436,6 +733,72 @@ export async function updatePathFav(
   cache.paths = null;
 }
 
+/**
+ * Mark a path as a template (or not)
+ */
+export async function updatePathTemplate(
+  pathId: string,
+  template: boolean
+): Promise<void> {
+  const existingPage = await findPathByAppId(pathId);
+  
+  if (!existingPage) {
+    console.error('Path not found for template update:', pathId);
+    return;
+  }
+  
+  await updatePage(existingPage.id, {
+    template: createRichTextProperty(template ? 'true' : 'false'),
+  });
+  
+  // Invalidate cache
+  cache.paths = null;
+}
+
+/**
+ * Turn the read-only share link for a path on (with a new token) or off (null)
+ */
+export async function updatePathShareToken(
+  pathId: string,
+  shareToken: string | null
+): Promise<void> {
+  const existingPage = await findPathByAppId(pathId);
+  
+  if (!existingPage) {
+    console.error('Path not found for share update:', pathId);
+    return;
+  }
+  
+  await updatePage(existingPage.id, {
+    shareToken: createRichTextProperty(shareToken || ''),
+  });
+  
+  // Invalidate cache
+  cache.paths = null;
+}
+
+/**
+ * Save the layout a path is shown with, or clear it (null) to go back to auto layout
+ */
+export async function updatePathLayout(
+  pathId: string,
+  layout: PathLayout | null
+): Promise<void> {
+  const existingPage = await findPathByAppId(pathId);
+  
+  if (!existingPage) {
+    console.error('Path not found for layout update:', pathId);
+    return;
+  }
+  
+  await updatePage(existingPage.id, {
+    layout: createRichTextProperty(layout ? JSON.stringify(layout) : ''),
+  });
+  
+  // Invalidate cache
+  cache.paths = null;
+}
+
 /**
  * Rename a path
  */
@@ -472,10 +835,12 @@ export async function savePathNotes(
     return;
   }
   
+  await writeBodyNotes(existingPage, notes || '');
   await updatePage(existingPage.id, {
-    notes: createRichTextProperty(notes || ''),
+    ...notesInBodyProperties('notes'),
     date_updated: { date: { start: new Date().toISOString() } },
   });
+  notesInBodyPages.add(existingPage.id);
   
   // Invalidate cache
   cache.paths = null;
@@ -514,10 +879,11 @@ export async function deleteNodePathsForPath(pathId: string): Promise<void> {
       }
     );
     
-    // Archive each one
-    for (const page of pages) {
+    // Archive them all; the client paces the requests
+    await Promise.all(pages.map(async page => {
       await archivePage(page.id);
-    }
+      cache.nodePathPageIds.delete(notionPageToNodePath(page).id);
+    }));
     
     // Invalidate cache
     cache.nodePaths = null;
@@ -526,6 +892,83 @@ export async function deleteNodePathsForPath(pathId: string): Promise<void> {
   }
 }
 
+/**
+ * Delete a single node-path record (moves to Notion trash)
+ */
+export async function deleteNodePath(nodePathId: string): Promise<void> {
+  const existingPage = await findNodePathById(nodePathId);
+
+  if (!existingPage) {
+    console.warn('Node-path not found for deletion:', nodePathId);
+    return;
+  }
+
+  await archivePage(existingPage.id);
+
+  cache.nodePathPageIds.delete(nodePathId);
+  cache.nodePaths = null;
+}
+
+// ============================================
+// Restore Operations
+// ============================================
+
+/**
+ * Take a page out of the Notion trash.
+ * Returns false when the page is gone for good (emptied from the trash).
+ */
+async function restorePage(notionPageId: string | undefined): Promise<boolean> {
+  if (!notionPageId) return false;
+  try {
+    await unarchivePage(notionPageId);
+    return true;
+  } catch (error) {
+    if (error instanceof NotionAPIError && error.status === 404) return false;
+    throw error;
+  }
+}
+
+/**
+ * Restore deleted paths, recreating any whose page no longer exists
+ */
+export async function restorePaths(paths: PathRecord[]): Promise<void> {
+  for (const path of paths) {
+    if (await restorePage(path.notionPageId)) {
+      cache.pathPageIds.set(path.id, path.notionPageId!);
+    } else {
+      await savePath({ ...path, notionPageId: undefined });
+    }
+  }
+  cache.paths = null;
+}
+
+/**
+ * Restore deleted node-path notes, recreating any whose page no longer exists
+ */
+export async function restoreNodePaths(nodePaths: NodePathRecord[]): Promise<void> {
+  for (const nodePath of nodePaths) {
+    if (await restorePage(nodePath.notionPageId)) {
+      cache.nodePathPageIds.set(nodePath.id, nodePath.notionPageId!);
+    } else {
+      await saveNodePath({ ...nodePath, notionPageId: undefined });
+    }
+  }
+  cache.nodePaths = null;
+}
+
+/**
+ * Restore deleted categories, recreating any whose page no longer exists.
+ * Recreated folders keep their app id, so paths filed in them stay linked.
+ */
+export async function restoreCategories(categories: CategoryRecord[]): Promise<void> {
+  for (const category of categories) {
+    if (!(await restorePage(category.notionPageId))) {
+      await createCategory(category.name, category.parentId, category.id);
+    }
+  }
+  cache.categories = null;
+}
+
 // ============================================
 // Node-Path (User Notes) Operations
 // ============================================
@@ -539,8 +982,8 @@ export async function fetchNodePaths(forceRefresh = false): Promise<NodePathReco
   }
   
   try {
-    const pages = await queryAllDatabasePages(NOTION_CONFIG.DATABASES.NODE_PATH);
-    const nodePaths = notionPagesToNodePaths(pages);
+    const pages = await queryAllDatabasePages(NOTION_CONFIG.DATABASES.NODE_PATH, await userScopeFilter());
+    const nodePaths = await withBodyNotes(pages, notionPageToNodePath, (np, html) => ({ ...np, content: html }));
     
     // Update page ID cache
     pages.forEach((page) => {
@@ -621,13 +1064,11 @@ export function buildPathAudioMap(paths: PathRecord[]): Record<string, string[]>
  * Find existing node-path by ID
  */
 async function findNodePathById(id: string): Promise<NotionPage | null> {
-  // Check cache first
-  const notionPageId = cache.nodePathPageIds.get(id);
-  if (notionPageId) {
-    return { id: notionPageId } as NotionPage;
-  }
+  // Check the page index first
+  const notionPageId = await indexedPageId(cache.nodePathPageIds, id);
+  if (notionPageId) return { id: notionPageId } as NotionPage;
   
-  // Query for the node-path
+  // Not in the index: query for the node-path
   try {
     const pages = await queryAllDatabasePages(
       NOTION_CONFIG.DATABASES.NODE_PATH,
@@ -660,16 +1101,20 @@ export async function saveNodePath(nodePath: NodePathRecord): Promise<NodePathRe
     let resultPage: NotionPage;
     
     if (existingPage) {
+      if (nodePath.content !== undefined) {
+        await writeBodyNotes(existingPage, nodePath.content);
+      }
       resultPage = await updatePage(existingPage.id, properties);
+      if (nodePath.content !== undefined) notesInBodyPages.add(existingPage.id);
     } else {
-      resultPage = await createPage(NOTION_CONFIG.DATABASES.NODE_PATH, properties);
+      resultPage = await createPageWithNotes(NOTION_CONFIG.DATABASES.NODE_PATH, properties, nodePath.content);
       cache.nodePathPageIds.set(nodePath.id, resultPage.id);
     }
     
     // Invalidate cache
     cache.nodePaths = null;
 
-    // Touch parent path's date_updated for latest sorting
+    // Touch parent path's date_updated for latest sorting (at most once a minute)
     await updatePathDateUpdated(nodePath.pathId);
     
     return {
@@ -683,15 +1128,27 @@ export async function saveNodePath(nodePath: NodePathRecord): Promise<NodePathRe
   }
 }
 
+// When each path's date_updated was last bumped by a node note save
+const pathTouchedAt = new Map<string, number>();
+
 /**
- * Update a path's date_updated field
+ * Update a path's date_updated field, unless a note save just did
  */
 async function updatePathDateUpdated(pathId: string): Promise<void> {
-  const existingPage = await findPathByAppId(pathId);
-  if (!existingPage) return;
-  await updatePage(existingPage.id, {
-    date_updated: { date: { start: new Date().toISOString() } },
-  });
+  const touchedAt = pathTouchedAt.get(pathId) ?? 0;
+  if (Date.now() - touchedAt < NOTION_CONFIG.SYNC.PATH_TOUCH_INTERVAL) return;
+  pathTouchedAt.set(pathId, Date.now());
+  try {
+    const existingPage = await findPathByAppId(pathId);
+    if (!existingPage) return;
+    await updatePage(existingPage.id, {
+      date_updated: { date: { start: new Date().toISOString() } },
+    });
+  } catch (error) {
+    // Let the next save try again
+    pathTouchedAt.delete(pathId);
+    throw error;
+  }
   cache.paths = null;
 }
 
@@ -711,6 +1168,58 @@ export async function batchSaveNodePaths(nodePaths: NodePathRecord[]): Promise<v
   cache.nodePaths = null;
 }
 
+// ============================================
+// Notes Migration
+// ============================================
+
+/**
+ * Move notes still held in the `notes` / `content` properties into page bodies.
+ * Returns how many path and node-path pages were moved, and the pages that
+ * failed; running it again skips notes a failed run already added to a body.
+ */
+export async function migrateNotesToPageBodies(
+  onProgress?: (done: number, total: number) => void
+): Promise<NotesMigrationResult> {
+  const scope = await userScopeFilter();
+  const [pathPages, nodePathPages] = await Promise.all([
+    queryAllDatabasePages(NOTION_CONFIG.DATABASES.PATHS, scope),
+    queryAllDatabasePages(NOTION_CONFIG.DATABASES.NODE_PATH, scope),
+  ]);
+
+  const pending = [
+    ...pathPages
+      .filter(page => !hasNotesInBody(page))
+      .map(page => ({ page, property: 'notes' as const, html: notionPageToPath(page).notes || '' })),
+    ...nodePathPages
+      .filter(page => !hasNotesInBody(page))
+      .map(page => ({ page, property: 'content' as const, html: notionPageToNodePath(page).content })),
+  ].filter(item => item.html.trim() !== '');
+
+  const moved: typeof pending = [];
+  const failed: NotesMigrationResult['failed'] = [];
+  let done = 0;
+  onProgress?.(done, pending.length);
+  for (const item of pending) {
+    try {
+      await writeBodyNotes(item.page, item.html);
+      await updatePage(item.page.id, notesInBodyProperties(item.property));
+      notesInBodyPages.add(item.page.id);
+      moved.push(item);
+    } catch (error) {
+      console.error('Error moving notes into page body:', item.page.id, error);
+      failed.push({ pageId: item.page.id, error: error instanceof Error ? error.message : String(error) });
+    }
+    onProgress?.(++done, pending.length);
+  }
+
+  clearCache();
+  return {
+    paths: moved.filter(item => item.property === 'notes').length,
+    nodePaths: moved.filter(item => item.property === 'content').length,
+    failed,
+  };
+}
+
 // ============================================
 // Utility Functions
 // ============================================
@@ -880,6 +1389,56 @@ export async function savePathAudioNote(
   cache.paths = null;
 }
 
+// ============================================
+// Single Record Lookups
+// ============================================
+
+/**
+ * Read the current state of one page, bypassing the cache.
+ * Returns null when the page no longer exists or was archived.
+ */
+async function fetchLivePage(notionPageId: string): Promise<NotionPage | null> {
+  try {
+    const page = await getPage(notionPageId);
+    return page.archived ? null : page;
+  } catch (error) {
+    if (error instanceof NotionAPIError && error.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Fetch the latest version of a single path
+ */
+export async function fetchPathRecord(pathId: string): Promise<PathRecord | null> {
+  const existingPage = await findPathByAppId(pathId);
+  if (!existingPage) return null;
+  const page = await fetchLivePage(existingPage.id);
+  if (!page) return null;
+  const [path] = await withBodyNotes([page], notionPageToPath, (record, html) => ({ ...record, notes: html || undefined }));
+  return path;
+}
+
+/**
+ * Fetch the latest version of a single node-path
+ */
+export async function fetchNodePathRecord(id: string): Promise<NodePathRecord | null> {
+  const existingPage = await findNodePathById(id);
+  if (!existingPage) return null;
+  const page = await fetchLivePage(existingPage.id);
+  if (!page) return null;
+  const [nodePath] = await withBodyNotes([page], notionPageToNodePath, (record, html) => ({ ...record, content: html }));
+  return nodePath;
+}
+
+/**
+ * Fetch the latest version of a single category by its page ID
+ */
+export async function fetchCategoryRecord(notionPageId: string): Promise<CategoryRecord | null> {
+  const page = await fetchLivePage(notionPageId);
+  return page ? notionPageToCategory(page) : null;
+}
+
 // Export everything needed
 export {
   clearCache,
@@ -14,6 +14,7 @@ import type {
   ImageData,
   VideoData,
   AudioNoteData,
+  PathLayout,
 } from './types';
 
 // ============================================
@@ -203,6 +204,25 @@ function parseVideo(value: string): VideoData | undefined {
   return parsed;
 }
 
+/**
+ * Parse a path's saved layout from JSON string
+ */
+function parsePathLayout(value: string): PathLayout | undefined {
+  if (!value) return undefined;
+  const parsed = safeParseJSON<PathLayout | null>(value, null);
+  if (!parsed || typeof parsed !== 'object') return undefined;
+  const layout: PathLayout = {};
+  if (typeof parsed.type === 'string') layout.type = parsed.type;
+  if (parsed.positions && typeof parsed.positions === 'object') {
+    layout.positions = Object.fromEntries(
+      Object.entries(parsed.positions).filter(([, pos]) =>
+        pos && typeof pos.x === 'number' && typeof pos.y === 'number'
+      )
+    );
+  }
+  return layout.type || layout.positions ? layout : undefined;
+}
+
 /**
  * Parse parent IDs from comma-separated string or JSON array
  */
@@ -300,6 +320,10 @@ export function notionPageToPath(page: NotionPage): PathRecord {
     lastModified: page.last_edited_time,
     priority: extractNumber(props['priority']),
     fav: extractRichText(props['fav']) === 'true' ? true : undefined,
+    owner: extractRichText(props['owner']) || undefined,
+    shareToken: extractRichText(props['shareToken']) || undefined,
+    layout: parsePathLayout(extractRichText(props['layout'])),
+    template: extractRichText(props['template']) === 'true' ? true : undefined,
   };
 }
 
@@ -329,6 +353,7 @@ export function notionPageToNodePath(page: NotionPage): NodePathRecord {
     nodeId,
     content: extractRichText(props['content']) || '',
     audioNotes: audioNotes.length > 0 ? audioNotes : undefined,
+    owner: extractRichText(props['owner']) || undefined,
     lastModified: page.last_edited_time,
   };
 }
@@ -437,16 +462,38 @@ export function nodeToNotionProperties(node: Partial<NodeRecord>): Record<string
   if (node.images !== undefined) {
     props['images'] = createRichTextProperty(JSON.stringify(node.images));
   }
-  if (node.video !== undefined) {
-    props['video'] = createRichTextProperty(JSON.stringify(node.video));
+  // A video or grouping key set to undefined clears the property
+  if ('video' in node) {
+    props['video'] = createRichTextProperty(node.video ? JSON.stringify(node.video) : '');
   }
   if (node.hidden_by_default !== undefined) {
     props['hidden_by_default'] = createCheckboxProperty(node.hidden_by_default);
   }
+  if ('grouping' in node) {
+    props['grouping'] = createRichTextProperty(node.grouping || '');
+  }
   
   return props;
 }
 
+/**
+ * Whether a path or node-path page keeps its notes in its body
+ * (rather than in the older `notes` / `content` rich text property)
+ */
+export function hasNotesInBody(page: NotionPage): boolean {
+  return extractRichText(page.properties['notesInBody']) === 'true';
+}
+
+/**
+ * Mark a page's notes as moved to its body and clear the old property
+ */
+export function notesInBodyProperties(legacyProperty: 'notes' | 'content'): Record<string, unknown> {
+  return {
+    [legacyProperty]: createRichTextProperty(''),
+    notesInBody: createRichTextProperty('true'),
+  };
+}
+
 /**
  * Transform PathRecord to Notion properties for create/update
  */
@@ -476,7 +523,8 @@ export function pathToNotionProperties(path: Partial<PathRecord>): Record<string
     props['subsubcategory'] = createRichTextProperty(path.subsubcategory || '');
   }
   if (path.notes !== undefined) {
-    props['notes'] = createRichTextProperty(path.notes || '');
+    // The notes themselves are written to the page body
+    Object.assign(props, notesInBodyProperties('notes'));
   }
   if (path.audioNotes && path.audioNotes.length > 0) {
     props['audioNote'] = {
@@ -501,6 +549,18 @@ export function pathToNotionProperties(path: Partial<PathRecord>): Record<string
   if (path.fav !== undefined) {
     props['fav'] = createRichTextProperty(path.fav ? 'true' : 'false');
   }
+  if (path.owner !== undefined) {
+    props['owner'] = createRichTextProperty(path.owner);
+  }
+  if (path.shareToken !== undefined) {
+    props['shareToken'] = createRichTextProperty(path.shareToken);
+  }
+  if (path.layout !== undefined) {
+    props['layout'] = createRichTextProperty(JSON.stringify(path.layout));
+  }
+  if (path.template !== undefined) {
+    props['template'] = createRichTextProperty(path.template ? 'true' : 'false');
+  }
   
   return props;
 }
@@ -522,7 +582,8 @@ export function nodePathToNotionProperties(nodePath: Partial<NodePathRecord>): R
     props['nodeId'] = createRichTextProperty(nodePath.nodeId);
   }
   if (nodePath.content !== undefined) {
-    props['content'] = createRichTextProperty(nodePath.content);
+    // The note itself is written to the page body
+    Object.assign(props, notesInBodyProperties('content'));
   }
   if (nodePath.audioNotes && nodePath.audioNotes.length > 0) {
     const filesArray: unknown[] = [];
@@ -546,6 +607,9 @@ export function nodePathToNotionProperties(nodePath: Partial<NodePathRecord>): R
       props['audioNote'] = { files: filesArray };
     }
   }
+  if (nodePath.owner !== undefined) {
+    props['owner'] = createRichTextProperty(nodePath.owner);
+  }
   
   return props;
 }
@@ -583,6 +647,8 @@ export function notionPageToCategory(page: NotionPage): CategoryRecord {
     notionPageId: page.id,
     name,
     parentId,
+    owner: extractRichText(props['owner']) || undefined,
+    lastModified: page.last_edited_time,
   };
 }
 
@@ -612,6 +678,10 @@ export function categoryToNotionProperties(category: Partial<CategoryRecord>): R
   if (category.parentId !== undefined) {
     props['parent'] = createRichTextProperty(category.parentId || '');
   }
+  // 'owner' is a rich text property with the user the folder belongs to
+  if (category.owner !== undefined) {
+    props['owner'] = createRichTextProperty(category.owner);
+  }
   return props;
 }
 
@@ -159,6 +159,16 @@ export interface PathRecord {
   lastModified?: string;
   priority?: number; // 0-100, higher = more important (red), lower = less important (blue)
   fav?: boolean; // Favourite flag
+  owner?: string; // User the path belongs to (empty for paths shared from before accounts)
+  shareToken?: string; // Secret for the read-only share link; unset when the path isn't shared
+  layout?: PathLayout; // Arrangement restored when the path is shown; unset to use the current layout
+  template?: boolean; // Offered under "New from template"
+}
+
+// Layout a path remembers for its own view
+export interface PathLayout {
+  type?: string; // Layout algorithm the path was arranged with
+  positions?: Record<string, { x: number; y: number }>; // Pinned node positions by node id
 }
 
 // Audio note data
@@ -168,6 +178,7 @@ export interface AudioNoteData {
   filename?: string;
   duration?: number; // Duration in seconds
   createdAt?: string;
+  localAudioId?: string; // Key of a recording held in the local store until it is uploaded
   // Raw Notion file object - preserved for re-saving existing files
   rawNotionFile?: {
     type?: string;
@@ -184,6 +195,8 @@ export interface CategoryRecord {
   notionPageId?: string;
   name: string;
   parentId?: string | null; // Notion page ID of parent category, or null for root
+  owner?: string; // User the folder belongs to
+  lastModified?: string;
 }
 
 // Node-Path content (user notes)
@@ -194,6 +207,7 @@ export interface NodePathRecord {
   nodeId: string;
   content: string;
   audioNotes?: AudioNoteData[]; // Multiple audio recordings for voice notes
+  owner?: string; // User who wrote the note
   lastModified?: string;
 }
 
@@ -210,13 +224,24 @@ export interface SyncState {
   error: string | null;
 }
 
+export type PendingChangeStatus = 'pending' | 'failed' | 'conflict';
+
 export interface PendingChange {
   id: string;
   type: 'create' | 'update' | 'delete';
-  entity: 'node' | 'path' | 'nodePath';
-  data: unknown;
+  entity: 'node' | 'path' | 'nodePath' | 'category';
+  targetId: string; // Record the change applies to (category page ID for categories)
+  method: string; // Backend operation replayed for this change
+  data: unknown; // Arguments for the operation
   timestamp: Date;
   retries: number;
+  status: PendingChangeStatus;
+  error?: string; // Last failure message
+  baseVersion?: string; // last_edited_time of the record when the change was made
+  conflict?: {
+    remoteVersion: string | null; // null when the record was deleted remotely
+    remote: unknown; // Current remote record, for keep-theirs and merge
+  };
 }
 
 // ============================================
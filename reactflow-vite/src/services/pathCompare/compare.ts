@@ -0,0 +1,57 @@
+// Path Comparison
+// ================
+// Which nodes two paths share, and how much they overlap
+
+// ============================================
+// Types
+// ============================================
+
+export type PathMembership = 'a' | 'b' | 'both';
+
+export interface PathComparison {
+  onlyA: string[];
+  onlyB: string[];
+  both: string[];
+  jaccard: number; // |A ∩ B| / |A ∪ B|, 0..1
+  membership: Map<string, PathMembership>;
+}
+
+// ============================================
+// Constants
+// ============================================
+
+export const MEMBERSHIP_COLORS: Record<PathMembership, string> = {
+  a: '#f59e0b',
+  b: '#8b5cf6',
+  both: '#10b981',
+};
+
+export const MEMBERSHIP_LABELS: Record<PathMembership, string> = {
+  a: 'Only A',
+  b: 'Only B',
+  both: 'Both',
+};
+
+// ============================================
+// Comparison
+// ============================================
+
+/**
+ * Split the nodes of two paths by membership, keeping each path's node order.
+ * Two empty paths count as identical.
+ */
+export function comparePaths(aNodeIds: string[], bNodeIds: string[]): PathComparison {
+  const aSet = new Set(aNodeIds);
+  const bSet = new Set(bNodeIds);
+  const both = Array.from(aSet).filter(id => bSet.has(id));
+  const onlyA = Array.from(aSet).filter(id => !bSet.has(id));
+  const onlyB = Array.from(bSet).filter(id => !aSet.has(id));
+  const union = both.length + onlyA.length + onlyB.length;
+
+  const membership = new Map<string, PathMembership>();
+  both.forEach(id => membership.set(id, 'both'));
+  onlyA.forEach(id => membership.set(id, 'a'));
+  onlyB.forEach(id => membership.set(id, 'b'));
+
+  return { onlyA, onlyB, both, jaccard: union === 0 ? 1 : both.length / union, membership };
+}
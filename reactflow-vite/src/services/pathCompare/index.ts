@@ -0,0 +1,6 @@
+// Path Compare Service Index
+// ===========================
+// Side-by-side comparison of two paths
+
+export { comparePaths, MEMBERSHIP_COLORS, MEMBERSHIP_LABELS } from './compare';
+export type { PathComparison, PathMembership } from './compare';
@@ -0,0 +1,118 @@
+// Path Study Document
+// ====================
+// Format-independent content of an exported path: notes plus each node in graph order
+
+import type { ExternalLink } from '../notion/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PathDocumentNode {
+  id: string;
+  label: string;
+  description?: string;
+  longDescription?: string;
+  note?: string; // The user's node-path note (HTML)
+  links: ExternalLink[];
+}
+
+export interface PathDocument {
+  name: string;
+  notes?: string; // Path notes (HTML)
+  exportedAt: string;
+  nodes: PathDocumentNode[];
+  snapshot?: string; // PNG data URL of the highlighted diagram
+}
+
+export interface PathDocumentSource {
+  name: string;
+  notes?: string;
+  nodeIds: string[];
+  nodes: Array<Omit<PathDocumentNode, 'note' | 'links'> & { wikiUrl?: string; externalLinks?: ExternalLink[] }>;
+  edges: Array<{ source: string; target: string }>;
+  nodeNotes: Record<string, string>; // nodeId -> note
+  snapshot?: string;
+}
+
+// ============================================
+// Ordering
+// ============================================
+
+/**
+ * Path nodes with parents before children; unrelated nodes keep their selection order
+ */
+export function graphOrder(nodeIds: string[], edges: Array<{ source: string; target: string }>): string[] {
+  const selected = new Set(nodeIds);
+  const position = new Map(nodeIds.map((id, i) => [id, i]));
+  const inDegree = new Map(nodeIds.map(id => [id, 0]));
+  const children = new Map<string, string[]>();
+
+  edges.forEach(({ source, target }) => {
+    if (!selected.has(source) || !selected.has(target) || source === target) return;
+    inDegree.set(target, (inDegree.get(target) ?? 0) + 1);
+    children.set(source, [...(children.get(source) ?? []), target]);
+  });
+
+  const byPosition = (a: string, b: string) => position.get(a)! - position.get(b)!;
+  const ready = nodeIds.filter(id => inDegree.get(id) === 0);
+  const ordered: string[] = [];
+
+  while (ready.length > 0) {
+    ready.sort(byPosition);
+    const id = ready.shift()!;
+    ordered.push(id);
+    (children.get(id) ?? []).forEach(child => {
+      const remaining = inDegree.get(child)! - 1;
+      inDegree.set(child, remaining);
+      if (remaining === 0) ready.push(child);
+    });
+  }
+
+  // Nodes caught in a cycle go last, in selection order
+  const placed = new Set(ordered);
+  return [...ordered, ...nodeIds.filter(id => !placed.has(id))];
+}
+
+// ============================================
+// Building
+// ============================================
+
+/**
+ * Collect what goes into the exported document for one path
+ */
+export function buildPathDocument(source: PathDocumentSource): PathDocument {
+  const nodesById = new Map(source.nodes.map(n => [n.id, n]));
+
+  const nodes = graphOrder(source.nodeIds, source.edges)
+    .filter(id => nodesById.has(id))
+    .map(id => {
+      const node = nodesById.get(id)!;
+      const links = [...(node.externalLinks ?? [])];
+      if (node.wikiUrl) links.unshift({ label: 'Wiki', url: node.wikiUrl });
+      return {
+        id,
+        label: node.label || id,
+        description: node.description || undefined,
+        longDescription: node.longDescription || undefined,
+        note: source.nodeNotes[id] || undefined,
+        links: links.filter(link => link.url),
+      };
+    });
+
+  return {
+    name: source.name,
+    notes: source.notes || undefined,
+    exportedAt: new Date().toISOString(),
+    nodes,
+    snapshot: source.snapshot,
+  };
+}
+
+/**
+ * File name for `document` without extension
+ */
+export function pathDocumentFileName(document: PathDocument): string {
+  const slug = document.name.trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-').toLowerCase();
+  return slug || 'path';
+}
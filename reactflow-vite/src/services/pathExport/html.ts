@@ -0,0 +1,100 @@
+// Note HTML Conversion
+// =====================
+// Notes are stored as editor HTML; exports need them as Markdown or plain text
+
+// ============================================
+// Markdown
+// ============================================
+
+function inlineMarkdown(node: Node): string {
+  if (node.nodeType === Node.TEXT_NODE) {
+    return (node.textContent || '').replace(/([*_`[\]])/g, '\\$1');
+  }
+  if (node.nodeType !== Node.ELEMENT_NODE) return '';
+
+  const el = node as Element;
+  const inner = Array.from(el.childNodes).map(inlineMarkdown).join('');
+  switch (el.tagName.toLowerCase()) {
+    case 'strong':
+    case 'b':
+      return inner.trim() ? `**${inner}**` : inner;
+    case 'em':
+    case 'i':
+      return inner.trim() ? `*${inner}*` : inner;
+    case 's':
+    case 'strike':
+      return inner.trim() ? `~~${inner}~~` : inner;
+    case 'code':
+      return `\`${el.textContent || ''}\``;
+    case 'a': {
+      const href = el.getAttribute('href');
+      return href ? `[${inner}](${href})` : inner;
+    }
+    case 'br':
+      return '  \n';
+    default:
+      return blockMarkdown(el);
+  }
+}
+
+function blockMarkdown(el: Element): string {
+  const tag = el.tagName.toLowerCase();
+  const inner = () => Array.from(el.childNodes).map(inlineMarkdown).join('');
+
+  switch (tag) {
+    case 'h1':
+    case 'h2':
+    case 'h3':
+      // Note headings sit below the document's own headings
+      return `\n\n${'#'.repeat(Number(tag[1]) + 2)} ${inner().trim()}\n\n`;
+    case 'p':
+    case 'div':
+      return `\n\n${inner().trim()}\n\n`;
+    case 'blockquote':
+      return `\n\n${inner().trim().split('\n').map(line => `> ${line}`).join('\n')}\n\n`;
+    case 'pre':
+      return `\n\n\`\`\`\n${el.textContent || ''}\n\`\`\`\n\n`;
+    case 'hr':
+      return '\n\n---\n\n';
+    case 'ul':
+    case 'ol': {
+      const items = Array.from(el.children).filter(child => child.tagName.toLowerCase() === 'li');
+      const lines = items.map((item, i) => {
+        const marker = tag === 'ol' ? `${i + 1}.` : '-';
+        const text = Array.from(item.childNodes).map(inlineMarkdown).join('').trim();
+        return `${marker} ${text.replace(/\n+/g, '\n   ')}`;
+      });
+      return `\n\n${lines.join('\n')}\n\n`;
+    }
+    default:
+      return inner();
+  }
+}
+
+/**
+ * Convert note HTML to Markdown
+ */
+export function htmlToMarkdown(html: string): string {
+  const body = new DOMParser().parseFromString(html || '', 'text/html').body;
+  return Array.from(body.childNodes)
+    .map(inlineMarkdown)
+    .join('')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// ============================================
+// Plain text
+// ============================================
+
+/**
+ * Convert note HTML to plain text, keeping paragraphs and list bullets
+ */
+export function htmlToText(html: string): string {
+  const withBreaks = (html || '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '• ')
+    .replace(/<\/(div|p|li|h[1-6]|blockquote|pre)>/gi, '\n');
+  const text = new DOMParser().parseFromString(withBreaks, 'text/html').body.textContent || '';
+  return text.replace(/\n{3,}/g, '\n\n').trim();
+}
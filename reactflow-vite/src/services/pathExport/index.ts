@@ -0,0 +1,10 @@
+// Path Export Service Index
+// ==========================
+// A path as a study document, in Markdown or PDF
+
+export { buildPathDocument, graphOrder, pathDocumentFileName } from './document';
+export type { PathDocument, PathDocumentNode, PathDocumentSource } from './document';
+export { htmlToMarkdown, htmlToText } from './html';
+export { renderMarkdown } from './markdown';
+export { renderPdf } from './pdf';
+export { captureDiagram } from './snapshot';
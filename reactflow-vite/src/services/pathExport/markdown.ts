@@ -0,0 +1,39 @@
+// Markdown Export
+// ================
+
+import type { PathDocument } from './document';
+import { htmlToMarkdown } from './html';
+
+/**
+ * Render a path document as Markdown (the diagram snapshot is embedded as a data URL)
+ */
+export function renderMarkdown(document: PathDocument): string {
+  const lines: string[] = [
+    `# ${document.name}`,
+    '',
+    `_Exported ${new Date(document.exportedAt).toLocaleString()} · ${document.nodes.length} ${document.nodes.length === 1 ? 'node' : 'nodes'}_`,
+    '',
+  ];
+
+  if (document.snapshot) {
+    lines.push(`![Diagram](${document.snapshot})`, '');
+  }
+
+  if (document.notes) {
+    lines.push('## Path notes', '', htmlToMarkdown(document.notes), '');
+  }
+
+  document.nodes.forEach((node, index) => {
+    lines.push(`## ${index + 1}. ${node.label}`, '');
+    if (node.description) lines.push(node.description, '');
+    if (node.longDescription) lines.push(node.longDescription, '');
+    if (node.note) {
+      lines.push('### My notes', '', htmlToMarkdown(node.note), '');
+    }
+    if (node.links.length > 0) {
+      lines.push('### Links', '', ...node.links.map(link => `- [${link.label || link.url}](${link.url})`), '');
+    }
+  });
+
+  return lines.join('\n').replace(/\n{3,}/g, '\n\n').trim() + '\n';
+}
@@ -0,0 +1,130 @@
+// PDF Export
+// ===========
+
+import { jsPDF } from 'jspdf';
+import type { PathDocument } from './document';
+import { htmlToText } from './html';
+
+// ============================================
+// Layout
+// ============================================
+
+// A4 portrait, in millimetres
+const MARGIN = 16;
+const LINE_HEIGHT_FACTOR = 0.45; // mm per point of font size
+
+const TEXT_COLOR: [number, number, number] = [30, 41, 59];
+const MUTED_COLOR: [number, number, number] = [100, 116, 139];
+const LINK_COLOR: [number, number, number] = [37, 99, 235];
+
+// Appends text top to bottom, starting a new page when the current one is full
+function createWriter(pdf: jsPDF) {
+  const pageWidth = pdf.internal.pageSize.getWidth();
+  const pageHeight = pdf.internal.pageSize.getHeight();
+  const contentWidth = pageWidth - MARGIN * 2;
+  let y = MARGIN;
+
+  const ensureSpace = (height: number) => {
+    if (y + height > pageHeight - MARGIN) {
+      pdf.addPage();
+      y = MARGIN;
+    }
+  };
+
+  return {
+    contentWidth,
+
+    text(text: string, size: number, options: { bold?: boolean; color?: [number, number, number]; gapAfter?: number } = {}) {
+      pdf.setFont('helvetica', options.bold ? 'bold' : 'normal');
+      pdf.setFontSize(size);
+      pdf.setTextColor(...(options.color ?? TEXT_COLOR));
+      const lineHeight = size * LINE_HEIGHT_FACTOR;
+      const lines = pdf.splitTextToSize(text, contentWidth) as string[];
+      lines.forEach(line => {
+        ensureSpace(lineHeight);
+        pdf.text(line, MARGIN, y + lineHeight * 0.8);
+        y += lineHeight;
+      });
+      y += options.gapAfter ?? 2;
+    },
+
+    link(label: string, url: string, size: number) {
+      pdf.setFont('helvetica', 'normal');
+      pdf.setFontSize(size);
+      pdf.setTextColor(...LINK_COLOR);
+      const lineHeight = size * LINE_HEIGHT_FACTOR;
+      const text = (pdf.splitTextToSize(`• ${label}`, contentWidth) as string[])[0];
+      ensureSpace(lineHeight);
+      pdf.textWithLink(text, MARGIN, y + lineHeight * 0.8, { url });
+      y += lineHeight + 1;
+    },
+
+    image(dataUrl: string) {
+      const { width, height } = pdf.getImageProperties(dataUrl);
+      const maxHeight = pageHeight - MARGIN * 2;
+      let w = contentWidth;
+      let h = (height / width) * w;
+      if (h > maxHeight) {
+        h = maxHeight;
+        w = (width / height) * h;
+      }
+      ensureSpace(h);
+      pdf.addImage(dataUrl, 'PNG', MARGIN + (contentWidth - w) / 2, y, w, h);
+      y += h + 6;
+    },
+
+    rule() {
+      ensureSpace(6);
+      pdf.setDrawColor(226, 232, 240);
+      pdf.line(MARGIN, y + 2, MARGIN + contentWidth, y + 2);
+      y += 6;
+    },
+  };
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+/**
+ * Render a path document as a PDF
+ */
+export function renderPdf(document: PathDocument): jsPDF {
+  const pdf = new jsPDF({ unit: 'mm', format: 'a4' });
+  const write = createWriter(pdf);
+
+  pdf.setProperties({ title: document.name });
+
+  write.text(document.name, 20, { bold: true, gapAfter: 1 });
+  write.text(
+    `Exported ${new Date(document.exportedAt).toLocaleString()} · ${document.nodes.length} ${document.nodes.length === 1 ? 'node' : 'nodes'}`,
+    9,
+    { color: MUTED_COLOR, gapAfter: 6 }
+  );
+
+  if (document.snapshot) {
+    write.image(document.snapshot);
+  }
+
+  if (document.notes) {
+    write.text('Path notes', 14, { bold: true });
+    write.text(htmlToText(document.notes), 10, { gapAfter: 6 });
+  }
+
+  document.nodes.forEach((node, index) => {
+    write.rule();
+    write.text(`${index + 1}. ${node.label}`, 13, { bold: true });
+    if (node.description) write.text(node.description, 10, { color: MUTED_COLOR });
+    if (node.longDescription) write.text(node.longDescription, 10);
+    if (node.note) {
+      write.text('My notes', 10, { bold: true, gapAfter: 1 });
+      write.text(htmlToText(node.note), 10);
+    }
+    if (node.links.length > 0) {
+      write.text('Links', 10, { bold: true, gapAfter: 1 });
+      node.links.forEach(link => write.link(link.label || link.url, link.url, 10));
+    }
+  });
+
+  return pdf;
+}
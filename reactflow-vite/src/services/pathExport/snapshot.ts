@@ -0,0 +1,30 @@
+// Diagram Snapshot
+// =================
+
+import html2canvas from 'html2canvas';
+
+// Overlays that aren't part of the diagram itself
+const IGNORED_CLASSES = ['react-flow__panel', 'react-flow__controls', 'react-flow__minimap', 'react-flow__attribution'];
+
+/**
+ * Capture the React Flow diagram inside `container` as a PNG data URL
+ * Returns undefined when there is no diagram to capture or the capture fails.
+ */
+export async function captureDiagram(container: HTMLElement | null, background?: string): Promise<string | undefined> {
+  const flow = container?.querySelector<HTMLElement>('.react-flow');
+  if (!flow) return undefined;
+
+  try {
+    const canvas = await html2canvas(flow, {
+      backgroundColor: background ?? null,
+      scale: Math.min(window.devicePixelRatio || 1, 2),
+      logging: false,
+      useCORS: true,
+      ignoreElements: element => IGNORED_CLASSES.some(cls => element.classList.contains(cls)),
+    });
+    return canvas.toDataURL('image/png');
+  } catch (error) {
+    console.error('Failed to capture diagram:', error);
+    return undefined;
+  }
+}
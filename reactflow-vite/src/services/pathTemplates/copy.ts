@@ -0,0 +1,74 @@
+// Path Copies
+// ============
+// Builds a new path from an existing one (a duplicate, or a path started from a template)
+
+import type { NodePathRecord, PathRecord } from '../notion/types';
+
+// ============================================
+// Types
+// ============================================
+
+export interface PathCopyOptions {
+  id: string;
+  name: string;
+  includeNodeNotes: boolean;
+  dateUpdated?: string;
+}
+
+export interface PathCopy {
+  path: PathRecord;
+  nodePaths: NodePathRecord[];
+}
+
+// ============================================
+// Copies
+// ============================================
+
+/**
+ * "Name (copy)", or "Name (copy 2)" and so on when that is taken
+ */
+export function copyPathName(name: string, existingNames: string[]): string {
+  const taken = new Set(existingNames.map(n => n.toLowerCase()));
+  const base = `${name} (copy)`;
+  if (!taken.has(base.toLowerCase())) return base;
+  let n = 2;
+  while (taken.has(`${name} (copy ${n})`.toLowerCase())) n++;
+  return `${name} (copy ${n})`;
+}
+
+/**
+ * A new path with the source's node selection, notes, folder and layout.
+ * Sharing, favourite and template flags, priority and voice notes stay with
+ * the source. `nodeNotes` maps node id to note HTML for the source path.
+ */
+export function buildPathCopy(
+  source: PathRecord,
+  nodeNotes: Record<string, string>,
+  options: PathCopyOptions
+): PathCopy {
+  const path: PathRecord = {
+    id: options.id,
+    name: options.name,
+    nodeIds: [...source.nodeIds],
+    category: source.category,
+    subcategory: source.subcategory,
+    subsubcategory: source.subsubcategory,
+    notes: source.notes,
+    status: 'active',
+    dateUpdated: options.dateUpdated ?? new Date().toISOString(),
+    layout: source.layout,
+  };
+
+  const nodePaths = options.includeNodeNotes
+    ? source.nodeIds
+        .filter(nodeId => nodeNotes[nodeId]?.trim())
+        .map(nodeId => ({
+          id: `${options.id}_${nodeId}`,
+          pathId: options.id,
+          nodeId,
+          content: nodeNotes[nodeId],
+        }))
+    : [];
+
+  return { path, nodePaths };
+}
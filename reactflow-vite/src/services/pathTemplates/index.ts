@@ -0,0 +1,6 @@
+// Path Templates Service Index
+// =============================
+// Duplicating paths and starting new ones from templates
+
+export { copyPathName, buildPathCopy } from './copy';
+export type { PathCopyOptions, PathCopy } from './copy';
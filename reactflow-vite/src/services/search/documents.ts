@@ -0,0 +1,94 @@
+// Search Documents
+// =================
+// Turns app data into the documents the full-text index is built from
+
+import { htmlToText } from '../pathExport/html';
+import type { SearchDocument } from './engine';
+
+// ============================================
+// Types
+// ============================================
+
+export interface SearchSource {
+  nodes: Array<{ id: string; label: string; description?: string; details?: string; longDescription?: string }>;
+  paths: Array<{ id: string; name: string; notes?: string }>;
+  nodeNotes: Record<string, Record<string, string>>; // pathId -> nodeId -> note (HTML)
+  pageBlocks: Record<string, unknown[]>; // nodeId -> Notion page blocks
+}
+
+interface RichTextItem {
+  plain_text?: string;
+}
+
+// ============================================
+// Notion blocks
+// ============================================
+
+/**
+ * Plain text of Notion blocks (one line per block, nested children included)
+ */
+export function blocksToText(blocks: unknown[]): string {
+  const lines: string[] = [];
+  const visit = (block: unknown) => {
+    if (!block || typeof block !== 'object') return;
+    const { type, children } = block as { type?: string; children?: unknown[] };
+    const content = type ? (block as Record<string, unknown>)[type] as { rich_text?: RichTextItem[]; title?: string } | undefined : undefined;
+    const text = content?.rich_text?.map(item => item.plain_text || '').join('') || content?.title || '';
+    if (text.trim()) lines.push(text);
+    if (Array.isArray(children)) children.forEach(visit);
+  };
+  blocks.forEach(visit);
+  return lines.join('\n');
+}
+
+// ============================================
+// Documents
+// ============================================
+
+/**
+ * One document per node, node page, path and node-path note
+ */
+export function buildSearchDocuments(source: SearchSource): SearchDocument[] {
+  const documents: SearchDocument[] = [];
+  const labels = new Map(source.nodes.map(n => [n.id, n.label || n.id]));
+  const pathNames = new Map(source.paths.map(p => [p.id, p.name]));
+
+  source.nodes.forEach(node => {
+    const text = [node.description, node.details, node.longDescription].filter(Boolean).join('\n');
+    if (text) {
+      documents.push({ id: `node:${node.id}`, kind: 'node', title: labels.get(node.id)!, text, nodeId: node.id });
+    }
+  });
+
+  Object.entries(source.pageBlocks).forEach(([nodeId, blocks]) => {
+    const text = blocksToText(blocks);
+    if (text && labels.has(nodeId)) {
+      documents.push({ id: `page:${nodeId}`, kind: 'page', title: labels.get(nodeId)!, text, nodeId });
+    }
+  });
+
+  source.paths.forEach(path => {
+    const text = path.notes ? htmlToText(path.notes) : '';
+    if (text) {
+      documents.push({ id: `path:${path.id}`, kind: 'path', title: path.name, text, pathId: path.id });
+    }
+  });
+
+  Object.entries(source.nodeNotes).forEach(([pathId, notes]) => {
+    if (!pathNames.has(pathId)) return;
+    Object.entries(notes).forEach(([nodeId, note]) => {
+      const text = note ? htmlToText(note) : '';
+      if (!text) return;
+      documents.push({
+        id: `note:${pathId}:${nodeId}`,
+        kind: 'nodeNote',
+        title: `${pathNames.get(pathId)} · ${labels.get(nodeId) || nodeId}`,
+        text,
+        nodeId,
+        pathId,
+      });
+    });
+  });
+
+  return documents;
+}
@@ -0,0 +1,158 @@
+// Full-Text Search Engine
+// ========================
+// In-memory inverted index over node content, notes and page bodies
+
+// ============================================
+// Types
+// ============================================
+
+// What a document is and where picking it should take the user
+export type SearchDocumentKind = 'node' | 'page' | 'path' | 'nodeNote';
+
+export interface SearchDocument {
+  id: string;
+  kind: SearchDocumentKind;
+  title: string;
+  text: string;
+  nodeId?: string; // 'node', 'page' and 'nodeNote'
+  pathId?: string; // 'path' and 'nodeNote'
+}
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchHit {
+  document: SearchDocument;
+  score: number;
+  snippet: SnippetPart[];
+}
+
+export interface SearchIndex {
+  documents: SearchDocument[];
+  postings: Map<string, Map<number, number>>; // token -> document index -> occurrences
+}
+
+// ============================================
+// Constants
+// ============================================
+
+const MIN_TERM_LENGTH = 2;
+const SNIPPET_RADIUS = 60;
+const TITLE_WEIGHT = 5;
+
+// ============================================
+// Tokenizing
+// ============================================
+
+function normalize(text: string): string {
+  return text.toLowerCase().normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text).split(/[^\p{L}\p{N}]+/u).filter(token => token.length >= MIN_TERM_LENGTH);
+}
+
+// ============================================
+// Indexing
+// ============================================
+
+/**
+ * Build an index over `documents`
+ */
+export function buildSearchIndex(documents: SearchDocument[]): SearchIndex {
+  const postings = new Map<string, Map<number, number>>();
+
+  documents.forEach((document, index) => {
+    const add = (token: string, weight: number) => {
+      let entry = postings.get(token);
+      if (!entry) {
+        entry = new Map();
+        postings.set(token, entry);
+      }
+      entry.set(index, (entry.get(index) ?? 0) + weight);
+    };
+    tokenize(document.title).forEach(token => add(token, TITLE_WEIGHT));
+    tokenize(document.text).forEach(token => add(token, 1));
+  });
+
+  return { documents, postings };
+}
+
+// ============================================
+// Querying
+// ============================================
+
+/**
+ * Documents matching every term of `query` (terms match word prefixes), best first
+ */
+export function searchIndex(index: SearchIndex, query: string, limit = 20): SearchHit[] {
+  const terms = Array.from(new Set(tokenize(query)));
+  if (terms.length === 0) return [];
+
+  let scores: Map<number, number> | null = null;
+  for (const term of terms) {
+    const termScores = new Map<number, number>();
+    index.postings.forEach((docs, token) => {
+      if (!token.startsWith(term)) return;
+      // Whole-word matches count more than prefix matches
+      const weight = token === term ? 2 : 1;
+      docs.forEach((count, doc) => termScores.set(doc, (termScores.get(doc) ?? 0) + count * weight));
+    });
+
+    const previous = scores;
+    const next = new Map<number, number>();
+    termScores.forEach((score, doc) => {
+      if (previous && !previous.has(doc)) return;
+      next.set(doc, (previous?.get(doc) ?? 0) + score);
+    });
+    if (next.size === 0) return [];
+    scores = next;
+  }
+
+  return Array.from((scores ?? new Map<number, number>()).entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, limit)
+    .map(([doc, score]) => {
+      const document = index.documents[doc];
+      return { document, score, snippet: buildSnippet(document.text || document.title, terms) };
+    });
+}
+
+/**
+ * The part of `text` around the first matching term, split into matching and plain runs
+ */
+export function buildSnippet(text: string, terms: string[]): SnippetPart[] {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const normalized = normalize(flat);
+  // NFD normalization can change length; fall back to the lowercase text for offsets
+  const haystack = normalized.length === flat.length ? normalized : flat.toLowerCase();
+
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}])(${terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gu');
+  const first = pattern.exec(haystack);
+  const center = first ? first.index : 0;
+  const start = Math.max(0, center - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, center + SNIPPET_RADIUS * 2);
+
+  const parts: SnippetPart[] = [];
+  if (start > 0) parts.push({ text: '…', match: false });
+
+  const windowText = haystack.slice(start, end);
+  let cursor = 0;
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(windowText)) !== null) {
+    // Highlight the whole word the term is a prefix of
+    const wordEnd = windowText.slice(match.index).search(/[^\p{L}\p{N}]/u);
+    const matchEnd = wordEnd === -1 ? windowText.length : match.index + wordEnd;
+    if (match.index > cursor) parts.push({ text: flat.slice(start + cursor, start + match.index), match: false });
+    parts.push({ text: flat.slice(start + match.index, start + matchEnd), match: true });
+    cursor = matchEnd;
+    pattern.lastIndex = matchEnd;
+  }
+  if (cursor < windowText.length) parts.push({ text: flat.slice(start + cursor, end), match: false });
+  if (end < flat.length) parts.push({ text: '…', match: false });
+
+  return parts;
+}
@@ -0,0 +1,14 @@
+// Search Service Index
+// =====================
+// Client-side full-text search over nodes, notes and Notion page bodies
+
+export { buildSearchIndex, searchIndex, buildSnippet } from './engine';
+export type {
+  SearchDocument,
+  SearchDocumentKind,
+  SearchHit,
+  SearchIndex,
+  SnippetPart,
+} from './engine';
+export { buildSearchDocuments, blocksToText } from './documents';
+export type { SearchSource } from './documents';
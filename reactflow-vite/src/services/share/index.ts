@@ -0,0 +1,113 @@
+// Share Service
+// ==============
+// Read-only links to a single path: /p/:pathId?token=...
+// The token is stored on the path record; clearing it revokes every link.
+
+import { isSessionRequired } from '../auth';
+import { queryAllDatabasePages, getAllPageBlocks } from '../notion/client';
+import { loadSharedPath } from './loader';
+import type { SharedPath } from './loader';
+
+export type { SharedPath } from './loader';
+
+const SHARE_ROUTE = /^\/p\/([^/]+)\/?$/;
+
+// ============================================
+// Links
+// ============================================
+
+/**
+ * New random share token (URL-safe)
+ */
+export function createShareToken(): string {
+  const bytes = crypto.getRandomValues(new Uint8Array(18));
+  return btoa(String.fromCharCode(...bytes))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Absolute link to the read-only view of a path
+ */
+export function getShareUrl(pathId: string, token: string): string {
+  return `${window.location.origin}/p/${encodeURIComponent(pathId)}?token=${encodeURIComponent(token)}`;
+}
+
+/**
+ * The path and token of a share link, or null when the URL isn't one
+ */
+export function parseShareUrl(location: Pick<Location, 'pathname' | 'search'>): { pathId: string; token: string } | null {
+  const match = location.pathname.match(SHARE_ROUTE);
+  if (!match) return null;
+  return {
+    pathId: decodeURIComponent(match[1]),
+    token: new URLSearchParams(location.search).get('token') || '',
+  };
+}
+
+// ============================================
+// Loading
+// ============================================
+
+/**
+ * Load a shared path without signing in. Returns null for unknown paths,
+ * paths that are no longer shared and wrong tokens.
+ */
+export async function fetchSharedPath(pathId: string, token: string): Promise<SharedPath | null> {
+  // The dev proxy talks to Notion directly; there are no /api functions locally
+  if (!isSessionRequired()) {
+    return loadSharedPath(queryAllDatabasePages, getAllPageBlocks, pathId, token);
+  }
+
+  const params = new URLSearchParams({ pathId, token });
+  const response = await fetch(`/api/share?${params.toString()}`);
+  if (response.status === 404) return null;
+  if (!response.ok) {
+    throw new Error(`Failed to load shared path (HTTP ${response.status})`);
+  }
+  return response.json() as Promise<SharedPath>;
+}
+
+// ============================================
+// Rendering
+// ============================================
+
+const ALLOWED_TAGS = new Set([
+  'a', 'b', 'blockquote', 'br', 'code', 'div', 'em', 'h1', 'h2', 'h3', 'hr',
+  'i', 'li', 'mark', 'ol', 'p', 'pre', 's', 'span', 'strike', 'strong', 'u', 'ul',
+]);
+
+/**
+ * Reduce note HTML to formatting tags before showing it to anonymous viewers
+ */
+export function sanitizeNoteHtml(html: string): string {
+  const doc = new DOMParser().parseFromString(html || '', 'text/html');
+
+  // Children first, so unwrapped content is already clean
+  const clean = (el: Element) => {
+    Array.from(el.children).forEach(child => {
+      const tag = child.tagName.toLowerCase();
+      if (tag === 'script' || tag === 'style') {
+        child.remove();
+        return;
+      }
+      clean(child);
+      if (!ALLOWED_TAGS.has(tag)) {
+        // Keep the content of unknown elements
+        child.replaceWith(...Array.from(child.childNodes));
+        return;
+      }
+      const href = child.getAttribute('href');
+      Array.from(child.attributes).forEach(attr => child.removeAttribute(attr.name));
+      if (tag === 'a' && href && /^(https?:|mailto:)/i.test(href)) {
+        child.setAttribute('href', href);
+        child.setAttribute('target', '_blank');
+        child.setAttribute('rel', 'noopener noreferrer');
+      }
+    });
+  };
+
+  clean(doc.body);
+  return doc.body.innerHTML;
+}
@@ -0,0 +1,127 @@
+// Shared Path Loader
+// ===================
+// Builds the read-only view of a shared path from the Notion databases.
+// Used by the /api/share function and, during development, by the browser.
+// Must not depend on browser-only APIs, and relative imports keep their .js
+// extension (as in /api) so the Node ESM runtime can resolve them.
+
+import { NOTION_CONFIG } from '../notion/config.js';
+import {
+  notionPageToPath,
+  notionPagesToNodes,
+  notionPageToNodePath,
+  hasNotesInBody,
+} from '../notion/transformers.js';
+import { blocksToHtml, loadBlockTree } from '../notion/blocks.js';
+import type { NodeRecord, NotionBlock, NotionPage } from '../notion/types.js';
+
+// ============================================
+// Types
+// ============================================
+
+/**
+ * Everything a share link exposes: the path, the node graph and the notes.
+ * Owner, share token and audio are deliberately left out.
+ */
+export interface SharedPath {
+  path: {
+    id: string;
+    name: string;
+    nodeIds: string[];
+    notes: string;
+  };
+  nodes: NodeRecord[];
+  nodeNotes: Record<string, string>; // nodeId -> note HTML
+}
+
+// Query every page of a database matching an optional filter
+export type QueryPages = (
+  databaseId: string,
+  filter?: Record<string, unknown>
+) => Promise<NotionPage[]>;
+
+// List every child block of a page or block
+export type ListBlocks = (blockId: string) => Promise<NotionBlock[]>;
+
+// ============================================
+// Helpers
+// ============================================
+
+/**
+ * Compare tokens without returning early on the first mismatch
+ */
+function tokensMatch(expected: string, actual: string): boolean {
+  if (expected.length !== actual.length) return false;
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+  }
+  return diff === 0;
+}
+
+/**
+ * A page's notes, from its body when it keeps them there
+ */
+async function pageNotes(listBlocks: ListBlocks, page: NotionPage, propertyNotes: string): Promise<string> {
+  if (!hasNotesInBody(page)) return propertyNotes;
+  return blocksToHtml(await loadBlockTree(listBlocks, page.id));
+}
+
+// ============================================
+// Loader
+// ============================================
+
+/**
+ * Load a shared path, or null when the path doesn't exist, isn't shared
+ * or the token doesn't match
+ */
+export async function loadSharedPath(
+  queryPages: QueryPages,
+  listBlocks: ListBlocks,
+  pathId: string,
+  token: string
+): Promise<SharedPath | null> {
+  if (!pathId || !token) return null;
+
+  const [pathPage] = await queryPages(NOTION_CONFIG.DATABASES.PATHS, {
+    property: 'id',
+    title: { equals: pathId },
+  });
+  if (!pathPage || pathPage.archived) return null;
+
+  const path = notionPageToPath(pathPage);
+  if (!path.shareToken || !tokensMatch(path.shareToken, token)) return null;
+  if (path.status?.toLowerCase() === 'deleted') return null;
+
+  const [nodePages, nodePathPages] = await Promise.all([
+    queryPages(NOTION_CONFIG.DATABASES.NODES),
+    queryPages(NOTION_CONFIG.DATABASES.NODE_PATH, {
+      property: 'pathId',
+      rich_text: { equals: pathId },
+    }),
+  ]);
+
+  const [notes, nodeNoteEntries] = await Promise.all([
+    pageNotes(listBlocks, pathPage, path.notes || ''),
+    Promise.all(nodePathPages.map(async page => {
+      const np = notionPageToNodePath(page);
+      return [np.nodeId, await pageNotes(listBlocks, page, np.content)] as const;
+    })),
+  ]);
+
+  const nodeNotes: Record<string, string> = {};
+  nodeNoteEntries.forEach(([nodeId, content]) => {
+    if (nodeId && content) nodeNotes[nodeId] = content;
+  });
+
+  return {
+    path: {
+      id: path.id,
+      name: path.name,
+      nodeIds: path.nodeIds,
+      notes,
+    },
+    nodes: notionPagesToNodes(nodePages),
+    nodeNotes,
+  };
+}
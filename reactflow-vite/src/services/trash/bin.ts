@@ -0,0 +1,276 @@
+// Trash Bin
+// ==========
+// Wraps a DataBackend so deleted paths, folders and node notes are kept
+// (per browser, in IndexedDB) with what is needed to restore them
+
+import { STORES, deleteOne, getAll, getOne, putOne } from '../local/db';
+import type {
+  DataBackend,
+  DataChangeListener,
+  DataEntity,
+  Trash,
+  TrashItem,
+  TrashItemKind,
+  TrashListener,
+} from '../backend/types';
+
+// ============================================
+// Helpers
+// ============================================
+
+function trashItemId(kind: TrashItemKind, recordId: string): string {
+  return `${kind}:${recordId}`;
+}
+
+// Notes are stored as HTML; search their text
+function htmlToText(html: string | undefined): string {
+  return (html || '').replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ');
+}
+
+/**
+ * Whether `item` mentions `query` in its name, path notes or node notes
+ */
+export function matchesTrashQuery(item: TrashItem, query: string): boolean {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return true;
+  const haystack = [
+    item.name,
+    htmlToText(item.path?.notes),
+    ...item.nodePaths.map(np => htmlToText(np.content)),
+  ].join('\n').toLowerCase();
+  return haystack.includes(needle);
+}
+
+// ============================================
+// Recorder
+// ============================================
+
+/**
+ * Keep everything deleted through `backend` in a trash it can be restored from
+ */
+export function createTrashBackend(backend: DataBackend): DataBackend {
+  const listeners = new Set<TrashListener>();
+  const changeListeners = new Set<DataChangeListener>();
+
+  // Trash items are read and written one change at a time
+  let queue: Promise<unknown> = Promise.resolve();
+
+  function serialized<T>(task: () => Promise<T>): Promise<T> {
+    const run = queue.catch(() => undefined).then(task);
+    queue = run;
+    return run;
+  }
+
+  function emit(): void {
+    listeners.forEach(listener => listener());
+  }
+
+  // Backends without change notifications still need the UI to reload after a restore
+  function notifyRestored(entities: DataEntity[]): void {
+    if (backend.addChangeListener) return;
+    entities.forEach(entity => changeListeners.forEach(listener => listener(entity)));
+  }
+
+  function updateItem(id: string, update: (existing: TrashItem | undefined) => TrashItem): Promise<void> {
+    return serialized(async () => {
+      const existing = await getOne<TrashItem>(STORES.TRASH, id);
+      await putOne(STORES.TRASH, update(existing));
+      emit();
+    }).catch(error => {
+      console.error('[trash] Failed to record deleted item:', error);
+    });
+  }
+
+  /**
+   * Take a snapshot, run the delete, then file the snapshot in the trash.
+   * The trash is best effort: failing to record never fails the delete itself.
+   */
+  async function trashed<S>(
+    snapshot: () => Promise<S | null>,
+    change: () => Promise<void>,
+    record: (taken: S, deletedAt: string) => Promise<void>
+  ): Promise<void> {
+    const taken = await snapshot().catch(error => {
+      console.error('[trash] Failed to capture deleted item:', error);
+      return null;
+    });
+    await change();
+    if (taken) await record(taken, new Date().toISOString());
+  }
+
+  async function findCategory(categoryPageId: string) {
+    const categories = await backend.fetchCategories();
+    return categories.find(c => c.notionPageId === categoryPageId || c.id === categoryPageId);
+  }
+
+  // ------------------------------------------
+  // Restore
+  // ------------------------------------------
+
+  async function restoreItem(item: TrashItem): Promise<void> {
+    switch (item.kind) {
+      case 'path': {
+        if (item.path) {
+          const paths = await backend.fetchPaths();
+          if (paths.some(p => p.id === item.path!.id)) {
+            throw new Error(`"${item.name}" is already back in your paths`);
+          }
+          if (paths.some(p => p.name === item.path!.name)) {
+            throw new Error(`A path named "${item.name}" already exists; rename it before restoring this one`);
+          }
+          // Bring its folder back first so the path lands where it was
+          const folder = item.path.category
+            ? await getOne<TrashItem>(STORES.TRASH, trashItemId('category', item.path.category))
+            : undefined;
+          if (folder) await restoreItem(folder);
+          await backend.restoreRecords('paths', [item.path]);
+        }
+        if (item.nodePaths.length > 0) {
+          await backend.restoreRecords('nodePaths', item.nodePaths);
+        }
+        break;
+      }
+      case 'category': {
+        const category = item.category!;
+        // A folder nested in another deleted folder needs its parent back first
+        const parent = category.parentId
+          ? (await getAll<TrashItem>(STORES.TRASH)).find(t => t.kind === 'category' && t.category?.notionPageId === category.parentId)
+          : undefined;
+        if (parent) await restoreItem(parent);
+        await backend.restoreRecords('categories', [category]);
+
+        // Re-file paths that were left unfiled when the folder went away
+        const pathIds = new Set(item.pathIds || []);
+        for (const path of await backend.fetchPaths()) {
+          if (pathIds.has(path.id) && !path.category) {
+            await backend.updatePathCategory(path.id, category.id, path.subcategory || '', path.subsubcategory || '');
+          }
+        }
+        break;
+      }
+      case 'nodePath': {
+        const note = item.nodePaths[0];
+        const path = await getOne<TrashItem>(STORES.TRASH, trashItemId('path', note.pathId));
+        if (path) await restoreItem(path);
+        await backend.restoreRecords('nodePaths', [note]);
+        break;
+      }
+    }
+    await deleteOne(STORES.TRASH, item.id);
+  }
+
+  const trash: Trash = {
+    async list() {
+      const items = await getAll<TrashItem>(STORES.TRASH);
+      return items.sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => { listeners.delete(listener); };
+    },
+
+    restore(itemId) {
+      return serialized(async () => {
+        const item = await getOne<TrashItem>(STORES.TRASH, itemId);
+        if (!item) throw new Error('Item is no longer in the trash');
+        try {
+          await restoreItem(item);
+        } finally {
+          emit();
+        }
+        notifyRestored(['categories', 'paths', 'nodePaths']);
+        return item;
+      });
+    },
+
+    purge(itemId) {
+      return serialized(async () => {
+        await deleteOne(STORES.TRASH, itemId);
+        emit();
+      });
+    },
+  };
+
+  return {
+    ...backend,
+
+    deleteCategory: (categoryPageId) => trashed(
+      async () => {
+        const [category, paths] = await Promise.all([findCategory(categoryPageId), backend.fetchPaths()]);
+        return category ? { category, pathIds: paths.filter(p => p.category === category.id).map(p => p.id) } : null;
+      },
+      () => backend.deleteCategory(categoryPageId),
+      ({ category, pathIds }, deletedAt) => updateItem(trashItemId('category', category.id), () => ({
+        id: trashItemId('category', category.id),
+        kind: 'category',
+        name: category.name,
+        deletedAt,
+        category,
+        nodePaths: [],
+        pathIds,
+      }))
+    ),
+
+    deletePath: (pathId) => trashed(
+      async () => (await backend.fetchPaths()).find(p => p.id === pathId) ?? null,
+      () => backend.deletePath(pathId),
+      (path, deletedAt) => updateItem(trashItemId('path', pathId), existing => ({
+        id: trashItemId('path', pathId),
+        kind: 'path',
+        name: path.name,
+        deletedAt,
+        path,
+        nodePaths: existing?.nodePaths ?? [],
+      }))
+    ),
+
+    // Notes deleted with their path are kept on the path's trash item
+    deleteNodePathsForPath: (pathId) => trashed(
+      async () => (await backend.fetchNodePaths()).filter(np => np.pathId === pathId),
+      () => backend.deleteNodePathsForPath(pathId),
+      (nodePaths, deletedAt) => updateItem(trashItemId('path', pathId), existing => ({
+        id: trashItemId('path', pathId),
+        kind: 'path',
+        name: existing?.name ?? pathId,
+        deletedAt: existing?.deletedAt ?? deletedAt,
+        path: existing?.path,
+        nodePaths,
+      }))
+    ),
+
+    deleteNodePath: (nodePathId) => trashed(
+      async () => {
+        const [nodePaths, paths, nodes] = await Promise.all([
+          backend.fetchNodePaths(),
+          backend.fetchPaths(),
+          backend.fetchNodes(),
+        ]);
+        const note = nodePaths.find(np => np.id === nodePathId);
+        if (!note) return null;
+        const nodeLabel = nodes.find(n => n.id === note.nodeId)?.label || note.nodeId;
+        const pathName = paths.find(p => p.id === note.pathId)?.name;
+        return { note, name: pathName ? `${nodeLabel} (${pathName})` : nodeLabel };
+      },
+      () => backend.deleteNodePath(nodePathId),
+      ({ note, name }, deletedAt) => updateItem(trashItemId('nodePath', nodePathId), () => ({
+        id: trashItemId('nodePath', nodePathId),
+        kind: 'nodePath',
+        name,
+        deletedAt,
+        nodePaths: [note],
+      }))
+    ),
+
+    addChangeListener(listener) {
+      changeListeners.add(listener);
+      const unsubscribe = backend.addChangeListener?.(listener);
+      return () => {
+        changeListeners.delete(listener);
+        unsubscribe?.();
+      };
+    },
+
+    trash,
+  };
+}
@@ -0,0 +1,5 @@
+// Trash Service Index
+// ====================
+// Deleted paths, folders and node notes, kept so they can be restored
+
+export { createTrashBackend, matchesTrashQuery } from './bin';
@@ -0,0 +1,380 @@
+// Write-Behind Buffer
+// ====================
+// Adds a note buffer to a DataBackend so note edits made while typing are held
+// briefly and successive edits to one record go out as a single save. Unsaved
+// edits are journaled to localStorage on every change, so closing the page
+// never loses keystrokes, and failed saves are retried with backoff.
+
+import { getCachedUserId } from '../auth';
+import type { DataBackend, NoteBufferListener, NoteSaveFailure } from '../backend/types';
+import type { NodePathRecord } from '../notion/types';
+
+// ============================================
+// Constants
+// ============================================
+
+// Quiet time after the last edit before a record is saved
+export const WRITE_BEHIND_DELAY = 1000;
+
+// Longest an edit is held while the user keeps typing
+export const WRITE_BEHIND_MAX_DELAY = 10 * 1000;
+
+// Wait before the first retry of a failed save; doubles with every attempt
+export const WRITE_BEHIND_RETRY_DELAY = 2000;
+
+// Longest wait between retries
+export const WRITE_BEHIND_MAX_RETRY_DELAY = 60 * 1000;
+
+// ============================================
+// Types
+// ============================================
+
+type PendingEdit =
+  | { kind: 'pathNotes'; pathId: string; notes: string }
+  | { kind: 'nodePath'; pathId: string; nodePath: NodePathRecord };
+
+interface HeldWrite {
+  edit: PendingEdit;
+  heldSince: number;
+  attempts: number; // Failed saves so far
+  retryAt?: number; // Set while waiting to retry a failed save
+  timer?: ReturnType<typeof setTimeout>;
+  waiters: Array<{ resolve: (value: unknown) => void; reject: (error: unknown) => void }>;
+}
+
+// ============================================
+// Helpers
+// ============================================
+
+function editKey(edit: PendingEdit): string {
+  return edit.kind === 'pathNotes' ? `pathNotes:${edit.pathId}` : `nodePath:${edit.nodePath.id}`;
+}
+
+function journalKey(): string {
+  const userId = getCachedUserId();
+  return userId ? `unsavedEdits:${userId}` : 'unsavedEdits';
+}
+
+function readJournal(): PendingEdit[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(journalKey()) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+function retryDelay(attempts: number): number {
+  return Math.min(WRITE_BEHIND_MAX_RETRY_DELAY, WRITE_BEHIND_RETRY_DELAY * Math.pow(2, attempts - 1));
+}
+
+// A newer edit replaces an older one; node-path fields it leaves out are kept
+function mergeEdits(previous: PendingEdit, edit: PendingEdit): PendingEdit {
+  return previous.kind === 'nodePath' && edit.kind === 'nodePath'
+    ? { ...edit, nodePath: { ...previous.nodePath, ...edit.nodePath } }
+    : edit;
+}
+
+// ============================================
+// Buffer
+// ============================================
+
+/**
+ * Give `backend` a note buffer that holds edits and sends each record's latest
+ * edit once typing pauses. Its own note saves stay immediate.
+ */
+export function createWriteBehindBackend(backend: DataBackend): DataBackend {
+  const held = new Map<string, HeldWrite>();
+  const inFlight = new Map<string, Promise<unknown>>();
+  // Edits the backend hasn't confirmed yet (held or in flight), mirrored to the journal
+  const unsaved = new Map<string, PendingEdit>();
+  const failures = new Map<string, NoteSaveFailure>();
+  const listeners = new Set<NoteBufferListener>();
+
+  function writeJournal(): void {
+    try {
+      if (unsaved.size === 0) {
+        localStorage.removeItem(journalKey());
+      } else {
+        localStorage.setItem(journalKey(), JSON.stringify(Array.from(unsaved.values())));
+      }
+    } catch (error) {
+      console.warn('[write-behind] Could not journal unsaved edits:', error);
+    }
+  }
+
+  function emitFailures(): void {
+    const list = Array.from(failures.values());
+    listeners.forEach(listener => listener(list));
+  }
+
+  function save(edit: PendingEdit): Promise<unknown> {
+    return edit.kind === 'pathNotes'
+      ? backend.savePathNotes(edit.pathId, edit.notes)
+      : backend.saveNodePath(edit.nodePath);
+  }
+
+  function schedule(key: string, write: HeldWrite): void {
+    if (write.timer) clearTimeout(write.timer);
+    const wait = write.retryAt !== undefined
+      ? write.retryAt - Date.now()
+      : Math.min(WRITE_BEHIND_DELAY, write.heldSince + WRITE_BEHIND_MAX_DELAY - Date.now());
+    write.timer = setTimeout(() => void flushKey(key), Math.max(0, wait));
+  }
+
+  /**
+   * Hold a failed write again to retry it later. An edit made since takes its
+   * place, and whoever waited on the failed one waits on that instead.
+   */
+  function holdForRetry(key: string, write: HeldWrite, error: unknown): void {
+    const newer = held.get(key);
+    if (!newer && unsaved.get(key) !== write.edit) {
+      // A newer edit is already on its way out
+      write.waiters.forEach(waiter => waiter.reject(new Error('Replaced by a newer save')));
+      return;
+    }
+
+    const attempts = write.attempts + 1;
+    const retryAt = Date.now() + retryDelay(attempts);
+    const retry: HeldWrite = newer
+      ? { ...newer, edit: mergeEdits(write.edit, newer.edit), waiters: [...write.waiters, ...newer.waiters] }
+      : { ...write, timer: undefined };
+    retry.attempts = attempts;
+    retry.retryAt = retryAt;
+    held.set(key, retry);
+    schedule(key, retry);
+    unsaved.set(key, retry.edit);
+    writeJournal();
+
+    failures.set(key, {
+      key,
+      pathId: write.edit.pathId,
+      nodeId: write.edit.kind === 'nodePath' ? write.edit.nodePath.nodeId : undefined,
+      error: error instanceof Error ? error.message : String(error),
+      attempts,
+      nextRetryAt: retryAt,
+    });
+    emitFailures();
+  }
+
+  /**
+   * Send the held edit for `key` now; resolves once it (and any earlier save
+   * of the same record) has settled. A failed save is held again for a retry.
+   */
+  function flushKey(key: string): Promise<void> {
+    const write = held.get(key);
+    if (!write) {
+      return (inFlight.get(key) ?? Promise.resolve()).then(() => undefined, () => undefined);
+    }
+    if (write.timer) clearTimeout(write.timer);
+    held.delete(key);
+
+    // Saves of one record go out in order
+    const run = (inFlight.get(key) ?? Promise.resolve())
+      .catch(() => undefined)
+      .then(() => save(write.edit));
+    inFlight.set(key, run);
+
+    return run.then(
+      result => {
+        write.waiters.forEach(waiter => waiter.resolve(result));
+        if (unsaved.get(key) === write.edit) {
+          unsaved.delete(key);
+          writeJournal();
+        }
+        if (failures.delete(key)) emitFailures();
+      },
+      error => {
+        console.error(`[write-behind] Saving ${key} failed (attempt ${write.attempts + 1}):`, error);
+        holdForRetry(key, write, error);
+      }
+    ).finally(() => {
+      if (inFlight.get(key) === run) inFlight.delete(key);
+    });
+  }
+
+  function keysWhere(matches: (edit: PendingEdit) => boolean): string[] {
+    const keys = new Set<string>();
+    held.forEach((write, key) => { if (matches(write.edit)) keys.add(key); });
+    unsaved.forEach((edit, key) => { if (matches(edit)) keys.add(key); });
+    return Array.from(keys);
+  }
+
+  function flushWhere(matches: (edit: PendingEdit) => boolean): Promise<void> {
+    return Promise.all(keysWhere(matches).map(flushKey)).then(() => undefined);
+  }
+
+  const flushAll = () => flushWhere(() => true);
+  const flushPath = (pathId: string) => flushWhere(edit => edit.pathId === pathId);
+
+  /**
+   * Forget the edit held for `key`, e.g. once a direct save or a delete has
+   * made it obsolete. Whoever waited on it gets `reason`.
+   */
+  function dropKey(key: string, reason: string): void {
+    const write = held.get(key);
+    if (write) {
+      if (write.timer) clearTimeout(write.timer);
+      held.delete(key);
+      write.waiters.forEach(waiter => waiter.reject(new Error(reason)));
+    }
+    if (unsaved.delete(key)) writeJournal();
+    if (failures.delete(key)) emitFailures();
+  }
+
+  /**
+   * Send the held edits for `keys`, then drop whatever failed, before a write
+   * that replaces them goes out
+   */
+  async function settleBefore(keys: string[], reason: string): Promise<void> {
+    await Promise.all(keys.map(flushKey));
+    keys.forEach(key => dropKey(key, reason));
+  }
+
+  /**
+   * Hold an edit, merging it into one already held for the same record
+   */
+  function hold<T>(edit: PendingEdit): Promise<T> {
+    const key = editKey(edit);
+    let write = held.get(key);
+    if (write) {
+      write.edit = mergeEdits(write.edit, edit);
+    } else {
+      write = { edit, heldSince: Date.now(), attempts: 0, waiters: [] };
+      held.set(key, write);
+    }
+    // A write waiting to be retried keeps its backoff
+    if (write.retryAt === undefined) schedule(key, write);
+
+    unsaved.set(key, write.edit);
+    writeJournal();
+
+    const waiters = write.waiters;
+    return new Promise<T>((resolve, reject) => {
+      waiters.push({ resolve: resolve as (value: unknown) => void, reject });
+    });
+  }
+
+  // Overlay edits the backend doesn't have yet on what it returns
+  function withUnsavedNotes<T extends { id: string; notes?: string }>(paths: T[]): T[] {
+    return paths.map(path => {
+      const edit = unsaved.get(`pathNotes:${path.id}`);
+      return edit?.kind === 'pathNotes' ? { ...path, notes: edit.notes } : path;
+    });
+  }
+
+  function withUnsavedNodePaths(nodePaths: NodePathRecord[]): NodePathRecord[] {
+    const edits = new Map<string, NodePathRecord>();
+    unsaved.forEach(edit => { if (edit.kind === 'nodePath') edits.set(edit.nodePath.id, edit.nodePath); });
+    if (edits.size === 0) return nodePaths;
+    const merged = nodePaths.map(np => {
+      const edit = edits.get(np.id);
+      edits.delete(np.id);
+      return edit ? { ...np, ...edit } : np;
+    });
+    return [...merged, ...edits.values()];
+  }
+
+  // Edits the previous session couldn't confirm are saved again
+  readJournal().forEach(edit => {
+    hold(edit).catch(() => undefined);
+  });
+
+  if (typeof window !== 'undefined') {
+    // Held edits are already journaled; start sending them while the page can
+    window.addEventListener('beforeunload', () => {
+      void flushAll();
+    });
+  }
+
+  return {
+    ...backend,
+
+    fetchPaths: async (forceRefresh) => withUnsavedNotes(await backend.fetchPaths(forceRefresh)),
+
+    fetchNodePaths: async (forceRefresh) => withUnsavedNodePaths(await backend.fetchNodePaths(forceRefresh)),
+
+    // Direct saves go out at once and replace any edit still held for the record
+
+    async savePathNotes(pathId, notes) {
+      await settleBefore([`pathNotes:${pathId}`], 'Replaced by a newer save');
+      return backend.savePathNotes(pathId, notes);
+    },
+
+    async saveNodePath(nodePath) {
+      await settleBefore([`nodePath:${nodePath.id}`], 'Replaced by a newer save');
+      return backend.saveNodePath(nodePath);
+    },
+
+    // Every other write to a record waits for its held edits, so calls stay in order
+
+    async savePath(path) {
+      await flushPath(path.id);
+      return backend.savePath(path);
+    },
+
+    async deletePath(pathId) {
+      await settleBefore(keysWhere(edit => edit.pathId === pathId), 'The path was deleted');
+      return backend.deletePath(pathId);
+    },
+
+    async batchSaveNodePaths(nodePaths) {
+      await settleBefore(nodePaths.map(np => `nodePath:${np.id}`), 'Replaced by a newer save');
+      return backend.batchSaveNodePaths(nodePaths);
+    },
+
+    async deleteNodePathsForPath(pathId) {
+      await settleBefore(keysWhere(edit => edit.kind === 'nodePath' && edit.pathId === pathId), 'The note was deleted');
+      return backend.deleteNodePathsForPath(pathId);
+    },
+
+    async deleteNodePath(nodePathId) {
+      await settleBefore([`nodePath:${nodePathId}`], 'The note was deleted');
+      return backend.deleteNodePath(nodePathId);
+    },
+
+    async saveNodePathAudioNote(nodePathId, pathId, nodeId, audioBlob) {
+      await flushKey(`nodePath:${nodePathId}`);
+      return backend.saveNodePathAudioNote(nodePathId, pathId, nodeId, audioBlob);
+    },
+
+    async refreshAllData() {
+      await flushAll();
+      return backend.refreshAllData();
+    },
+
+    migrateNotesToPageBodies: backend.migrateNotesToPageBodies && (async (onProgress) => {
+      await flushAll();
+      return backend.migrateNotesToPageBodies!(onProgress);
+    }),
+
+    history: backend.history && {
+      ...backend.history,
+      restore: async (pathId, revisionId) => {
+        await settleBefore(keysWhere(edit => edit.pathId === pathId), 'Replaced by a restored revision');
+        return backend.history!.restore(pathId, revisionId);
+      },
+    },
+
+    noteBuffer: {
+      queuePathNotes: (pathId, notes) => hold<void>({ kind: 'pathNotes', pathId, notes }),
+
+      queueNodePath: (nodePath) => hold<NodePathRecord>({ kind: 'nodePath', pathId: nodePath.pathId, nodePath }),
+
+      subscribe(listener) {
+        listeners.add(listener);
+        listener(Array.from(failures.values()));
+        return () => { listeners.delete(listener); };
+      },
+
+      async retryNow() {
+        held.forEach(write => { write.retryAt = undefined; });
+        await flushAll();
+      },
+
+      discard(key) {
+        dropKey(key, 'The edit was discarded');
+      },
+    },
+  };
+}
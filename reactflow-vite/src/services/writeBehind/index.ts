@@ -0,0 +1,11 @@
+// Write-Behind Service Index
+// ===========================
+// Holds note edits briefly so each record is saved once per pause in typing
+
+export {
+  createWriteBehindBackend,
+  WRITE_BEHIND_DELAY,
+  WRITE_BEHIND_MAX_DELAY,
+  WRITE_BEHIND_RETRY_DELAY,
+  WRITE_BEHIND_MAX_RETRY_DELAY,
+} from './buffer';
@@ -1 +1,14 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Which DataBackend the app runs against (see src/services/backend/config.ts)
+  readonly VITE_DATA_BACKEND?: string;
+  // Set to 'false' to talk to the backend directly without the offline store
+  readonly VITE_LOCAL_FIRST?: string;
+  // User that owns records when running against the dev proxy (no sign-in locally)
+  readonly VITE_DEV_USER?: string;
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv;
+}